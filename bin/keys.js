@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+// bin/keys.js - Manage API keys for the workflow service
+
+const crypto = require('crypto');
+const { execFileSync } = require('child_process');
+const { program } = require('commander');
+const chalk = require('chalk');
+
+const SCOPES = ['start', 'read', 'cancel', 'track', 'admin'];
+
+// Keys are generated the same way the service generates them
+const KEY_PREFIX = 'ffk_';
+
+program
+  .name('flowflare-keys')
+  .description('Create, list, rotate and revoke API keys for the workflow service')
+  .option('-d, --database <name>', 'D1 database name', 'workflow_tracker')
+  .option('--remote', 'Run against the remote database instead of the local one');
+
+program
+  .command('create')
+  .description('Create an API key')
+  .requiredOption('-n, --name <name>', 'Name to recognise the key by')
+  .requiredOption('-s, --scopes <scopes>', `Comma-separated scopes (${SCOPES.join(', ')})`)
+  .option('-w, --workflow-types <types>', 'Comma-separated workflow types the key may access')
+  .option('-r, --ref-types <types>', 'Comma-separated reference types the key may access')
+  .option('-t, --tenant <id>', 'Tenant the key is bound to')
+  .option('-e, --expires <date>', 'When the key stops working (ISO date)')
+  .action((options) => {
+    const scopes = splitList(options.scopes);
+    const invalid = scopes.filter(scope => !SCOPES.includes(scope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      fail(`Invalid scopes: ${options.scopes}. Use any of: ${SCOPES.join(', ')}`);
+    }
+
+    if (options.tenant && !/^[A-Za-z0-9_-]{1,64}$/.test(options.tenant)) {
+      fail(`Invalid tenant: ${options.tenant}. Use 1-64 letters, digits, dashes or underscores`);
+    }
+
+    const expiresAt = options.expires ? parseDate(options.expires) : null;
+    const { key, id } = insertKey({
+      name: options.name,
+      scopes,
+      workflowTypes: splitList(options.workflowTypes),
+      refTypes: splitList(options.refTypes),
+      tenantId: options.tenant,
+      expiresAt
+    });
+
+    console.log(chalk.green(`Created API key ${options.name} (${id})`));
+    printKey(key);
+  });
+
+program
+  .command('list')
+  .description('List API keys')
+  .option('-a, --all', 'Include revoked keys')
+  .action((options) => {
+    const rows = execute(
+      `SELECT * FROM api_keys ${options.all ? '' : 'WHERE revoked_at IS NULL'} ORDER BY created_at DESC`
+    );
+
+    if (rows.length === 0) {
+      console.log(chalk.yellow('No API keys found'));
+      return;
+    }
+
+    for (const row of rows) {
+      const status = row.revoked_at
+        ? chalk.red('revoked')
+        : row.expires_at && row.expires_at <= new Date().toISOString()
+          ? chalk.red('expired')
+          : chalk.green('active');
+
+      console.log(`${chalk.bold(row.name)} ${chalk.gray(row.id)} [${status}]`);
+      console.log(`  prefix:         ${row.key_prefix}...`);
+      console.log(`  scopes:         ${JSON.parse(row.scopes).join(', ')}`);
+      if (row.tenant_id) {
+        console.log(`  tenant:         ${row.tenant_id}`);
+      }
+      if (row.workflow_types) {
+        console.log(`  workflow types: ${JSON.parse(row.workflow_types).join(', ')}`);
+      }
+      if (row.ref_types) {
+        console.log(`  ref types:      ${JSON.parse(row.ref_types).join(', ')}`);
+      }
+      console.log(`  expires:        ${row.expires_at || 'never'}`);
+      console.log(`  last used:      ${row.last_used_at || 'never'}`);
+    }
+  });
+
+program
+  .command('rotate <id>')
+  .description('Replace an API key with a new key that has the same scopes')
+  .option('-g, --grace <seconds>', 'Seconds the old key keeps working', '0')
+  .action((id, options) => {
+    const [row] = execute(`SELECT * FROM api_keys WHERE id = ${sqlValue(id)} AND revoked_at IS NULL`);
+    if (!row) {
+      fail(`Active API key not found: ${id}`);
+    }
+
+    const grace = Number(options.grace);
+    if (!Number.isInteger(grace) || grace < 0) {
+      fail(`Invalid grace period: ${options.grace}`);
+    }
+
+    const { key, id: newId } = insertKey({
+      name: row.name,
+      scopes: JSON.parse(row.scopes),
+      workflowTypes: row.workflow_types ? JSON.parse(row.workflow_types) : [],
+      refTypes: row.ref_types ? JSON.parse(row.ref_types) : [],
+      tenantId: row.tenant_id,
+      expiresAt: row.expires_at,
+      rotatedFrom: row.id
+    });
+
+    const now = new Date();
+    if (grace > 0) {
+      // Keep the old key working until callers have switched over
+      const graceEnd = new Date(now.getTime() + grace * 1000).toISOString();
+      const expiresAt = row.expires_at && row.expires_at < graceEnd ? row.expires_at : graceEnd;
+      execute(
+        `UPDATE api_keys SET expires_at = ${sqlValue(expiresAt)}, updated_at = ${sqlValue(now.toISOString())} WHERE id = ${sqlValue(id)}`
+      );
+      console.log(chalk.yellow(`The old key keeps working until ${expiresAt}`));
+    } else {
+      execute(
+        `UPDATE api_keys SET revoked_at = ${sqlValue(now.toISOString())}, updated_at = ${sqlValue(now.toISOString())} WHERE id = ${sqlValue(id)}`
+      );
+    }
+
+    console.log(chalk.green(`Rotated API key ${row.name} (${id} -> ${newId})`));
+    printKey(key);
+  });
+
+program
+  .command('revoke <id>')
+  .description('Revoke an API key')
+  .action((id) => {
+    const [row] = execute(`SELECT id, name FROM api_keys WHERE id = ${sqlValue(id)} AND revoked_at IS NULL`);
+    if (!row) {
+      fail(`Active API key not found: ${id}`);
+    }
+
+    const now = new Date().toISOString();
+    execute(
+      `UPDATE api_keys SET revoked_at = ${sqlValue(now)}, updated_at = ${sqlValue(now)} WHERE id = ${sqlValue(id)}`
+    );
+
+    console.log(chalk.green(`Revoked API key ${row.name} (${id})`));
+  });
+
+// Generate a key and store its hash
+function insertKey({ name, scopes, workflowTypes, refTypes, tenantId, expiresAt, rotatedFrom }) {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  execute(
+    `INSERT INTO api_keys (id, name, key_prefix, key_hash, scopes, workflow_types, ref_types, tenant_id, expires_at, rotated_from, created_at, updated_at) VALUES (${[
+      id,
+      name,
+      key.slice(0, KEY_PREFIX.length + 8),
+      crypto.createHash('sha256').update(key).digest('hex'),
+      JSON.stringify(scopes),
+      workflowTypes.length > 0 ? JSON.stringify(workflowTypes) : null,
+      refTypes.length > 0 ? JSON.stringify(refTypes) : null,
+      tenantId || null,
+      expiresAt || null,
+      rotatedFrom || null,
+      now,
+      now
+    ].map(sqlValue).join(', ')})`
+  );
+
+  return { key, id };
+}
+
+// Run a SQL statement with wrangler and return the result rows
+function execute(sql) {
+  const { database, remote } = program.opts();
+  const args = ['wrangler', 'd1', 'execute', database, '--json', '--command', sql];
+  if (remote) {
+    args.push('--remote');
+  }
+
+  try {
+    const output = execFileSync('npx', args, { encoding: 'utf8' });
+    const results = JSON.parse(output);
+    return (results[0] && results[0].results) || [];
+  } catch (error) {
+    fail(`Error running wrangler d1 execute: ${error.message}`);
+  }
+}
+
+// Quote a value as a SQL literal
+function sqlValue(value) {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function splitList(value) {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+function parseDate(value) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    fail(`Invalid date: ${value}`);
+  }
+
+  return date.toISOString();
+}
+
+function printKey(key) {
+  console.log(chalk.blue('Key (store it now, it will not be shown again):'));
+  console.log(key);
+}
+
+function fail(message) {
+  console.error(chalk.red(message));
+  process.exit(1);
+}
+
+program.parse(process.argv);
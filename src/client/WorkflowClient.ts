@@ -1,8 +1,20 @@
 // src/client/WorkflowClient.ts
 import {
+  ApiKeyOptions,
+  DelayedWorkflowListOptions,
+  RetentionPolicyOptions,
+  RunExportOptions,
+  StatsOptions,
+  VersionComparisonOptions,
+  StartWorkflowOptions,
   WorkflowClientOptions,
+  WorkflowDefinitionOptions,
+  WorkflowIterationOptions,
   WorkflowListOptions,
   WorkflowRefQueryOptions,
+  WorkflowScheduleListOptions,
+  WorkflowScheduleOptions,
+  WorkflowStartItem,
 } from "./types";
 
 /**
@@ -32,6 +44,7 @@ export class WorkflowClient {
    * @param ref_id External reference ID (e.g., order ID, user ID)
    * @param ref_type Reference type (e.g., "order", "user")
    * @param metadata Additional metadata about the workflow run (e.g., who triggered it)
+   * @param options Additional start options (e.g., idempotency key)
    * @returns Promise resolving to the response with the workflowId
    */
   async startWorkflow(
@@ -40,6 +53,7 @@ export class WorkflowClient {
     ref_id?: string,
     ref_type?: string,
     metadata?: Record<string, any>,
+    options: StartWorkflowOptions = {},
   ): Promise<any> {
     const payload = {
       workflowType,
@@ -47,33 +61,26 @@ export class WorkflowClient {
       ref_id,
       ref_type,
       metadata,
+      idempotencyKey: options.idempotencyKey,
+      startAt: this.toTimestamp(options.startAt),
     };
 
-    if (this.serviceBinding) {
-      // Use direct service binding if available
-      return this.serviceBinding
-        .fetch("/service/start-workflow", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-API-Key": this.apiKey,
-          },
-          body: JSON.stringify(payload),
-        })
-        .then((res) => res.json());
-    } else if (this.serviceUrl) {
-      // Fall back to HTTP request
-      return fetch(`${this.serviceUrl}/service/start-workflow`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.apiKey,
-        },
-        body: JSON.stringify(payload),
-      }).then((res) => res.json());
-    } else {
-      throw new Error("Either serviceBinding or serviceUrl must be provided");
-    }
+    return this.sendRequest("/service/start-workflow", payload);
+  }
+
+  /**
+   * Start many workflows in a single request
+   *
+   * @param workflows Workflows to start (at most 100 per request)
+   * @returns Promise resolving to the response with a result per workflow
+   */
+  async startWorkflows(workflows: WorkflowStartItem[]): Promise<any> {
+    return this.sendRequest("/service/start-workflows", {
+      workflows: workflows.map((workflow) => ({
+        ...workflow,
+        startAt: this.toTimestamp(workflow.startAt),
+      })),
+    });
   }
 
   /**
@@ -85,31 +92,7 @@ export class WorkflowClient {
   async getWorkflow(workflowId: string): Promise<any> {
     const payload = { workflowId };
 
-    if (this.serviceBinding) {
-      // Use direct service binding if available
-      return this.serviceBinding
-        .fetch("/service/get-workflow", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-API-Key": this.apiKey,
-          },
-          body: JSON.stringify(payload),
-        })
-        .then((res) => res.json());
-    } else if (this.serviceUrl) {
-      // Fall back to HTTP request
-      return fetch(`${this.serviceUrl}/service/get-workflow`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.apiKey,
-        },
-        body: JSON.stringify(payload),
-      }).then((res) => res.json());
-    } else {
-      throw new Error("Either serviceBinding or serviceUrl must be provided");
-    }
+    return this.sendRequest("/service/get-workflow", payload);
   }
 
   /**
@@ -120,36 +103,12 @@ export class WorkflowClient {
    */
   async listWorkflows(options: WorkflowListOptions = {}): Promise<any> {
     const payload = {
-      status: options.status,
+      ...options,
       limit: options.limit || 20,
       offset: options.offset || 0,
     };
 
-    if (this.serviceBinding) {
-      // Use direct service binding if available
-      return this.serviceBinding
-        .fetch("/service/list-workflows", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-API-Key": this.apiKey,
-          },
-          body: JSON.stringify(payload),
-        })
-        .then((res) => res.json());
-    } else if (this.serviceUrl) {
-      // Fall back to HTTP request
-      return fetch(`${this.serviceUrl}/service/list-workflows`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.apiKey,
-        },
-        body: JSON.stringify(payload),
-      }).then((res) => res.json());
-    } else {
-      throw new Error("Either serviceBinding or serviceUrl must be provided");
-    }
+    return this.sendRequest("/service/list-workflows", payload);
   }
 
   /**
@@ -164,35 +123,403 @@ export class WorkflowClient {
     }
 
     const payload = {
+      ...options,
+      limit: options.limit || 20,
+      offset: options.offset || 0,
+    };
+
+    return this.sendRequest("/service/get-workflows-by-ref", payload);
+  }
+
+  /**
+   * Walk through all workflow runs matching the filters, newest first,
+   * fetching one page at a time. Filters with ref_id or ref_type use
+   * getWorkflowsByRef, others listWorkflows.
+   *
+   * @param options Filters and page size
+   * @returns Async iterator over the runs
+   * @throws Error if the service rejects a page
+   */
+  async *iterateWorkflows(
+    options: WorkflowIterationOptions = {},
+  ): AsyncGenerator<any, void, undefined> {
+    let cursor: string | undefined;
+
+    do {
+      const page =
+        options.ref_id || options.ref_type
+          ? await this.getWorkflowsByRef({ ...options, cursor })
+          : await this.listWorkflows({ ...options, cursor });
+
+      if (!page.success) {
+        throw new Error(page.error || "Failed to list workflows");
+      }
+
+      yield* page.workflows;
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Cancel a running, sleeping or paused workflow run
+   *
+   * @param workflowId The ID of the workflow run to cancel
+   * @returns Promise resolving to the response with the new status
+   */
+  async cancelWorkflow(workflowId: string): Promise<any> {
+    return this.sendRequest("/service/cancel-workflow", { workflowId });
+  }
+
+  /**
+   * Pause a running workflow run
+   *
+   * @param workflowId The ID of the workflow run to pause
+   * @returns Promise resolving to the response with the new status
+   */
+  async pauseWorkflow(workflowId: string): Promise<any> {
+    return this.sendRequest("/service/pause-workflow", { workflowId });
+  }
+
+  /**
+   * Resume a paused workflow run
+   *
+   * @param workflowId The ID of the workflow run to resume
+   * @returns Promise resolving to the response with the new status
+   */
+  async resumeWorkflow(workflowId: string): Promise<any> {
+    return this.sendRequest("/service/resume-workflow", { workflowId });
+  }
+
+  /**
+   * List delayed runs that are still waiting for their start time
+   *
+   * @param options Query options
+   * @returns Promise resolving to list of delayed runs, soonest first
+   */
+  async listDelayedWorkflows(
+    options: DelayedWorkflowListOptions = {},
+  ): Promise<any> {
+    return this.sendRequest("/service/list-delayed-workflows", {
+      workflowType: options.workflowType,
       ref_id: options.ref_id,
       ref_type: options.ref_type,
-      status: options.status,
       limit: options.limit || 20,
       offset: options.offset || 0,
-    };
+    });
+  }
+
+  /**
+   * Compare failure rate and duration across versions of a workflow type
+   *
+   * @param workflowType The type/name of workflow to compare
+   * @param options Versions and time range to compare
+   * @returns Promise resolving to per-version run statistics
+   */
+  async compareVersions(
+    workflowType: string,
+    options: VersionComparisonOptions = {},
+  ): Promise<any> {
+    return this.sendRequest("/service/compare-versions", {
+      workflowType,
+      versions: options.versions,
+      since: this.toTimestamp(options.since),
+      until: this.toTimestamp(options.until),
+    });
+  }
 
+  /**
+   * Get run and step statistics per workflow type over a time window:
+   * totals, success and error rates, duration percentiles, average retries
+   * and run counts per hour or day
+   *
+   * @param options Workflow type, window and bucket size
+   * @returns Promise resolving to per-workflow-type statistics
+   */
+  async getStats(options: StatsOptions = {}): Promise<any> {
+    return this.sendRequest("/service/stats", {
+      workflowType: options.workflowType,
+      since: this.toTimestamp(options.since),
+      until: this.toTimestamp(options.until),
+      bucket: options.bucket,
+    });
+  }
+
+  /**
+   * Export runs as NDJSON (one run per line, with steps and retries nested)
+   * or CSV (one row per step). The export is streamed, so read it from the
+   * response body instead of buffering it.
+   *
+   * @param options Format, filters and sort order
+   * @returns Promise resolving to the streaming response
+   * @throws Error if the service rejects the export
+   */
+  async exportRuns(options: RunExportOptions = {}): Promise<Response> {
+    const response = await this.sendRawRequest("/service/export", {
+      ...options,
+      format: options.format || "ndjson",
+    });
+
+    if (!response.ok) {
+      const body = await response.json() as { error?: string };
+      throw new Error(body.error || `Export failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Re-run an errored or cancelled workflow run from its stored input
+   *
+   * @param runId The ID of the workflow run to re-run
+   * @param overrides Parameters to merge over the original input parameters
+   * @returns Promise resolving to the response with the new workflowId
+   */
+  async rerunWorkflow(
+    runId: string,
+    overrides?: Record<string, any>,
+  ): Promise<any> {
+    return this.sendRequest("/service/rerun-workflow", { runId, overrides });
+  }
+
+  /**
+   * Register or replace a workflow definition
+   *
+   * @param definition Workflow definition
+   * @returns Promise resolving to the response with the saved definition
+   */
+  async registerDefinition(
+    definition: WorkflowDefinitionOptions,
+  ): Promise<any> {
+    return this.sendRequest("/service/definitions/register", { definition });
+  }
+
+  /**
+   * List registered workflow definitions
+   *
+   * @returns Promise resolving to list of definitions
+   */
+  async listDefinitions(): Promise<any> {
+    return this.sendRequest("/service/definitions/list", {});
+  }
+
+  /**
+   * Get a workflow definition
+   *
+   * @param name Workflow type/name
+   * @returns Promise resolving to the definition
+   */
+  async getDefinition(name: string): Promise<any> {
+    return this.sendRequest("/service/definitions/get", { name });
+  }
+
+  /**
+   * Delete a workflow definition
+   *
+   * @param name Workflow type/name
+   * @returns Promise resolving to the response
+   */
+  async deleteDefinition(name: string): Promise<any> {
+    return this.sendRequest("/service/definitions/delete", { name });
+  }
+
+  /**
+   * Show which runs would be deleted by the retention policies (requires
+   * an admin key). Pass a policy to preview it before configuring it.
+   *
+   * @param retention Policy to preview instead of the configured one
+   * @param workflowType Workflow type the policy is for; without it the
+   * policy replaces the service's default policy
+   * @returns Promise resolving to the runs, steps and retries that would
+   * be deleted, per workflow type and status
+   */
+  async previewRetention(
+    retention?: RetentionPolicyOptions,
+    workflowType?: string,
+  ): Promise<any> {
+    return this.sendRequest("/service/retention/preview", {
+      retention,
+      workflowType,
+    });
+  }
+
+  /**
+   * Create a schedule that starts a workflow on a cron expression
+   *
+   * @param schedule Schedule definition (cron and workflowType are required)
+   * @returns Promise resolving to the response with the created schedule
+   */
+  async createSchedule(schedule: WorkflowScheduleOptions): Promise<any> {
+    return this.sendRequest("/service/schedules/create", { schedule });
+  }
+
+  /**
+   * List workflow schedules
+   *
+   * @param options Query options
+   * @returns Promise resolving to list of schedules
+   */
+  async listSchedules(options: WorkflowScheduleListOptions = {}): Promise<any> {
+    return this.sendRequest("/service/schedules/list", {
+      workflowType: options.workflowType,
+      enabled: options.enabled,
+      limit: options.limit || 20,
+      offset: options.offset || 0,
+    });
+  }
+
+  /**
+   * Get a workflow schedule
+   *
+   * @param id The ID of the schedule
+   * @returns Promise resolving to the schedule
+   */
+  async getSchedule(id: string): Promise<any> {
+    return this.sendRequest("/service/schedules/get", { id });
+  }
+
+  /**
+   * Update a workflow schedule
+   *
+   * @param id The ID of the schedule
+   * @param schedule Fields to change
+   * @returns Promise resolving to the response with the updated schedule
+   */
+  async updateSchedule(
+    id: string,
+    schedule: WorkflowScheduleOptions,
+  ): Promise<any> {
+    return this.sendRequest("/service/schedules/update", { id, schedule });
+  }
+
+  /**
+   * Delete a workflow schedule
+   *
+   * @param id The ID of the schedule
+   * @returns Promise resolving to the response
+   */
+  async deleteSchedule(id: string): Promise<any> {
+    return this.sendRequest("/service/schedules/delete", { id });
+  }
+
+  /**
+   * Create an API key (requires an admin key)
+   *
+   * @param apiKey Name, scopes, restrictions and expiry of the key
+   * @returns Promise resolving to the response with the plain-text key,
+   * which is only returned once
+   */
+  async createApiKey(apiKey: ApiKeyOptions): Promise<any> {
+    return this.sendRequest("/service/api-keys/create", {
+      apiKey: { ...apiKey, expiresAt: this.toTimestamp(apiKey.expiresAt) },
+    });
+  }
+
+  /**
+   * List API keys (requires an admin key)
+   *
+   * @param includeRevoked Whether to include revoked keys
+   * @returns Promise resolving to the list of keys
+   */
+  async listApiKeys(includeRevoked = false): Promise<any> {
+    return this.sendRequest("/service/api-keys/list", { includeRevoked });
+  }
+
+  /**
+   * Get an API key (requires an admin key)
+   *
+   * @param id ID of the key
+   * @returns Promise resolving to the key
+   */
+  async getApiKey(id: string): Promise<any> {
+    return this.sendRequest("/service/api-keys/get", { id });
+  }
+
+  /**
+   * Replace an API key with a new key with the same scopes (requires an
+   * admin key)
+   *
+   * @param id ID of the key to rotate
+   * @param gracePeriod Seconds the old key keeps working
+   * @returns Promise resolving to the response with the new plain-text key
+   */
+  async rotateApiKey(id: string, gracePeriod = 0): Promise<any> {
+    return this.sendRequest("/service/api-keys/rotate", { id, gracePeriod });
+  }
+
+  /**
+   * Revoke an API key (requires an admin key)
+   *
+   * @param id ID of the key
+   * @returns Promise resolving to the response
+   */
+  async revokeApiKey(id: string): Promise<any> {
+    return this.sendRequest("/service/api-keys/revoke", { id });
+  }
+
+  /**
+   * Get a short-lived token for opening a tracker WebSocket, e.g. to hand
+   * to a browser as `/api/tracker-websocket?token=<token>` (requires the
+   * read scope)
+   *
+   * @returns Promise resolving to the response with the token and its expiry
+   */
+  async createWebSocketToken(): Promise<any> {
+    return this.sendRequest("/api/tracker-websocket/token", {});
+  }
+
+  /**
+   * Convert a start time to an ISO timestamp for the service
+   *
+   * @param value Date, ISO string or epoch milliseconds
+   * @returns ISO timestamp or undefined
+   */
+  private toTimestamp(value?: Date | string | number): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    return new Date(value).toISOString();
+  }
+
+  /**
+   * Send a request to a service endpoint
+   *
+   * @param path Service endpoint path
+   * @param payload JSON payload to send
+   * @returns Promise resolving to the parsed JSON response
+   */
+  private async sendRequest(path: string, payload: any): Promise<any> {
+    return this.sendRawRequest(path, payload).then((res) => res.json());
+  }
+
+  /**
+   * Send a request to a service endpoint without parsing the response
+   *
+   * @param path Service endpoint path
+   * @param payload JSON payload to send
+   * @returns Promise resolving to the response
+   */
+  private async sendRawRequest(path: string, payload: any): Promise<Response> {
     if (this.serviceBinding) {
       // Use direct service binding if available
-      return this.serviceBinding
-        .fetch("/service/get-workflows-by-ref", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-API-Key": this.apiKey,
-          },
-          body: JSON.stringify(payload),
-        })
-        .then((res) => res.json());
+      return this.serviceBinding.fetch(path, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-API-Key": this.apiKey,
+        },
+        body: JSON.stringify(payload),
+      });
     } else if (this.serviceUrl) {
       // Fall back to HTTP request
-      return fetch(`${this.serviceUrl}/service/get-workflows-by-ref`, {
+      return fetch(`${this.serviceUrl}${path}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "X-API-Key": this.apiKey,
         },
         body: JSON.stringify(payload),
-      }).then((res) => res.json());
+      });
     } else {
       throw new Error("Either serviceBinding or serviceUrl must be provided");
     }
@@ -1,4 +1,14 @@
 // src/client/types.ts
+import type { RunInclude, WorkflowRunFilter } from "../service/types";
+
+// The run filter and WebSocket subscriptions are shared with the service
+export type {
+  JsonFieldValue,
+  RunInclude,
+  TrackerSubscription,
+  WorkflowRunFilter,
+  WorkflowRunSortField,
+} from "../service/types";
 
 /**
  * Configuration options for the workflow client
@@ -21,13 +31,68 @@ export interface WorkflowClientOptions {
 }
 
 /**
- * Query options for listing workflows
+ * Additional options for starting a workflow
+ */
+export interface StartWorkflowOptions {
+  /**
+   * Key identifying this start request; retries with the same key
+   * return the original run instead of starting a new one
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Start the run at a later time instead of immediately; the run is
+   * created as Pending and dispatched when it is due
+   */
+  startAt?: Date | string | number;
+}
+
+/**
+ * A single workflow to start in a batch request
+ */
+export interface WorkflowStartItem {
+  /**
+   * The type/name of workflow to start
+   */
+  workflowType: string;
+
+  /**
+   * Parameters to pass to the workflow
+   */
+  params?: Record<string, any>;
+
+  /**
+   * External reference ID (e.g., order ID, user ID)
+   */
+  ref_id?: string;
+
+  /**
+   * Reference type (e.g., "order", "user")
+   */
+  ref_type?: string;
+
+  /**
+   * Additional metadata about the workflow run
+   */
+  metadata?: Record<string, any>;
+
+  /**
+   * Start the run at a later time instead of immediately
+   */
+  startAt?: Date | string | number;
+}
+
+/**
+ * Query options for listing workflows: any filters and sort order of
+ * WorkflowRunFilter, plus paging
  */
-export interface WorkflowListOptions {
+export interface WorkflowListOptions extends WorkflowRunFilter {
   /**
-   * Filter by workflow status
+   * Load nothing but the runs ('none'), their steps ('steps') or their
+   * steps with each step's retries ('steps+retries')
+   * Default: 'steps+retries'
    */
-  status?: string;
+  include?: RunInclude;
 
   /**
    * Maximum number of results to return
@@ -36,30 +101,102 @@ export interface WorkflowListOptions {
   limit?: number;
 
   /**
-   * Offset for pagination
+   * Offset for pagination, ignored when a cursor is given
    * Default: 0
    */
   offset?: number;
+
+  /**
+   * Cursor from the nextCursor of the previous page
+   */
+  cursor?: string;
+
+  /**
+   * Also return the number of matching runs across all pages as totalCount
+   * Default: false
+   */
+  includeTotal?: boolean;
 }
 
 /**
- * Query options for finding workflows by reference
+ * Query options for finding workflows by reference; ref_id and/or
+ * ref_type must be set
+ */
+export interface WorkflowRefQueryOptions extends WorkflowListOptions {}
+
+/**
+ * Filters for walking through all matching workflow runs
+ */
+export type WorkflowIterationOptions = Omit<
+  WorkflowListOptions,
+  "offset" | "cursor" | "includeTotal"
+>;
+
+/**
+ * Schedule definition for starting workflows on a cron expression
  */
-export interface WorkflowRefQueryOptions {
+export interface WorkflowScheduleOptions {
   /**
-   * Reference ID to search for
+   * Optional human-readable name
+   */
+  name?: string;
+
+  /**
+   * Cron expression (UTC), e.g. "0 9 * * 1-5"
+   */
+  cron?: string;
+
+  /**
+   * The type/name of workflow to start
+   */
+  workflowType?: string;
+
+  /**
+   * Parameters to pass to each run
+   */
+  params?: Record<string, any>;
+
+  /**
+   * External reference ID for started runs
    */
   ref_id?: string;
 
   /**
-   * Reference type to search for
+   * Reference type for started runs
    */
   ref_type?: string;
 
   /**
-   * Filter by workflow status
+   * Metadata added to each run (scheduleId and scheduledFor are added automatically)
+   */
+  metadata?: Record<string, any>;
+
+  /**
+   * Whether the schedule is active
+   * Default: true
+   */
+  enabled?: boolean;
+
+  /**
+   * What to do with missed fire times: 'skip', 'latest' or 'all'
+   * Default: the service's scheduleCatchUp option
+   */
+  catchUp?: "skip" | "latest" | "all";
+}
+
+/**
+ * Query options for listing schedules
+ */
+export interface WorkflowScheduleListOptions {
+  /**
+   * Filter by workflow type
    */
-  status?: string;
+  workflowType?: string;
+
+  /**
+   * Filter by enabled state
+   */
+  enabled?: boolean;
 
   /**
    * Maximum number of results to return
@@ -73,3 +210,218 @@ export interface WorkflowRefQueryOptions {
    */
   offset?: number;
 }
+
+/**
+ * Query options for listing delayed runs
+ */
+export interface DelayedWorkflowListOptions {
+  /**
+   * Filter by workflow type
+   */
+  workflowType?: string;
+
+  /**
+   * Filter by reference ID
+   */
+  ref_id?: string;
+
+  /**
+   * Filter by reference type
+   */
+  ref_type?: string;
+
+  /**
+   * Maximum number of results to return
+   * Default: 20
+   */
+  limit?: number;
+
+  /**
+   * Offset for pagination
+   * Default: 0
+   */
+  offset?: number;
+}
+
+/**
+ * Definition of a workflow type for the definition registry
+ */
+export interface WorkflowDefinitionOptions {
+  /**
+   * Workflow type/name used when starting runs
+   */
+  name: string;
+
+  /**
+   * Human-readable description
+   */
+  description?: string;
+
+  /**
+   * Version of the workflow code, stamped on every run started from
+   * this definition
+   */
+  version?: string;
+
+  /**
+   * Name of the Cloudflare Workflows binding
+   * Default: the upper-cased workflow name
+   */
+  binding?: string;
+
+  /**
+   * JSON Schema that start parameters must match
+   */
+  inputSchema?: Record<string, any>;
+
+  /**
+   * JSON Schema describing the workflow's output result
+   */
+  outputSchema?: Record<string, any>;
+
+  /**
+   * Limits on how many runs of this workflow type may be active at once
+   */
+  concurrency?: {
+    /**
+     * Maximum number of active runs of the workflow type
+     */
+    maxConcurrent?: number;
+
+    /**
+     * What to do when maxConcurrent is reached: 'queue' or 'reject'
+     * Default: 'queue'
+     */
+    onLimit?: "queue" | "reject";
+
+    /**
+     * Allow one active run per ref and handle extra starts with
+     * 'reject', 'skip', 'queue' or 'cancel-previous'
+     */
+    perRef?: "reject" | "skip" | "queue" | "cancel-previous";
+  };
+
+  /**
+   * Days to keep finished runs of this workflow type, by status
+   * (e.g. { Completed: 30, Errored: 180 })
+   */
+  retention?: RetentionPolicyOptions;
+}
+
+/**
+ * Days to keep finished runs, by status. Statuses that aren't listed are
+ * kept forever, unless the service's default policy lists them.
+ */
+export interface RetentionPolicyOptions {
+  Completed?: number;
+  Errored?: number;
+  Cancelled?: number;
+}
+
+/**
+ * Options for exporting runs: any filters and sort order of
+ * WorkflowRunFilter, plus the format
+ */
+export interface RunExportOptions extends WorkflowRunFilter {
+  /**
+   * 'ndjson' for one run per line with steps and retries nested, or 'csv'
+   * for one row per step
+   * Default: 'ndjson'
+   */
+  format?: "ndjson" | "csv";
+
+  /**
+   * Default: 'asc', oldest first
+   */
+  sortOrder?: "asc" | "desc";
+}
+
+/**
+ * Options for comparing runs across workflow versions
+ */
+export interface VersionComparisonOptions {
+  /**
+   * Only compare these versions
+   * Default: all versions
+   */
+  versions?: string[];
+
+  /**
+   * Only include runs created at or after this time
+   */
+  since?: Date | string | number;
+
+  /**
+   * Only include runs created before this time
+   */
+  until?: Date | string | number;
+}
+
+/**
+ * Options for run statistics
+ */
+export interface StatsOptions {
+  /**
+   * Only include this workflow type
+   * Default: all workflow types
+   */
+  workflowType?: string;
+
+  /**
+   * Start of the window
+   * Default: 7 days before until
+   */
+  since?: Date | string | number;
+
+  /**
+   * End of the window
+   * Default: now
+   */
+  until?: Date | string | number;
+
+  /**
+   * Size of the time buckets run counts are grouped into
+   * Default: 'day'
+   */
+  bucket?: "hour" | "day";
+}
+
+/**
+ * API key definition for the service API
+ */
+export interface ApiKeyOptions {
+  /**
+   * Name to recognise the key by
+   */
+  name: string;
+
+  /**
+   * Permissions of the key: 'start', 'read', 'cancel' and/or 'admin'
+   */
+  scopes: ("start" | "read" | "cancel" | "admin")[];
+
+  /**
+   * Only allow access to these workflow types
+   * Default: all workflow types
+   */
+  workflowTypes?: string[];
+
+  /**
+   * Only allow access to runs with these reference types
+   * Default: all reference types
+   */
+  refTypes?: string[];
+
+  /**
+   * Tenant the key acts for. Keys created with a tenant-bound admin key
+   * are always bound to that tenant.
+   * Default: not bound to a tenant
+   */
+  tenantId?: string;
+
+  /**
+   * When the key stops working
+   * Default: never
+   */
+  expiresAt?: Date | string | number;
+}
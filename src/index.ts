@@ -1,5 +1,10 @@
 // src/index.ts
-import { createWorkflowService } from "./service";
+import {
+  createWorkflowService,
+  apiKeyVerifier,
+  hmacVerifier,
+  jwtVerifier,
+} from "./service";
 import { WorkflowTracker } from "./service/tracker";
 import { WorkflowClient } from "./client";
 import {
@@ -14,6 +19,11 @@ export {
   // Main service creator
   createWorkflowService,
 
+  // Auth verifiers for the tracker API
+  apiKeyVerifier,
+  hmacVerifier,
+  jwtVerifier,
+
   // Durable Object
   WorkflowTracker,
 
@@ -34,6 +44,9 @@ export {
 // Default export for convenience
 export default {
   createWorkflowService,
+  apiKeyVerifier,
+  hmacVerifier,
+  jwtVerifier,
   WorkflowTracker,
   WorkflowClient,
   trackStep,
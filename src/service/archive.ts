@@ -0,0 +1,175 @@
+// src/service/archive.ts
+import { Env } from "./types";
+import { DEFAULT_TENANT_ID } from "./tenants";
+
+/**
+ * Version of the archived run document format
+ */
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+/**
+ * Document stored in R2 for an archived run
+ */
+export interface ArchivedRunDocument {
+  version: number;
+  archivedAt: string;
+
+  /**
+   * The workflow_runs row as it was before archiving
+   */
+  run: Record<string, any>;
+
+  /**
+   * The run's steps, each with its retries
+   */
+  steps: Record<string, any>[];
+}
+
+/**
+ * Get the key of a run's document in the archive bucket
+ *
+ * @param run Workflow run row
+ * @returns Object key
+ */
+export function getArchiveKey(run: Record<string, any>): string {
+  return `runs/${run.tenant_id || DEFAULT_TENANT_ID}/${run.id}.json.gz`;
+}
+
+/**
+ * Write a run, its steps and their retries to the archive bucket as
+ * gzip-compressed JSON. The D1 rows are left untouched.
+ *
+ * @param run Workflow run row
+ * @param env Environment bindings
+ * @returns Key of the archived document
+ */
+export async function archiveRun(
+  run: Record<string, any>,
+  env: Env,
+): Promise<string> {
+  const steps = await env.DB.prepare(
+    "SELECT * FROM workflow_steps WHERE workflow_run_id = ? ORDER BY step_index ASC",
+  )
+    .bind(run.id)
+    .all();
+
+  const retries = await env.DB.prepare(
+    `SELECT t.* FROM workflow_step_retries t
+    JOIN workflow_steps s ON s.id = t.workflow_step_id
+    WHERE s.workflow_run_id = ?
+    ORDER BY t.retry_count ASC`,
+  )
+    .bind(run.id)
+    .all();
+
+  const document: ArchivedRunDocument = {
+    version: ARCHIVE_FORMAT_VERSION,
+    archivedAt: new Date().toISOString(),
+    run,
+    steps: steps.results.map((step) => ({
+      ...step,
+      retries: retries.results.filter(
+        (retry) => retry.workflow_step_id === step.id,
+      ),
+    })),
+  };
+
+  const key = getArchiveKey(run);
+  await env.ARCHIVE_BUCKET.put(key, await gzipJson(document), {
+    httpMetadata: {
+      contentType: "application/json",
+      contentEncoding: "gzip",
+    },
+    customMetadata: {
+      runId: String(run.id),
+      tenantId: String(run.tenant_id || DEFAULT_TENANT_ID),
+      status: String(run.status),
+    },
+  });
+
+  return key;
+}
+
+/**
+ * Read an archived run from the archive bucket
+ *
+ * @param key Key of the archived document
+ * @param env Environment bindings
+ * @returns Archived document, or null if it doesn't exist
+ */
+export async function loadArchivedRun(
+  key: string,
+  env: Env,
+): Promise<ArchivedRunDocument | null> {
+  const object = await env.ARCHIVE_BUCKET.get(key);
+  if (!object) {
+    return null;
+  }
+
+  return gunzipJson<ArchivedRunDocument>(object.body);
+}
+
+/**
+ * Replace archived stub rows with the full runs from the archive bucket.
+ * Runs that aren't archived are returned as they are; stubs whose document
+ * can't be read are returned without steps.
+ *
+ * @param runs Workflow runs from D1
+ * @param env Environment bindings
+ * @returns Runs with archived runs restored
+ */
+export async function hydrateArchivedRuns(
+  runs: Record<string, any>[],
+  env: Env,
+): Promise<Record<string, any>[]> {
+  if (!env.ARCHIVE_BUCKET || !runs.some((run) => run.archived_at)) {
+    return runs;
+  }
+
+  return Promise.all(
+    runs.map(async (run) => {
+      if (!run.archived_at || !run.archive_key) {
+        return run;
+      }
+
+      try {
+        const document = await loadArchivedRun(run.archive_key, env);
+        if (!document) {
+          console.error(`Archived run ${run.id} not found in archive bucket`);
+          return run;
+        }
+
+        // Keep the stub's archive columns alongside the restored data
+        return {
+          ...document.run,
+          archived_at: run.archived_at,
+          archive_key: run.archive_key,
+          steps: document.steps,
+        };
+      } catch (error) {
+        console.error(`Failed to load archived run ${run.id}:`, error);
+        return run;
+      }
+    }),
+  );
+}
+
+/**
+ * Serialize a value to gzip-compressed JSON
+ */
+async function gzipJson(value: unknown): Promise<ArrayBuffer> {
+  const stream = new Blob([JSON.stringify(value)])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+
+  return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Parse gzip-compressed JSON from a stream
+ */
+async function gunzipJson<T>(body: ReadableStream): Promise<T> {
+  const stream = body.pipeThrough(new DecompressionStream("gzip"));
+
+  return JSON.parse(await new Response(stream).text()) as T;
+}
@@ -0,0 +1,679 @@
+// src/service/auth.ts
+import { ApiKeyScope, AuthPrincipal, AuthVerifier, Env } from "./types";
+import { API_KEY_SCOPES, authenticateApiKey, hasScope } from "./keys";
+import { ServiceError } from "./errors";
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  hmacSha256,
+  sha256Hex,
+  timingSafeEqual,
+  toHex,
+} from "../utils/crypto";
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE,
+  TIMESTAMP_HEADER,
+  signTrackerUpdate,
+} from "../utils/signing";
+
+/**
+ * Default lifetime of WebSocket tokens, in seconds
+ */
+export const DEFAULT_WEBSOCKET_TOKEN_TTL = 60;
+
+/**
+ * How long fetched JWKS are cached, in milliseconds
+ */
+const JWKS_CACHE_TTL = 10 * 60 * 1000;
+
+/**
+ * Minimum time between JWKS fetches when a token uses an unknown key ID,
+ * in milliseconds
+ */
+const JWKS_REFRESH_INTERVAL = 60 * 1000;
+
+type JwkWithId = JsonWebKey & { kid?: string };
+
+const jwksCache = new Map<string, { keys: JwkWithId[]; fetchedAt: number }>();
+
+export type JwtAlgorithm = "HS256" | "RS256";
+
+/**
+ * Options for the HMAC-signed request verifier
+ */
+export interface HmacVerifierOptions {
+  /**
+   * Environment variable holding the shared secret
+   * Default: 'AUTH_HMAC_SECRET'
+   */
+  secretVar?: string;
+
+  /**
+   * Maximum age of a signature timestamp, in seconds. Nonces are kept for
+   * twice as long.
+   * Default: 300
+   */
+  maxSkew?: number;
+
+  /**
+   * Scopes granted to signed requests
+   * Default: every scope
+   */
+  scopes?: ApiKeyScope[];
+
+  /**
+   * Tenant signed requests are bound to
+   * Default: unbound
+   */
+  tenantId?: string;
+}
+
+/**
+ * Options for the JWT verifier
+ */
+export interface JwtVerifierOptions {
+  /**
+   * Accepted signing algorithms
+   * Default: ['RS256'] when JWKS are configured, otherwise ['HS256']
+   */
+  algorithms?: JwtAlgorithm[];
+
+  /**
+   * Environment variable holding the HS256 secret
+   * Default: 'AUTH_JWT_SECRET'
+   */
+  secretVar?: string;
+
+  /**
+   * URL of the JWKS with the RS256 public keys
+   */
+  jwksUrl?: string;
+
+  /**
+   * RS256 public keys, instead of fetching them from jwksUrl
+   */
+  jwks?: { keys: JsonWebKey[] };
+
+  /**
+   * Required `iss` claim
+   */
+  issuer?: string;
+
+  /**
+   * Required `aud` claim
+   */
+  audience?: string;
+
+  /**
+   * Allowed clock difference when checking `exp`, `nbf` and `iat`, in
+   * seconds
+   * Default: 60
+   */
+  clockTolerance?: number;
+
+  /**
+   * Maximum age of a token, measured from its `iat` claim, in seconds.
+   * Tokens without `exp` are only accepted when this is set.
+   * Default: tokens must have `exp`
+   */
+  maxAge?: number;
+
+  /**
+   * Scopes granted to valid tokens, unless scopeClaim is set
+   * Default: every scope
+   */
+  scopes?: ApiKeyScope[];
+
+  /**
+   * Claim to read scopes from (a space-separated string or an array).
+   * Values that are not service scopes are ignored.
+   */
+  scopeClaim?: string;
+
+  /**
+   * Claim holding the tenant the token is bound to
+   * Default: tokens are unbound
+   */
+  tenantClaim?: string;
+}
+
+/**
+ * Verifier for API keys in the X-API-Key header, the same keys used for
+ * the /service/ endpoints
+ *
+ * @returns Auth verifier
+ */
+export function apiKeyVerifier(): AuthVerifier {
+  return {
+    name: "apiKey",
+    async verify(request, env, ctx) {
+      const apiKey = await authenticateApiKey(
+        request.headers.get("X-API-Key"),
+        env,
+        ctx,
+      );
+
+      if (!apiKey) {
+        return null;
+      }
+
+      return {
+        method: "apiKey",
+        subject: apiKey.name,
+        scopes: apiKey.scopes,
+        tenantId: apiKey.tenantId,
+        apiKey,
+      };
+    },
+  };
+}
+
+/**
+ * Verifier for requests signed with a shared secret. Callers send the
+ * current Unix time in X-Signature-Timestamp, a unique value in
+ * X-Signature-Nonce and the hex HMAC-SHA256 of
+ * `<timestamp>\n<nonce>\n<method>\n<path and query>\n<sha256 of body>` in
+ * X-Signature. Each nonce is accepted once, so a captured request can't be
+ * replayed within the timestamp window.
+ *
+ * @param options Secret, timestamp window and granted scopes
+ * @returns Auth verifier
+ */
+export function hmacVerifier(options: HmacVerifierOptions = {}): AuthVerifier {
+  const secretVar = options.secretVar || "AUTH_HMAC_SECRET";
+  const maxSkew = options.maxSkew ?? 300;
+
+  return {
+    name: "hmac",
+    async verify(request, env) {
+      const secret = env[secretVar];
+      const signature = request.headers.get("X-Signature");
+      const timestamp = request.headers.get("X-Signature-Timestamp");
+      const nonce = request.headers.get("X-Signature-Nonce");
+
+      if (!secret || !signature || !timestamp || !nonce) {
+        return null;
+      }
+
+      if (nonce.length > 128) {
+        return null;
+      }
+
+      const signedAt = Number(timestamp);
+      if (
+        !Number.isFinite(signedAt) ||
+        Math.abs(Date.now() / 1000 - signedAt) > maxSkew
+      ) {
+        return null;
+      }
+
+      const url = new URL(request.url);
+      const body = await request.clone().text();
+      const expected = toHex(
+        await hmacSha256(
+          secret,
+          signRequestMessage(
+            timestamp,
+            nonce,
+            request.method,
+            `${url.pathname}${url.search}`,
+            await sha256Hex(body),
+          ),
+        ),
+      );
+
+      if (!timingSafeEqual(signature.toLowerCase(), expected)) {
+        return null;
+      }
+
+      // Nonces only need to be kept until their timestamp leaves the window
+      const claimed = await env.DB.prepare(
+        `INSERT INTO hmac_request_nonces (nonce, created_at, expires_at)
+        VALUES (?, datetime('now'), datetime('now', ?))
+        ON CONFLICT (nonce) DO NOTHING
+        RETURNING nonce`,
+      )
+        .bind(`${secretVar}:${nonce}`, `+${2 * maxSkew} seconds`)
+        .first();
+
+      if (!claimed) {
+        return null;
+      }
+
+      return {
+        method: "hmac",
+        subject: secretVar,
+        scopes: options.scopes,
+        tenantId: options.tenantId,
+      };
+    },
+  };
+}
+
+/**
+ * Verifier for JWTs in the Authorization header (`Bearer <token>`),
+ * signed with HS256 and a shared secret or with RS256 and a JWKS
+ *
+ * @param options Keys, accepted algorithms and required claims
+ * @returns Auth verifier
+ */
+export function jwtVerifier(options: JwtVerifierOptions = {}): AuthVerifier {
+  const algorithms =
+    options.algorithms ||
+    (options.jwksUrl || options.jwks ? ["RS256"] : ["HS256"]);
+  const secretVar = options.secretVar || "AUTH_JWT_SECRET";
+  const clockTolerance = options.clockTolerance ?? 60;
+
+  return {
+    name: "jwt",
+    async verify(request, env) {
+      const authorization = request.headers.get("Authorization");
+      const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+      if (!match) {
+        return null;
+      }
+
+      const parts = match[1].split(".");
+      if (parts.length !== 3) {
+        return null;
+      }
+
+      let header: Record<string, any>;
+      let claims: Record<string, any>;
+      try {
+        header = JSON.parse(decodeText(parts[0]));
+        claims = JSON.parse(decodeText(parts[1]));
+      } catch {
+        return null;
+      }
+
+      if (!algorithms.includes(header.alg)) {
+        return null;
+      }
+
+      const signingInput = `${parts[0]}.${parts[1]}`;
+      const signature = base64UrlDecode(parts[2]);
+      let valid = false;
+
+      if (header.alg === "HS256") {
+        const secret = env[secretVar];
+        valid =
+          !!secret &&
+          timingSafeEqual(
+            base64UrlEncode(await hmacSha256(secret, signingInput)),
+            parts[2],
+          );
+      } else if (header.alg === "RS256") {
+        const jwk = await findJwk(options, header.kid);
+        if (jwk) {
+          const key = await crypto.subtle.importKey(
+            "jwk",
+            jwk,
+            { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+            false,
+            ["verify"],
+          );
+          valid = await crypto.subtle.verify(
+            "RSASSA-PKCS1-v1_5",
+            key,
+            signature,
+            new TextEncoder().encode(signingInput),
+          );
+        }
+      }
+
+      if (!valid) {
+        return null;
+      }
+
+      // Tokens must expire, either by their own exp or by the verifier's
+      // maxAge
+      const now = Date.now() / 1000;
+      if (typeof claims.exp === "number") {
+        if (now > claims.exp + clockTolerance) {
+          return null;
+        }
+      } else if (!options.maxAge) {
+        return null;
+      }
+      if (
+        options.maxAge &&
+        (typeof claims.iat !== "number" ||
+          now > claims.iat + options.maxAge + clockTolerance)
+      ) {
+        return null;
+      }
+      if (typeof claims.nbf === "number" && now < claims.nbf - clockTolerance) {
+        return null;
+      }
+      if (options.issuer && claims.iss !== options.issuer) {
+        return null;
+      }
+      if (options.audience) {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(options.audience)) {
+          return null;
+        }
+      }
+
+      return {
+        method: "jwt",
+        subject: claims.sub || "jwt",
+        scopes: options.scopeClaim
+          ? readScopes(claims[options.scopeClaim])
+          : options.scopes,
+        tenantId:
+          options.tenantClaim && typeof claims[options.tenantClaim] === "string"
+            ? claims[options.tenantClaim]
+            : undefined,
+        claims,
+      };
+    },
+  };
+}
+
+/**
+ * Authenticate a request with the first verifier that accepts it
+ *
+ * @param request Incoming request
+ * @param env Environment bindings
+ * @param verifiers Verifiers to try, in order
+ * @param ctx Execution context
+ * @returns The authenticated caller, or null if no verifier accepted the
+ * request
+ */
+export async function authenticateRequest(
+  request: Request,
+  env: Env,
+  verifiers: AuthVerifier[],
+  ctx?: ExecutionContext,
+): Promise<AuthPrincipal | null> {
+  for (const verifier of verifiers) {
+    try {
+      const principal = await verifier.verify(request, env, ctx);
+      if (principal) {
+        return principal;
+      }
+    } catch (error) {
+      // A failing verifier (e.g. an unreachable JWKS) shouldn't stop the
+      // others from accepting the request
+      console.error(
+        `Auth verifier ${verifier.name} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an authenticated caller has a scope
+ *
+ * @param principal Authenticated caller
+ * @param scope Required scope
+ * @returns Whether the caller has the scope
+ */
+export function principalHasScope(
+  principal: AuthPrincipal,
+  scope: ApiKeyScope,
+): boolean {
+  if (principal.apiKey) {
+    return hasScope(principal.apiKey, scope);
+  }
+
+  return (
+    !principal.scopes ||
+    principal.scopes.includes("admin") ||
+    principal.scopes.includes(scope)
+  );
+}
+
+/**
+ * Create a short-lived token for opening a tracker WebSocket. Browsers
+ * can't set headers on WebSocket requests, so the token is passed in the
+ * `token` query parameter instead. The token is bound to the caller's
+ * tenant.
+ *
+ * @param principal Caller the token is issued to
+ * @param ttl Lifetime of the token, in seconds
+ * @param env Environment bindings
+ * @returns The token and when it expires
+ * @throws ServiceError (500) if AUTH_TOKEN_SECRET isn't set
+ */
+export async function createWebSocketToken(
+  principal: AuthPrincipal,
+  ttl: number,
+  env: Env,
+): Promise<{ token: string; expiresAt: string }> {
+  const secret = getTokenSecret(env);
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      sub: principal.subject,
+      scopes: principal.scopes,
+      tid: principal.tenantId,
+      exp,
+    }),
+  );
+  const signature = base64UrlEncode(await hmacSha256(secret, payload));
+
+  return {
+    token: `${payload}.${signature}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Verify a WebSocket token
+ *
+ * @param token Token from the query string
+ * @param env Environment bindings
+ * @returns The caller the token was issued to, or null if the token is
+ * invalid or expired
+ * @throws ServiceError (500) if AUTH_TOKEN_SECRET isn't set
+ */
+export async function verifyWebSocketToken(
+  token: string | null,
+  env: Env,
+): Promise<AuthPrincipal | null> {
+  const [payload, signature] = (token || "").split(".");
+
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = base64UrlEncode(
+    await hmacSha256(getTokenSecret(env), payload),
+  );
+  if (!timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(decodeText(payload));
+    if (typeof data.exp !== "number" || Date.now() / 1000 > data.exp) {
+      return null;
+    }
+
+    return {
+      method: "websocketToken",
+      subject: data.sub,
+      scopes: data.scopes,
+      tenantId: data.tid,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the signature of a tracker update from workflow code and record
+ * its nonce so the same update can't be replayed. Updates signed with
+ * TRACKER_SIGNING_SECRET_PREVIOUS are accepted too while the secret is
+ * being rotated.
+ *
+ * @param request Update request
+ * @param body Raw body of the request
+ * @param env Environment bindings
+ * @throws ServiceError (401) if the update is unsigned, the signature is
+ * invalid or expired, or the nonce was already used
+ */
+export async function verifyTrackerUpdate(
+  request: Request,
+  body: string,
+  env: Env,
+): Promise<void> {
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  const timestamp = request.headers.get(TIMESTAMP_HEADER);
+  const nonce = request.headers.get(NONCE_HEADER);
+
+  if (!signature || !timestamp || !nonce) {
+    throw new ServiceError("Tracker update is not signed", 401);
+  }
+
+  const signedAt = Number(timestamp);
+  if (
+    !Number.isFinite(signedAt) ||
+    Math.abs(Date.now() / 1000 - signedAt) > SIGNATURE_TOLERANCE
+  ) {
+    throw new ServiceError(
+      "Tracker update timestamp is outside the accepted window",
+      401,
+    );
+  }
+
+  if (nonce.length > 128) {
+    throw new ServiceError("Tracker update nonce is too long", 401);
+  }
+
+  const secrets = [
+    env.TRACKER_SIGNING_SECRET,
+    env.TRACKER_SIGNING_SECRET_PREVIOUS,
+  ].filter((secret): secret is string => !!secret);
+
+  let valid = false;
+  for (const secret of secrets) {
+    const expected = await signTrackerUpdate(secret, timestamp, nonce, body);
+    if (timingSafeEqual(signature.toLowerCase(), expected)) {
+      valid = true;
+      break;
+    }
+  }
+
+  if (!valid) {
+    throw new ServiceError("Invalid tracker update signature", 401);
+  }
+
+  // Nonces only need to be kept until their timestamp leaves the window
+  const claimed = await env.DB.prepare(
+    `INSERT INTO tracker_update_nonces (nonce, created_at, expires_at)
+    VALUES (?, datetime('now'), datetime('now', ?))
+    ON CONFLICT (nonce) DO NOTHING
+    RETURNING nonce`,
+  )
+    .bind(nonce, `+${2 * SIGNATURE_TOLERANCE} seconds`)
+    .first();
+
+  if (!claimed) {
+    throw new ServiceError(
+      `Tracker update nonce ${nonce} was already used`,
+      401,
+    );
+  }
+}
+
+/**
+ * Build the string signed for HMAC-authenticated requests
+ */
+function signRequestMessage(
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  bodyHash: string,
+): string {
+  return `${timestamp}\n${nonce}\n${method.toUpperCase()}\n${path}\n${bodyHash}`;
+}
+
+/**
+ * Get the secret WebSocket tokens are signed with. It is kept apart from
+ * SERVICE_API_KEY, so a leaked API key can't be used to mint tokens.
+ */
+function getTokenSecret(env: Env): string {
+  const secret = env.AUTH_TOKEN_SECRET;
+  if (!secret) {
+    throw new ServiceError(
+      "AUTH_TOKEN_SECRET must be set to issue or verify WebSocket tokens",
+      500,
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Decode a base64url segment as UTF-8 text
+ */
+function decodeText(segment: string): string {
+  return new TextDecoder().decode(base64UrlDecode(segment));
+}
+
+/**
+ * Read service scopes from a JWT claim
+ */
+function readScopes(value: unknown): ApiKeyScope[] {
+  const values =
+    typeof value === "string"
+      ? value.split(" ")
+      : Array.isArray(value)
+        ? value
+        : [];
+
+  return values.filter((scope): scope is ApiKeyScope =>
+    API_KEY_SCOPES.includes(scope),
+  );
+}
+
+/**
+ * Find the RS256 public key for a token, fetching the JWKS if needed
+ */
+async function findJwk(
+  options: JwtVerifierOptions,
+  kid: string | undefined,
+): Promise<JwkWithId | null> {
+  const match = (keys: JwkWithId[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.kty === "RSA")) || null;
+
+  if (options.jwks) {
+    return match(options.jwks.keys);
+  }
+
+  if (!options.jwksUrl) {
+    return null;
+  }
+
+  const cached = jwksCache.get(options.jwksUrl);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  const cachedKey = cached && age < JWKS_CACHE_TTL ? match(cached.keys) : null;
+
+  // Refetch when the cache is stale, or when the key ID is unknown (the
+  // issuer may have rotated its keys) and the cache isn't brand new
+  if (cachedKey || age < JWKS_REFRESH_INTERVAL) {
+    return cachedKey;
+  }
+
+  const response = await fetch(options.jwksUrl);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch JWKS from ${options.jwksUrl}: ${response.status}`,
+    );
+  }
+
+  const jwks = (await response.json()) as { keys?: JwkWithId[] };
+  const keys = jwks.keys || [];
+  jwksCache.set(options.jwksUrl, { keys, fetchedAt: Date.now() });
+
+  return match(keys);
+}
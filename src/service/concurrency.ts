@@ -0,0 +1,463 @@
+// src/service/concurrency.ts
+import {
+  Env,
+  PerRefConcurrencyMode,
+  WorkflowConcurrencyPolicy,
+  WorkflowDefinition,
+} from "./types";
+import { getWorkflowDefinition } from "./definitions";
+import { dispatchWorkflowRun, getWorkflowBinding } from "./dispatch";
+import { ServiceError } from "./errors";
+import { recordRunMetrics } from "./metrics";
+import { parseJsonSafe } from "../utils/db";
+import { DEFAULT_TENANT_ID } from "./tenants";
+
+/**
+ * Runs that occupy a concurrency slot. Delayed runs only count once the
+ * tracker has dispatched them.
+ */
+const ACTIVE_RUN_CONDITION =
+  "r.status IN ('Pending', 'Running', 'Sleeping', 'Paused') AND NOT (r.scheduled_at IS NOT NULL AND r.dispatched_at IS NULL)";
+
+const PER_REF_MODES: PerRefConcurrencyMode[] = [
+  "reject",
+  "skip",
+  "queue",
+  "cancel-previous",
+];
+
+/**
+ * Maximum number of queued runs considered each time a slot is freed
+ */
+const QUEUE_RELEASE_BATCH_SIZE = 25;
+
+/**
+ * How often a start re-applies the policy after another run took the slot
+ * it was going to claim
+ */
+const MAX_SLOT_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Outcome of applying a concurrency policy to a start request
+ */
+export type ConcurrencyDecision =
+  { action: "start" } | { action: "queue" } | { action: "skip"; runId: string };
+
+/**
+ * Called with the run update of each run a `cancel-previous` policy
+ * cancelled, so it can be synced to its workflow and broadcast
+ */
+export type CancelledRunHandler = (
+  runUpdate: Record<string, any>,
+) => Promise<void>;
+
+/**
+ * SQL condition that holds while a run may take a concurrency slot
+ */
+export interface ConcurrencySlot {
+  sql: string;
+  bindValues: any[];
+}
+
+/**
+ * Check a concurrency policy for invalid settings
+ *
+ * @param policy Policy to check
+ * @returns Error message, or null if the policy is valid
+ */
+export function validateConcurrencyPolicy(
+  policy: WorkflowConcurrencyPolicy | undefined,
+): string | null {
+  if (policy === undefined || policy === null) {
+    return null;
+  } else if (typeof policy !== "object") {
+    return "concurrency must be an object";
+  } else if (
+    policy.maxConcurrent !== undefined &&
+    (!Number.isInteger(policy.maxConcurrent) || policy.maxConcurrent < 1)
+  ) {
+    return "concurrency.maxConcurrent must be a positive integer";
+  } else if (
+    policy.onLimit !== undefined &&
+    !["queue", "reject"].includes(policy.onLimit)
+  ) {
+    return "concurrency.onLimit must be one of: queue, reject";
+  } else if (
+    policy.perRef !== undefined &&
+    !PER_REF_MODES.includes(policy.perRef)
+  ) {
+    return `concurrency.perRef must be one of: ${PER_REF_MODES.join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Build the condition under which a run of a workflow type may take a
+ * concurrency slot. Checking it in the same statement that starts the run
+ * makes the check and the claim atomic.
+ *
+ * @param policy Concurrency policy of the workflow type
+ * @param workflowType Workflow type/name
+ * @param ref_id External reference ID of the run
+ * @param ref_type Reference type of the run
+ * @param tenantId Tenant of the run
+ * @param queuedBlockRef Whether queued runs of the same ref also hold the
+ * ref's slot. Runs released from the queue pass false.
+ * @returns SQL condition and values to bind, or null without a policy
+ */
+export function concurrencySlotCondition(
+  policy: WorkflowConcurrencyPolicy | undefined,
+  workflowType: string,
+  ref_id: string | undefined,
+  ref_type: string | undefined,
+  tenantId: string,
+  queuedBlockRef = true,
+): ConcurrencySlot | null {
+  const conditions: string[] = [];
+  const bindValues: any[] = [];
+
+  if (policy?.perRef && ref_id) {
+    conditions.push(
+      `NOT EXISTS (
+        SELECT 1 FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.tenant_id = ? AND w.name = ? AND r.ref_id = ? AND r.ref_type IS ?
+          AND ((${ACTIVE_RUN_CONDITION})${queuedBlockRef ? " OR r.status = 'Queued'" : ""})
+      )`,
+    );
+    bindValues.push(tenantId, workflowType, ref_id, ref_type || null);
+  }
+
+  if (policy?.maxConcurrent) {
+    conditions.push(
+      `(
+        SELECT COUNT(*) FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.tenant_id = ? AND w.name = ? AND ${ACTIVE_RUN_CONDITION}
+      ) < ?`,
+    );
+    bindValues.push(tenantId, workflowType, policy.maxConcurrent);
+  }
+
+  return conditions.length > 0
+    ? { sql: conditions.join(" AND "), bindValues }
+    : null;
+}
+
+/**
+ * Decide whether a new run may start now under its workflow type's
+ * concurrency policy. With the `cancel-previous` mode, active and queued
+ * runs for the same ref are cancelled before the new run is allowed.
+ * Limits apply to each tenant separately.
+ *
+ * The decision is only advisory until the run is written; use
+ * insertRunUnderPolicy to claim the slot atomically.
+ *
+ * @param definition Definition of the workflow type being started
+ * @param ref_id External reference ID of the new run
+ * @param ref_type Reference type of the new run
+ * @param env Environment bindings
+ * @param tenantId Tenant of the new run
+ * @param onCancelled Called for each run the policy cancelled
+ * @returns Whether to start, queue or skip the run
+ * @throws ServiceError (409) if the policy rejects the run
+ */
+export async function applyConcurrencyPolicy(
+  definition: WorkflowDefinition,
+  ref_id: string | undefined,
+  ref_type: string | undefined,
+  env: Env,
+  tenantId: string = DEFAULT_TENANT_ID,
+  onCancelled?: CancelledRunHandler,
+): Promise<ConcurrencyDecision> {
+  const policy = definition.concurrency;
+  if (!policy) {
+    return { action: "start" };
+  }
+
+  // Runs without a ref_id have no ref to be a singleton for
+  if (policy.perRef && ref_id) {
+    const refRuns = await env.DB.prepare(
+      `SELECT r.id, r.status, r.scheduled_at, r.dispatched_at
+      FROM workflow_runs r
+      JOIN workflow w ON w.id = r.workflow_id
+      WHERE r.tenant_id = ? AND w.name = ? AND r.ref_id = ? AND r.ref_type IS ?
+        AND ((${ACTIVE_RUN_CONDITION}) OR r.status = 'Queued')
+      ORDER BY r.created_at ASC`,
+    )
+      .bind(tenantId, definition.name, ref_id, ref_type || null)
+      .all();
+
+    if (refRuns.results.length > 0) {
+      if (policy.perRef === "reject") {
+        throw new ServiceError(
+          `Workflow ${definition.name} already has an active run for ref ${ref_id}`,
+          409,
+        );
+      } else if (policy.perRef === "skip") {
+        const latestRun = refRuns.results[refRuns.results.length - 1];
+        return { action: "skip", runId: latestRun.id as string };
+      } else if (policy.perRef === "queue") {
+        return { action: "queue" };
+      }
+
+      await cancelRuns(definition.name, refRuns.results, env, onCancelled);
+    }
+  }
+
+  if (policy.maxConcurrent) {
+    const activeRuns = await countActiveRuns(definition.name, tenantId, env);
+
+    if (activeRuns >= policy.maxConcurrent) {
+      if (policy.onLimit === "reject") {
+        throw new ServiceError(
+          `Workflow ${definition.name} already has ${activeRuns} active runs (limit ${policy.maxConcurrent})`,
+          409,
+        );
+      }
+
+      return { action: "queue" };
+    }
+  }
+
+  return { action: "start" };
+}
+
+/**
+ * Apply a workflow type's concurrency policy to a new run and write the
+ * run: as Pending if it may start, as Queued if it has to wait, or not at
+ * all if it is skipped. A run that may start is only written while its
+ * slot is still free, so two starts racing for the same slot can't both
+ * get it; the loser has the policy applied again.
+ *
+ * @param definition Definition of the workflow type being started
+ * @param run workflow_runs row to write, without a status
+ * @param env Environment bindings
+ * @param tenantId Tenant of the new run
+ * @param onCancelled Called for each run the policy cancelled
+ * @returns The decision the run was written under
+ * @throws ServiceError (409) if the policy rejects the run, or if other
+ * runs kept taking its slot
+ */
+export async function insertRunUnderPolicy(
+  definition: WorkflowDefinition,
+  run: Record<string, any>,
+  env: Env,
+  tenantId: string = DEFAULT_TENANT_ID,
+  onCancelled?: CancelledRunHandler,
+): Promise<ConcurrencyDecision> {
+  for (let attempt = 0; attempt < MAX_SLOT_CLAIM_ATTEMPTS; attempt++) {
+    const decision = await applyConcurrencyPolicy(
+      definition,
+      run.ref_id || undefined,
+      run.ref_type || undefined,
+      env,
+      tenantId,
+      onCancelled,
+    );
+
+    if (decision.action === "skip") {
+      return decision;
+    }
+
+    const slot =
+      decision.action === "start"
+        ? concurrencySlotCondition(
+            definition.concurrency,
+            definition.name,
+            run.ref_id || undefined,
+            run.ref_type || undefined,
+            tenantId,
+          )
+        : null;
+
+    const row = Object.entries({
+      ...run,
+      status: decision.action === "queue" ? "Queued" : "Pending",
+    }).filter(([, value]) => value !== undefined);
+
+    const inserted = await env.DB.prepare(
+      `INSERT INTO workflow_runs (${row.map(([column]) => column).join(", ")})
+      SELECT ${row.map(() => "?").join(", ")}
+      WHERE ${slot ? slot.sql : "1"}`,
+    )
+      .bind(...row.map(([, value]) => value), ...(slot?.bindValues || []))
+      .run();
+
+    if (inserted.meta.changes) {
+      return decision;
+    }
+  }
+
+  throw new ServiceError(
+    `Could not claim a concurrency slot for workflow ${definition.name}, please retry`,
+    409,
+  );
+}
+
+/**
+ * Dispatch queued runs of a workflow type that are now allowed to start,
+ * oldest first
+ *
+ * @param workflowType Workflow type/name
+ * @param env Environment bindings
+ * @param tenantId Tenant whose queued runs are released
+ * @returns IDs of the released runs
+ */
+export async function releaseQueuedRuns(
+  workflowType: string,
+  env: Env,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<string[]> {
+  const queued = await env.DB.prepare(
+    `SELECT r.id, r.ref_id, r.ref_type, r.input_params
+    FROM workflow_runs r
+    JOIN workflow w ON w.id = r.workflow_id
+    WHERE r.tenant_id = ? AND w.name = ? AND r.status = 'Queued'
+    ORDER BY r.created_at ASC
+    LIMIT ?`,
+  )
+    .bind(tenantId, workflowType, QUEUE_RELEASE_BATCH_SIZE)
+    .all();
+
+  if (queued.results.length === 0) {
+    return [];
+  }
+
+  // The policy may have been relaxed or removed since the runs were queued
+  const definition = await getWorkflowDefinition(workflowType, env);
+  const policy = definition?.concurrency || {};
+
+  const released: string[] = [];
+  const blockedRefs = new Set<string>();
+
+  for (const run of queued.results) {
+    // Only the oldest queued run of a ref is released at a time
+    if (policy.perRef && run.ref_id) {
+      const refKey = JSON.stringify([run.ref_id, run.ref_type]);
+
+      if (blockedRefs.has(refKey)) {
+        continue;
+      }
+      blockedRefs.add(refKey);
+    }
+
+    // Claim the run only while its slot is free, so concurrent releases
+    // neither dispatch it twice nor fill more slots than the policy allows.
+    // Delayed runs that were queued when they came due are dispatched now.
+    const slot = concurrencySlotCondition(
+      policy,
+      workflowType,
+      (run.ref_id as string) || undefined,
+      (run.ref_type as string) || undefined,
+      tenantId,
+      false,
+    );
+    const now = new Date().toISOString();
+    const claim = await env.DB.prepare(
+      `UPDATE workflow_runs SET
+        status = 'Pending',
+        dispatched_at = CASE WHEN scheduled_at IS NOT NULL THEN ? ELSE dispatched_at END,
+        updated_at = ?
+      WHERE id = ? AND status = 'Queued'${slot ? ` AND ${slot.sql}` : ""}`,
+    )
+      .bind(now, now, run.id, ...(slot?.bindValues || []))
+      .run();
+
+    if (!claim.meta.changes) {
+      continue;
+    }
+
+    try {
+      await dispatchWorkflowRun(
+        workflowType,
+        run.id as string,
+        parseJsonSafe<Record<string, any>>(run.input_params as string, {}),
+        (run.ref_id as string) || undefined,
+        (run.ref_type as string) || undefined,
+        env,
+      );
+
+      released.push(run.id as string);
+    } catch (error) {
+      await env.DB.prepare(
+        "UPDATE workflow_runs SET status = ?, output_result = ?, completed_at = ?, updated_at = ? WHERE id = ?",
+      )
+        .bind(
+          "Errored",
+          JSON.stringify({
+            error: error instanceof Error ? error.message : "Unknown error",
+          }),
+          new Date().toISOString(),
+          new Date().toISOString(),
+          run.id,
+        )
+        .run();
+
+      await recordRunMetrics(run.id as string, env);
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Count a tenant's runs of a workflow type that occupy a concurrency slot
+ */
+async function countActiveRuns(
+  workflowType: string,
+  tenantId: string,
+  env: Env,
+): Promise<number> {
+  const result = await env.DB.prepare(
+    `SELECT COUNT(*) AS count
+    FROM workflow_runs r
+    JOIN workflow w ON w.id = r.workflow_id
+    WHERE r.tenant_id = ? AND w.name = ? AND ${ACTIVE_RUN_CONDITION}`,
+  )
+    .bind(tenantId, workflowType)
+    .first();
+
+  return (result?.count as number) || 0;
+}
+
+/**
+ * Cancel runs that are superseded by a new run for the same ref
+ */
+async function cancelRuns(
+  workflowType: string,
+  runs: Record<string, any>[],
+  env: Env,
+  onCancelled?: CancelledRunHandler,
+): Promise<void> {
+  const workflowBinding = await getWorkflowBinding(workflowType, env);
+  const completedAt = new Date().toISOString();
+
+  for (const run of runs) {
+    // Queued and delayed runs have no Workflows instance yet
+    const hasInstance =
+      run.status !== "Queued" && !(run.scheduled_at && !run.dispatched_at);
+
+    if (workflowBinding && hasInstance) {
+      const instance = await workflowBinding.get(run.id);
+      await instance.terminate();
+    }
+
+    await env.DB.prepare(
+      "UPDATE workflow_runs SET status = 'Cancelled', completed_at = ?, updated_at = ? WHERE id = ?",
+    )
+      .bind(completedAt, completedAt, run.id)
+      .run();
+
+    await recordRunMetrics(run.id, env);
+
+    if (onCancelled) {
+      await onCancelled({
+        id: run.id,
+        status: "Cancelled",
+        completed_at: completedAt,
+      });
+    }
+  }
+}
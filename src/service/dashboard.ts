@@ -0,0 +1,719 @@
+// src/service/dashboard.ts
+
+/**
+ * Default path of the dashboard
+ */
+export const DEFAULT_DASHBOARD_PATH = "/dashboard";
+
+/**
+ * Default title of the dashboard
+ */
+export const DEFAULT_DASHBOARD_TITLE = "Flowflare";
+
+/**
+ * Content Security Policy of the dashboard page: only its own inline
+ * script and style, and requests to the service it is served by
+ */
+export const DASHBOARD_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self' ws: wss:; base-uri 'none'; form-action 'none'; frame-ancestors 'none'";
+
+/**
+ * Render the dashboard page. The page is self-contained: it reads runs
+ * from the /v1 REST API with an API key the user enters, and follows
+ * updates over the tracker WebSocket.
+ *
+ * @param title Title shown in the page header and browser tab
+ * @returns HTML of the page
+ */
+export function renderDashboard(title = DEFAULT_DASHBOARD_TITLE): string {
+  const safeTitle = escapeHtml(title);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${safeTitle}</title>
+<style>${DASHBOARD_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1><a href="#/">${safeTitle}</a></h1>
+  <span id="live" class="live">Offline</span>
+  <button id="sign-out" type="button" hidden>Sign out</button>
+</header>
+<main>
+  <p id="error" class="error" hidden></p>
+  <form id="login" class="panel" hidden>
+    <label>API key <input name="apiKey" type="password" autocomplete="off" required></label>
+    <label>Tenant <input name="tenant" placeholder="default"></label>
+    <button type="submit">Sign in</button>
+  </form>
+  <section id="runs-view" hidden>
+    <form id="filters" class="panel">
+      <label>Workflow type <input name="workflowType" placeholder="send-email, send-sms"></label>
+      <label>Status
+        <select name="status">
+          <option value="">Any</option>
+          <option>Queued</option>
+          <option>Pending</option>
+          <option>Running</option>
+          <option>Sleeping</option>
+          <option>Paused</option>
+          <option>Completed</option>
+          <option>Errored</option>
+          <option>Cancelled</option>
+        </select>
+      </label>
+      <label>Ref ID <input name="ref_id"></label>
+      <label>Ref type <input name="ref_type"></label>
+      <label>Created after <input name="createdAfter" type="datetime-local"></label>
+      <label>Created before <input name="createdBefore" type="datetime-local"></label>
+      <button type="submit">Apply</button>
+    </form>
+    <p id="runs-summary" class="muted"></p>
+    <table>
+      <thead>
+        <tr><th>Run</th><th>Workflow</th><th>Status</th><th>Ref</th><th>Created</th><th>Duration</th></tr>
+      </thead>
+      <tbody id="runs"></tbody>
+    </table>
+    <button id="more" type="button" hidden>Load more</button>
+  </section>
+  <section id="run-view" hidden>
+    <p><a href="#/">&larr; All runs</a></p>
+    <div id="run"></div>
+  </section>
+</main>
+<script>${DASHBOARD_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Styles of the dashboard page
+ */
+const DASHBOARD_STYLE = `
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+header { display: flex; align-items: center; gap: 12px; padding: 12px 24px; background: #24292f; color: #fff; }
+header h1 { flex: 1; margin: 0; font-size: 18px; }
+header a { color: inherit; text-decoration: none; }
+main { padding: 24px; max-width: 1200px; margin: 0 auto; }
+a { color: #0969da; }
+button { padding: 6px 12px; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; cursor: pointer; }
+button:disabled { opacity: 0.5; cursor: default; }
+button.danger { color: #cf222e; }
+input, select { padding: 5px 8px; border: 1px solid #d0d7de; border-radius: 6px; font: inherit; }
+label { display: flex; flex-direction: column; gap: 4px; font-size: 12px; color: #57606a; }
+pre { margin: 0; padding: 8px; overflow: auto; background: #f6f8fa; border-radius: 6px; font-size: 12px; }
+table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid #d0d7de; }
+th, td { padding: 8px 12px; border-bottom: 1px solid #d0d7de; text-align: left; white-space: nowrap; }
+th { background: #f6f8fa; font-weight: 600; }
+.panel { display: flex; flex-wrap: wrap; align-items: flex-end; gap: 12px; margin-bottom: 16px; padding: 16px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+.muted { color: #57606a; }
+.error { padding: 8px 12px; color: #cf222e; background: #ffebe9; border: 1px solid #ff818266; border-radius: 6px; }
+.live { font-size: 12px; color: #d0d7de; }
+.live.on { color: #4ac26b; }
+.status { display: inline-block; padding: 1px 8px; border-radius: 12px; font-size: 12px; background: #eaeef2; }
+.status-completed { background: #dafbe1; color: #1a7f37; }
+.status-errored, .status-failed { background: #ffebe9; color: #cf222e; }
+.status-running, .status-retrying { background: #ddf4ff; color: #0969da; }
+.status-sleeping, .status-paused, .status-queued, .status-pending { background: #fff8c5; color: #9a6700; }
+.status-cancelled { background: #eaeef2; color: #57606a; }
+.facts { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 16px; }
+.facts dt { color: #57606a; }
+.facts dd { margin: 0; }
+.actions { display: flex; gap: 8px; margin-bottom: 16px; }
+.step { margin-bottom: 8px; padding: 12px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+.step-head { display: flex; align-items: center; gap: 12px; }
+.step-head strong { flex: 1; }
+.track { position: relative; height: 6px; margin: 8px 0; background: #eaeef2; border-radius: 3px; }
+.bar { position: absolute; top: 0; bottom: 0; min-width: 2px; background: #0969da; border-radius: 3px; }
+.bar.failed { background: #cf222e; }
+.bar.completed { background: #1a7f37; }
+.retries { margin: 8px 0 0; padding-left: 20px; font-size: 12px; }
+`;
+
+/**
+ * Script of the dashboard page. It is plain ES5 without template
+ * literals, so it can be embedded in this module as it is.
+ */
+const DASHBOARD_SCRIPT = `
+(function () {
+  "use strict";
+
+  var KEY_STORAGE = "flowflare.apiKey";
+  var TENANT_STORAGE = "flowflare.tenant";
+  var PAGE_SIZE = 50;
+  var CANCELLABLE = ["Queued", "Pending", "Running", "Sleeping", "Paused"];
+  var RERUNNABLE = ["Errored", "Cancelled"];
+
+  var state = {
+    view: null,
+    runs: [],
+    cursor: null,
+    total: null,
+    pagesLoaded: 0,
+    run: null,
+    socket: null,
+    reconnect: null,
+    refresh: null
+  };
+
+  function byId(id) {
+    return document.getElementById(id);
+  }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (name) {
+      var value = attrs[name];
+      if (name.slice(0, 2) === "on") {
+        node.addEventListener(name.slice(2), value);
+      } else if (value !== null && value !== undefined) {
+        node.setAttribute(name, value);
+      }
+    });
+    [].concat(children === undefined ? [] : children).forEach(function (child) {
+      if (child === null || child === undefined || child === false) {
+        return;
+      }
+      node.appendChild(
+        typeof child === "object" ? child : document.createTextNode(String(child))
+      );
+    });
+    return node;
+  }
+
+  function clear(node) {
+    while (node.firstChild) {
+      node.removeChild(node.firstChild);
+    }
+    return node;
+  }
+
+  function showError(error) {
+    var box = byId("error");
+    box.textContent = error instanceof Error ? error.message : String(error);
+    box.hidden = false;
+  }
+
+  function clearError() {
+    byId("error").hidden = true;
+  }
+
+  function signedIn() {
+    return Boolean(sessionStorage.getItem(KEY_STORAGE));
+  }
+
+  function api(method, path, body) {
+    var headers = {
+      "Content-Type": "application/json",
+      "X-API-Key": sessionStorage.getItem(KEY_STORAGE) || ""
+    };
+    var tenant = sessionStorage.getItem(TENANT_STORAGE);
+    if (tenant) {
+      headers["X-Tenant-Id"] = tenant;
+    }
+
+    return fetch(path, {
+      method: method,
+      headers: headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }).then(function (response) {
+      return response
+        .json()
+        .catch(function () {
+          return {};
+        })
+        .then(function (payload) {
+          if (!response.ok || payload.success === false) {
+            if (response.status === 401) {
+              signOut();
+            }
+            var error = payload.error;
+            throw new Error(
+              typeof error === "string"
+                ? error
+                : error && error.message
+                  ? error.message
+                  : "Request failed with status " + response.status
+            );
+          }
+          return payload;
+        });
+    });
+  }
+
+  function parseTime(value) {
+    if (!value) {
+      return null;
+    }
+    var text = String(value);
+    // D1 timestamps like "2024-06-01 08:12:44" are UTC
+    if (text.indexOf("T") === -1) {
+      text = text.replace(" ", "T") + "Z";
+    }
+    var date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  function formatTime(value) {
+    var date = parseTime(value);
+    return date ? date.toLocaleString() : "";
+  }
+
+  function formatDuration(ms) {
+    if (ms === null || ms === undefined || ms < 0) {
+      return "";
+    }
+    if (ms < 1000) {
+      return Math.round(ms) + " ms";
+    }
+    var seconds = ms / 1000;
+    if (seconds < 60) {
+      return seconds.toFixed(1) + " s";
+    }
+    var minutes = Math.floor(seconds / 60);
+    if (minutes < 60) {
+      return minutes + " min " + Math.round(seconds % 60) + " s";
+    }
+    return Math.floor(minutes / 60) + " h " + (minutes % 60) + " min";
+  }
+
+  function runDuration(run) {
+    var start = parseTime(run.dispatched_at || run.created_at);
+    var end = parseTime(run.completed_at);
+    return start && end ? end - start : null;
+  }
+
+  function parseJson(value) {
+    if (typeof value !== "string") {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return value;
+    }
+  }
+
+  function statusBadge(status) {
+    return el(
+      "span",
+      { class: "status status-" + String(status || "").toLowerCase() },
+      status
+    );
+  }
+
+  function runLink(run) {
+    return el("a", { href: "#/runs/" + encodeURIComponent(run.id) }, run.id.slice(0, 8));
+  }
+
+  // Run list
+
+  function filterParams() {
+    var form = byId("filters");
+    var params = new URLSearchParams();
+    ["workflowType", "status", "ref_id", "ref_type"].forEach(function (name) {
+      var value = form.elements[name].value.trim();
+      if (value) {
+        params.set(name, value);
+      }
+    });
+    ["createdAfter", "createdBefore"].forEach(function (name) {
+      var value = form.elements[name].value;
+      if (value) {
+        params.set(name, new Date(value).toISOString());
+      }
+    });
+    params.set("include", "none");
+    params.set("limit", String(PAGE_SIZE));
+    return params;
+  }
+
+  function loadRuns(append) {
+    var params = filterParams();
+    if (append && state.cursor) {
+      params.set("cursor", state.cursor);
+    } else {
+      params.set("includeTotal", "true");
+    }
+
+    return api("GET", "/v1/runs?" + params.toString())
+      .then(function (payload) {
+        state.runs = append ? state.runs.concat(payload.data) : payload.data;
+        state.cursor = payload.meta.nextCursor;
+        state.pagesLoaded = append ? state.pagesLoaded + 1 : 1;
+        if (!append) {
+          state.total = payload.meta.totalCount;
+        }
+        renderRuns();
+      })
+      .catch(showError);
+  }
+
+  function renderRuns() {
+    var body = clear(byId("runs"));
+    state.runs.forEach(function (run) {
+      body.appendChild(
+        el("tr", {}, [
+          el("td", {}, runLink(run)),
+          el("td", {}, run.workflow_type || ""),
+          el("td", {}, statusBadge(run.status)),
+          el(
+            "td",
+            {},
+            run.ref_type || run.ref_id
+              ? (run.ref_type || "") + ":" + (run.ref_id || "")
+              : ""
+          ),
+          el("td", {}, formatTime(run.created_at)),
+          el("td", {}, formatDuration(runDuration(run)))
+        ])
+      );
+    });
+
+    byId("runs-summary").textContent =
+      state.runs.length === 0
+        ? "No runs match these filters."
+        : "Showing " +
+          state.runs.length +
+          (typeof state.total === "number" ? " of " + state.total : "") +
+          " runs";
+    byId("more").hidden = !state.cursor;
+  }
+
+  // Run detail
+
+  function loadRun(id) {
+    return api("GET", "/v1/runs/" + encodeURIComponent(id))
+      .then(function (payload) {
+        state.run = payload.data;
+        renderRun();
+      })
+      .catch(showError);
+  }
+
+  function runAction(label, path, confirmText, onDone) {
+    return el(
+      "button",
+      {
+        type: "button",
+        class: label === "Cancel" ? "danger" : null,
+        onclick: function (event) {
+          if (confirmText && !window.confirm(confirmText)) {
+            return;
+          }
+          event.target.disabled = true;
+          clearError();
+          api("POST", path, {})
+            .then(onDone)
+            .catch(function (error) {
+              event.target.disabled = false;
+              showError(error);
+            });
+        }
+      },
+      label
+    );
+  }
+
+  function renderRun() {
+    var run = state.run;
+    var container = clear(byId("run"));
+    var path = "/v1/runs/" + encodeURIComponent(run.id);
+    var output = parseJson(run.output_result);
+    var actions = [];
+
+    if (CANCELLABLE.indexOf(run.status) !== -1) {
+      actions.push(
+        runAction("Cancel", path + "/cancel", "Cancel this run?", function () {
+          return loadRun(run.id);
+        })
+      );
+    }
+    if (RERUNNABLE.indexOf(run.status) !== -1) {
+      actions.push(
+        runAction("Rerun", path + "/rerun", null, function (payload) {
+          location.hash = "#/runs/" + encodeURIComponent(payload.data.workflowId);
+        })
+      );
+    }
+
+    container.appendChild(el("h2", {}, [run.workflow_type || "Run", " ", statusBadge(run.status)]));
+    container.appendChild(
+      el("dl", { class: "facts" }, [
+        el("dt", {}, "ID"),
+        el("dd", {}, run.id),
+        el("dt", {}, "Reference"),
+        el("dd", {}, (run.ref_type || "-") + ":" + (run.ref_id || "-")),
+        el("dt", {}, "Version"),
+        el("dd", {}, run.workflow_version || "-"),
+        el("dt", {}, "Created"),
+        el("dd", {}, formatTime(run.created_at)),
+        el("dt", {}, "Completed"),
+        el("dd", {}, formatTime(run.completed_at) || "-"),
+        el("dt", {}, "Duration"),
+        el("dd", {}, formatDuration(runDuration(run)) || "-"),
+        run.rerun_of ? el("dt", {}, "Rerun of") : null,
+        run.rerun_of ? el("dd", {}, el("a", { href: "#/runs/" + encodeURIComponent(run.rerun_of) }, run.rerun_of)) : null
+      ])
+    );
+
+    if (actions.length > 0) {
+      container.appendChild(el("div", { class: "actions" }, actions));
+    }
+
+    if (output && output.error) {
+      container.appendChild(el("p", { class: "error" }, String(output.error)));
+    }
+
+    container.appendChild(el("h3", {}, "Steps"));
+    container.appendChild(renderTimeline(run));
+
+    container.appendChild(el("h3", {}, "Input"));
+    container.appendChild(el("pre", {}, JSON.stringify(parseJson(run.input_params), null, 2)));
+    container.appendChild(el("h3", {}, "Output"));
+    container.appendChild(el("pre", {}, JSON.stringify(output, null, 2)));
+  }
+
+  function renderTimeline(run) {
+    var steps = (run.steps || []).slice().sort(function (a, b) {
+      return a.step_index - b.step_index;
+    });
+    if (steps.length === 0) {
+      return el("p", { class: "muted" }, "No steps recorded yet.");
+    }
+
+    var start = parseTime(run.dispatched_at || run.created_at);
+    var end = parseTime(run.completed_at) || new Date();
+    steps.forEach(function (step) {
+      var started = parseTime(step.started_at);
+      var completed = parseTime(step.completed_at);
+      if (started && (!start || started < start)) {
+        start = started;
+      }
+      if (completed && completed > end) {
+        end = completed;
+      }
+    });
+    var span = Math.max(end - start, 1);
+
+    return el(
+      "div",
+      {},
+      steps.map(function (step) {
+        var started = parseTime(step.started_at);
+        var completed = parseTime(step.completed_at);
+        var stepState = parseJson(step.state);
+        var left = started ? ((started - start) / span) * 100 : 0;
+        var width = started ? (((completed || new Date()) - started) / span) * 100 : 0;
+
+        return el("div", { class: "step" }, [
+          el("div", { class: "step-head" }, [
+            el("strong", {}, step.step_index + ". " + step.step_name),
+            statusBadge(step.status),
+            el("span", { class: "muted" }, started ? formatDuration((completed || new Date()) - started) : "")
+          ]),
+          el("div", { class: "track" }, started
+            ? el("div", {
+                class: "bar " + String(step.status || "").toLowerCase(),
+                style: "left:" + left.toFixed(2) + "%;width:" + width.toFixed(2) + "%"
+              })
+            : null),
+          stepState && stepState.error
+            ? el("p", { class: "error" }, String(stepState.error))
+            : null,
+          step.retries && step.retries.length > 0
+            ? el(
+                "ol",
+                { class: "retries" },
+                step.retries.map(function (retry) {
+                  return el("li", {}, [
+                    "Retry " + retry.retry_count + " at " + formatTime(retry.retry_at) + ": ",
+                    el("code", {}, retry.last_error)
+                  ]);
+                })
+              )
+            : null
+        ]);
+      })
+    );
+  }
+
+  // Live updates
+
+  function setLive(on, message) {
+    var live = byId("live");
+    live.className = on ? "live on" : "live";
+    live.textContent = on ? "Live" : message || "Offline";
+  }
+
+  function scheduleRefresh() {
+    clearTimeout(state.refresh);
+    state.refresh = setTimeout(function () {
+      if (state.view === "run" && state.run) {
+        loadRun(state.run.id);
+      } else if (state.view === "runs" && state.pagesLoaded <= 1) {
+        loadRuns(false);
+      }
+    }, 500);
+  }
+
+  function handleUpdate(update) {
+    if (!update) {
+      return;
+    }
+
+    if (state.view === "run" && state.run) {
+      var stepIds = (state.run.steps || []).map(function (step) {
+        return step.id;
+      });
+      if (
+        (update.run_update && update.run_update.id === state.run.id) ||
+        (update.step_update && update.step_update.workflow_run_id === state.run.id) ||
+        (update.retry_update && stepIds.indexOf(update.retry_update.workflow_step_id) !== -1)
+      ) {
+        scheduleRefresh();
+      }
+    } else if (state.view === "runs" && update.run_update) {
+      var run = state.runs.filter(function (item) {
+        return item.id === update.run_update.id;
+      })[0];
+      if (run) {
+        Object.keys(update.run_update).forEach(function (key) {
+          run[key] = update.run_update[key];
+        });
+        renderRuns();
+      } else {
+        // New runs may match the filters, so reload the first page
+        scheduleRefresh();
+      }
+    }
+  }
+
+  function connect() {
+    if (state.socket || state.reconnect || !signedIn()) {
+      return;
+    }
+
+    api("POST", "/api/tracker-websocket/token")
+      .then(function (payload) {
+        var socket = new WebSocket(
+          (location.protocol === "https:" ? "wss://" : "ws://") +
+            location.host +
+            "/api/tracker-websocket?token=" +
+            encodeURIComponent(payload.token)
+        );
+        state.socket = socket;
+
+        socket.onopen = function () {
+          setLive(true);
+        };
+        socket.onmessage = function (event) {
+          var message = parseJson(event.data);
+          if (message && message.type === "update") {
+            handleUpdate(message.data);
+          }
+        };
+        socket.onclose = function () {
+          state.socket = null;
+          setLive(false);
+          if (signedIn()) {
+            state.reconnect = setTimeout(function () {
+              state.reconnect = null;
+              connect();
+            }, 5000);
+          }
+        };
+      })
+      .catch(function (error) {
+        // Keys restricted to some workflow types can't follow every update
+        setLive(false, "Live updates unavailable: " + error.message);
+      });
+  }
+
+  // Navigation
+
+  function signOut() {
+    sessionStorage.removeItem(KEY_STORAGE);
+    sessionStorage.removeItem(TENANT_STORAGE);
+    clearTimeout(state.reconnect);
+    state.reconnect = null;
+    if (state.socket) {
+      state.socket.close();
+    }
+    route();
+  }
+
+  function route() {
+    var hash = location.hash || "#/";
+    var runPrefix = "#/runs/";
+
+    clearError();
+    byId("login").hidden = signedIn();
+    byId("sign-out").hidden = !signedIn();
+    byId("runs-view").hidden = true;
+    byId("run-view").hidden = true;
+
+    if (!signedIn()) {
+      state.view = null;
+      return;
+    }
+
+    if (hash.indexOf(runPrefix) === 0) {
+      state.view = "run";
+      state.run = null;
+      clear(byId("run"));
+      byId("run-view").hidden = false;
+      loadRun(decodeURIComponent(hash.slice(runPrefix.length)));
+    } else {
+      state.view = "runs";
+      byId("runs-view").hidden = false;
+      loadRuns(false);
+    }
+
+    connect();
+  }
+
+  byId("login").addEventListener("submit", function (event) {
+    event.preventDefault();
+    var form = event.target;
+    sessionStorage.setItem(KEY_STORAGE, form.elements.apiKey.value.trim());
+    if (form.elements.tenant.value.trim()) {
+      sessionStorage.setItem(TENANT_STORAGE, form.elements.tenant.value.trim());
+    }
+    form.reset();
+    route();
+  });
+
+  byId("filters").addEventListener("submit", function (event) {
+    event.preventDefault();
+    clearError();
+    loadRuns(false);
+  });
+
+  byId("more").addEventListener("click", function () {
+    loadRuns(true);
+  });
+
+  byId("sign-out").addEventListener("click", signOut);
+  window.addEventListener("hashchange", route);
+  route();
+})();
+`;
@@ -0,0 +1,169 @@
+// src/service/definitions.ts
+import { Env, WorkflowDefinition } from "./types";
+import { parseJsonSafe } from "../utils/db";
+
+/**
+ * How long definitions are cached in memory, in milliseconds
+ */
+const DEFINITION_CACHE_TTL = 30 * 1000;
+
+const definitionCache = new Map<
+  string,
+  { definition: WorkflowDefinition | null; expiresAt: number }
+>();
+
+// Definition lists from service options that were already written to D1
+const syncedDefinitionLists = new WeakSet<WorkflowDefinition[]>();
+
+/**
+ * Convert a workflow_definitions row to a workflow definition
+ *
+ * @param row Database row
+ * @returns Workflow definition
+ */
+export function rowToDefinition(row: Record<string, any>): WorkflowDefinition {
+  return {
+    name: row.name,
+    description: row.description || undefined,
+    version: row.version || undefined,
+    binding: row.binding || undefined,
+    inputSchema: parseJsonSafe(row.input_schema, undefined),
+    outputSchema: parseJsonSafe(row.output_schema, undefined),
+    concurrency: parseJsonSafe(row.concurrency, undefined),
+    retention: parseJsonSafe(row.retention, undefined),
+  };
+}
+
+/**
+ * Get a workflow definition by name
+ *
+ * @param name Workflow type/name
+ * @param env Environment bindings
+ * @returns Workflow definition or null if it isn't registered
+ */
+export async function getWorkflowDefinition(
+  name: string,
+  env: Env,
+): Promise<WorkflowDefinition | null> {
+  const cached = definitionCache.get(name);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.definition;
+  }
+
+  const row = await env.DB.prepare(
+    "SELECT * FROM workflow_definitions WHERE name = ?",
+  )
+    .bind(name)
+    .first();
+
+  const definition = row ? rowToDefinition(row) : null;
+  definitionCache.set(name, {
+    definition,
+    expiresAt: Date.now() + DEFINITION_CACHE_TTL,
+  });
+
+  return definition;
+}
+
+/**
+ * Create or replace a workflow definition
+ *
+ * @param definition Workflow definition
+ * @param source Where the definition came from (config, api or auto)
+ * @param env Environment bindings
+ * @returns The saved definition
+ */
+export async function saveWorkflowDefinition(
+  definition: WorkflowDefinition,
+  source: "config" | "api" | "auto",
+  env: Env,
+): Promise<WorkflowDefinition> {
+  await env.DB.prepare(
+    `INSERT INTO workflow_definitions (
+      name, 
+      description, 
+      version, 
+      binding, 
+      input_schema, 
+      output_schema, 
+      concurrency, 
+      retention, 
+      source, 
+      created_at, 
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now')) 
+    ON CONFLICT (name) DO UPDATE SET 
+      description = excluded.description, 
+      version = excluded.version, 
+      binding = excluded.binding, 
+      input_schema = excluded.input_schema, 
+      output_schema = excluded.output_schema, 
+      concurrency = excluded.concurrency, 
+      retention = excluded.retention, 
+      source = excluded.source, 
+      updated_at = datetime('now')`,
+  )
+    .bind(
+      definition.name,
+      definition.description || null,
+      definition.version || null,
+      definition.binding || null,
+      definition.inputSchema ? JSON.stringify(definition.inputSchema) : null,
+      definition.outputSchema ? JSON.stringify(definition.outputSchema) : null,
+      definition.concurrency ? JSON.stringify(definition.concurrency) : null,
+      definition.retention ? JSON.stringify(definition.retention) : null,
+      source,
+    )
+    .run();
+
+  definitionCache.set(definition.name, {
+    definition,
+    expiresAt: Date.now() + DEFINITION_CACHE_TTL,
+  });
+
+  return definition;
+}
+
+/**
+ * Delete a workflow definition
+ *
+ * @param name Workflow type/name
+ * @param env Environment bindings
+ * @returns Whether a definition was deleted
+ */
+export async function deleteWorkflowDefinition(
+  name: string,
+  env: Env,
+): Promise<boolean> {
+  const result = await env.DB.prepare(
+    "DELETE FROM workflow_definitions WHERE name = ?",
+  )
+    .bind(name)
+    .run();
+
+  definitionCache.delete(name);
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Write definitions from the service options to D1, once per isolate, so
+ * they are visible everywhere definitions are looked up
+ *
+ * @param definitions Definitions from the service options
+ * @param env Environment bindings
+ */
+export async function syncWorkflowDefinitions(
+  definitions: WorkflowDefinition[],
+  env: Env,
+): Promise<void> {
+  if (definitions.length === 0 || syncedDefinitionLists.has(definitions)) {
+    return;
+  }
+
+  for (const definition of definitions) {
+    await saveWorkflowDefinition(definition, "config", env);
+  }
+
+  syncedDefinitionLists.add(definitions);
+}
@@ -0,0 +1,83 @@
+// src/service/dispatch.ts
+import { Env } from "./types";
+import { getWorkflowDefinition } from "./definitions";
+import { DEFAULT_TENANT_ID, fetchTracker } from "./tenants";
+
+/**
+ * Get the Cloudflare Workflows binding for a workflow type, if configured
+ *
+ * @param workflowType Workflow type/name
+ * @param env Environment bindings
+ * @returns Workflows binding or null
+ */
+export async function getWorkflowBinding(
+  workflowType: string,
+  env: Env,
+): Promise<any> {
+  // Prefer the binding named in the workflow's definition
+  const definition = await getWorkflowDefinition(workflowType, env);
+  const bindingName = definition?.binding || workflowType.toUpperCase();
+
+  return env[bindingName] || null;
+}
+
+/**
+ * Create the Cloudflare Workflows instance for a run, if a binding is configured
+ *
+ * @param workflowType Workflow type/name
+ * @param instanceId ID of the workflow run
+ * @param params Parameters to pass to the workflow
+ * @param ref_id External reference ID
+ * @param ref_type Reference type
+ * @param env Environment bindings
+ * @returns Whether an instance was created
+ */
+export async function dispatchWorkflowRun(
+  workflowType: string,
+  instanceId: string,
+  params: Record<string, any>,
+  ref_id: string | undefined,
+  ref_type: string | undefined,
+  env: Env,
+): Promise<boolean> {
+  const workflowBinding = await getWorkflowBinding(workflowType, env);
+  if (!workflowBinding) {
+    return false;
+  }
+
+  // Create workflow instance with the ID we generated and include ref_id/ref_type
+  await workflowBinding.create({
+    id: instanceId,
+    payload: {
+      ...params,
+      ref_id: ref_id,
+      ref_type: ref_type,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Ask the tenant's workflow tracker to dispatch a delayed run when it is due
+ *
+ * @param scheduledAt When the run is due
+ * @param env Environment bindings
+ * @param tenantId Tenant of the run
+ */
+export async function scheduleDelayedDispatch(
+  scheduledAt: Date,
+  env: Env,
+  tenantId: string = DEFAULT_TENANT_ID,
+): Promise<void> {
+  await fetchTracker(
+    tenantId,
+    env,
+    "https://workflow-tracker/schedule-dispatch",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ scheduledAt: scheduledAt.toISOString() }),
+    },
+  );
+}
@@ -0,0 +1,16 @@
+// src/service/errors.ts
+
+/**
+ * Error raised by the workflow service with the HTTP status to respond with
+ */
+export class ServiceError extends Error {
+  status: number;
+  details?: any;
+
+  constructor(message: string, status = 400, details?: any) {
+    super(message);
+    this.name = "ServiceError";
+    this.status = status;
+    this.details = details;
+  }
+}
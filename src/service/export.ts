@@ -0,0 +1,224 @@
+// src/service/export.ts
+import { ApiKey, Env, RunExportRequest, WorkflowRunQuery } from "./types";
+import { ServiceError } from "./errors";
+import { PageCursor } from "./pagination";
+import {
+  buildRunPageQuery,
+  getRunSort,
+  loadRunDetails,
+  validateRunFilter,
+} from "./query";
+
+/**
+ * Number of runs read from D1 per page of an export
+ */
+export const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Content types of the export formats
+ */
+export const EXPORT_CONTENT_TYPES = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv; charset=utf-8",
+};
+
+/**
+ * Columns of CSV exports. Each step of a run gets its own row with the
+ * run's columns repeated; runs without steps get a single row.
+ */
+const CSV_COLUMNS = [
+  "run_id",
+  "workflow_type",
+  "status",
+  "ref_id",
+  "ref_type",
+  "workflow_version",
+  "created_at",
+  "updated_at",
+  "completed_at",
+  "input_params",
+  "output_result",
+  "metadata",
+  "step_id",
+  "step_index",
+  "step_name",
+  "step_status",
+  "step_started_at",
+  "step_completed_at",
+  "step_retries",
+  "step_last_error",
+];
+
+/**
+ * Check an export request for invalid values
+ *
+ * @param request Format, filters and sort order from the request
+ * @throws ServiceError (400) for an unknown format or an invalid filter
+ */
+export function validateExportRequest(request: RunExportRequest): void {
+  if (
+    request.format !== undefined &&
+    !Object.keys(EXPORT_CONTENT_TYPES).includes(request.format)
+  ) {
+    throw new ServiceError("format must be one of: ndjson, csv");
+  }
+
+  validateRunFilter(request);
+}
+
+/**
+ * Stream the runs matching the filters as NDJSON (one run per line, with
+ * steps and retries nested) or CSV (one row per step). Runs are read from
+ * D1 one page at a time as the consumer pulls, so the export is never held
+ * in memory as a whole.
+ *
+ * @param request Format, filters and sort order, oldest first by default
+ * @param tenantId Tenant whose runs are exported
+ * @param apiKey API key of the caller, whose restrictions are applied
+ * @param env Environment bindings
+ * @returns Stream of the encoded export
+ */
+export function createRunExportStream(
+  request: RunExportRequest,
+  tenantId: string,
+  apiKey: ApiKey,
+  env: Env,
+): ReadableStream<Uint8Array> {
+  const { format = "ndjson", ...filter } = request;
+  const encoder = new TextEncoder();
+
+  // Leave out runs the key may not access, whatever the request says
+  const query: WorkflowRunQuery = {
+    ...filter,
+    sortOrder: filter.sortOrder || "asc",
+    allowedWorkflowTypes: apiKey.workflowTypes,
+    allowedRefTypes: apiKey.refTypes,
+  };
+
+  // Position after the last run of the previous page
+  let after: PageCursor | null = null;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const pageQuery = buildRunPageQuery(query, tenantId, {
+          limit: EXPORT_PAGE_SIZE,
+          offset: 0,
+          after,
+        });
+        const page = await env.DB.prepare(pageQuery.sql)
+          .bind(...pageQuery.bindValues)
+          .all();
+
+        const rows = page.results as Record<string, any>[];
+        const runs = await loadStepsForRuns(
+          rows.map(({ sort_key, ...run }) => run),
+          env,
+        );
+
+        let chunk = "";
+        if (format === "csv" && !headerSent) {
+          chunk += toCsvRow(CSV_COLUMNS);
+          headerSent = true;
+        }
+
+        for (const run of runs) {
+          chunk +=
+            format === "csv" ? runToCsvRows(run) : `${JSON.stringify(run)}\n`;
+        }
+
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+
+        if (rows.length < EXPORT_PAGE_SIZE) {
+          controller.close();
+          return;
+        }
+
+        const last = rows[rows.length - 1];
+        after = { ...getRunSort(query), value: last.sort_key, id: last.id };
+      } catch (error) {
+        console.error("Error exporting runs:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
+
+/**
+ * Attach steps with their retries to a page of runs, reading archived
+ * runs back from R2
+ */
+async function loadStepsForRuns(
+  runs: Record<string, any>[],
+  env: Env,
+): Promise<Record<string, any>[]> {
+  const detailed = await loadRunDetails(runs, "steps+retries", env);
+
+  // The workflow type is read from the workflow row, so keep it on
+  // archived runs too
+  return detailed.map((run, index) => ({
+    ...run,
+    workflow_type: runs[index].workflow_type,
+  }));
+}
+
+/**
+ * Flatten a run into CSV rows, one per step
+ */
+function runToCsvRows(run: Record<string, any>): string {
+  const runValues = [
+    run.id,
+    run.workflow_type,
+    run.status,
+    run.ref_id,
+    run.ref_type,
+    run.workflow_version,
+    run.created_at,
+    run.updated_at,
+    run.completed_at,
+    run.input_params,
+    run.output_result,
+    run.metadata,
+  ];
+
+  if (run.steps.length === 0) {
+    return toCsvRow([...runValues, ...new Array(8).fill(null)]);
+  }
+
+  return run.steps
+    .map((step: Record<string, any>) => {
+      const lastRetry = step.retries[step.retries.length - 1];
+
+      return toCsvRow([
+        ...runValues,
+        step.id,
+        step.step_index,
+        step.step_name,
+        step.status,
+        step.started_at,
+        step.completed_at,
+        step.retries.length,
+        lastRetry?.last_error,
+      ]);
+    })
+    .join("");
+}
+
+/**
+ * Encode values as a CSV row (RFC 4180)
+ */
+function toCsvRow(values: unknown[]): string {
+  return `${values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return "";
+      }
+
+      const text = typeof value === "string" ? value : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",")}\r\n`;
+}
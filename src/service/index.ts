@@ -13,6 +13,12 @@ export function createWorkflowService(options: WorkflowServiceOptions = {}) {
   const config = {
     allowedOrigins: ["*"],
     debug: false,
+    idempotencyKeyTtl: 86400,
+    idempotencyClaimTimeout: 60,
+    scheduleCatchUp: "latest",
+    maxScheduleCatchUpRuns: 10,
+    definitions: [],
+    autoRegister: false,
     ...options,
   };
 
@@ -29,5 +35,13 @@ export function createWorkflowService(options: WorkflowServiceOptions = {}) {
 // Export the Durable Object
 export { WorkflowTracker };
 
+// Export the built-in auth verifiers
+export { apiKeyVerifier, hmacVerifier, jwtVerifier } from "./auth";
+export type {
+  HmacVerifierOptions,
+  JwtAlgorithm,
+  JwtVerifierOptions,
+} from "./auth";
+
 // Export types
 export * from "./types";
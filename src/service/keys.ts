@@ -0,0 +1,419 @@
+// src/service/keys.ts
+import { ApiKey, ApiKeyInput, ApiKeyScope, Env } from "./types";
+import { ServiceError } from "./errors";
+import { generatePlaceholders, parseJsonSafe } from "../utils/db";
+import { sha256Hex, toHex } from "../utils/crypto";
+import { validateTenantId } from "./tenants";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "start",
+  "read",
+  "cancel",
+  "track",
+  "admin",
+];
+
+/**
+ * Prefix of generated keys, so they are easy to spot in config and logs
+ */
+const API_KEY_PREFIX = "ffk_";
+
+/**
+ * How often last_used_at is written for a key, in milliseconds
+ */
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+/**
+ * The SERVICE_API_KEY variable acts as a root key with every scope
+ */
+const ROOT_API_KEY: ApiKey = {
+  id: "root",
+  name: "SERVICE_API_KEY",
+  prefix: "",
+  scopes: ["admin"],
+};
+
+/**
+ * Convert an api_keys row to an API key, leaving out the hash
+ *
+ * @param row Database row
+ * @returns API key
+ */
+export function rowToApiKey(row: Record<string, any>): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: parseJsonSafe<ApiKeyScope[]>(row.scopes, []),
+    workflowTypes: parseJsonSafe(row.workflow_types, undefined),
+    refTypes: parseJsonSafe(row.ref_types, undefined),
+    tenantId: row.tenant_id || undefined,
+    expiresAt: row.expires_at || undefined,
+    lastUsedAt: row.last_used_at || undefined,
+    revokedAt: row.revoked_at || undefined,
+    rotatedFrom: row.rotated_from || undefined,
+    createdAt: row.created_at || undefined,
+  };
+}
+
+/**
+ * Check an API key request body for invalid fields
+ *
+ * @param input Request body
+ * @returns Error message, or null if the input is valid
+ */
+export function validateApiKeyInput(input: ApiKeyInput): string | null {
+  if (!input.name || typeof input.name !== "string") {
+    return "name must be provided";
+  } else if (
+    !Array.isArray(input.scopes) ||
+    input.scopes.length === 0 ||
+    input.scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+  ) {
+    return `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(", ")}`;
+  } else if (
+    input.workflowTypes !== undefined &&
+    !Array.isArray(input.workflowTypes)
+  ) {
+    return "workflowTypes must be an array";
+  } else if (input.refTypes !== undefined && !Array.isArray(input.refTypes)) {
+    return "refTypes must be an array";
+  } else if (input.tenantId !== undefined && validateTenantId(input.tenantId)) {
+    return validateTenantId(input.tenantId);
+  } else if (
+    input.expiresAt !== undefined &&
+    isNaN(new Date(input.expiresAt).getTime())
+  ) {
+    return `Invalid expiresAt: ${input.expiresAt}`;
+  }
+
+  return null;
+}
+
+/**
+ * Create an API key
+ *
+ * @param input Name, scopes, restrictions and expiry of the key
+ * @param env Environment bindings
+ * @param rotatedFrom ID of the key being replaced, if rotating
+ * @returns The plain-text key (only available now) and the stored key
+ */
+export async function createApiKey(
+  input: ApiKeyInput,
+  env: Env,
+  rotatedFrom?: string,
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const key = `${API_KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)).buffer)}`;
+  const now = new Date().toISOString();
+
+  const row = await env.DB.prepare(
+    `INSERT INTO api_keys (
+      id,
+      name,
+      key_prefix,
+      key_hash,
+      scopes,
+      workflow_types,
+      ref_types,
+      tenant_id,
+      expires_at,
+      rotated_from,
+      created_at,
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *`,
+  )
+    .bind(
+      crypto.randomUUID(),
+      input.name,
+      key.slice(0, API_KEY_PREFIX.length + 8),
+      await sha256Hex(key),
+      JSON.stringify(input.scopes),
+      input.workflowTypes?.length ? JSON.stringify(input.workflowTypes) : null,
+      input.refTypes?.length ? JSON.stringify(input.refTypes) : null,
+      input.tenantId || null,
+      input.expiresAt ? new Date(input.expiresAt).toISOString() : null,
+      rotatedFrom || null,
+      now,
+      now,
+    )
+    .first();
+
+  return { key, apiKey: rowToApiKey(row) };
+}
+
+/**
+ * Replace an API key with a new key that has the same name, scopes and
+ * restrictions
+ *
+ * @param id ID of the key to rotate
+ * @param gracePeriod Seconds the old key keeps working (0 revokes it now)
+ * @param env Environment bindings
+ * @returns The new plain-text key and stored key, or null if not found
+ */
+export async function rotateApiKey(
+  id: string,
+  gracePeriod: number,
+  env: Env,
+): Promise<{ key: string; apiKey: ApiKey } | null> {
+  const row = await env.DB.prepare(
+    "SELECT * FROM api_keys WHERE id = ? AND revoked_at IS NULL",
+  )
+    .bind(id)
+    .first();
+
+  if (!row) {
+    return null;
+  }
+
+  const previous = rowToApiKey(row);
+  const rotated = await createApiKey(
+    {
+      name: previous.name,
+      scopes: previous.scopes,
+      workflowTypes: previous.workflowTypes,
+      refTypes: previous.refTypes,
+      tenantId: previous.tenantId,
+      expiresAt: previous.expiresAt,
+    },
+    env,
+    previous.id,
+  );
+
+  const now = new Date();
+  if (gracePeriod > 0) {
+    // Let the old key keep working while callers switch over
+    const graceEnd = new Date(now.getTime() + gracePeriod * 1000);
+    const expiresAt =
+      previous.expiresAt && new Date(previous.expiresAt) < graceEnd
+        ? previous.expiresAt
+        : graceEnd.toISOString();
+
+    await env.DB.prepare(
+      "UPDATE api_keys SET expires_at = ?, updated_at = ? WHERE id = ?",
+    )
+      .bind(expiresAt, now.toISOString(), id)
+      .run();
+  } else {
+    await revokeApiKey(id, env);
+  }
+
+  return rotated;
+}
+
+/**
+ * Revoke an API key
+ *
+ * @param id ID of the key
+ * @param env Environment bindings
+ * @returns Whether an active key was revoked
+ */
+export async function revokeApiKey(id: string, env: Env): Promise<boolean> {
+  const now = new Date().toISOString();
+  const result = await env.DB.prepare(
+    "UPDATE api_keys SET revoked_at = ?, updated_at = ? WHERE id = ? AND revoked_at IS NULL",
+  )
+    .bind(now, now, id)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+/**
+ * Look up the API key for a request
+ *
+ * @param key Key from the X-API-Key header
+ * @param env Environment bindings
+ * @param ctx Execution context, used to record last use in the background
+ * @returns The matching active key, or null if the key is unknown,
+ * expired or revoked
+ */
+export async function authenticateApiKey(
+  key: string | null,
+  env: Env,
+  ctx?: ExecutionContext,
+): Promise<ApiKey | null> {
+  if (!key) {
+    return null;
+  }
+
+  if (env.SERVICE_API_KEY && key === env.SERVICE_API_KEY) {
+    return ROOT_API_KEY;
+  }
+
+  const now = new Date();
+  const row = await env.DB.prepare(
+    `SELECT * FROM api_keys
+    WHERE key_hash = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)`,
+  )
+    .bind(await sha256Hex(key), now.toISOString())
+    .first();
+
+  if (!row) {
+    return null;
+  }
+
+  // Record the last use at most once a minute per key
+  const recordUse = env.DB.prepare(
+    "UPDATE api_keys SET last_used_at = ? WHERE id = ? AND (last_used_at IS NULL OR last_used_at < ?)",
+  )
+    .bind(
+      now.toISOString(),
+      row.id,
+      new Date(now.getTime() - LAST_USED_RESOLUTION).toISOString(),
+    )
+    .run();
+
+  if (ctx) {
+    ctx.waitUntil(recordUse);
+  } else {
+    await recordUse;
+  }
+
+  return rowToApiKey(row);
+}
+
+/**
+ * Check whether an API key has a scope
+ *
+ * @param apiKey API key
+ * @param scope Required scope
+ * @returns Whether the key has the scope (admin keys have every scope)
+ */
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+}
+
+/**
+ * Check whether an API key may access a workflow type and reference type
+ *
+ * @param apiKey API key
+ * @param workflowType Workflow type/name
+ * @param ref_type Reference type
+ * @returns Whether the key's restrictions allow access
+ */
+export function isApiKeyAllowed(
+  apiKey: ApiKey,
+  workflowType: string | undefined,
+  ref_type: string | undefined,
+): boolean {
+  if (
+    apiKey.workflowTypes &&
+    (!workflowType || !apiKey.workflowTypes.includes(workflowType))
+  ) {
+    return false;
+  }
+
+  if (apiKey.refTypes && (!ref_type || !apiKey.refTypes.includes(ref_type))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Make sure an API key may access a workflow type and reference type
+ *
+ * @param apiKey API key
+ * @param workflowType Workflow type/name
+ * @param ref_type Reference type
+ * @throws ServiceError (403) if the key's restrictions don't allow access
+ */
+export function assertApiKeyAllowed(
+  apiKey: ApiKey,
+  workflowType: string | undefined,
+  ref_type: string | undefined,
+): void {
+  if (!isApiKeyAllowed(apiKey, workflowType, ref_type)) {
+    throw new ServiceError(
+      `API key ${apiKey.name} is not allowed to access workflow type ${workflowType}${ref_type ? ` with ref_type ${ref_type}` : ""}`,
+      403,
+    );
+  }
+}
+
+/**
+ * Check whether a key's workflow type and ref type restrictions are within
+ * another key's, so that a restricted key can't hand out wider access
+ *
+ * @param apiKey Key whose restrictions are the limit
+ * @param restrictions Restrictions of the key being created or managed
+ * @returns Whether every restriction of apiKey is at least as narrow in
+ * restrictions
+ */
+export function isWithinApiKeyRestrictions(
+  apiKey: ApiKey,
+  restrictions: Pick<ApiKeyInput, "workflowTypes" | "refTypes">,
+): boolean {
+  // Unset or empty lists mean no restriction
+  const within = (limit?: string[], values?: string[]) =>
+    !limit ||
+    (!!values?.length && values.every((value) => limit.includes(value)));
+
+  return (
+    within(apiKey.workflowTypes, restrictions.workflowTypes) &&
+    within(apiKey.refTypes, restrictions.refTypes)
+  );
+}
+
+/**
+ * Make sure a key only creates or manages keys within its own workflow
+ * type and ref type restrictions
+ *
+ * @param apiKey Key making the request
+ * @param restrictions Restrictions of the key being created or managed
+ * @throws ServiceError (403) if the restrictions are wider than the key's
+ */
+export function assertWithinApiKeyRestrictions(
+  apiKey: ApiKey,
+  restrictions: Pick<ApiKeyInput, "workflowTypes" | "refTypes">,
+): void {
+  if (!isWithinApiKeyRestrictions(apiKey, restrictions)) {
+    throw new ServiceError(
+      `API key ${apiKey.name} can only manage keys restricted to its own workflow types and ref types`,
+      403,
+    );
+  }
+}
+
+/**
+ * Remove runs an API key may not access from a list of runs
+ *
+ * @param runs workflow_runs rows
+ * @param apiKey API key
+ * @param env Environment bindings
+ * @returns Runs the key may access
+ */
+export async function filterRunsForApiKey<T extends Record<string, any>>(
+  runs: T[],
+  apiKey: ApiKey,
+  env: Env,
+): Promise<T[]> {
+  if (!apiKey.workflowTypes && !apiKey.refTypes) {
+    return runs;
+  }
+
+  // Runs only reference their workflow, so look up the type names
+  const workflowIds = Array.from(new Set(runs.map((run) => run.workflow_id)));
+  const names = new Map<any, string>();
+
+  if (workflowIds.length > 0) {
+    const workflows = await env.DB.prepare(
+      `SELECT id, name FROM workflow WHERE id IN (${generatePlaceholders(workflowIds.length)})`,
+    )
+      .bind(...workflowIds)
+      .all();
+
+    for (const workflow of workflows.results) {
+      names.set(workflow.id, workflow.name as string);
+    }
+  }
+
+  return runs.filter((run) =>
+    isApiKeyAllowed(
+      apiKey,
+      names.get(run.workflow_id),
+      run.ref_type || undefined,
+    ),
+  );
+}
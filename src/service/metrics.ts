@@ -0,0 +1,531 @@
+// src/service/metrics.ts
+import { Env } from "./types";
+import { parseJsonSafe } from "../utils/db";
+
+/**
+ * Default path of the metrics endpoint
+ */
+export const DEFAULT_METRICS_PATH = "/metrics";
+
+/**
+ * Default time metrics are cached for, in seconds
+ */
+export const DEFAULT_METRICS_CACHE_TTL = 15;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Upper bounds of the duration histogram buckets, in seconds
+ */
+export const DURATION_BUCKETS = [
+  1, 5, 15, 30, 60, 300, 900, 1800, 3600, 21600, 86400,
+];
+
+/**
+ * Names of the metrics recorded in workflow_metric_counters
+ */
+const FAILED_STEPS_METRIC = "flowflare_failed_steps_total";
+const STEP_RETRIES_METRIC = "flowflare_step_retries_total";
+const RUN_DURATION_METRIC = "flowflare_run_duration_seconds";
+const STEP_DURATION_METRIC = "flowflare_step_duration_seconds";
+
+// Rendered metrics of this isolate, shared by scrapes until they expire
+let metricsCache: { body: string; expiresAt: number } | null = null;
+
+/**
+ * A metric family in the exposition format
+ */
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: string[];
+}
+
+/**
+ * Get the service's metrics in the Prometheus text exposition format,
+ * from the cache while it is fresh
+ *
+ * @param env Environment bindings
+ * @param cacheTtl How long rendered metrics are reused, in seconds
+ * @returns Metrics text
+ */
+export async function getMetrics(
+  env: Env,
+  cacheTtl = DEFAULT_METRICS_CACHE_TTL,
+): Promise<string> {
+  if (metricsCache && metricsCache.expiresAt > Date.now()) {
+    return metricsCache.body;
+  }
+
+  const body = await collectMetrics(env);
+  metricsCache = { body, expiresAt: Date.now() + cacheTtl * 1000 };
+
+  return body;
+}
+
+/**
+ * Read the service's metrics: the runs stored in D1 by status, the runs
+ * purged by retention and the counters recorded as runs and steps finish.
+ * Every series is labelled with its tenant and workflow type.
+ *
+ * @param env Environment bindings
+ * @returns Metrics text
+ */
+export async function collectMetrics(env: Env): Promise<string> {
+  const [runs, purged, counters] = await env.DB.batch([
+    // Counted per workflow row from the (workflow_id, status) index
+    env.DB.prepare(
+      `SELECT w.tenant_id, w.name AS workflow_type, r.status, SUM(r.count) AS count
+      FROM (
+        SELECT workflow_id, status, COUNT(*) AS count
+        FROM workflow_runs
+        GROUP BY workflow_id, status
+      ) r
+      JOIN workflow w ON w.id = r.workflow_id
+      GROUP BY w.tenant_id, w.name, r.status`,
+    ),
+    env.DB.prepare(
+      `SELECT tenant_id, name AS workflow_type,
+        SUM(COALESCE(purged_completed_count, 0)) AS completed,
+        SUM(COALESCE(purged_errored_count, 0)) AS errored,
+        SUM(COALESCE(purged_cancelled_count, 0)) AS cancelled
+      FROM workflow
+      GROUP BY tenant_id, name
+      HAVING SUM(COALESCE(purged_runs_count, 0)) > 0`,
+    ),
+    env.DB.prepare(
+      `SELECT tenant_id, workflow_type, name, labels, value
+      FROM workflow_metric_counters
+      ORDER BY name, tenant_id, workflow_type, labels`,
+    ),
+  ]);
+
+  // Counter rows by sample name
+  const counterRows = new Map<string, Record<string, any>[]>();
+  for (const row of rows(counters)) {
+    counterRows.set(row.name, [...(counterRows.get(row.name) || []), row]);
+  }
+
+  const families: MetricFamily[] = [
+    {
+      name: "flowflare_runs",
+      help: "Workflow runs stored in D1, by workflow type and status",
+      type: "gauge",
+      samples: rows(runs).map((row) =>
+        sample("flowflare_runs", runLabels(row), row.count),
+      ),
+    },
+    {
+      name: "flowflare_purged_runs_total",
+      help: "Workflow runs deleted by retention purges, by workflow type and status",
+      type: "counter",
+      samples: rows(purged).flatMap((row) =>
+        (["Completed", "Errored", "Cancelled"] as const).map((status) =>
+          sample(
+            "flowflare_purged_runs_total",
+            { ...runLabels(row), status },
+            row[status.toLowerCase()],
+          ),
+        ),
+      ),
+    },
+    {
+      name: FAILED_STEPS_METRIC,
+      help: "Workflow steps that failed, by workflow type and step",
+      type: "counter",
+      samples: counterSamples(FAILED_STEPS_METRIC, counterRows),
+    },
+    {
+      name: STEP_RETRIES_METRIC,
+      help: "Retries of workflow steps, by workflow type and step",
+      type: "counter",
+      samples: counterSamples(STEP_RETRIES_METRIC, counterRows),
+    },
+    {
+      name: RUN_DURATION_METRIC,
+      help: "Duration of finished workflow runs",
+      type: "histogram",
+      samples: histogramSamples(RUN_DURATION_METRIC, counterRows),
+    },
+    {
+      name: STEP_DURATION_METRIC,
+      help: "Duration of finished workflow steps",
+      type: "histogram",
+      samples: histogramSamples(STEP_DURATION_METRIC, counterRows),
+    },
+  ];
+
+  return families
+    .map(
+      (family) =>
+        [
+          `# HELP ${family.name} ${family.help}`,
+          `# TYPE ${family.name} ${family.type}`,
+          ...family.samples,
+        ].join("\n") + "\n",
+    )
+    .join("");
+}
+
+/**
+ * Add a finished run to the duration counters. Runs are timed from when
+ * their Workflows instance was created, and counted once however often
+ * this is called. Failures are logged rather than thrown, so they don't
+ * fail the update that finished the run.
+ *
+ * @param runId ID of a run that may have finished
+ * @param env Environment bindings
+ */
+export async function recordRunMetrics(runId: string, env: Env): Promise<void> {
+  try {
+    const run = await env.DB.prepare(
+      `UPDATE workflow_runs SET metrics_recorded_at = datetime('now')
+      WHERE id = ? AND metrics_recorded_at IS NULL AND completed_at IS NOT NULL
+        AND status IN ('Completed', 'Errored', 'Cancelled')
+      RETURNING tenant_id, workflow_id, status,
+        (julianday(completed_at) - julianday(COALESCE(dispatched_at, created_at))) * 86400 AS duration`,
+    )
+      .bind(runId)
+      .first();
+
+    if (!run) {
+      return;
+    }
+
+    const workflowType = await env.DB.prepare(
+      "SELECT name FROM workflow WHERE id = ?",
+    )
+      .bind(run.workflow_id)
+      .first("name");
+
+    await incrementCounters(
+      run.tenant_id as string,
+      workflowType as string,
+      durationIncrements(
+        RUN_DURATION_METRIC,
+        { status: run.status as string },
+        run.duration as number,
+      ),
+      env,
+    );
+  } catch (error) {
+    console.error("Error recording run metrics:", error);
+  }
+}
+
+/**
+ * Add a finished step to the failure and duration counters, once however
+ * often this is called. Failures are logged rather than thrown.
+ *
+ * @param stepId ID of a step that may have finished
+ * @param env Environment bindings
+ */
+export async function recordStepMetrics(
+  stepId: number | string,
+  env: Env,
+): Promise<void> {
+  try {
+    const step = await env.DB.prepare(
+      `UPDATE workflow_steps SET metrics_recorded_at = datetime('now')
+      WHERE id = ? AND metrics_recorded_at IS NULL AND completed_at IS NOT NULL
+        AND status IN ('Completed', 'Failed')
+      RETURNING tenant_id, workflow_run_id, step_name, status,
+        (julianday(completed_at) - julianday(started_at)) * 86400 AS duration`,
+    )
+      .bind(stepId)
+      .first();
+
+    if (!step) {
+      return;
+    }
+
+    const increments: CounterIncrement[] = [];
+    if (step.status === "Failed") {
+      increments.push({
+        name: FAILED_STEPS_METRIC,
+        labels: { step: step.step_name as string },
+        value: 1,
+      });
+    }
+    // Steps reported without started_at have no duration
+    if (step.duration !== null) {
+      increments.push(
+        ...durationIncrements(
+          STEP_DURATION_METRIC,
+          { step: step.step_name as string, status: step.status as string },
+          step.duration as number,
+        ),
+      );
+    }
+
+    await incrementCounters(
+      step.tenant_id as string,
+      await getRunWorkflowType(step.workflow_run_id as string, env),
+      increments,
+      env,
+    );
+  } catch (error) {
+    console.error("Error recording step metrics:", error);
+  }
+}
+
+/**
+ * Count a retry of a step. Failures are logged rather than thrown.
+ *
+ * @param stepId ID of the retried step
+ * @param env Environment bindings
+ */
+export async function recordStepRetry(
+  stepId: number | string,
+  env: Env,
+): Promise<void> {
+  try {
+    const step = await env.DB.prepare(
+      "SELECT tenant_id, workflow_run_id, step_name FROM workflow_steps WHERE id = ?",
+    )
+      .bind(stepId)
+      .first();
+
+    if (!step) {
+      return;
+    }
+
+    await incrementCounters(
+      step.tenant_id as string,
+      await getRunWorkflowType(step.workflow_run_id as string, env),
+      [
+        {
+          name: STEP_RETRIES_METRIC,
+          labels: { step: step.step_name as string },
+          value: 1,
+        },
+      ],
+      env,
+    );
+  } catch (error) {
+    console.error("Error recording step metrics:", error);
+  }
+}
+
+/**
+ * An amount to add to a counter
+ */
+interface CounterIncrement {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Get the workflow type of a run
+ */
+async function getRunWorkflowType(runId: string, env: Env): Promise<string> {
+  const workflowType = await env.DB.prepare(
+    `SELECT w.name
+    FROM workflow_runs r
+    JOIN workflow w ON w.id = r.workflow_id
+    WHERE r.id = ?`,
+  )
+    .bind(runId)
+    .first("name");
+
+  return (workflowType as string) || "";
+}
+
+/**
+ * Add increments to the counters of a tenant's workflow type
+ */
+async function incrementCounters(
+  tenantId: string,
+  workflowType: string,
+  increments: CounterIncrement[],
+  env: Env,
+): Promise<void> {
+  if (increments.length === 0) {
+    return;
+  }
+
+  await env.DB.batch(
+    increments.map((increment) =>
+      env.DB.prepare(
+        `INSERT INTO workflow_metric_counters (tenant_id, workflow_type, name, labels, value)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (tenant_id, workflow_type, name, labels)
+        DO UPDATE SET value = value + excluded.value, updated_at = datetime('now')`,
+      ).bind(
+        tenantId,
+        workflowType,
+        increment.name,
+        JSON.stringify(increment.labels),
+        increment.value,
+      ),
+    ),
+  );
+}
+
+/**
+ * Build the increments of a duration histogram: the bucket the duration
+ * falls in, the count and the sum. Buckets are stored individually and
+ * made cumulative when rendered.
+ */
+function durationIncrements(
+  name: string,
+  labels: Record<string, string>,
+  duration: number,
+): CounterIncrement[] {
+  // julianday() differences are only precise to about a millisecond
+  const seconds = Math.max(
+    Math.round((Number(duration) || 0) * 1000) / 1000,
+    0,
+  );
+  const bound = DURATION_BUCKETS.find((bucket) => seconds <= bucket);
+
+  return [
+    {
+      name: `${name}_bucket`,
+      labels: { ...labels, le: bound === undefined ? "+Inf" : String(bound) },
+      value: 1,
+    },
+    { name: `${name}_count`, labels, value: 1 },
+    { name: `${name}_sum`, labels, value: seconds },
+  ];
+}
+
+/**
+ * Render the samples of a counter
+ */
+function counterSamples(
+  name: string,
+  counterRows: Map<string, Record<string, any>[]>,
+): string[] {
+  return (counterRows.get(name) || []).map((row) =>
+    sample(name, counterLabels(row), row.value),
+  );
+}
+
+/**
+ * Render the bucket, sum and count samples of a histogram's series
+ */
+function histogramSamples(
+  name: string,
+  counterRows: Map<string, Record<string, any>[]>,
+): string[] {
+  // Bucket counts by series, keyed like the series' count row
+  const buckets = new Map<string, Map<string, number>>();
+  for (const row of counterRows.get(`${name}_bucket`) || []) {
+    const { le, ...labels } = parseLabels(row.labels);
+    const key = seriesKey(row, labels);
+    if (!buckets.has(key)) {
+      buckets.set(key, new Map());
+    }
+    buckets.get(key).set(le, Number(row.value) || 0);
+  }
+
+  const sums = new Map(
+    (counterRows.get(`${name}_sum`) || []).map((row) => [
+      seriesKey(row, parseLabels(row.labels)),
+      row.value,
+    ]),
+  );
+
+  return (counterRows.get(`${name}_count`) || []).flatMap((row) => {
+    const labels = counterLabels(row);
+    const key = seriesKey(row, parseLabels(row.labels));
+    const seriesBuckets = buckets.get(key) || new Map<string, number>();
+
+    let cumulative = 0;
+    return [
+      ...DURATION_BUCKETS.map((bound) => {
+        cumulative += seriesBuckets.get(String(bound)) || 0;
+        return sample(
+          `${name}_bucket`,
+          { ...labels, le: String(bound) },
+          cumulative,
+        );
+      }),
+      sample(`${name}_bucket`, { ...labels, le: "+Inf" }, row.value),
+      sample(`${name}_sum`, labels, sums.get(key) ?? 0),
+      sample(`${name}_count`, labels, row.value),
+    ];
+  });
+}
+
+/**
+ * Labels of a counter row
+ */
+function counterLabels(row: Record<string, any>): Record<string, string> {
+  return {
+    tenant: row.tenant_id,
+    workflow_type: row.workflow_type,
+    ...parseLabels(row.labels),
+  };
+}
+
+/**
+ * Parse the labels stored with a counter
+ */
+function parseLabels(labels: string): Record<string, string> {
+  return parseJsonSafe<Record<string, string>>(labels, {});
+}
+
+/**
+ * Identify the series of a counter row, ignoring its le label
+ */
+function seriesKey(
+  row: Record<string, any>,
+  labels: Record<string, string>,
+): string {
+  return JSON.stringify([row.tenant_id, row.workflow_type, labels]);
+}
+
+/**
+ * Get the rows of a D1 result
+ */
+function rows(result: D1Result): Record<string, any>[] {
+  return result.results as Record<string, any>[];
+}
+
+/**
+ * Labels of a series about runs
+ */
+function runLabels(row: Record<string, any>): Record<string, string> {
+  const labels: Record<string, string> = {
+    tenant: row.tenant_id,
+    workflow_type: row.workflow_type,
+  };
+
+  if (row.status) {
+    labels.status = row.status;
+  }
+
+  return labels;
+}
+
+/**
+ * Render a sample line
+ */
+function sample(
+  name: string,
+  labels: Record<string, string>,
+  value: number | null,
+): string {
+  const labelText = Object.entries(labels)
+    .map(([label, text]) => `${label}="${escapeLabelValue(text)}"`)
+    .join(",");
+
+  return `${name}{${labelText}} ${Number(value) || 0}`;
+}
+
+/**
+ * Escape a label value (backslashes, double quotes and line feeds)
+ */
+function escapeLabelValue(value: unknown): string {
+  return String(value ?? "")
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
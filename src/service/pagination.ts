@@ -0,0 +1,110 @@
+// src/service/pagination.ts
+import { WorkflowRunSortField } from "./types";
+import { ServiceError } from "./errors";
+import { base64UrlDecode, base64UrlEncode } from "../utils/crypto";
+
+/**
+ * Number of runs per page when a list request doesn't set a limit
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Largest page a list request can ask for
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Position in a sorted list of runs: the sort key and ID of the last run
+ * of a page, and the order the cursor was issued for
+ */
+export interface PageCursor {
+  sortBy: WorkflowRunSortField;
+  sortOrder: "asc" | "desc";
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Encode the position after a run as an opaque cursor
+ *
+ * @param position Sort order, sort key and ID of the last run of a page
+ * @returns URL-safe cursor
+ */
+export function encodeCursor(position: PageCursor): string {
+  return base64UrlEncode(
+    JSON.stringify([
+      position.sortBy,
+      position.sortOrder,
+      position.value,
+      position.id,
+    ]),
+  );
+}
+
+/**
+ * Decode a cursor from a previous page
+ *
+ * @param cursor Cursor from nextCursor
+ * @returns Position to continue after
+ * @throws ServiceError (400) if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): PageCursor {
+  try {
+    const [sortBy, sortOrder, value, id] = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(cursor)),
+    );
+
+    if (
+      typeof sortBy !== "string" ||
+      (sortOrder !== "asc" && sortOrder !== "desc") ||
+      (typeof value !== "string" && typeof value !== "number") ||
+      typeof id !== "string"
+    ) {
+      throw new Error("Unexpected cursor contents");
+    }
+
+    return { sortBy: sortBy as WorkflowRunSortField, sortOrder, value, id };
+  } catch {
+    throw new ServiceError("cursor is invalid");
+  }
+}
+
+/**
+ * Check and clamp the page size of a list request
+ *
+ * @param limit Requested page size
+ * @returns Page size between 1 and MAX_PAGE_SIZE
+ * @throws ServiceError (400) if the limit isn't a positive integer
+ */
+export function normalizePageSize(limit: unknown): number {
+  if (limit === undefined || limit === null) {
+    return DEFAULT_PAGE_SIZE;
+  }
+
+  const size = Number(limit);
+  if (!Number.isInteger(size) || size < 1) {
+    throw new ServiceError("limit must be a positive integer");
+  }
+
+  return Math.min(size, MAX_PAGE_SIZE);
+}
+
+/**
+ * Check the offset of a list request
+ *
+ * @param offset Requested offset
+ * @returns Offset as a number
+ * @throws ServiceError (400) if the offset isn't a non-negative integer
+ */
+export function normalizeOffset(offset: unknown): number {
+  if (offset === undefined || offset === null) {
+    return 0;
+  }
+
+  const value = Number(offset);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ServiceError("offset must be a non-negative integer");
+  }
+
+  return value;
+}
@@ -0,0 +1,442 @@
+// src/service/query.ts
+import {
+  Env,
+  JsonFieldValue,
+  RunInclude,
+  WorkflowRunFilter,
+  WorkflowRunQuery,
+  WorkflowRunSortField,
+} from "./types";
+import { generatePlaceholders } from "../utils/db";
+import { ServiceError } from "./errors";
+import { PageCursor } from "./pagination";
+import { hydrateArchivedRuns } from "./archive";
+
+/**
+ * SQL and values to bind
+ */
+export interface RunQuery {
+  sql: string;
+  bindValues: any[];
+}
+
+/**
+ * Duration of a finished run in milliseconds, from when its Workflows
+ * instance was created
+ */
+const RUN_DURATION_MS =
+  "(julianday(r.completed_at) - julianday(COALESCE(r.dispatched_at, r.created_at))) * 86400000";
+
+/**
+ * Sort keys of the sort fields. They are never NULL, so that pages can
+ * continue after the key of the previous page; runs without a completion
+ * time sort before all others.
+ */
+const SORT_EXPRESSIONS: Record<WorkflowRunSortField, string> = {
+  created_at: "r.created_at",
+  updated_at: "COALESCE(r.updated_at, '')",
+  completed_at: "COALESCE(r.completed_at, '')",
+  duration: `COALESCE(${RUN_DURATION_MS}, -1)`,
+};
+
+/**
+ * Fields runs can be sorted by
+ */
+export const RUN_SORT_FIELDS = Object.keys(
+  SORT_EXPRESSIONS,
+) as WorkflowRunSortField[];
+
+/**
+ * Related data that can be loaded with runs
+ */
+const RUN_INCLUDES: RunInclude[] = ["none", "steps", "steps+retries"];
+
+/**
+ * JSON columns that can be matched by path
+ */
+const JSON_FILTER_COLUMNS = ["metadata", "input_params"] as const;
+
+/**
+ * Dotted paths allowed in JSON matches
+ */
+const JSON_PATH_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+/**
+ * Check a run filter for invalid values
+ *
+ * @param filter Filter from the request
+ * @throws ServiceError (400) for the first invalid field
+ */
+export function validateRunFilter(filter: WorkflowRunFilter): void {
+  for (const field of ["workflowType", "status"] as const) {
+    const value = filter[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      typeof value !== "string" &&
+      !(Array.isArray(value) && value.every((item) => typeof item === "string"))
+    ) {
+      throw new ServiceError(
+        `${field} must be a string or an array of strings`,
+      );
+    }
+  }
+
+  for (const field of [
+    "createdAfter",
+    "createdBefore",
+    "completedAfter",
+    "completedBefore",
+  ] as const) {
+    if (
+      filter[field] !== undefined &&
+      filter[field] !== null &&
+      isNaN(new Date(filter[field]).getTime())
+    ) {
+      throw new ServiceError(`${field} must be a valid timestamp`);
+    }
+  }
+
+  if (
+    filter.minDurationMs !== undefined &&
+    filter.minDurationMs !== null &&
+    !(typeof filter.minDurationMs === "number" && filter.minDurationMs >= 0)
+  ) {
+    throw new ServiceError("minDurationMs must be a non-negative number");
+  }
+
+  for (const column of JSON_FILTER_COLUMNS) {
+    const matches = filter[column];
+    if (matches === undefined || matches === null) {
+      continue;
+    } else if (typeof matches !== "object" || Array.isArray(matches)) {
+      throw new ServiceError(`${column} must be an object`);
+    }
+
+    for (const [path, value] of Object.entries(matches)) {
+      if (!JSON_PATH_PATTERN.test(path)) {
+        throw new ServiceError(
+          `${column} keys must be dotted paths of letters, digits, _ and -`,
+        );
+      } else if (value !== null && typeof value === "object") {
+        throw new ServiceError(
+          `${column}.${path} must be a string, number, boolean or null`,
+        );
+      }
+    }
+  }
+
+  if (filter.sortBy && !RUN_SORT_FIELDS.includes(filter.sortBy)) {
+    throw new ServiceError(
+      `sortBy must be one of: ${RUN_SORT_FIELDS.join(", ")}`,
+    );
+  }
+
+  if (filter.sortOrder && !["asc", "desc"].includes(filter.sortOrder)) {
+    throw new ServiceError("sortOrder must be one of: asc, desc");
+  }
+}
+
+/**
+ * Get the sort field and direction of a filter, with their defaults
+ *
+ * @param filter Run filter
+ * @returns Sort field and direction
+ */
+export function getRunSort(filter: WorkflowRunFilter): {
+  sortBy: WorkflowRunSortField;
+  sortOrder: "asc" | "desc";
+} {
+  return {
+    sortBy: filter.sortBy || "created_at",
+    sortOrder: filter.sortOrder || "desc",
+  };
+}
+
+/**
+ * Build the WHERE conditions matching a filter. Runs are read from
+ * workflow_runs as r.
+ *
+ * @param filter Run filter, with the caller's API key restrictions
+ * @param tenantId Tenant whose runs are matched
+ * @returns Conditions and values to bind
+ */
+export function buildRunConditions(
+  filter: WorkflowRunQuery,
+  tenantId: string,
+): RunQuery {
+  const conditions = ["r.tenant_id = ?"];
+  const bindValues: any[] = [tenantId];
+
+  const workflowTypes = toList(filter.workflowType);
+  if (workflowTypes) {
+    // Runs only reference their workflow row, which carries the name
+    conditions.push(
+      `r.workflow_id IN (SELECT id FROM workflow WHERE name IN (${generatePlaceholders(workflowTypes.length)}))`,
+    );
+    bindValues.push(...workflowTypes);
+  }
+
+  const statuses = toList(filter.status);
+  if (statuses) {
+    conditions.push(`r.status IN (${generatePlaceholders(statuses.length)})`);
+    bindValues.push(...statuses);
+  }
+
+  if (filter.ref_id) {
+    conditions.push("r.ref_id = ?");
+    bindValues.push(filter.ref_id);
+  }
+
+  if (filter.ref_type) {
+    conditions.push("r.ref_type = ?");
+    bindValues.push(filter.ref_type);
+  }
+
+  if (filter.version) {
+    conditions.push("r.workflow_version = ?");
+    bindValues.push(filter.version);
+  }
+
+  for (const [field, column, operator] of [
+    ["createdAfter", "created_at", ">="],
+    ["createdBefore", "created_at", "<"],
+    ["completedAfter", "completed_at", ">="],
+    ["completedBefore", "completed_at", "<"],
+  ] as const) {
+    if (filter[field] !== undefined && filter[field] !== null) {
+      conditions.push(`r.${column} ${operator} ?`);
+      bindValues.push(new Date(filter[field]).toISOString());
+    }
+  }
+
+  if (typeof filter.minDurationMs === "number") {
+    conditions.push(`r.completed_at IS NOT NULL AND ${RUN_DURATION_MS} >= ?`);
+    bindValues.push(filter.minDurationMs);
+  }
+
+  for (const column of JSON_FILTER_COLUMNS) {
+    for (const [path, value] of Object.entries(filter[column] || {})) {
+      const match = jsonFieldCondition(column, path, value);
+      conditions.push(match.sql);
+      bindValues.push(...match.bindValues);
+    }
+  }
+
+  // Leave out runs the caller's API key may not access, so that pages
+  // and counts only cover the rest
+  if (filter.allowedWorkflowTypes) {
+    conditions.push(
+      `r.workflow_id IN (SELECT id FROM workflow WHERE name IN (${generatePlaceholders(filter.allowedWorkflowTypes.length)}))`,
+    );
+    bindValues.push(...filter.allowedWorkflowTypes);
+  }
+
+  if (filter.allowedRefTypes) {
+    conditions.push(
+      `r.ref_type IN (${generatePlaceholders(filter.allowedRefTypes.length)})`,
+    );
+    bindValues.push(...filter.allowedRefTypes);
+  }
+
+  return { sql: conditions.join(" AND "), bindValues };
+}
+
+/**
+ * Build the query counting the runs that match a filter
+ *
+ * @param filter Run filter
+ * @param tenantId Tenant whose runs are counted
+ * @returns Query returning a count column
+ */
+export function buildRunCountQuery(
+  filter: WorkflowRunQuery,
+  tenantId: string,
+): RunQuery {
+  const { sql, bindValues } = buildRunConditions(filter, tenantId);
+
+  return {
+    sql: `SELECT COUNT(*) AS count FROM workflow_runs r WHERE ${sql}`,
+    bindValues,
+  };
+}
+
+/**
+ * Build the query for a page of runs matching a filter, in the filter's
+ * sort order. Rows carry their sort key as sort_key, for the next cursor.
+ *
+ * @param filter Run filter
+ * @param tenantId Tenant whose runs are listed
+ * @param page Number of rows to read, offset, and the cursor to continue
+ * after
+ * @returns Page query
+ * @throws ServiceError (400) if the cursor was issued for another sort
+ */
+export function buildRunPageQuery(
+  filter: WorkflowRunQuery,
+  tenantId: string,
+  page: { limit: number; offset: number; after: PageCursor | null },
+): RunQuery {
+  const { sortBy, sortOrder } = getRunSort(filter);
+  const sortKey = SORT_EXPRESSIONS[sortBy];
+  const { sql, bindValues } = buildRunConditions(filter, tenantId);
+  const conditions = [sql];
+
+  if (page.after) {
+    if (page.after.sortBy !== sortBy || page.after.sortOrder !== sortOrder) {
+      throw new ServiceError(
+        "cursor was issued for a different sortBy or sortOrder",
+      );
+    }
+
+    const operator = sortOrder === "desc" ? "<" : ">";
+    conditions.push(
+      `(${sortKey} ${operator} ? OR (${sortKey} = ? AND r.id ${operator} ?))`,
+    );
+    bindValues.push(page.after.value, page.after.value, page.after.id);
+  }
+
+  const direction = sortOrder === "desc" ? "DESC" : "ASC";
+
+  return {
+    sql: `SELECT r.*,
+        (SELECT name FROM workflow WHERE id = r.workflow_id) AS workflow_type,
+        ${sortKey} AS sort_key
+      FROM workflow_runs r
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY sort_key ${direction}, r.id ${direction}
+      LIMIT ? OFFSET ?`,
+    bindValues: [...bindValues, page.limit, page.after ? 0 : page.offset],
+  };
+}
+
+/**
+ * Check the related data requested with runs
+ *
+ * @param include Requested related data
+ * @returns Related data to load, 'steps+retries' by default
+ * @throws ServiceError (400) for an unknown value
+ */
+export function normalizeRunInclude(include: unknown): RunInclude {
+  if (include === undefined || include === null) {
+    return "steps+retries";
+  } else if (!RUN_INCLUDES.includes(include as RunInclude)) {
+    throw new ServiceError(
+      `include must be one of: ${RUN_INCLUDES.join(", ")}`,
+    );
+  }
+
+  return include as RunInclude;
+}
+
+/**
+ * Attach steps, and optionally their retries, to a page of runs, reading
+ * archived runs back from R2. Steps and retries of the whole page are
+ * loaded with one query each, so the number of queries doesn't grow with
+ * the page.
+ *
+ * @param runs workflow_runs rows, at most 100
+ * @param include Related data to attach
+ * @param env Environment bindings
+ * @returns Runs with their steps, in the same order
+ */
+export async function loadRunDetails(
+  runs: Record<string, any>[],
+  include: RunInclude,
+  env: Env,
+): Promise<Record<string, any>[]> {
+  if (include === "none") {
+    return runs;
+  }
+
+  // Archived runs have no steps left in D1
+  const runIds = runs.filter((run) => !run.archived_at).map((run) => run.id);
+  const stepsByRun = new Map<string, Record<string, any>[]>();
+
+  if (runIds.length > 0) {
+    const steps = await env.DB.prepare(
+      `SELECT * FROM workflow_steps
+      WHERE workflow_run_id IN (${generatePlaceholders(runIds.length)})
+      ORDER BY step_index ASC`,
+    )
+      .bind(...runIds)
+      .all();
+
+    const retriesByStep = new Map<unknown, Record<string, any>[]>();
+    if (include === "steps+retries" && steps.results.length > 0) {
+      const retries = await env.DB.prepare(
+        `SELECT t.* FROM workflow_step_retries t
+        JOIN workflow_steps s ON s.id = t.workflow_step_id
+        WHERE s.workflow_run_id IN (${generatePlaceholders(runIds.length)})
+        ORDER BY t.retry_count ASC`,
+      )
+        .bind(...runIds)
+        .all();
+
+      for (const retry of retries.results) {
+        const list = retriesByStep.get(retry.workflow_step_id) || [];
+        list.push(retry);
+        retriesByStep.set(retry.workflow_step_id, list);
+      }
+    }
+
+    for (const step of steps.results as Record<string, any>[]) {
+      if (include === "steps+retries") {
+        step.retries = retriesByStep.get(step.id) || [];
+      }
+
+      const list = stepsByRun.get(step.workflow_run_id) || [];
+      list.push(step);
+      stepsByRun.set(step.workflow_run_id, list);
+    }
+  }
+
+  const hydrated = await hydrateArchivedRuns(
+    runs.map((run) => ({ ...run, steps: stepsByRun.get(run.id) || [] })),
+    env,
+  );
+
+  // Archived documents always carry retries
+  return include === "steps"
+    ? hydrated.map((run) => ({
+        ...run,
+        steps: (run.steps || []).map(({ retries, ...step }) => step),
+      }))
+    : hydrated;
+}
+
+/**
+ * Build the condition matching one field of a JSON column
+ */
+function jsonFieldCondition(
+  column: (typeof JSON_FILTER_COLUMNS)[number],
+  path: string,
+  value: JsonFieldValue,
+): RunQuery {
+  const extract = `json_extract(r.${column}, ?)`;
+
+  if (value === null) {
+    return { sql: `${extract} IS NULL`, bindValues: [`$.${path}`] };
+  }
+
+  // json_extract returns JSON booleans as 1 and 0
+  return {
+    sql: `${extract} = ?`,
+    bindValues: [
+      `$.${path}`,
+      typeof value === "boolean" ? (value ? 1 : 0) : value,
+    ],
+  };
+}
+
+/**
+ * Normalize a single value or a list of values to a non-empty list
+ */
+function toList(value: string | string[] | undefined | null): string[] | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  return list.length > 0 ? list : null;
+}
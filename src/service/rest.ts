@@ -0,0 +1,1093 @@
+// src/service/rest.ts
+import { ApiKeyScope } from "./types";
+import { ServiceError } from "./errors";
+import { RUN_SORT_FIELDS } from "./query";
+import { TENANT_HEADER } from "./tenants";
+
+/**
+ * Prefix of the REST API
+ */
+export const REST_PREFIX = "/v1";
+
+/**
+ * Path of the OpenAPI document
+ */
+export const OPENAPI_PATH = `${REST_PREFIX}/openapi.json`;
+
+/**
+ * Error codes of the error envelope, by HTTP status
+ */
+const ERROR_CODES: Record<number, string> = {
+  400: "invalid_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  429: "rate_limited",
+  500: "internal_error",
+};
+
+/**
+ * Type of a query parameter
+ */
+type RestParamType = "string" | "integer" | "number" | "boolean" | "array";
+
+/**
+ * A query parameter of a REST route
+ */
+interface RestQueryParam {
+  name: string;
+  type: RestParamType;
+  description?: string;
+  enum?: string[];
+}
+
+/**
+ * Path parameters, query parameters and body of a REST request
+ */
+interface RestInput {
+  params: Record<string, string>;
+  query: Record<string, any>;
+  body: Record<string, any>;
+}
+
+/**
+ * A REST route and the service endpoint it is an alias of
+ */
+export interface RestRoute {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  /**
+   * Path template, with parameters in braces (e.g. /v1/runs/{id})
+   */
+  path: string;
+  servicePath: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  query?: RestQueryParam[];
+  /**
+   * Whether metadata.<path> and input_params.<path> query parameters
+   * match fields of a run
+   */
+  jsonFields?: boolean;
+  /**
+   * Schema of the request body
+   */
+  body?: Record<string, any>;
+  /**
+   * Schema of the data of a successful response
+   */
+  response?: Record<string, any>;
+  /**
+   * Default: 200
+   */
+  status?: number;
+  /**
+   * Whether the response carries nextCursor and totalCount
+   */
+  paginated?: boolean;
+  /**
+   * Whether the response body is streamed through as it is
+   */
+  stream?: boolean;
+  /**
+   * Build the service request body
+   * Default: the query parameters merged with the request body
+   */
+  payload?: (input: RestInput) => Record<string, any>;
+  /**
+   * Pick the data from the service response body. A null result is
+   * reported as not found.
+   * Default: the body without its success flag
+   */
+  data?: (body: Record<string, any>) => any;
+}
+
+/**
+ * A request matched to a REST route
+ */
+export interface RestRouteMatch {
+  route: RestRoute;
+  params: Record<string, string>;
+}
+
+/**
+ * Reference to a component schema
+ */
+function ref(name: string): Record<string, any> {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Schema of an array of a component
+ */
+function listOf(name: string): Record<string, any> {
+  return { type: "array", items: ref(name) };
+}
+
+/**
+ * Query parameters of the run filter and sort order
+ */
+const RUN_FILTER_QUERY: RestQueryParam[] = [
+  {
+    name: "workflowType",
+    type: "array",
+    description: "Workflow types to include (repeat or comma-separate)",
+  },
+  {
+    name: "status",
+    type: "array",
+    description: "Statuses to include (repeat or comma-separate)",
+  },
+  { name: "ref_id", type: "string" },
+  { name: "ref_type", type: "string" },
+  { name: "version", type: "string" },
+  { name: "createdAfter", type: "string" },
+  { name: "createdBefore", type: "string" },
+  { name: "completedAfter", type: "string" },
+  { name: "completedBefore", type: "string" },
+  { name: "minDurationMs", type: "integer" },
+  { name: "sortBy", type: "string", enum: RUN_SORT_FIELDS },
+  { name: "sortOrder", type: "string", enum: ["asc", "desc"] },
+];
+
+/**
+ * Query parameters of run lists
+ */
+const RUN_LIST_QUERY: RestQueryParam[] = [
+  ...RUN_FILTER_QUERY,
+  {
+    name: "include",
+    type: "string",
+    enum: ["none", "steps", "steps+retries"],
+  },
+  { name: "limit", type: "integer" },
+  { name: "offset", type: "integer" },
+  { name: "cursor", type: "string" },
+  { name: "includeTotal", type: "boolean" },
+];
+
+/**
+ * Query parameters of offset-paginated lists
+ */
+const PAGE_QUERY: RestQueryParam[] = [
+  { name: "limit", type: "integer" },
+  { name: "offset", type: "integer" },
+];
+
+/**
+ * Routes of the REST API
+ */
+export const REST_ROUTES: RestRoute[] = [
+  {
+    method: "GET",
+    path: "/v1/runs",
+    servicePath: "/service/list-workflows",
+    operationId: "listRuns",
+    summary: "List workflow runs",
+    tag: "Runs",
+    query: RUN_LIST_QUERY,
+    jsonFields: true,
+    paginated: true,
+    response: listOf("Run"),
+    data: (body) => body.workflows,
+  },
+  {
+    method: "POST",
+    path: "/v1/runs",
+    servicePath: "/service/start-workflow",
+    operationId: "startRun",
+    summary: "Start a workflow run",
+    tag: "Runs",
+    body: ref("StartRunRequest"),
+    response: ref("StartRunResult"),
+    status: 201,
+  },
+  {
+    method: "POST",
+    path: "/v1/runs/batch",
+    servicePath: "/service/start-workflows",
+    operationId: "startRuns",
+    summary: "Start a batch of workflow runs",
+    tag: "Runs",
+    body: {
+      type: "object",
+      required: ["workflows"],
+      properties: { workflows: listOf("StartRunRequest") },
+    },
+    response: {
+      type: "object",
+      properties: {
+        started: { type: "integer" },
+        failed: { type: "integer" },
+        results: { type: "array", items: { type: "object" } },
+      },
+    },
+  },
+  {
+    method: "GET",
+    path: "/v1/runs/delayed",
+    servicePath: "/service/list-delayed-workflows",
+    operationId: "listDelayedRuns",
+    summary: "List runs waiting for their start time",
+    tag: "Runs",
+    query: [
+      { name: "workflowType", type: "string" },
+      { name: "ref_id", type: "string" },
+      { name: "ref_type", type: "string" },
+      ...PAGE_QUERY,
+    ],
+    response: listOf("Run"),
+    data: (body) => body.workflows,
+  },
+  {
+    method: "GET",
+    path: "/v1/runs/export",
+    servicePath: "/service/export",
+    operationId: "exportRuns",
+    summary: "Stream runs as NDJSON or CSV",
+    tag: "Runs",
+    query: [
+      { name: "format", type: "string", enum: ["ndjson", "csv"] },
+      ...RUN_FILTER_QUERY,
+    ],
+    jsonFields: true,
+    stream: true,
+  },
+  {
+    method: "GET",
+    path: "/v1/runs/{id}",
+    servicePath: "/service/get-workflow",
+    operationId: "getRun",
+    summary: "Get a workflow run with its steps",
+    tag: "Runs",
+    payload: ({ params }) => ({ workflowId: params.id }),
+    response: ref("Run"),
+    data: (body) => body.workflow,
+  },
+  {
+    method: "GET",
+    path: "/v1/runs/{id}/steps",
+    servicePath: "/service/get-workflow",
+    operationId: "listRunSteps",
+    summary: "List the steps of a workflow run",
+    tag: "Runs",
+    payload: ({ params }) => ({ workflowId: params.id }),
+    response: listOf("Step"),
+    data: (body) => (body.workflow ? body.workflow.steps || [] : null),
+  },
+  ...(["cancel", "pause", "resume"] as const).map((action): RestRoute => ({
+    method: "POST",
+    path: `/v1/runs/{id}/${action}`,
+    servicePath: `/service/${action}-workflow`,
+    operationId: `${action}Run`,
+    summary: `${action[0].toUpperCase()}${action.slice(1)} a workflow run`,
+    tag: "Runs",
+    payload: ({ params }) => ({ workflowId: params.id }),
+    response: {
+      type: "object",
+      properties: {
+        workflowId: { type: "string" },
+        status: { type: "string" },
+      },
+    },
+  })),
+  {
+    method: "POST",
+    path: "/v1/runs/{id}/rerun",
+    servicePath: "/service/rerun-workflow",
+    operationId: "rerunRun",
+    summary: "Start a new run with the parameters of a previous run",
+    tag: "Runs",
+    body: {
+      type: "object",
+      properties: { overrides: { type: "object" } },
+    },
+    payload: ({ params, body }) => ({
+      runId: params.id,
+      overrides: body.overrides,
+    }),
+    response: ref("StartRunResult"),
+    status: 201,
+  },
+  {
+    method: "GET",
+    path: "/v1/workflows",
+    servicePath: "/service/definitions/list",
+    operationId: "listWorkflows",
+    summary: "List workflow definitions",
+    tag: "Workflows",
+    response: listOf("Definition"),
+    data: (body) => body.definitions,
+  },
+  {
+    method: "POST",
+    path: "/v1/workflows",
+    servicePath: "/service/definitions/register",
+    operationId: "registerWorkflow",
+    summary: "Register or update a workflow definition",
+    tag: "Workflows",
+    body: ref("Definition"),
+    payload: ({ body }) => ({ definition: body }),
+    response: ref("Definition"),
+    data: (body) => body.definition,
+    status: 201,
+  },
+  {
+    method: "GET",
+    path: "/v1/workflows/{name}",
+    servicePath: "/service/definitions/get",
+    operationId: "getWorkflow",
+    summary: "Get a workflow definition",
+    tag: "Workflows",
+    payload: ({ params }) => ({ name: params.name }),
+    response: ref("Definition"),
+    data: (body) => body.definition,
+  },
+  {
+    method: "DELETE",
+    path: "/v1/workflows/{name}",
+    servicePath: "/service/definitions/delete",
+    operationId: "deleteWorkflow",
+    summary: "Delete a workflow definition",
+    tag: "Workflows",
+    payload: ({ params }) => ({ name: params.name }),
+  },
+  {
+    method: "GET",
+    path: "/v1/workflows/{name}/versions",
+    servicePath: "/service/compare-versions",
+    operationId: "compareWorkflowVersions",
+    summary: "Compare run statistics across workflow versions",
+    tag: "Workflows",
+    query: [
+      { name: "versions", type: "array" },
+      { name: "since", type: "string" },
+      { name: "until", type: "string" },
+    ],
+    payload: ({ params, query }) => ({ ...query, workflowType: params.name }),
+  },
+  {
+    method: "GET",
+    path: "/v1/stats",
+    servicePath: "/service/stats",
+    operationId: "getStats",
+    summary: "Get run and step statistics per workflow type",
+    tag: "Stats",
+    query: [
+      { name: "workflowType", type: "string" },
+      { name: "since", type: "string" },
+      { name: "until", type: "string" },
+      { name: "bucket", type: "string", enum: ["hour", "day"] },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/v1/schedules",
+    servicePath: "/service/schedules/list",
+    operationId: "listSchedules",
+    summary: "List workflow schedules",
+    tag: "Schedules",
+    query: [
+      { name: "workflowType", type: "string" },
+      { name: "enabled", type: "boolean" },
+      ...PAGE_QUERY,
+    ],
+    response: listOf("Schedule"),
+    data: (body) => body.schedules,
+  },
+  {
+    method: "POST",
+    path: "/v1/schedules",
+    servicePath: "/service/schedules/create",
+    operationId: "createSchedule",
+    summary: "Create a workflow schedule",
+    tag: "Schedules",
+    body: ref("ScheduleInput"),
+    payload: ({ body }) => ({ schedule: body }),
+    response: ref("Schedule"),
+    data: (body) => body.schedule,
+    status: 201,
+  },
+  {
+    method: "GET",
+    path: "/v1/schedules/{id}",
+    servicePath: "/service/schedules/get",
+    operationId: "getSchedule",
+    summary: "Get a workflow schedule",
+    tag: "Schedules",
+    payload: ({ params }) => ({ id: params.id }),
+    response: ref("Schedule"),
+    data: (body) => body.schedule,
+  },
+  {
+    method: "PATCH",
+    path: "/v1/schedules/{id}",
+    servicePath: "/service/schedules/update",
+    operationId: "updateSchedule",
+    summary: "Update a workflow schedule",
+    tag: "Schedules",
+    body: ref("ScheduleInput"),
+    payload: ({ params, body }) => ({ id: params.id, schedule: body }),
+    response: ref("Schedule"),
+    data: (body) => body.schedule,
+  },
+  {
+    method: "DELETE",
+    path: "/v1/schedules/{id}",
+    servicePath: "/service/schedules/delete",
+    operationId: "deleteSchedule",
+    summary: "Delete a workflow schedule",
+    tag: "Schedules",
+    payload: ({ params }) => ({ id: params.id }),
+  },
+  {
+    method: "GET",
+    path: "/v1/api-keys",
+    servicePath: "/service/api-keys/list",
+    operationId: "listApiKeys",
+    summary: "List API keys",
+    tag: "API keys",
+    query: [{ name: "includeRevoked", type: "boolean" }],
+    response: listOf("ApiKey"),
+    data: (body) => body.apiKeys,
+  },
+  {
+    method: "POST",
+    path: "/v1/api-keys",
+    servicePath: "/service/api-keys/create",
+    operationId: "createApiKey",
+    summary: "Create an API key",
+    tag: "API keys",
+    body: ref("ApiKeyInput"),
+    payload: ({ body }) => ({ apiKey: body }),
+    response: ref("CreatedApiKey"),
+    status: 201,
+  },
+  {
+    method: "GET",
+    path: "/v1/api-keys/{id}",
+    servicePath: "/service/api-keys/get",
+    operationId: "getApiKey",
+    summary: "Get an API key",
+    tag: "API keys",
+    payload: ({ params }) => ({ id: params.id }),
+    response: ref("ApiKey"),
+    data: (body) => body.apiKey,
+  },
+  {
+    method: "POST",
+    path: "/v1/api-keys/{id}/rotate",
+    servicePath: "/service/api-keys/rotate",
+    operationId: "rotateApiKey",
+    summary: "Replace an API key with a new secret",
+    tag: "API keys",
+    body: {
+      type: "object",
+      properties: {
+        gracePeriod: {
+          type: "integer",
+          description: "Seconds the old key keeps working",
+        },
+      },
+    },
+    payload: ({ params, body }) => ({
+      id: params.id,
+      gracePeriod: body.gracePeriod,
+    }),
+    response: ref("CreatedApiKey"),
+  },
+  {
+    method: "DELETE",
+    path: "/v1/api-keys/{id}",
+    servicePath: "/service/api-keys/revoke",
+    operationId: "revokeApiKey",
+    summary: "Revoke an API key",
+    tag: "API keys",
+    payload: ({ params }) => ({ id: params.id }),
+  },
+  {
+    method: "POST",
+    path: "/v1/retention/preview",
+    servicePath: "/service/retention/preview",
+    operationId: "previewRetention",
+    summary: "Count the runs a retention purge would remove",
+    tag: "Retention",
+    body: {
+      type: "object",
+      properties: {
+        workflowType: { type: "string" },
+        retention: { type: "object" },
+      },
+    },
+  },
+];
+
+/**
+ * Find the route for a REST request
+ *
+ * @param method HTTP method
+ * @param path URL path
+ * @returns The matched route and its path parameters, or the methods the
+ * path allows if no route has this method (empty when the path is unknown)
+ */
+export function matchRestRoute(
+  method: string,
+  path: string,
+): RestRouteMatch | { allowedMethods: string[] } {
+  const segments = path.replace(/\/+$/, "").split("/");
+  const allowedMethods: string[] = [];
+
+  for (const route of REST_ROUTES) {
+    const params = matchPath(route.path, segments);
+
+    if (!params) {
+      continue;
+    } else if (route.method === method) {
+      return { route, params };
+    }
+
+    allowedMethods.push(route.method);
+  }
+
+  return { allowedMethods };
+}
+
+/**
+ * Build the body of the service request for a REST request
+ *
+ * @param match Matched route and path parameters
+ * @param searchParams Query parameters of the request
+ * @param body Parsed request body
+ * @returns Service request body
+ * @throws ServiceError (400) for unknown or malformed query parameters
+ */
+export function buildRestPayload(
+  match: RestRouteMatch,
+  searchParams: URLSearchParams,
+  body: Record<string, any>,
+): Record<string, any> {
+  const { route, params } = match;
+  const query: Record<string, any> = {};
+  const declared = new Map(
+    (route.query || []).map((param) => [param.name, param]),
+  );
+
+  for (const name of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(name);
+    const param = declared.get(name);
+    const [field, ...pathParts] = name.split(".");
+
+    if (param) {
+      query[name] = parseQueryValue(param, values);
+    } else if (
+      route.jsonFields &&
+      (field === "metadata" || field === "input_params") &&
+      pathParts.length > 0
+    ) {
+      query[field] = {
+        ...query[field],
+        [pathParts.join(".")]: parseJsonFieldValue(values[values.length - 1]),
+      };
+    } else {
+      throw new ServiceError(`Unknown query parameter: ${name}`);
+    }
+  }
+
+  const input = { params, query, body };
+  return route.payload ? route.payload(input) : { ...query, ...body };
+}
+
+/**
+ * Turn a service response into a REST response: successful bodies are
+ * wrapped as { data, meta } and failures as { error }
+ *
+ * @param route Route of the request
+ * @param response Response of the service endpoint
+ * @returns REST response
+ */
+export async function toRestResponse(
+  route: RestRoute,
+  response: Response,
+): Promise<Response> {
+  if (route.stream && response.ok) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete("Content-Length");
+  headers.set("Content-Type", "application/json");
+
+  const body = (await response.json().catch(() => ({}))) as Record<string, any>;
+
+  if (!response.ok || body.success === false) {
+    return restError(
+      response.ok ? 500 : response.status,
+      body.error || "Unknown error",
+      headers,
+      body.errors,
+    );
+  }
+
+  const { success, nextCursor, totalCount, ...rest } = body;
+  const data = route.data ? route.data(body) : rest;
+
+  if (data === null || data === undefined) {
+    return restError(404, "Resource not found", headers);
+  }
+
+  const meta = route.paginated
+    ? { nextCursor, ...(totalCount !== undefined ? { totalCount } : {}) }
+    : undefined;
+
+  return new Response(JSON.stringify(meta ? { data, meta } : { data }), {
+    status: route.status || response.status,
+    headers,
+  });
+}
+
+/**
+ * Build a REST error response
+ *
+ * @param status HTTP status
+ * @param message Error message
+ * @param headers Response headers (e.g. CORS headers)
+ * @param details Details such as schema validation errors
+ * @returns Response with the error envelope
+ */
+export function restError(
+  status: number,
+  message: string,
+  headers: HeadersInit,
+  details?: any,
+): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("Content-Type", "application/json");
+
+  return new Response(
+    JSON.stringify({
+      error: {
+        code:
+          ERROR_CODES[status] ||
+          (status >= 500 ? "internal_error" : "invalid_request"),
+        message,
+        ...(details !== undefined ? { details } : {}),
+      },
+    }),
+    { status, headers: responseHeaders },
+  );
+}
+
+/**
+ * Generate the OpenAPI 3.1 document of the REST API
+ *
+ * @param scopes Scope an API key needs for each service endpoint
+ * @param origin Origin the API is served from
+ * @returns OpenAPI document
+ */
+export function buildOpenApiDocument(
+  scopes: Record<string, ApiKeyScope>,
+  origin: string,
+): Record<string, any> {
+  const paths: Record<string, Record<string, any>> = {};
+
+  for (const route of REST_ROUTES) {
+    const pathParams = Array.from(route.path.matchAll(/\{(\w+)\}/g)).map(
+      ([, name]) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      }),
+    );
+    const queryParams = (route.query || []).map((param) => ({
+      name: param.name,
+      in: "query",
+      ...(param.description ? { description: param.description } : {}),
+      schema: querySchema(param),
+      ...(param.type === "array" ? { explode: true } : {}),
+    }));
+    const status = String(route.status || 200);
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method.toLowerCase()]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        tags: [route.tag],
+        "x-required-scope": scopes[route.servicePath] || "admin",
+        parameters: [
+          ...pathParams,
+          ...queryParams,
+          { $ref: "#/components/parameters/TenantId" },
+        ],
+        ...(route.body
+          ? {
+              requestBody: {
+                required: true,
+                content: { "application/json": { schema: route.body } },
+              },
+            }
+          : {}),
+        responses: {
+          [status]: route.stream
+            ? {
+                description: "Runs as NDJSON or CSV",
+                content: {
+                  "application/x-ndjson": { schema: { type: "string" } },
+                  "text/csv": { schema: { type: "string" } },
+                },
+              }
+            : {
+                description: route.summary,
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      required: ["data"],
+                      properties: {
+                        data: route.response || { type: "object" },
+                        ...(route.paginated ? { meta: ref("PageMeta") } : {}),
+                      },
+                    },
+                  },
+                },
+              },
+          default: { $ref: "#/components/responses/Error" },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Flowflare API",
+      version: "1",
+      description:
+        "Start, track and manage Cloudflare Workflows runs. Every route is an alias of a /service endpoint.",
+    },
+    servers: [{ url: origin }],
+    security: [{ apiKey: [] }, { bearer: [] }],
+    tags: Array.from(new Set(REST_ROUTES.map((route) => route.tag))).map(
+      (name) => ({ name }),
+    ),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearer: { type: "http", scheme: "bearer" },
+      },
+      parameters: {
+        TenantId: {
+          name: TENANT_HEADER,
+          in: "header",
+          description: "Tenant to act for (admin keys not bound to a tenant)",
+          schema: { type: "string" },
+        },
+      },
+      responses: {
+        Error: {
+          description: "Error",
+          content: { "application/json": { schema: ref("Error") } },
+        },
+      },
+      schemas: COMPONENT_SCHEMAS,
+    },
+  };
+}
+
+/**
+ * Component schemas of the OpenAPI document
+ */
+const COMPONENT_SCHEMAS: Record<string, Record<string, any>> = {
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: {
+        type: "object",
+        required: ["code", "message"],
+        properties: {
+          code: { type: "string", enum: Object.values(ERROR_CODES) },
+          message: { type: "string" },
+          details: {},
+        },
+      },
+    },
+  },
+  PageMeta: {
+    type: "object",
+    properties: {
+      nextCursor: { type: ["string", "null"] },
+      totalCount: { type: "integer" },
+    },
+  },
+  Run: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      workflow_type: { type: "string" },
+      status: {
+        type: "string",
+        enum: [
+          "Queued",
+          "Pending",
+          "Running",
+          "Sleeping",
+          "Paused",
+          "Completed",
+          "Errored",
+          "Cancelled",
+        ],
+      },
+      ref_id: { type: ["string", "null"] },
+      ref_type: { type: ["string", "null"] },
+      input_params: {},
+      output_result: {},
+      metadata: {},
+      workflow_version: { type: ["string", "null"] },
+      rerun_of: { type: ["string", "null"] },
+      created_at: { type: "string", format: "date-time" },
+      updated_at: { type: "string", format: "date-time" },
+      completed_at: { type: ["string", "null"], format: "date-time" },
+      scheduled_at: { type: ["string", "null"], format: "date-time" },
+      steps: listOf("Step"),
+    },
+  },
+  Step: {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      workflow_run_id: { type: "string" },
+      step_name: { type: "string" },
+      step_index: { type: "integer" },
+      status: {
+        type: "string",
+        enum: ["Pending", "Running", "Completed", "Failed", "Retrying"],
+      },
+      state: {},
+      started_at: { type: ["string", "null"], format: "date-time" },
+      completed_at: { type: ["string", "null"], format: "date-time" },
+      retries: listOf("Retry"),
+    },
+  },
+  Retry: {
+    type: "object",
+    properties: {
+      retry_count: { type: "integer" },
+      retry_at: { type: "string", format: "date-time" },
+      last_error: { type: "string" },
+    },
+  },
+  StartRunRequest: {
+    type: "object",
+    required: ["workflowType"],
+    properties: {
+      workflowType: { type: "string" },
+      params: { type: "object" },
+      ref_id: { type: "string" },
+      ref_type: { type: "string" },
+      metadata: { type: "object" },
+      idempotencyKey: {
+        type: "string",
+        description: "Also accepted as the Idempotency-Key header",
+      },
+      startAt: { type: ["string", "integer"] },
+    },
+  },
+  StartRunResult: {
+    type: "object",
+    properties: {
+      workflowId: { type: "string" },
+      ref_id: { type: "string" },
+      ref_type: { type: "string" },
+      scheduledAt: { type: "string", format: "date-time" },
+      queued: { type: "boolean" },
+      skipped: { type: "boolean" },
+    },
+  },
+  Definition: {
+    type: "object",
+    required: ["name"],
+    properties: {
+      name: { type: "string" },
+      description: { type: "string" },
+      version: { type: "string" },
+      binding: { type: "string" },
+      inputSchema: { type: "object" },
+      outputSchema: { type: "object" },
+      concurrency: { type: "object" },
+      retention: { type: "object" },
+    },
+  },
+  Schedule: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: ["string", "null"] },
+      cron: { type: "string" },
+      workflow_type: { type: "string" },
+      params: {},
+      metadata: {},
+      enabled: { type: "integer", enum: [0, 1] },
+      catch_up: { type: "string", enum: ["skip", "latest", "all"] },
+      next_run_at: { type: "string", format: "date-time" },
+      last_run_at: { type: ["string", "null"], format: "date-time" },
+      last_run_id: { type: ["string", "null"] },
+    },
+  },
+  ScheduleInput: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      cron: { type: "string" },
+      workflowType: { type: "string" },
+      params: { type: "object" },
+      ref_id: { type: "string" },
+      ref_type: { type: "string" },
+      metadata: { type: "object" },
+      enabled: { type: "boolean" },
+      catchUp: { type: "string", enum: ["skip", "latest", "all"] },
+    },
+  },
+  ApiKey: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      prefix: { type: "string" },
+      scopes: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["start", "read", "cancel", "track", "admin"],
+        },
+      },
+      workflowTypes: { type: "array", items: { type: "string" } },
+      refTypes: { type: "array", items: { type: "string" } },
+      tenantId: { type: "string" },
+      expiresAt: { type: "string", format: "date-time" },
+      lastUsedAt: { type: "string", format: "date-time" },
+      revokedAt: { type: "string", format: "date-time" },
+      rotatedFrom: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  ApiKeyInput: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      scopes: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["start", "read", "cancel", "track", "admin"],
+        },
+      },
+      workflowTypes: { type: "array", items: { type: "string" } },
+      refTypes: { type: "array", items: { type: "string" } },
+      tenantId: { type: "string" },
+      expiresAt: { type: "string", format: "date-time" },
+    },
+  },
+  CreatedApiKey: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Secret of the key, only returned once",
+      },
+      apiKey: ref("ApiKey"),
+    },
+  },
+};
+
+/**
+ * Match a path against a route's path template
+ */
+function matchPath(
+  template: string,
+  segments: string[],
+): Record<string, string> | null {
+  const parts = template.split("/");
+  if (parts.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < parts.length; index++) {
+    const name = parts[index].match(/^\{(\w+)\}$/)?.[1];
+
+    if (name) {
+      try {
+        params[name] = decodeURIComponent(segments[index]);
+      } catch {
+        return null;
+      }
+    } else if (parts[index] !== segments[index]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Parse the values of a query parameter by its declared type
+ */
+function parseQueryValue(param: RestQueryParam, values: string[]): any {
+  const value = values[values.length - 1];
+
+  switch (param.type) {
+    case "array":
+      return values
+        .flatMap((item) => item.split(","))
+        .map((item) => item.trim())
+        .filter(Boolean);
+    case "integer":
+    case "number": {
+      const number = Number(value);
+      if (
+        value === "" ||
+        isNaN(number) ||
+        (param.type === "integer" && !Number.isInteger(number))
+      ) {
+        throw new ServiceError(`${param.name} must be a ${param.type}`);
+      }
+      return number;
+    }
+    case "boolean":
+      if (value !== "true" && value !== "false") {
+        throw new ServiceError(`${param.name} must be true or false`);
+      }
+      return value === "true";
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse a JSON field match value: JSON scalars (numbers, booleans, null,
+ * quoted strings) are parsed, anything else is matched as a string
+ */
+function parseJsonFieldValue(value: string): any {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === "object" && parsed !== null ? value : parsed;
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Schema of a query parameter
+ */
+function querySchema(param: RestQueryParam): Record<string, any> {
+  if (param.type === "array") {
+    return { type: "array", items: { type: "string" } };
+  }
+
+  return { type: param.type, ...(param.enum ? { enum: param.enum } : {}) };
+}
@@ -0,0 +1,358 @@
+// src/service/retention.ts
+import {
+  Env,
+  RetainedRunStatus,
+  RetentionAction,
+  RetentionReport,
+  RetentionReportEntry,
+  WorkflowRetentionPolicy,
+} from "./types";
+import { generatePlaceholders } from "../utils/db";
+import { archiveRun } from "./archive";
+
+/**
+ * Statuses of runs that can be purged
+ */
+export const RETAINED_STATUSES: RetainedRunStatus[] = [
+  "Completed",
+  "Errored",
+  "Cancelled",
+];
+
+/**
+ * Maximum number of runs deleted per purge batch. D1 allows 100 bound
+ * parameters per statement, and each run ID is bound once.
+ */
+export const DEFAULT_RETENTION_BATCH_SIZE = 50;
+
+/**
+ * Maximum number of purge batches per cron trigger
+ */
+export const DEFAULT_MAX_RETENTION_BATCHES = 20;
+
+/**
+ * Policy to preview instead of the configured one
+ */
+export interface RetentionOverride {
+  /**
+   * Workflow type the policy is for, or undefined to replace the service's
+   * default policy
+   */
+  workflowType?: string;
+
+  /**
+   * Policy to preview
+   */
+  policy: WorkflowRetentionPolicy;
+}
+
+/**
+ * Check a retention policy for invalid settings
+ *
+ * @param policy Policy to check
+ * @param field Name of the policy in error messages
+ * @returns Error message, or null if the policy is valid
+ */
+export function validateRetentionPolicy(
+  policy: WorkflowRetentionPolicy | undefined,
+  field = "retention",
+): string | null {
+  if (policy === undefined || policy === null) {
+    return null;
+  } else if (typeof policy !== "object" || Array.isArray(policy)) {
+    return `${field} must be an object`;
+  }
+
+  for (const [status, days] of Object.entries(policy)) {
+    if (!RETAINED_STATUSES.includes(status as RetainedRunStatus)) {
+      return `${field} keys must be one of: ${RETAINED_STATUSES.join(", ")}`;
+    } else if (typeof days !== "number" || !(days > 0)) {
+      return `${field}.${status} must be a positive number of days`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the FROM and WHERE clauses matching runs whose retention period
+ * has passed. A workflow type's own policy wins over the default policy
+ * for each status it lists.
+ *
+ * @param defaultPolicy Policy for statuses a workflow type doesn't set
+ * @param now Current time
+ * @param override Policy to use instead of the configured one
+ * @returns SQL and values to bind
+ */
+function expiredRunsClause(
+  defaultPolicy: WorkflowRetentionPolicy | undefined,
+  now: Date,
+  override?: RetentionOverride,
+): { sql: string; bindValues: any[] } {
+  const typeOverride = override?.workflowType ? override : undefined;
+  const effectiveDefault =
+    override && !typeOverride ? override.policy : defaultPolicy;
+
+  return {
+    sql: `FROM workflow_runs r
+      JOIN workflow w ON w.id = r.workflow_id
+      LEFT JOIN workflow_definitions d ON d.name = w.name
+      WHERE r.archived_at IS NULL
+        AND r.status IN (${generatePlaceholders(RETAINED_STATUSES.length)})
+        AND julianday(COALESCE(r.completed_at, r.updated_at)) < julianday(?) - COALESCE(
+          CASE WHEN w.name = ? THEN json_extract(?, '$.' || r.status) ELSE json_extract(d.retention, '$.' || r.status) END,
+          json_extract(?, '$.' || r.status)
+        )`,
+    bindValues: [
+      ...RETAINED_STATUSES,
+      now.toISOString(),
+      typeOverride?.workflowType ?? null,
+      typeOverride ? JSON.stringify(typeOverride.policy) : null,
+      effectiveDefault ? JSON.stringify(effectiveDefault) : null,
+    ],
+  };
+}
+
+/**
+ * Show which runs a retention policy would delete or archive, without
+ * touching them
+ *
+ * @param defaultPolicy Policy for workflow types without their own
+ * @param action What the purge does with expired runs
+ * @param env Environment bindings
+ * @param override Policy to preview instead of the configured one
+ * @returns Runs, steps and retries that would be deleted or archived
+ */
+export async function previewRetention(
+  defaultPolicy: WorkflowRetentionPolicy | undefined,
+  action: RetentionAction,
+  env: Env,
+  override?: RetentionOverride,
+): Promise<RetentionReport> {
+  const { sql, bindValues } = expiredRunsClause(
+    defaultPolicy,
+    new Date(),
+    override,
+  );
+
+  const rows = await env.DB.prepare(
+    `SELECT
+      w.name AS workflow_type,
+      r.status AS status,
+      COUNT(*) AS runs,
+      SUM((SELECT COUNT(*) FROM workflow_steps s WHERE s.workflow_run_id = r.id)) AS steps,
+      SUM((SELECT COUNT(*) FROM workflow_step_retries t JOIN workflow_steps s ON s.id = t.workflow_step_id WHERE s.workflow_run_id = r.id)) AS retries,
+      MIN(COALESCE(r.completed_at, r.updated_at)) AS oldest_finished_at
+    ${sql}
+    GROUP BY w.name, r.status
+    ORDER BY w.name ASC, r.status ASC`,
+  )
+    .bind(...bindValues)
+    .all();
+
+  const report: RetentionReport = {
+    dryRun: true,
+    action,
+    runs: 0,
+    steps: 0,
+    retries: 0,
+    workflowTypes: [],
+  };
+
+  for (const row of rows.results as Record<string, any>[]) {
+    report.runs += row.runs;
+    report.steps += row.steps || 0;
+    report.retries += row.retries || 0;
+    report.workflowTypes.push({
+      workflowType: row.workflow_type,
+      status: row.status,
+      runs: row.runs,
+      oldestFinishedAt: row.oldest_finished_at,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Delete or archive runs whose retention period has passed, with their
+ * steps and retries, in bounded batches. Deleted runs are first added to
+ * the purged counters of their workflow row, in the same transaction.
+ * Archived runs are written to the archive bucket and left as stub rows.
+ *
+ * @param defaultPolicy Policy for workflow types without their own
+ * @param env Environment bindings
+ * @param options Action, batch size and maximum number of batches
+ * @returns Runs, steps and retries that were deleted or archived
+ * @throws Error if runs should be archived but ARCHIVE_BUCKET isn't bound
+ */
+export async function purgeExpiredRuns(
+  defaultPolicy: WorkflowRetentionPolicy | undefined,
+  env: Env,
+  options: {
+    action?: RetentionAction;
+    batchSize?: number;
+    maxBatches?: number;
+  } = {},
+): Promise<RetentionReport> {
+  const action = options.action || "delete";
+  const batchSize = Math.min(
+    options.batchSize || DEFAULT_RETENTION_BATCH_SIZE,
+    DEFAULT_RETENTION_BATCH_SIZE,
+  );
+  const maxBatches = options.maxBatches || DEFAULT_MAX_RETENTION_BATCHES;
+
+  // Never delete runs that were meant to be archived
+  if (action === "archive" && !env.ARCHIVE_BUCKET) {
+    throw new Error("ARCHIVE_BUCKET must be bound to archive expired runs");
+  }
+
+  const report: RetentionReport = {
+    dryRun: false,
+    action,
+    runs: 0,
+    steps: 0,
+    retries: 0,
+    workflowTypes: [],
+  };
+  const entries = new Map<string, RetentionReportEntry>();
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const { sql, bindValues } = expiredRunsClause(defaultPolicy, new Date());
+    const expired = await env.DB.prepare(
+      `SELECT r.*, w.name AS workflow_type
+      ${sql}
+      ORDER BY r.created_at ASC
+      LIMIT ?`,
+    )
+      .bind(...bindValues, batchSize)
+      .all();
+
+    const selected = expired.results as Record<string, any>[];
+    if (selected.length === 0) {
+      break;
+    }
+
+    let runs = selected;
+    const archiveKeys = new Map<string, string>();
+
+    if (action === "archive") {
+      // Only runs whose document reached R2 lose their steps and data
+      const outcomes = await Promise.allSettled(
+        selected.map(({ workflow_type, ...run }) => archiveRun(run, env)),
+      );
+
+      runs = selected.filter((run, index) => {
+        const outcome = outcomes[index];
+        if (outcome.status === "rejected") {
+          console.error(`Failed to archive run ${run.id}:`, outcome.reason);
+          return false;
+        }
+
+        archiveKeys.set(run.id, outcome.value);
+        return true;
+      });
+
+      if (runs.length === 0) {
+        break;
+      }
+    }
+
+    const ids = runs.map((run) => run.id);
+    const placeholders = generatePlaceholders(ids.length);
+    const statements: D1PreparedStatement[] = [
+      env.DB.prepare(
+        `DELETE FROM workflow_step_retries WHERE workflow_step_id IN (
+          SELECT id FROM workflow_steps WHERE workflow_run_id IN (${placeholders})
+        )`,
+      ).bind(...ids),
+      env.DB.prepare(
+        `DELETE FROM workflow_steps WHERE workflow_run_id IN (${placeholders})`,
+      ).bind(...ids),
+    ];
+
+    if (action === "archive") {
+      // Leave a stub that points at the archived document
+      const archivedAt = new Date().toISOString();
+      for (const run of runs) {
+        statements.push(
+          env.DB.prepare(
+            `UPDATE workflow_runs SET
+              archived_at = ?,
+              archive_key = ?,
+              input_params = '{}',
+              output_result = '{}',
+              metadata = '{}'
+            WHERE id = ?`,
+          ).bind(archivedAt, archiveKeys.get(run.id), run.id),
+        );
+      }
+    } else {
+      // Count the runs per workflow row and status for the roll-up
+      const counts = new Map<number, Record<RetainedRunStatus, number>>();
+      for (const run of runs) {
+        if (!counts.has(run.workflow_id)) {
+          counts.set(run.workflow_id, {
+            Completed: 0,
+            Errored: 0,
+            Cancelled: 0,
+          });
+        }
+        counts.get(run.workflow_id)[run.status as RetainedRunStatus]++;
+      }
+
+      for (const [workflowId, byStatus] of counts) {
+        statements.push(
+          env.DB.prepare(
+            `UPDATE workflow SET
+              purged_runs_count = COALESCE(purged_runs_count, 0) + ?,
+              purged_completed_count = COALESCE(purged_completed_count, 0) + ?,
+              purged_errored_count = COALESCE(purged_errored_count, 0) + ?,
+              purged_cancelled_count = COALESCE(purged_cancelled_count, 0) + ?,
+              last_purged_at = datetime('now')
+            WHERE id = ?`,
+          ).bind(
+            byStatus.Completed + byStatus.Errored + byStatus.Cancelled,
+            byStatus.Completed,
+            byStatus.Errored,
+            byStatus.Cancelled,
+            workflowId,
+          ),
+        );
+      }
+
+      statements.push(
+        env.DB.prepare(
+          `DELETE FROM workflow_runs WHERE id IN (${placeholders})`,
+        ).bind(...ids),
+      );
+    }
+
+    // D1 runs a batch as a single transaction
+    const [retries, steps] = await env.DB.batch(statements);
+
+    report.runs += runs.length;
+    report.steps += steps.meta.changes;
+    report.retries += retries.meta.changes;
+
+    for (const run of runs) {
+      const key = `${run.workflow_type}:${run.status}`;
+      if (!entries.has(key)) {
+        entries.set(key, {
+          workflowType: run.workflow_type,
+          status: run.status,
+          runs: 0,
+        });
+      }
+      entries.get(key).runs++;
+    }
+
+    if (selected.length < batchSize || runs.length < selected.length) {
+      break;
+    }
+  }
+
+  report.workflowTypes = Array.from(entries.values());
+
+  return report;
+}
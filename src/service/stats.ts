@@ -0,0 +1,312 @@
+// src/service/stats.ts
+import {
+  ApiKey,
+  Env,
+  StatsBucketSize,
+  WorkflowStatsFilters,
+  WorkflowStatsReport,
+  WorkflowTypeStats,
+} from "./types";
+import { generatePlaceholders } from "../utils/db";
+import { ServiceError } from "./errors";
+import { assertApiKeyAllowed } from "./keys";
+
+/**
+ * Default length of the statistics window, in milliseconds
+ */
+export const DEFAULT_STATS_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Formats truncating a timestamp to the start of its bucket
+ */
+const BUCKET_FORMATS: Record<StatsBucketSize, string> = {
+  hour: "%Y-%m-%dT%H:00:00Z",
+  day: "%Y-%m-%dT00:00:00Z",
+};
+
+/**
+ * Percentiles reported for run and step durations
+ */
+const PERCENTILES = [50, 95, 99];
+
+/**
+ * Check statistics filters for invalid values
+ *
+ * @param filters Filters from the request
+ * @throws ServiceError (400) for an invalid date, window or bucket size
+ */
+export function validateStatsFilters(filters: WorkflowStatsFilters): void {
+  if (
+    filters.bucket !== undefined &&
+    !Object.keys(BUCKET_FORMATS).includes(filters.bucket)
+  ) {
+    throw new ServiceError("bucket must be one of: hour, day");
+  }
+
+  for (const field of ["since", "until"] as const) {
+    if (
+      filters[field] !== undefined &&
+      isNaN(new Date(filters[field]).getTime())
+    ) {
+      throw new ServiceError(`${field} must be a valid timestamp`);
+    }
+  }
+
+  if (
+    filters.since &&
+    filters.until &&
+    new Date(filters.since) >= new Date(filters.until)
+  ) {
+    throw new ServiceError("since must be before until");
+  }
+}
+
+/**
+ * Compute run and step statistics per workflow type over a time window:
+ * totals, success and error rates, duration percentiles, average retries
+ * and run counts per hour or day
+ *
+ * @param filters Workflow type, window and bucket size
+ * @param tenantId Tenant whose runs are counted
+ * @param apiKey API key of the caller, whose restrictions are applied
+ * @param env Environment bindings
+ * @returns Statistics for every workflow type with runs in the window
+ * @throws ServiceError (403) if the key may not access the workflow type
+ */
+export async function getWorkflowStats(
+  filters: WorkflowStatsFilters,
+  tenantId: string,
+  apiKey: ApiKey,
+  env: Env,
+): Promise<WorkflowStatsReport> {
+  const until = filters.until ? new Date(filters.until) : new Date();
+  const since = filters.since
+    ? new Date(filters.since)
+    : new Date(until.getTime() - DEFAULT_STATS_WINDOW);
+  const bucket = filters.bucket || "day";
+
+  if (filters.workflowType) {
+    assertApiKeyAllowed(apiKey, filters.workflowType, undefined);
+  }
+
+  const conditions = [
+    "r.tenant_id = ?",
+    "r.created_at >= ?",
+    "r.created_at < ?",
+  ];
+  const bindValues: any[] = [
+    tenantId,
+    since.toISOString(),
+    until.toISOString(),
+  ];
+
+  if (filters.workflowType) {
+    conditions.push("w.name = ?");
+    bindValues.push(filters.workflowType);
+  }
+
+  // Leave out runs the key may not access
+  if (apiKey.workflowTypes) {
+    conditions.push(
+      `w.name IN (${generatePlaceholders(apiKey.workflowTypes.length)})`,
+    );
+    bindValues.push(...apiKey.workflowTypes);
+  }
+
+  if (apiKey.refTypes) {
+    conditions.push(
+      `r.ref_type IN (${generatePlaceholders(apiKey.refTypes.length)})`,
+    );
+    bindValues.push(...apiKey.refTypes);
+  }
+
+  const where = conditions.join(" AND ");
+  const runsFrom = `FROM workflow_runs r
+    JOIN workflow w ON w.id = r.workflow_id`;
+  const stepsFrom = `FROM workflow_steps s
+    JOIN workflow_runs r ON r.id = s.workflow_run_id
+    JOIN workflow w ON w.id = r.workflow_id`;
+
+  const [runTotals, runDurations, stepTotals, stepDurations, retries, buckets] =
+    await env.DB.batch([
+      env.DB.prepare(
+        `SELECT w.name AS workflow_type,
+          COUNT(*) AS total,
+          SUM(CASE WHEN r.status = 'Completed' THEN 1 ELSE 0 END) AS completed,
+          SUM(CASE WHEN r.status = 'Errored' THEN 1 ELSE 0 END) AS errored,
+          SUM(CASE WHEN r.status = 'Cancelled' THEN 1 ELSE 0 END) AS cancelled
+        ${runsFrom}
+        WHERE ${where}
+        GROUP BY w.name
+        ORDER BY w.name ASC`,
+      ).bind(...bindValues),
+      // Runs are timed from when their Workflows instance was created
+      env.DB.prepare(
+        `SELECT workflow_type, ${percentileColumns()}
+        FROM (
+          SELECT w.name AS workflow_type,
+            (julianday(r.completed_at) - julianday(COALESCE(r.dispatched_at, r.created_at))) * 86400000 AS duration,
+            ROW_NUMBER() OVER (PARTITION BY w.name ORDER BY julianday(r.completed_at) - julianday(COALESCE(r.dispatched_at, r.created_at))) AS position,
+            COUNT(*) OVER (PARTITION BY w.name) AS count
+          ${runsFrom}
+          WHERE ${where} AND r.completed_at IS NOT NULL
+        )
+        GROUP BY workflow_type`,
+      ).bind(...bindValues),
+      env.DB.prepare(
+        `SELECT w.name AS workflow_type, s.step_name,
+          COUNT(*) AS total,
+          SUM(CASE WHEN s.status = 'Completed' THEN 1 ELSE 0 END) AS completed,
+          SUM(CASE WHEN s.status = 'Failed' THEN 1 ELSE 0 END) AS failed,
+          AVG(s.step_index) AS avg_step_index
+        ${stepsFrom}
+        WHERE ${where}
+        GROUP BY w.name, s.step_name
+        ORDER BY w.name ASC, avg_step_index ASC`,
+      ).bind(...bindValues),
+      env.DB.prepare(
+        `SELECT workflow_type, step_name, ${percentileColumns()}
+        FROM (
+          SELECT w.name AS workflow_type, s.step_name,
+            (julianday(s.completed_at) - julianday(s.started_at)) * 86400000 AS duration,
+            ROW_NUMBER() OVER (PARTITION BY w.name, s.step_name ORDER BY julianday(s.completed_at) - julianday(s.started_at)) AS position,
+            COUNT(*) OVER (PARTITION BY w.name, s.step_name) AS count
+          ${stepsFrom}
+          WHERE ${where} AND s.started_at IS NOT NULL AND s.completed_at IS NOT NULL
+        )
+        GROUP BY workflow_type, step_name`,
+      ).bind(...bindValues),
+      env.DB.prepare(
+        `SELECT w.name AS workflow_type, s.step_name, COUNT(*) AS retries
+        FROM workflow_step_retries t
+        JOIN workflow_steps s ON s.id = t.workflow_step_id
+        JOIN workflow_runs r ON r.id = s.workflow_run_id
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE ${where}
+        GROUP BY w.name, s.step_name`,
+      ).bind(...bindValues),
+      env.DB.prepare(
+        `SELECT w.name AS workflow_type,
+          strftime(?, r.created_at) AS start,
+          COUNT(*) AS total,
+          SUM(CASE WHEN r.status = 'Completed' THEN 1 ELSE 0 END) AS completed,
+          SUM(CASE WHEN r.status = 'Errored' THEN 1 ELSE 0 END) AS errored,
+          SUM(CASE WHEN r.status = 'Cancelled' THEN 1 ELSE 0 END) AS cancelled
+        ${runsFrom}
+        WHERE ${where}
+        GROUP BY w.name, start
+        ORDER BY start ASC`,
+      ).bind(BUCKET_FORMATS[bucket], ...bindValues),
+    ]);
+
+  const workflowTypes = new Map<string, WorkflowTypeStats>();
+
+  for (const row of runTotals.results as Record<string, any>[]) {
+    const finished = row.completed + row.errored;
+
+    workflowTypes.set(row.workflow_type, {
+      workflowType: row.workflow_type,
+      total: row.total,
+      completed: row.completed,
+      errored: row.errored,
+      cancelled: row.cancelled,
+      active: row.total - finished - row.cancelled,
+      success_rate: finished > 0 ? row.completed / finished : null,
+      error_rate: finished > 0 ? row.errored / finished : null,
+      p50_duration_ms: null,
+      p95_duration_ms: null,
+      p99_duration_ms: null,
+      avg_retries: 0,
+      steps: [],
+      buckets: [],
+    });
+  }
+
+  for (const row of runDurations.results as Record<string, any>[]) {
+    const stats = workflowTypes.get(row.workflow_type);
+    if (stats) {
+      Object.assign(stats, percentiles(row));
+    }
+  }
+
+  const stepRetries = new Map<string, number>();
+  for (const row of retries.results as Record<string, any>[]) {
+    stepRetries.set(`${row.workflow_type}:${row.step_name}`, row.retries);
+
+    const stats = workflowTypes.get(row.workflow_type);
+    if (stats) {
+      stats.avg_retries += row.retries;
+    }
+  }
+
+  for (const stats of workflowTypes.values()) {
+    stats.avg_retries = stats.total > 0 ? stats.avg_retries / stats.total : 0;
+  }
+
+  const stepPercentiles = new Map<string, Record<string, number | null>>();
+  for (const row of stepDurations.results as Record<string, any>[]) {
+    stepPercentiles.set(
+      `${row.workflow_type}:${row.step_name}`,
+      percentiles(row),
+    );
+  }
+
+  for (const row of stepTotals.results as Record<string, any>[]) {
+    const key = `${row.workflow_type}:${row.step_name}`;
+
+    workflowTypes.get(row.workflow_type)?.steps.push({
+      step_name: row.step_name,
+      total: row.total,
+      completed: row.completed,
+      failed: row.failed,
+      p50_duration_ms: null,
+      p95_duration_ms: null,
+      p99_duration_ms: null,
+      ...stepPercentiles.get(key),
+      avg_retries: row.total > 0 ? (stepRetries.get(key) || 0) / row.total : 0,
+    });
+  }
+
+  for (const row of buckets.results as Record<string, any>[]) {
+    workflowTypes.get(row.workflow_type)?.buckets.push({
+      start: row.start,
+      total: row.total,
+      completed: row.completed,
+      errored: row.errored,
+      cancelled: row.cancelled,
+    });
+  }
+
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    bucket,
+    workflowTypes: Array.from(workflowTypes.values()),
+  };
+}
+
+/**
+ * Build the aggregate columns picking duration percentiles by nearest rank
+ * from rows numbered by duration
+ */
+function percentileColumns(): string {
+  return PERCENTILES.map(
+    (percentile) =>
+      `MAX(CASE WHEN position = (count * ${percentile} + 99) / 100 THEN duration END) AS p${percentile}_duration_ms`,
+  ).join(", ");
+}
+
+/**
+ * Read the rounded duration percentiles of a row
+ */
+function percentiles(row: Record<string, any>): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+
+  for (const percentile of PERCENTILES) {
+    const value = row[`p${percentile}_duration_ms`];
+    values[`p${percentile}_duration_ms`] =
+      value === null || value === undefined ? null : Math.round(value);
+  }
+
+  return values;
+}
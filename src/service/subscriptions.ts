@@ -0,0 +1,121 @@
+// src/service/subscriptions.ts
+import { TrackerSubscription } from "./types";
+import { ServiceError } from "./errors";
+
+/**
+ * Maximum number of subscriptions a WebSocket session can hold
+ */
+export const MAX_SESSION_SUBSCRIPTIONS = 20;
+
+/**
+ * Fields of a subscription, in the order they are keyed by
+ */
+const SUBSCRIPTION_FIELDS: (keyof TrackerSubscription)[] = [
+  "runId",
+  "workflowType",
+  "ref_id",
+  "ref_type",
+  "status",
+];
+
+/**
+ * The run an update belongs to, with the fields subscriptions match
+ */
+export interface UpdateRunContext {
+  runId: string;
+  workflowType?: string;
+  ref_id?: string;
+  ref_type?: string;
+  status?: string;
+}
+
+/**
+ * Check a subscription sent by a WebSocket client
+ *
+ * @param subscription Subscription from a subscribe or unsubscribe message
+ * @returns The subscription with only its known fields
+ * @throws ServiceError (400) for unknown fields or values that aren't
+ * non-empty strings
+ */
+export function normalizeSubscription(
+  subscription: unknown,
+): TrackerSubscription {
+  if (
+    typeof subscription !== "object" ||
+    subscription === null ||
+    Array.isArray(subscription)
+  ) {
+    throw new ServiceError("subscription must be an object");
+  }
+
+  const normalized: TrackerSubscription = {};
+
+  for (const [field, value] of Object.entries(subscription)) {
+    if (!SUBSCRIPTION_FIELDS.includes(field as keyof TrackerSubscription)) {
+      throw new ServiceError(
+        `Unknown subscription field: ${field} (expected one of: ${SUBSCRIPTION_FIELDS.join(", ")})`,
+      );
+    }
+
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    if (typeof value !== "string" || value === "") {
+      throw new ServiceError(`${field} must be a non-empty string`);
+    }
+
+    (normalized as Record<string, string>)[field] = value;
+  }
+
+  return normalized;
+}
+
+/**
+ * Key identifying a subscription, so that subscribing twice is a no-op and
+ * unsubscribing removes the same subscription
+ *
+ * @param subscription Normalized subscription
+ * @returns Stable key
+ */
+export function subscriptionKey(subscription: TrackerSubscription): string {
+  return JSON.stringify(
+    SUBSCRIPTION_FIELDS.map((field) => subscription[field] ?? null),
+  );
+}
+
+/**
+ * Whether a session's subscriptions match an update
+ *
+ * @param subscriptions Subscriptions of the session
+ * @param context Run the update belongs to
+ * @returns True if any subscription matches
+ */
+export function matchesSubscriptions(
+  subscriptions: TrackerSubscription[],
+  context: UpdateRunContext,
+): boolean {
+  return subscriptions.some((subscription) =>
+    SUBSCRIPTION_FIELDS.every(
+      (field) =>
+        subscription[field] === undefined ||
+        subscription[field] === context[field],
+    ),
+  );
+}
+
+/**
+ * Whether matching a subscription needs more of the run than its ID
+ *
+ * @param subscriptions Subscriptions of every session
+ * @returns True if some subscription filters by type, reference or status
+ */
+export function needsRunDetails(subscriptions: TrackerSubscription[]): boolean {
+  return subscriptions.some(
+    (subscription) =>
+      subscription.workflowType !== undefined ||
+      subscription.ref_id !== undefined ||
+      subscription.ref_type !== undefined ||
+      subscription.status !== undefined,
+  );
+}
@@ -0,0 +1,169 @@
+// src/service/tenants.ts
+import { Env, TenantQuota } from "./types";
+import { ServiceError } from "./errors";
+
+/**
+ * Tenant of callers that aren't bound to one, and of rows created before
+ * tenants were introduced
+ */
+export const DEFAULT_TENANT_ID = "default";
+
+/**
+ * Header unbound admin callers use to act for a tenant
+ */
+export const TENANT_HEADER = "X-Tenant-Id";
+
+/**
+ * Header the worker uses to tell the tracker which tenant it serves
+ */
+export const TRACKER_TENANT_HEADER = "X-Flowflare-Tenant";
+
+/**
+ * Header the worker uses to tell the tracker who opened a WebSocket, as
+ * the verifier name and the URI-encoded subject separated by a space
+ */
+export const TRACKER_PRINCIPAL_HEADER = "X-Flowflare-Principal";
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Check a tenant ID for invalid characters
+ *
+ * @param tenantId Tenant ID to check
+ * @returns Error message, or null if the ID is valid
+ */
+export function validateTenantId(tenantId: unknown): string | null {
+  if (typeof tenantId !== "string" || !TENANT_ID_PATTERN.test(tenantId)) {
+    return "tenantId must be 1-64 letters, digits, dashes or underscores";
+  }
+
+  return null;
+}
+
+/**
+ * Work out which tenant a request acts for. Callers bound to a tenant
+ * always act for it; unbound admin callers may pick a tenant with the
+ * X-Tenant-Id header.
+ *
+ * @param request Incoming request
+ * @param boundTenantId Tenant the caller's credentials are bound to
+ * @param isAdmin Whether the caller has the admin scope
+ * @returns Tenant ID
+ * @throws ServiceError (400) if the header holds an invalid tenant ID,
+ * (403) if a caller bound to one tenant asks for another
+ */
+export function resolveTenantId(
+  request: Request,
+  boundTenantId: string | undefined,
+  isAdmin: boolean,
+): string {
+  const requested = request.headers.get(TENANT_HEADER);
+
+  if (boundTenantId) {
+    if (requested && requested !== boundTenantId) {
+      throw new ServiceError(
+        `Credentials are bound to tenant ${boundTenantId}`,
+        403,
+      );
+    }
+
+    return boundTenantId;
+  }
+
+  if (!requested) {
+    return DEFAULT_TENANT_ID;
+  }
+
+  const validationError = validateTenantId(requested);
+  if (validationError) {
+    throw new ServiceError(validationError);
+  }
+
+  if (!isAdmin && requested !== DEFAULT_TENANT_ID) {
+    throw new ServiceError(
+      `Only admin callers may act for another tenant with ${TENANT_HEADER}`,
+      403,
+    );
+  }
+
+  return requested;
+}
+
+/**
+ * Send a request to a tenant's workflow tracker. Each tenant has its own
+ * Durable Object, so WebSocket clients only get their tenant's updates.
+ *
+ * @param tenantId Tenant ID
+ * @param env Environment bindings
+ * @param url Request URL (only the path is used by the tracker)
+ * @param init Request options
+ * @returns Tracker response
+ */
+export async function fetchTracker(
+  tenantId: string,
+  env: Env,
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const id = env.WORKFLOW_TRACKER.idFromName(tenantId);
+  const tracker = env.WORKFLOW_TRACKER.get(id);
+
+  // Overwrite any tenant header the caller may have sent
+  const headers = new Headers(init.headers);
+  headers.set(TRACKER_TENANT_HEADER, tenantId);
+
+  return tracker.fetch(new Request(url, { ...init, headers }));
+}
+
+/**
+ * Make sure starting more runs keeps a tenant within its quota
+ *
+ * @param tenantId Tenant ID
+ * @param quota Quota of the tenant, if any
+ * @param env Environment bindings
+ * @param newRuns Number of runs about to be started
+ * @throws ServiceError (429) if the runs would exceed the quota
+ */
+export async function assertTenantQuota(
+  tenantId: string,
+  quota: TenantQuota | undefined,
+  env: Env,
+  newRuns = 1,
+): Promise<void> {
+  if (!quota) {
+    return;
+  }
+
+  if (quota.maxActiveRuns) {
+    const active = await env.DB.prepare(
+      `SELECT COUNT(*) AS count FROM workflow_runs
+      WHERE tenant_id = ? AND status IN ('Queued', 'Pending', 'Running', 'Sleeping', 'Paused')`,
+    )
+      .bind(tenantId)
+      .first();
+
+    const count = (active?.count as number) || 0;
+    if (count + newRuns > quota.maxActiveRuns) {
+      throw new ServiceError(
+        `Tenant ${tenantId} has ${count} active runs (quota ${quota.maxActiveRuns})`,
+        429,
+      );
+    }
+  }
+
+  if (quota.maxRunsPerHour) {
+    const recent = await env.DB.prepare(
+      "SELECT COUNT(*) AS count FROM workflow_runs WHERE tenant_id = ? AND created_at >= ?",
+    )
+      .bind(tenantId, new Date(Date.now() - 60 * 60 * 1000).toISOString())
+      .first();
+
+    const count = (recent?.count as number) || 0;
+    if (count + newRuns > quota.maxRunsPerHour) {
+      throw new ServiceError(
+        `Tenant ${tenantId} started ${count} runs in the last hour (quota ${quota.maxRunsPerHour})`,
+        429,
+      );
+    }
+  }
+}
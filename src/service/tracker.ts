@@ -1,20 +1,82 @@
 // src/service/tracker.ts
-import { Env } from "./types";
+import {
+  Env,
+  TrackerSubscription,
+  WorkflowRunPage,
+  WorkflowRunQuery,
+} from "./types";
+import { dispatchWorkflowRun } from "./dispatch";
+import { concurrencySlotCondition } from "./concurrency";
+import { getWorkflowDefinition } from "./definitions";
+import { recordRunMetrics } from "./metrics";
+import { parseJsonSafe } from "../utils/db";
+import {
+  DEFAULT_TENANT_ID,
+  TRACKER_PRINCIPAL_HEADER,
+  TRACKER_TENANT_HEADER,
+} from "./tenants";
+import { ServiceError } from "./errors";
+import {
+  decodeCursor,
+  encodeCursor,
+  normalizeOffset,
+  normalizePageSize,
+} from "./pagination";
+import {
+  buildRunCountQuery,
+  buildRunPageQuery,
+  getRunSort,
+  loadRunDetails,
+  normalizeRunInclude,
+  validateRunFilter,
+} from "./query";
+import {
+  MAX_SESSION_SUBSCRIPTIONS,
+  UpdateRunContext,
+  matchesSubscriptions,
+  needsRunDetails,
+  normalizeSubscription,
+  subscriptionKey,
+} from "./subscriptions";
+
+/**
+ * Largest serialized attachment a WebSocket can hold, in bytes
+ */
+const MAX_ATTACHMENT_SIZE = 2048;
+
+/**
+ * State of a WebSocket session, kept as the socket's attachment so that it
+ * survives hibernation
+ */
+interface TrackerSession {
+  id: string;
+  /**
+   * Verifier and subject of the caller that opened the socket
+   */
+  principal: { method: string; subject: string } | null;
+  connectedAt: string;
+  /**
+   * Subscriptions, or null until the client first subscribes, in which
+   * case it receives every update
+   */
+  subscriptions: TrackerSubscription[] | null;
+}
 
 /**
  * Durable Object implementation for the workflow tracker
  * Handles WebSocket connections and database queries
+ *
+ * Each tenant has its own tracker, which only sees the tenant's runs
  */
 export class WorkflowTracker {
   private state: DurableObjectState;
   private env: Env;
-  private sessions: Map<string, WebSocket>;
   private db: D1Database;
+  private tenantId: string | null = null;
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
-    this.sessions = new Map();
     this.db = env.DB;
   }
 
@@ -25,15 +87,45 @@ export class WorkflowTracker {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // The worker names the tenant on every request; remember it for alarms
+    const tenantId =
+      request.headers.get(TRACKER_TENANT_HEADER) || DEFAULT_TENANT_ID;
+    if (this.tenantId !== tenantId) {
+      this.tenantId = tenantId;
+      await this.state.storage.put("tenantId", tenantId);
+    }
+
     if (path === "/websocket") {
+      // The worker sends queries as plain POST requests on the same path
+      if (
+        request.method === "POST" &&
+        request.headers.get("Upgrade") !== "websocket"
+      ) {
+        return this.handleQuery(request);
+      }
       return this.handleWebSocketConnection(request);
     } else if (path === "/broadcast") {
       return this.handleBroadcast(request);
+    } else if (path === "/schedule-dispatch") {
+      return this.handleScheduleDispatch(request);
     }
 
     return new Response("Not found", { status: 404 });
   }
 
+  /**
+   * Get the tenant this tracker serves
+   */
+  async getTenantId(): Promise<string> {
+    if (!this.tenantId) {
+      this.tenantId =
+        (await this.state.storage.get<string>("tenantId")) ||
+        DEFAULT_TENANT_ID;
+    }
+
+    return this.tenantId;
+  }
+
   /**
    * Handle new WebSocket connections
    */
@@ -47,37 +139,44 @@ export class WorkflowTracker {
     const pair = new WebSocketPair();
     const [client, server] = Object.values(pair);
 
-    // Accept the WebSocket connection with hibernation
+    // Accept the WebSocket connection with hibernation. Messages, closes
+    // and errors arrive at webSocketMessage, webSocketClose and
+    // webSocketError, even after the tracker was evicted from memory.
     this.state.acceptWebSocket(server);
 
-    // Generate a unique ID for this session
-    const sessionId = crypto.randomUUID();
-    this.sessions.set(sessionId, server);
-
-    // Set up event handlers
-    server.addEventListener("close", () =>
-      this.handleWebSocketClose(sessionId),
-    );
-    server.addEventListener("error", () =>
-      this.handleWebSocketClose(sessionId),
-    );
+    const principal = request.headers.get(TRACKER_PRINCIPAL_HEADER);
+    const separator = principal ? principal.indexOf(" ") : -1;
+
+    this.saveSession(server, {
+      id: crypto.randomUUID(),
+      principal:
+        principal && separator > 0
+          ? {
+              method: principal.slice(0, separator),
+              // Keep room in the attachment for subscriptions
+              subject: decodeURIComponent(
+                principal.slice(separator + 1),
+              ).slice(0, 256),
+            }
+          : null,
+      connectedAt: new Date().toISOString(),
+      subscriptions: null,
+    });
 
-    // Handle messages from the client
-    server.addEventListener("message", async (event) => {
+    // Send the latest runs, unless the client only wants what it
+    // subscribes to
+    if (new URL(request.url).searchParams.get("initial_data") !== "false") {
       try {
-        const message = JSON.parse(event.data as string);
-
-        if (message.type === "query") {
-          // Query workflows from D1 database
-          const result = await this.queryWorkflows(message.params);
-          server.send(
-            JSON.stringify({
-              type: "query_result",
-              data: result,
-            }),
-          );
-        }
+        const workflows = await this.queryWorkflows({ limit: 20 });
+
+        server.send(
+          JSON.stringify({
+            type: "initial_data",
+            data: workflows,
+          }),
+        );
       } catch (error) {
+        console.error("Error querying initial data:", error);
         server.send(
           JSON.stringify({
             type: "error",
@@ -85,32 +184,208 @@ export class WorkflowTracker {
           }),
         );
       }
+    }
+
+    return new Response(null, {
+      status: 101,
+      webSocket: client,
     });
+  }
 
-    // Send initial data to the client
-    const workflows = await this.queryWorkflows({
-      limit: 20,
-      status: null, // All statuses
+  /**
+   * Handle query requests sent over HTTP
+   */
+  async handleQuery(request: Request): Promise<Response> {
+    try {
+      const message = (await request.json()) as { type?: string; params?: any };
+
+      if (message.type !== "query") {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unknown request type" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const page = await this.queryWorkflowsPage(message.params || {});
+
+      return new Response(JSON.stringify({ success: true, ...page }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+  }
+
+  /**
+   * Handle a message from a WebSocket client
+   */
+  async webSocketMessage(
+    socket: WebSocket,
+    data: string | ArrayBuffer,
+  ): Promise<void> {
+    try {
+      const message = JSON.parse(
+        typeof data === "string" ? data : new TextDecoder().decode(data),
+      );
+
+      if (message.type === "query") {
+        // Query workflows from D1 database
+        const page = await this.queryWorkflowsPage(message.params || {});
+        socket.send(
+          JSON.stringify({
+            type: "query_result",
+            ...page,
+          }),
+        );
+      } else if (message.type === "subscribe") {
+        await this.handleSubscribe(socket, message.subscription);
+      } else if (message.type === "unsubscribe") {
+        this.handleUnsubscribe(socket, message.subscription);
+      }
+    } catch (error) {
+      socket.send(
+        JSON.stringify({
+          type: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+      );
+    }
+  }
+
+  /**
+   * Handle WebSocket disconnection. The session's state goes away with its
+   * socket, so only the closing handshake is left to complete.
+   */
+  async webSocketClose(
+    socket: WebSocket,
+    code: number,
+    reason: string,
+  ): Promise<void> {
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Already closed, or closed with a code that can't be echoed
+    }
+  }
+
+  /**
+   * Handle WebSocket errors
+   */
+  async webSocketError(socket: WebSocket, error: unknown): Promise<void> {
+    const session = this.getSession(socket);
+    console.error(`WebSocket error in session ${session?.id}:`, error);
+  }
+
+  /**
+   * Get the state of a WebSocket session
+   */
+  getSession(socket: WebSocket): TrackerSession | null {
+    return socket.deserializeAttachment() as TrackerSession | null;
+  }
+
+  /**
+   * Store the state of a WebSocket session with its socket
+   *
+   * @throws ServiceError (400) if the state is too large to attach
+   */
+  saveSession(socket: WebSocket, session: TrackerSession): void {
+    if (JSON.stringify(session).length > MAX_ATTACHMENT_SIZE) {
+      throw new ServiceError(
+        "The session's subscriptions are too large; unsubscribe from some first",
+      );
+    }
+
+    socket.serializeAttachment(session);
+  }
+
+  /**
+   * Add a subscription to a session and send the runs it currently matches
+   */
+  async handleSubscribe(
+    socket: WebSocket,
+    subscription: unknown,
+  ): Promise<void> {
+    const session = this.getSession(socket);
+    if (!session) {
+      return;
+    }
+
+    const normalized = normalizeSubscription(subscription);
+    const key = subscriptionKey(normalized);
+    const subscriptions = (session.subscriptions || []).filter(
+      (existing) => subscriptionKey(existing) !== key,
+    );
+
+    if (subscriptions.length >= MAX_SESSION_SUBSCRIPTIONS) {
+      throw new ServiceError(
+        `A session can have at most ${MAX_SESSION_SUBSCRIPTIONS} subscriptions`,
+      );
+    }
+
+    subscriptions.push(normalized);
+    const updated = { ...session, subscriptions };
+
+    const page = await this.queryWorkflowsPage({
+      workflowId: normalized.runId,
+      workflowType: normalized.workflowType,
+      ref_id: normalized.ref_id,
+      ref_type: normalized.ref_type,
+      status: normalized.status,
     });
 
-    server.send(
+    this.saveSession(socket, updated);
+
+    socket.send(
       JSON.stringify({
-        type: "initial_data",
-        data: workflows,
+        type: "subscribed",
+        subscription: normalized,
+        subscriptions,
+        data: page.data,
       }),
     );
-
-    return new Response(null, {
-      status: 101,
-      webSocket: client,
-    });
   }
 
   /**
-   * Handle WebSocket disconnection
+   * Remove a subscription from a session, or all of them when none is given
    */
-  handleWebSocketClose(sessionId: string): void {
-    this.sessions.delete(sessionId);
+  handleUnsubscribe(socket: WebSocket, subscription: unknown): void {
+    const session = this.getSession(socket);
+    if (!session) {
+      return;
+    }
+
+    const key =
+      subscription === undefined || subscription === null
+        ? null
+        : subscriptionKey(normalizeSubscription(subscription));
+
+    // The session stays filtered, so without subscriptions it gets nothing
+    const subscriptions = key
+      ? (session.subscriptions || []).filter(
+          (existing) => subscriptionKey(existing) !== key,
+        )
+      : [];
+
+    this.saveSession(socket, { ...session, subscriptions });
+
+    socket.send(
+      JSON.stringify({
+        type: "unsubscribed",
+        subscriptions,
+      }),
+    );
   }
 
   /**
@@ -119,13 +394,13 @@ export class WorkflowTracker {
   async handleBroadcast(request: Request): Promise<Response> {
     const update = await request.json();
 
-    // Broadcast the update to all connected clients
-    this.broadcastUpdate(update);
+    // Broadcast the update to the clients that want it
+    await this.broadcastUpdate(update);
 
     return new Response(
       JSON.stringify({
         success: true,
-        clientCount: this.sessions.size,
+        clientCount: this.state.getWebSockets().length,
       }),
       {
         headers: { "Content-Type": "application/json" },
@@ -134,211 +409,353 @@ export class WorkflowTracker {
   }
 
   /**
-   * Query workflows with filters from D1 database
+   * Make sure the alarm fires no later than a delayed run's start time
    */
-  async queryWorkflows(params: any): Promise<any[]> {
-    const {
-      limit = 20,
-      offset = 0,
-      status = null,
-      workflowId = null,
-      ref_id = null,
-      ref_type = null,
-    } = params;
+  async handleScheduleDispatch(request: Request): Promise<Response> {
+    const { scheduledAt } = await request.json() as { scheduledAt: string };
+    const time = new Date(scheduledAt).getTime();
 
-    try {
-      // Case 1: Query by specific workflow ID
-      if (workflowId) {
-        // Query a specific workflow and its details
-        const workflow = await this.db
-          .prepare("SELECT * FROM workflow_runs WHERE id = ?")
-          .bind(workflowId)
-          .first();
-
-        if (!workflow) {
-          return [];
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm === null || currentAlarm > time) {
+      await this.state.storage.setAlarm(time);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        alarm: new Date(Math.min(time, currentAlarm ?? time)).toISOString(),
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
+  /**
+   * Dispatch delayed runs whose start time has passed
+   */
+  async alarm(): Promise<void> {
+    const now = new Date().toISOString();
+    const tenantId = await this.getTenantId();
+
+    const dueRuns = await this.db
+      .prepare(
+        `SELECT r.id, r.input_params, r.ref_id, r.ref_type, w.name AS workflow_name
+        FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.tenant_id = ? 
+          AND r.status = 'Pending' 
+          AND r.scheduled_at IS NOT NULL 
+          AND r.scheduled_at <= ? 
+          AND r.dispatched_at IS NULL
+        ORDER BY r.scheduled_at ASC
+        LIMIT 100`,
+      )
+      .bind(tenantId, now)
+      .all();
+
+    for (const run of dueRuns.results) {
+      // The workflow type's concurrency policy applies when the run starts,
+      // not when it was requested
+      const definition = await getWorkflowDefinition(
+        run.workflow_name as string,
+        this.env,
+      );
+      const slot = concurrencySlotCondition(
+        definition?.concurrency,
+        run.workflow_name as string,
+        (run.ref_id as string) || undefined,
+        (run.ref_type as string) || undefined,
+        tenantId,
+      );
+
+      // Mark the run as dispatched first so it is never started twice, and
+      // only while it has a free slot
+      const claimed = await this.db
+        .prepare(
+          `UPDATE workflow_runs SET dispatched_at = ?, updated_at = datetime('now') WHERE id = ? AND dispatched_at IS NULL AND status = 'Pending'${slot ? ` AND ${slot.sql}` : ""}`,
+        )
+        .bind(now, run.id, ...(slot?.bindValues || []))
+        .run();
+
+      if (!claimed.meta.changes) {
+        if (slot) {
+          await this.queueDueRun(run.id as string);
         }
+        continue;
+      }
+
+      try {
+        await dispatchWorkflowRun(
+          run.workflow_name as string,
+          run.id as string,
+          parseJsonSafe(run.input_params as string, {}),
+          (run.ref_id as string) || undefined,
+          (run.ref_type as string) || undefined,
+          this.env,
+        );
+      } catch (error) {
+        const runUpdate = {
+          id: run.id,
+          status: "Errored",
+          output_result: JSON.stringify({
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          }),
+          completed_at: new Date().toISOString(),
+        };
 
-        // Get steps for this workflow
-        const steps = await this.db
+        await this.db
           .prepare(
-            "SELECT * FROM workflow_steps WHERE workflow_run_id = ? ORDER BY step_index ASC",
+            "UPDATE workflow_runs SET status = ?, output_result = ?, completed_at = ?, updated_at = datetime('now') WHERE id = ?",
           )
-          .bind(workflowId)
-          .all();
-
-        // For each step, get its retries
-        for (const step of steps.results) {
-          const retries = await this.db
-            .prepare(
-              "SELECT * FROM workflow_step_retries WHERE workflow_step_id = ? ORDER BY retry_count ASC",
-            )
-            .bind(step.id)
-            .all();
-
-          step.retries = retries.results;
-        }
+          .bind(
+            runUpdate.status,
+            runUpdate.output_result,
+            runUpdate.completed_at,
+            runUpdate.id,
+          )
+          .run();
 
-        workflow.steps = steps.results;
-        return [workflow];
-      }
-      // Case 2: Query by ref_id and optionally ref_type
-      else if (ref_id) {
-        let query = "SELECT * FROM workflow_runs WHERE ref_id = ?";
-        const bindValues = [ref_id];
-
-        // Add ref_type filter if provided
-        if (ref_type) {
-          query += " AND ref_type = ?";
-          bindValues.push(ref_type);
-        }
+        await recordRunMetrics(runUpdate.id as string, this.env);
 
-        // Add status filter if provided
-        if (status) {
-          query += " AND status = ?";
-          bindValues.push(status);
-        }
+        await this.broadcastUpdate({
+          type: "run_update",
+          run_update: runUpdate,
+        });
+      }
+    }
 
-        query += " ORDER BY created_at DESC LIMIT ? OFFSET ?";
-        bindValues.push(limit.toString(), offset.toString());
-
-        const workflows = await this.db
-          .prepare(query)
-          .bind(...bindValues)
-          .all();
-
-        // For each workflow, fetch its steps and retries
-        for (const workflow of workflows.results) {
-          const steps = await this.db
-            .prepare(
-              "SELECT * FROM workflow_steps WHERE workflow_run_id = ? ORDER BY step_index ASC",
-            )
-            .bind(workflow.id)
-            .all();
-
-          // For each step, get its retries
-          for (const step of steps.results) {
-            const retries = await this.db
-              .prepare(
-                "SELECT * FROM workflow_step_retries WHERE workflow_step_id = ? ORDER BY retry_count ASC",
-              )
-              .bind(step.id)
-              .all();
-
-            step.retries = retries.results;
-          }
-
-          workflow.steps = steps.results;
-        }
+    // Re-arm the alarm for the next delayed run, if any
+    const next = await this.db
+      .prepare(
+        "SELECT MIN(scheduled_at) AS next_at FROM workflow_runs WHERE tenant_id = ? AND status = 'Pending' AND scheduled_at IS NOT NULL AND dispatched_at IS NULL",
+      )
+      .bind(tenantId)
+      .first();
+
+    if (next && next.next_at) {
+      await this.state.storage.setAlarm(
+        Math.max(new Date(next.next_at as string).getTime(), Date.now()),
+      );
+    }
+  }
 
-        return workflows.results;
-      }
-      // Case 3: Query by ref_type only
-      else if (ref_type) {
-        let query = "SELECT * FROM workflow_runs WHERE ref_type = ?";
-        const bindValues = [ref_type];
-
-        // Add status filter if provided
-        if (status) {
-          query += " AND status = ?";
-          bindValues.push(status);
-        }
+  /**
+   * Queue a due delayed run whose concurrency slot is taken. It is
+   * dispatched when a slot frees up, like runs queued at start.
+   */
+  async queueDueRun(runId: string): Promise<void> {
+    const queued = await this.db
+      .prepare(
+        "UPDATE workflow_runs SET status = 'Queued', updated_at = datetime('now') WHERE id = ? AND dispatched_at IS NULL AND status = 'Pending'",
+      )
+      .bind(runId)
+      .run();
+
+    if (queued.meta.changes) {
+      await this.broadcastUpdate({
+        type: "run_update",
+        run_update: { id: runId, status: "Queued" },
+      });
+    }
+  }
 
-        query += " ORDER BY created_at DESC LIMIT ? OFFSET ?";
-        bindValues.push(limit.toString(), offset.toString());
-
-        const workflows = await this.db
-          .prepare(query)
-          .bind(...bindValues)
-          .all();
-
-        // For each workflow, fetch its steps and retries
-        for (const workflow of workflows.results) {
-          const steps = await this.db
-            .prepare(
-              "SELECT * FROM workflow_steps WHERE workflow_run_id = ? ORDER BY step_index ASC",
-            )
-            .bind(workflow.id)
-            .all();
-
-          // For each step, get its retries
-          for (const step of steps.results) {
-            const retries = await this.db
-              .prepare(
-                "SELECT * FROM workflow_step_retries WHERE workflow_step_id = ? ORDER BY retry_count ASC",
-              )
-              .bind(step.id)
-              .all();
-
-            step.retries = retries.results;
-          }
-
-          workflow.steps = steps.results;
-        }
+  /**
+   * Query workflows with filters from D1 database
+   */
+  async queryWorkflows(params: any): Promise<any[]> {
+    const page = await this.queryWorkflowsPage(params);
+    return page.data;
+  }
 
-        return workflows.results;
+  /**
+   * Query a page of workflows with filters from D1 database, newest first
+   * unless the filter sorts otherwise. Pages continue after the cursor of
+   * the previous page; offset is only used without a cursor.
+   *
+   * @throws ServiceError (400) for an invalid filter, cursor, limit or
+   * offset. D1 errors are passed on, so callers can tell a failed query
+   * from an empty page.
+   */
+  async queryWorkflowsPage(params: WorkflowRunQuery): Promise<WorkflowRunPage> {
+    const { cursor, includeTotal = false, workflowId } = params;
+    validateRunFilter(params);
+    const include = normalizeRunInclude(params.include);
+    const limit = normalizePageSize(params.limit);
+    const offset = normalizeOffset(params.offset);
+    const after = cursor ? decodeCursor(cursor) : null;
+    const tenantId = await this.getTenantId();
+
+    // Case 1: Query by specific workflow ID
+    if (workflowId) {
+      // Query a specific workflow and its details
+      const workflow = await this.db
+        .prepare(
+          `SELECT r.*, w.name AS workflow_type
+          FROM workflow_runs r
+          JOIN workflow w ON w.id = r.workflow_id
+          WHERE r.id = ? AND r.tenant_id = ?`,
+        )
+        .bind(workflowId, tenantId)
+        .first();
+
+      if (!workflow) {
+        return { data: [], nextCursor: null };
       }
-      // Case 4: Query by status or all workflows
-      else {
-        // Query multiple workflows with optional status filter
-        let whereClause = "";
-        const bindValues: any[] = [];
-
-        if (status) {
-          whereClause = "WHERE status = ?";
-          bindValues.push(status);
-        }
 
-        const workflows = await this.db
-          .prepare(
-            `SELECT * FROM workflow_runs ${whereClause} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
-          )
-          .bind(...bindValues, limit.toString(), offset.toString())
-          .all();
-
-        // For each workflow, fetch its steps and retries
-        for (const workflow of workflows.results) {
-          const steps = await this.db
-            .prepare(
-              "SELECT * FROM workflow_steps WHERE workflow_run_id = ? ORDER BY step_index ASC",
-            )
-            .bind(workflow.id)
-            .all();
-
-          // For each step, get its retries
-          for (const step of steps.results) {
-            const retries = await this.db
-              .prepare(
-                "SELECT * FROM workflow_step_retries WHERE workflow_step_id = ? ORDER BY retry_count ASC",
-              )
-              .bind(step.id)
-              .all();
-
-            step.retries = retries.results;
-          }
-
-          workflow.steps = steps.results;
-        }
+      // Archived runs are read back from R2
+      return {
+        data: await loadRunDetails([workflow], include, this.env),
+        nextCursor: null,
+      };
+    }
 
-        return workflows.results;
-      }
-    } catch (error) {
-      console.error("Error querying workflows:", error);
-      return [];
+    // Case 2: Query by filters
+    let totalCount: number | undefined;
+    if (includeTotal) {
+      const countQuery = buildRunCountQuery(params, tenantId);
+      const count = await this.db
+        .prepare(countQuery.sql)
+        .bind(...countQuery.bindValues)
+        .first();
+
+      totalCount = (count?.count as number) || 0;
     }
+
+    // Read one extra run to know whether there is a next page
+    const pageQuery = buildRunPageQuery(params, tenantId, {
+      limit: limit + 1,
+      offset,
+      after,
+    });
+    const workflows = await this.db
+      .prepare(pageQuery.sql)
+      .bind(...pageQuery.bindValues)
+      .all();
+
+    const runs = workflows.results
+      .slice(0, limit)
+      .map(({ sort_key, ...run }) => run);
+    const hasMore = workflows.results.length > limit;
+
+    // Steps and retries of the whole page are loaded together
+    return {
+      data: await loadRunDetails(runs, include, this.env),
+      nextCursor: hasMore
+        ? encodeCursor({
+            ...getRunSort(params),
+            value: workflows.results[limit - 1].sort_key as string | number,
+            id: runs[runs.length - 1].id as string,
+          })
+        : null,
+      totalCount,
+    };
   }
 
   /**
-   * Broadcast an update to all connected WebSocket clients
+   * Broadcast an update to the connected WebSocket clients: every client
+   * that hasn't subscribed, and the clients with a matching subscription
    */
-  broadcastUpdate(update: any): void {
+  async broadcastUpdate(update: any): Promise<void> {
     const message = JSON.stringify({
       type: "update",
       data: update,
     });
 
-    for (const session of this.sessions.values()) {
-      session.send(message);
+    // Sessions are read back from the sockets, which outlive evictions
+    const sockets = this.state.getWebSockets();
+    const sessions = sockets.map((socket) => this.getSession(socket));
+    const subscriptions = sessions.flatMap(
+      (session) => session?.subscriptions || [],
+    );
+
+    // Only look up the update's run if a subscription needs it
+    const context =
+      subscriptions.length > 0
+        ? await this.getUpdateRunContext(
+            update,
+            needsRunDetails(subscriptions),
+          )
+        : null;
+
+    sockets.forEach((socket, index) => {
+      const session = sessions[index];
+
+      if (
+        session?.subscriptions &&
+        (!context || !matchesSubscriptions(session.subscriptions, context))
+      ) {
+        return;
+      }
+
+      try {
+        socket.send(message);
+      } catch (error) {
+        // The socket closed since it was listed
+        console.error("Error sending update to WebSocket:", error);
+      }
+    });
+  }
+
+  /**
+   * Find the run an update belongs to
+   *
+   * @param update Run, step or retry update
+   * @param withDetails Whether to load the run's workflow type, reference
+   * and status, or only its ID
+   * @returns The run, or null if it can't be found
+   */
+  async getUpdateRunContext(
+    update: any,
+    withDetails: boolean,
+  ): Promise<UpdateRunContext | null> {
+    // Older workflow code names a step's run workflow_instance_id
+    const runId: string | undefined =
+      update?.run_update?.id ||
+      update?.step_update?.workflow_run_id ||
+      update?.step_update?.workflow_instance_id;
+    const stepId = update?.retry_update?.workflow_step_id;
+    const status: string | undefined = update?.run_update?.status;
+
+    if (runId && !withDetails) {
+      return { runId, status };
+    } else if (!runId && !stepId) {
+      return null;
+    }
+
+    try {
+      const tenantId = await this.getTenantId();
+      const run = await this.db
+        .prepare(
+          runId
+            ? `SELECT r.id, r.status, r.ref_id, r.ref_type, w.name AS workflow_type
+              FROM workflow_runs r
+              JOIN workflow w ON w.id = r.workflow_id
+              WHERE r.id = ? AND r.tenant_id = ?`
+            : `SELECT r.id, r.status, r.ref_id, r.ref_type, w.name AS workflow_type
+              FROM workflow_steps s
+              JOIN workflow_runs r ON r.id = s.workflow_run_id
+              JOIN workflow w ON w.id = r.workflow_id
+              WHERE s.id = ? AND r.tenant_id = ?`,
+        )
+        .bind(runId || stepId, tenantId)
+        .first();
+
+      if (!run) {
+        return runId ? { runId, status } : null;
+      }
+
+      return {
+        runId: run.id as string,
+        workflowType: run.workflow_type as string,
+        ref_id: (run.ref_id as string) ?? undefined,
+        ref_type: (run.ref_type as string) ?? undefined,
+        status: status || (run.status as string),
+      };
+    } catch (error) {
+      console.error("Error looking up the run of an update:", error);
+      return runId ? { runId, status } : null;
     }
   }
 }
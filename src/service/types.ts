@@ -1,4 +1,5 @@
 // src/service/types.ts
+import type { JsonSchema, SchemaValidationError } from "../utils/schema";
 
 /**
  * Configuration options for the workflow service
@@ -15,6 +16,442 @@ export interface WorkflowServiceOptions {
    * Default: false
    */
   debug?: boolean;
+
+  /**
+   * How long idempotency keys for start requests are kept, in seconds
+   * Default: 86400 (24 hours)
+   */
+  idempotencyKeyTtl?: number;
+
+  /**
+   * How long a start request holds its idempotency key before another
+   * request with the same key can take it over, in seconds
+   * Default: 60
+   */
+  idempotencyClaimTimeout?: number;
+
+  /**
+   * What to do with fire times a schedule missed (e.g. while the cron
+   * trigger was not running), unless the schedule sets its own policy
+   * Default: 'latest'
+   */
+  scheduleCatchUp?: ScheduleCatchUpPolicy;
+
+  /**
+   * Maximum number of missed fire times started per schedule when
+   * the catch-up policy is 'all'
+   * Default: 10
+   */
+  maxScheduleCatchUpRuns?: number;
+
+  /**
+   * Workflow definitions to register when the service starts
+   */
+  definitions?: WorkflowDefinition[];
+
+  /**
+   * Register unknown workflow types automatically when they are started,
+   * instead of rejecting the request
+   * Default: false
+   */
+  autoRegister?: boolean;
+
+  /**
+   * Authentication for the /api/workflows routes and the tracker WebSocket,
+   * or false to leave them open (only for local development)
+   * Default: API keys in the X-API-Key header
+   */
+  auth?: AuthOptions | false;
+
+  /**
+   * Quotas per tenant, keyed by tenant ID
+   */
+  tenantQuotas?: Record<string, TenantQuota>;
+
+  /**
+   * Quota for tenants without an entry in tenantQuotas
+   * Default: unlimited
+   */
+  defaultTenantQuota?: TenantQuota;
+
+  /**
+   * How long to keep finished runs of workflow types that don't set their
+   * own retention policy
+   * Default: forever
+   */
+  retention?: WorkflowRetentionPolicy;
+
+  /**
+   * What happens to runs whose retention period has passed: 'delete'
+   * removes them, 'archive' moves them to the ARCHIVE_BUCKET R2 bucket and
+   * leaves a stub row
+   * Default: 'delete'
+   */
+  retentionAction?: RetentionAction;
+
+  /**
+   * Maximum number of runs deleted per purge batch
+   * Default: 50
+   */
+  retentionBatchSize?: number;
+
+  /**
+   * Maximum number of purge batches per cron trigger
+   * Default: 20
+   */
+  maxRetentionBatches?: number;
+
+  /**
+   * Prometheus metrics endpoint, or false to disable it
+   * Default: served at /metrics to callers with the read scope
+   */
+  metrics?: MetricsOptions | false;
+
+  /**
+   * Built-in web dashboard, or true to serve it with the default settings
+   * Default: not served
+   */
+  dashboard?: DashboardOptions | boolean;
+}
+
+/**
+ * Settings for the Prometheus metrics endpoint
+ */
+export interface MetricsOptions {
+  /**
+   * Path the metrics are served at
+   * Default: '/metrics'
+   */
+  path?: string;
+
+  /**
+   * Require credentials accepted by the service's verifiers (see
+   * `auth.verifiers`) with the read scope, not bound to a tenant or
+   * restricted to some workflow types or ref types. Set to false to serve
+   * metrics without authentication.
+   * Default: true
+   */
+  auth?: boolean;
+
+  /**
+   * How long computed metrics are reused by later scrapes, in seconds
+   * Default: 15
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * Settings for the built-in web dashboard
+ */
+export interface DashboardOptions {
+  /**
+   * Path the dashboard is served at
+   * Default: '/dashboard'
+   */
+  path?: string;
+
+  /**
+   * Title shown in the page header and browser tab
+   * Default: 'Flowflare'
+   */
+  title?: string;
+}
+
+/**
+ * Limits on how many runs a tenant may have
+ */
+export interface TenantQuota {
+  /**
+   * Maximum number of queued, pending, running, sleeping and paused runs
+   */
+  maxActiveRuns?: number;
+
+  /**
+   * Maximum number of runs started in any 60 minute window
+   */
+  maxRunsPerHour?: number;
+}
+
+/**
+ * Authentication settings for the /api/workflows routes and the tracker
+ * WebSocket
+ */
+export interface AuthOptions {
+  /**
+   * Verifiers tried in order; the first one that accepts a request
+   * authenticates it
+   * Default: [apiKeyVerifier()]
+   */
+  verifiers?: AuthVerifier[];
+
+  /**
+   * How long WebSocket tokens are valid, in seconds
+   * Default: 60
+   */
+  webSocketTokenTtl?: number;
+}
+
+/**
+ * Checks the credentials of a request
+ */
+export interface AuthVerifier {
+  /**
+   * Name of the verifier, reported as the principal's method
+   */
+  name: string;
+
+  /**
+   * Authenticate a request
+   *
+   * @returns The authenticated caller, or null if the request has no
+   * valid credentials for this verifier
+   */
+  verify(
+    request: Request,
+    env: Env,
+    ctx?: ExecutionContext,
+  ): Promise<AuthPrincipal | null>;
+}
+
+/**
+ * An authenticated caller
+ */
+export interface AuthPrincipal {
+  /**
+   * Name of the verifier that authenticated the caller
+   */
+  method: string;
+
+  /**
+   * Who the caller is (API key name, JWT subject, ...)
+   */
+  subject: string;
+
+  /**
+   * Scopes granted to the caller (every scope when unset)
+   */
+  scopes?: ApiKeyScope[];
+
+  /**
+   * Tenant the caller acts for
+   */
+  tenantId?: string;
+
+  /**
+   * API key the caller used, if any
+   */
+  apiKey?: ApiKey;
+
+  /**
+   * Claims of the caller's JWT, if any
+   */
+  claims?: Record<string, any>;
+}
+
+/**
+ * Definition of a workflow type
+ */
+export interface WorkflowDefinition {
+  /**
+   * Workflow type/name used when starting runs
+   */
+  name: string;
+
+  /**
+   * Human-readable description
+   */
+  description?: string;
+
+  /**
+   * Version of the workflow code, stamped on every run started from
+   * this definition (e.g. "2024-06-01" or a git SHA)
+   */
+  version?: string;
+
+  /**
+   * Name of the Cloudflare Workflows binding
+   * Default: the upper-cased workflow name
+   */
+  binding?: string;
+
+  /**
+   * JSON Schema that start parameters must match
+   */
+  inputSchema?: JsonSchema;
+
+  /**
+   * JSON Schema describing the workflow's output result
+   */
+  outputSchema?: JsonSchema;
+
+  /**
+   * Limits on how many runs of this workflow type may be active at once
+   */
+  concurrency?: WorkflowConcurrencyPolicy;
+
+  /**
+   * How long to keep finished runs of this workflow type. Statuses it
+   * doesn't list fall back to the service's retention policy.
+   */
+  retention?: WorkflowRetentionPolicy;
+}
+
+/**
+ * Statuses of finished runs that retention policies apply to
+ */
+export type RetainedRunStatus = "Completed" | "Errored" | "Cancelled";
+
+/**
+ * Number of days to keep finished runs, by status. Runs are deleted with
+ * their steps and retries once they finished longer ago than this.
+ */
+export type WorkflowRetentionPolicy = Partial<Record<RetainedRunStatus, number>>;
+
+/**
+ * What happens to runs whose retention period has passed
+ */
+export type RetentionAction = "delete" | "archive";
+
+/**
+ * Runs a retention purge removed, or would remove in a dry run
+ */
+export interface RetentionReport {
+  /**
+   * Whether nothing was deleted
+   */
+  dryRun: boolean;
+
+  /**
+   * Whether the runs were deleted or archived
+   */
+  action: RetentionAction;
+
+  /**
+   * Number of runs
+   */
+  runs: number;
+
+  /**
+   * Number of steps of those runs
+   */
+  steps: number;
+
+  /**
+   * Number of step retries of those runs
+   */
+  retries: number;
+
+  /**
+   * Runs per workflow type and status
+   */
+  workflowTypes: RetentionReportEntry[];
+}
+
+/**
+ * Runs of one workflow type and status in a retention report
+ */
+export interface RetentionReportEntry {
+  workflowType: string;
+  status: RetainedRunStatus;
+  runs: number;
+
+  /**
+   * When the oldest of the runs finished (dry runs only)
+   */
+  oldestFinishedAt?: string;
+}
+
+/**
+ * What to do when a run is started for a ref that already has an active run
+ * - reject: Fail the start request with a 409
+ * - skip: Return the existing run instead of starting a new one
+ * - queue: Queue the new run until the existing one finishes
+ * - cancel-previous: Cancel the existing run and start the new one
+ */
+export type PerRefConcurrencyMode =
+  | "reject"
+  | "skip"
+  | "queue"
+  | "cancel-previous";
+
+/**
+ * Concurrency limits for a workflow type
+ */
+export interface WorkflowConcurrencyPolicy {
+  /**
+   * Maximum number of active runs of the workflow type
+   * Default: unlimited
+   */
+  maxConcurrent?: number;
+
+  /**
+   * What to do when maxConcurrent is reached
+   * Default: 'queue'
+   */
+  onLimit?: "queue" | "reject";
+
+  /**
+   * Allow only one active run per ref_id/ref_type and handle extra starts
+   * with this mode
+   * Default: unlimited
+   */
+  perRef?: PerRefConcurrencyMode;
+}
+
+/**
+ * Permission granted to an API key
+ * - start: Start and re-run workflows and manage schedules
+ * - read: Read runs, definitions and schedules
+ * - cancel: Cancel, pause and resume runs
+ * - track: Send run, step and retry updates from workflows
+ * - admin: Everything, including definitions and API keys
+ */
+export type ApiKeyScope = "start" | "read" | "cancel" | "track" | "admin";
+
+/**
+ * An API key for the service API (the key itself is only stored hashed)
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  /**
+   * First characters of the key, to recognise it without revealing it
+   */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /**
+   * Workflow types the key may access (all when unset)
+   */
+  workflowTypes?: string[];
+  /**
+   * Reference types the key may access (all when unset)
+   */
+  refTypes?: string[];
+  /**
+   * Tenant the key is bound to. Unbound keys act for the default tenant,
+   * or with the admin scope, for the tenant in the X-Tenant-Id header.
+   */
+  tenantId?: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  /**
+   * ID of the key this key replaced when it was rotated
+   */
+  rotatedFrom?: string;
+  createdAt?: string;
+}
+
+/**
+ * Request body for creating an API key
+ */
+export interface ApiKeyInput {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  workflowTypes?: string[];
+  refTypes?: string[];
+  tenantId?: string;
+  expiresAt?: string;
 }
 
 /**
@@ -36,12 +473,120 @@ export interface Env {
    */
   SERVICE_API_KEY: string;
 
+  /**
+   * Secret for signing tracker WebSocket tokens. Tokens can't be issued
+   * without it.
+   */
+  AUTH_TOKEN_SECRET?: string;
+
+  /**
+   * Secret workflow code signs tracker updates with. When set, unsigned
+   * updates are rejected.
+   */
+  TRACKER_SIGNING_SECRET?: string;
+
+  /**
+   * Previous signing secret, still accepted while the secret is rotated
+   */
+  TRACKER_SIGNING_SECRET_PREVIOUS?: string;
+
+  /**
+   * R2 bucket archived runs are moved to
+   */
+  ARCHIVE_BUCKET?: R2Bucket;
+
   /**
    * Any additional workflow bindings
    */
   [key: string]: any;
 }
 
+/**
+ * Request body for starting a workflow
+ */
+export interface StartWorkflowRequest {
+  workflowType: string;
+  params?: Record<string, any>;
+  ref_id?: string;
+  ref_type?: string;
+  metadata?: Record<string, any>;
+  idempotencyKey?: string;
+  startAt?: string | number;
+}
+
+/**
+ * Result of starting a workflow
+ */
+export interface StartWorkflowResult {
+  workflowId: string;
+  ref_id?: string;
+  ref_type?: string;
+  scheduledAt?: string;
+  queued?: boolean;
+  skipped?: boolean;
+}
+
+/**
+ * Per-item result of a batch start request
+ */
+export interface BatchStartResult {
+  index: number;
+  success: boolean;
+  workflowId?: string;
+  ref_id?: string;
+  ref_type?: string;
+  scheduledAt?: string;
+  queued?: boolean;
+  skipped?: boolean;
+  error?: string;
+  errors?: SchemaValidationError[];
+}
+
+/**
+ * Catch-up policy for missed schedule fire times
+ * - skip: drop missed fire times, only start runs that are due now
+ * - latest: start a single run for the most recent missed fire time
+ * - all: start a run for every missed fire time
+ */
+export type ScheduleCatchUpPolicy = "skip" | "latest" | "all";
+
+/**
+ * Structure of workflow schedule data
+ */
+export interface WorkflowSchedule {
+  id: string;
+  name?: string;
+  cron: string;
+  workflow_type: string;
+  params: string;
+  ref_id?: string;
+  ref_type?: string;
+  metadata: string;
+  enabled: number;
+  catch_up?: ScheduleCatchUpPolicy;
+  tenant_id?: string;
+  next_run_at: string;
+  last_run_at?: string;
+  last_run_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Request body for creating or updating a workflow schedule
+ */
+export interface WorkflowScheduleInput {
+  name?: string;
+  cron?: string;
+  workflowType?: string;
+  params?: Record<string, any>;
+  ref_id?: string;
+  ref_type?: string;
+  metadata?: Record<string, any>;
+  enabled?: boolean;
+  catchUp?: ScheduleCatchUpPolicy;
+}
+
 /**
  * Structure of workflow run data
  */
@@ -58,6 +603,14 @@ export interface WorkflowRun {
   updated_at: string;
   completed_at?: string;
   sleep_until?: string;
+  rerun_of?: string;
+  scheduled_at?: string;
+  dispatched_at?: string;
+  workflow_version?: string;
+  tenant_id?: string;
+  archived_at?: string;
+  archive_key?: string;
+  paused_from?: WorkflowStatus;
 }
 
 /**
@@ -72,6 +625,8 @@ export interface WorkflowStep {
   state?: string;
   started_at?: string;
   completed_at?: string;
+  workflow_version?: string;
+  tenant_id?: string;
   retries?: WorkflowStepRetry[];
 }
 
@@ -91,11 +646,14 @@ export interface WorkflowStepRetry {
  * Possible workflow statuses
  */
 export type WorkflowStatus =
+  | "Queued"
   | "Pending"
   | "Running"
   | "Sleeping"
+  | "Paused"
   | "Completed"
-  | "Errored";
+  | "Errored"
+  | "Cancelled";
 
 /**
  * Possible step statuses
@@ -106,3 +664,291 @@ export type StepStatus =
   | "Completed"
   | "Failed"
   | "Retrying";
+
+/**
+ * Format of a run export
+ * - ndjson: One run per line, with steps and retries nested
+ * - csv: One row per step, with the run's columns repeated
+ */
+export type RunExportFormat = "ndjson" | "csv";
+
+/**
+ * Request body of /service/export: any filters and sort order of
+ * WorkflowRunFilter, plus the format. Runs are exported oldest first by
+ * default.
+ */
+export interface RunExportRequest extends WorkflowRunFilter {
+  /**
+   * Default: 'ndjson'
+   */
+  format?: RunExportFormat;
+}
+
+/**
+ * Fields runs can be sorted by
+ */
+export type WorkflowRunSortField =
+  | "created_at"
+  | "updated_at"
+  | "completed_at"
+  | "duration";
+
+/**
+ * Value a JSON field of a run is compared with
+ */
+export type JsonFieldValue = string | number | boolean | null;
+
+/**
+ * Filters and sort order for listing runs, shared by the client, the
+ * service endpoints and the tracker
+ */
+export interface WorkflowRunFilter {
+  /**
+   * Only include runs of these workflow types
+   */
+  workflowType?: string | string[];
+
+  /**
+   * Only include runs with one of these statuses
+   */
+  status?: WorkflowStatus | string | (WorkflowStatus | string)[];
+
+  ref_id?: string;
+  ref_type?: string;
+
+  /**
+   * Only include runs started with this workflow version
+   */
+  version?: string;
+
+  /**
+   * Only include runs created at or after this time
+   */
+  createdAfter?: Date | string | number;
+
+  /**
+   * Only include runs created before this time
+   */
+  createdBefore?: Date | string | number;
+
+  /**
+   * Only include runs that completed at or after this time
+   */
+  completedAfter?: Date | string | number;
+
+  /**
+   * Only include runs that completed before this time
+   */
+  completedBefore?: Date | string | number;
+
+  /**
+   * Only include finished runs that took at least this long
+   */
+  minDurationMs?: number;
+
+  /**
+   * Match fields of the run's metadata, keyed by dotted path
+   * (e.g. { triggeredBy: 'admin', 'source.region': 'eu' })
+   */
+  metadata?: Record<string, JsonFieldValue>;
+
+  /**
+   * Match fields of the run's input parameters, keyed by dotted path
+   */
+  input_params?: Record<string, JsonFieldValue>;
+
+  /**
+   * Default: 'created_at'
+   */
+  sortBy?: WorkflowRunSortField;
+
+  /**
+   * Default: 'desc'
+   */
+  sortOrder?: "asc" | "desc";
+}
+
+/**
+ * Updates a tracker WebSocket session subscribes to. Every field that is
+ * set must match; an empty subscription matches every update.
+ */
+export interface TrackerSubscription {
+  /**
+   * Only updates of this run, its steps and their retries
+   */
+  runId?: string;
+
+  /**
+   * Only updates of runs of this workflow type
+   */
+  workflowType?: string;
+
+  ref_id?: string;
+  ref_type?: string;
+
+  /**
+   * Only updates of runs that have this status after the update
+   */
+  status?: WorkflowStatus;
+}
+
+/**
+ * Related data loaded with runs: nothing, their steps, or their steps with
+ * each step's retries
+ */
+export type RunInclude = "none" | "steps" | "steps+retries";
+
+/**
+ * Parameters of a tracker query for runs
+ */
+export interface WorkflowRunQuery extends WorkflowRunFilter {
+  /**
+   * Get a single run by ID; the other filters are ignored
+   */
+  workflowId?: string;
+
+  /**
+   * Default: 'steps+retries'
+   */
+  include?: RunInclude;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  includeTotal?: boolean;
+
+  /**
+   * Workflow types and ref types the caller's API key is limited to
+   */
+  allowedWorkflowTypes?: string[];
+  allowedRefTypes?: string[];
+}
+
+/**
+ * A page of workflow runs
+ */
+export interface WorkflowRunPage {
+  data: Record<string, any>[];
+
+  /**
+   * Cursor of the next page, or null on the last page
+   */
+  nextCursor: string | null;
+
+  /**
+   * Number of runs matching the filters across all pages, if requested
+   */
+  totalCount?: number;
+}
+
+/**
+ * Run statistics for one version of a workflow type
+ */
+export interface WorkflowVersionStats {
+  version: string | null;
+  total: number;
+  completed: number;
+  errored: number;
+  cancelled: number;
+  active: number;
+  failure_rate: number | null;
+  avg_duration_ms: number | null;
+  min_duration_ms: number | null;
+  max_duration_ms: number | null;
+  first_run_at: string;
+  last_run_at: string;
+}
+
+/**
+ * Size of the time buckets of run statistics
+ */
+export type StatsBucketSize = "hour" | "day";
+
+/**
+ * Request body of /service/stats
+ */
+export interface WorkflowStatsFilters {
+  /**
+   * Only include this workflow type
+   */
+  workflowType?: string;
+
+  /**
+   * Start of the window (runs created at or after this time)
+   * Default: 7 days before until
+   */
+  since?: string;
+
+  /**
+   * End of the window (runs created before this time)
+   * Default: now
+   */
+  until?: string;
+
+  /**
+   * Default: 'day'
+   */
+  bucket?: StatsBucketSize;
+}
+
+/**
+ * Run statistics over a time window, per workflow type
+ */
+export interface WorkflowStatsReport {
+  since: string;
+  until: string;
+  bucket: StatsBucketSize;
+  workflowTypes: WorkflowTypeStats[];
+}
+
+/**
+ * Run statistics for one workflow type
+ */
+export interface WorkflowTypeStats {
+  workflowType: string;
+  total: number;
+  completed: number;
+  errored: number;
+  cancelled: number;
+  active: number;
+
+  /**
+   * Share of finished runs that completed
+   */
+  success_rate: number | null;
+
+  /**
+   * Share of finished runs that errored
+   */
+  error_rate: number | null;
+  p50_duration_ms: number | null;
+  p95_duration_ms: number | null;
+  p99_duration_ms: number | null;
+  avg_retries: number;
+  steps: WorkflowStepStats[];
+  buckets: WorkflowStatsBucket[];
+}
+
+/**
+ * Statistics for one step of a workflow type
+ */
+export interface WorkflowStepStats {
+  step_name: string;
+  total: number;
+  completed: number;
+  failed: number;
+  p50_duration_ms: number | null;
+  p95_duration_ms: number | null;
+  p99_duration_ms: number | null;
+  avg_retries: number;
+}
+
+/**
+ * Run counts of one hour or day
+ */
+export interface WorkflowStatsBucket {
+  start: string;
+  total: number;
+  completed: number;
+  errored: number;
+  cancelled: number;
+}
@@ -1,5 +1,191 @@
 // src/service/worker.ts
-import { Env, WorkflowServiceOptions } from "./types";
+import {
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyScope,
+  AuthPrincipal,
+  BatchStartResult,
+  Env,
+  RunExportRequest,
+  StartWorkflowRequest,
+  StartWorkflowResult,
+  TenantQuota,
+  WorkflowDefinition,
+  WorkflowRetentionPolicy,
+  WorkflowSchedule,
+  WorkflowScheduleInput,
+  WorkflowServiceOptions,
+  WorkflowStatsFilters,
+  WorkflowRunPage,
+  WorkflowRunQuery,
+  WorkflowStatus,
+  WorkflowVersionStats,
+} from "./types";
+import {
+  generatePlaceholders,
+  generateSetClause,
+  parseJsonSafe,
+  pickColumns,
+} from "../utils/db";
+import { nextCronTime, parseCron, previousCronTime } from "../utils/cron";
+import { sha256Hex, stableStringify } from "../utils/crypto";
+import {
+  dispatchWorkflowRun,
+  getWorkflowBinding,
+  scheduleDelayedDispatch,
+} from "./dispatch";
+import { ServiceError } from "./errors";
+import {
+  DEFAULT_TENANT_ID,
+  TRACKER_PRINCIPAL_HEADER,
+  assertTenantQuota,
+  fetchTracker,
+  resolveTenantId,
+} from "./tenants";
+import {
+  DEFAULT_WEBSOCKET_TOKEN_TTL,
+  apiKeyVerifier,
+  authenticateRequest,
+  createWebSocketToken,
+  principalHasScope,
+  verifyTrackerUpdate,
+  verifyWebSocketToken,
+} from "./auth";
+import {
+  assertApiKeyAllowed,
+  assertWithinApiKeyRestrictions,
+  authenticateApiKey,
+  createApiKey,
+  filterRunsForApiKey,
+  hasScope,
+  isApiKeyAllowed,
+  isWithinApiKeyRestrictions,
+  revokeApiKey,
+  rotateApiKey,
+  rowToApiKey,
+  validateApiKeyInput,
+} from "./keys";
+import {
+  insertRunUnderPolicy,
+  releaseQueuedRuns,
+  validateConcurrencyPolicy,
+} from "./concurrency";
+import { hydrateArchivedRuns } from "./archive";
+import { normalizeOffset, normalizePageSize } from "./pagination";
+import {
+  DEFAULT_METRICS_PATH,
+  METRICS_CONTENT_TYPE,
+  getMetrics,
+  recordRunMetrics,
+  recordStepMetrics,
+  recordStepRetry,
+} from "./metrics";
+import {
+  EXPORT_CONTENT_TYPES,
+  createRunExportStream,
+  validateExportRequest,
+} from "./export";
+import { getWorkflowStats, validateStatsFilters } from "./stats";
+import {
+  DASHBOARD_CONTENT_SECURITY_POLICY,
+  DEFAULT_DASHBOARD_PATH,
+  renderDashboard,
+} from "./dashboard";
+import {
+  OPENAPI_PATH,
+  REST_PREFIX,
+  buildOpenApiDocument,
+  buildRestPayload,
+  matchRestRoute,
+  restError,
+  toRestResponse,
+} from "./rest";
+import {
+  previewRetention,
+  purgeExpiredRuns,
+  validateRetentionPolicy,
+} from "./retention";
+import {
+  deleteWorkflowDefinition,
+  getWorkflowDefinition,
+  rowToDefinition,
+  saveWorkflowDefinition,
+  syncWorkflowDefinitions,
+} from "./definitions";
+import { validateSchema } from "../utils/schema";
+
+/**
+ * Maximum number of workflows that can be started in one batch request
+ */
+const MAX_BATCH_START_SIZE = 100;
+
+/**
+ * Columns workflow code may write with each type of tracker update. The
+ * tenant and which run and step an update belongs to are checked when it
+ * is written.
+ */
+const UPDATE_COLUMNS: Record<string, readonly string[]> = {
+  run_update: [
+    "id",
+    "workflow_id",
+    "status",
+    "ref_id",
+    "ref_type",
+    "input_params",
+    "output_result",
+    "metadata",
+    "created_at",
+    "completed_at",
+    "sleep_until",
+    "paused_from",
+    "workflow_version",
+  ],
+  step_update: [
+    "id",
+    "workflow_run_id",
+    "workflow_instance_id",
+    "step_name",
+    "status",
+    "step_index",
+    "state",
+    "started_at",
+    "completed_at",
+    "workflow_version",
+  ],
+  retry_update: [
+    "workflow_step_id",
+    "retry_count",
+    "retry_at",
+    "last_error",
+    "created_at",
+  ],
+};
+
+/**
+ * Scope an API key needs for each service endpoint
+ */
+const SERVICE_ENDPOINT_SCOPES: Record<string, ApiKeyScope> = {
+  "/service/start-workflow": "start",
+  "/service/start-workflows": "start",
+  "/service/rerun-workflow": "start",
+  "/service/get-workflow": "read",
+  "/service/list-workflows": "read",
+  "/service/get-workflows-by-ref": "read",
+  "/service/list-delayed-workflows": "read",
+  "/service/compare-versions": "read",
+  "/service/stats": "read",
+  "/service/export": "read",
+  "/service/cancel-workflow": "cancel",
+  "/service/pause-workflow": "cancel",
+  "/service/resume-workflow": "cancel",
+  "/service/definitions/list": "read",
+  "/service/definitions/get": "read",
+  "/service/schedules/create": "start",
+  "/service/schedules/update": "start",
+  "/service/schedules/delete": "start",
+  "/service/schedules/list": "read",
+  "/service/schedules/get": "read",
+};
 
 /**
  * Main worker implementation for the workflow service
@@ -18,12 +204,7 @@ export default {
     env: Env,
     ctx: ExecutionContext,
   ): Promise<Response> {
-    // Access config from createWorkflowService
-    // @ts-ignore - config is added by createWorkflowService
-    const config: WorkflowServiceOptions = this.config || {
-      allowedOrigins: ["*"],
-      debug: false,
-    };
+    const config = this.getConfig();
 
     // Helper for CORS handling
     const corsHeaders = (request: Request): HeadersInit => {
@@ -40,9 +221,10 @@ export default {
 
       return {
         "Access-Control-Allow-Origin": allowOrigin || "*",
-        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+        "Access-Control-Allow-Methods":
+          "GET, POST, PUT, PATCH, DELETE, OPTIONS",
         "Access-Control-Allow-Headers":
-          "Content-Type, Authorization, X-API-Key",
+          "Content-Type, Authorization, X-API-Key, X-Tenant-Id, Idempotency-Key",
         "Access-Control-Max-Age": "86400",
       };
     };
@@ -64,6 +246,13 @@ export default {
         return this.handleApiRequest(request, env, ctx, corsHeaders(request));
       } else if (path === "/api/tracker-websocket") {
         return this.handleWebSocketConnection(request, env, ctx);
+      } else if (path === "/api/tracker-websocket/token") {
+        return this.handleWebSocketToken(
+          request,
+          env,
+          ctx,
+          corsHeaders(request),
+        );
       } else if (path.startsWith("/service/")) {
         return this.handleServiceRequest(
           request,
@@ -71,6 +260,20 @@ export default {
           ctx,
           corsHeaders(request),
         );
+      } else if (path.startsWith(`${REST_PREFIX}/`)) {
+        return this.handleRestRequest(request, env, ctx, corsHeaders(request));
+      } else if (
+        config.metrics !== false &&
+        path === (config.metrics?.path || DEFAULT_METRICS_PATH)
+      ) {
+        return this.handleMetrics(request, env, ctx, corsHeaders(request));
+      } else if (
+        config.dashboard &&
+        path ===
+          ((config.dashboard !== true && config.dashboard.path) ||
+            DEFAULT_DASHBOARD_PATH)
+      ) {
+        return this.handleDashboard(request);
       } else {
         // Not found
         return new Response("Not found", {
@@ -96,6 +299,255 @@ export default {
     }
   },
 
+  /**
+   * Handle cron triggers for the worker
+   *
+   * @param controller Scheduled event controller
+   * @param env Environment bindings
+   * @param ctx Execution context
+   */
+  async scheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    const config = this.getConfig();
+
+    ctx.waitUntil(
+      (async () => {
+        // Clear out idempotency keys that can no longer be replayed
+        try {
+          await env.DB.prepare(
+            "DELETE FROM workflow_idempotency_keys WHERE expires_at <= datetime('now')",
+          ).run();
+        } catch (error) {
+          console.error("Idempotency key cleanup error:", error);
+        }
+
+        // Clear out nonces of signed tracker updates and requests
+        try {
+          await env.DB.prepare(
+            "DELETE FROM tracker_update_nonces WHERE expires_at <= datetime('now')",
+          ).run();
+          await env.DB.prepare(
+            "DELETE FROM hmac_request_nonces WHERE expires_at <= datetime('now')",
+          ).run();
+        } catch (error) {
+          console.error("Nonce cleanup error:", error);
+        }
+
+        // Start the runs of schedules that are due
+        try {
+          const result = await this.runDueSchedules(
+            new Date(controller.scheduledTime),
+            env,
+          );
+
+          if (config.debug) {
+            console.log("Scheduled run result:", result);
+          }
+        } catch (error) {
+          console.error("Scheduled run error:", error);
+        }
+
+        // Retention periods can be set on the definitions passed to the
+        // service, so make sure they are in D1 before purging
+        try {
+          await syncWorkflowDefinitions(config.definitions || [], env);
+        } catch (error) {
+          console.error("Workflow definition sync error:", error);
+        }
+
+        // Delete runs whose retention period has passed
+        try {
+          const purged = await purgeExpiredRuns(config.retention, env, {
+            action: config.retentionAction,
+            batchSize: config.retentionBatchSize,
+            maxBatches: config.maxRetentionBatches,
+          });
+
+          if (config.debug && purged.runs > 0) {
+            console.log(
+              `Retention purge ${purged.action === "archive" ? "archived" : "removed"} ${purged.runs} runs, ${purged.steps} steps and ${purged.retries} retries:`,
+              purged.workflowTypes,
+            );
+          }
+        } catch (error) {
+          console.error("Retention purge error:", error);
+        }
+      })(),
+    );
+  },
+
+  /**
+   * Access config from createWorkflowService
+   */
+  getConfig(): WorkflowServiceOptions {
+    // @ts-ignore - config is added by createWorkflowService
+    return this.config || {
+      allowedOrigins: ["*"],
+      debug: false,
+    };
+  },
+
+  /**
+   * Authenticate a request to the /api routes or the tracker WebSocket and
+   * check that the caller has a scope
+   *
+   * @param request The incoming HTTP request
+   * @param env Environment bindings
+   * @param ctx Execution context
+   * @param scope Required scope
+   * @param webSocketToken Token from the WebSocket URL, if any
+   * @returns The authenticated caller, with the tenant it acts for
+   * @throws ServiceError (401) without valid credentials, (403) without the
+   * scope
+   */
+  async authorizeApiRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    scope: ApiKeyScope,
+    webSocketToken?: string | null,
+  ): Promise<AuthPrincipal> {
+    const principal = await this.authenticateApiRequest(
+      request,
+      env,
+      ctx,
+      scope,
+      webSocketToken,
+    );
+
+    return {
+      ...principal,
+      tenantId: resolveTenantId(
+        request,
+        principal.tenantId,
+        principalHasScope(principal, "admin"),
+      ),
+    };
+  },
+
+  /**
+   * Authenticate a caller with the service's verifiers and check that it
+   * has a scope, without resolving the tenant it acts for
+   *
+   * @param request The incoming HTTP request
+   * @param env Environment bindings
+   * @param ctx Execution context
+   * @param scope Required scope
+   * @param webSocketToken Token from the WebSocket URL, if any
+   * @returns The authenticated caller, with the tenant its credentials are
+   * bound to, if any
+   * @throws ServiceError (401) without valid credentials, (403) without the
+   * scope
+   */
+  async authenticateApiRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    scope: ApiKeyScope,
+    webSocketToken?: string | null,
+  ): Promise<AuthPrincipal> {
+    const auth = this.getConfig().auth;
+    if (auth === false) {
+      return { method: "none", subject: "anonymous" };
+    }
+
+    const principal = webSocketToken
+      ? await verifyWebSocketToken(webSocketToken, env)
+      : await authenticateRequest(
+          request,
+          env,
+          auth?.verifiers || [apiKeyVerifier()],
+          ctx,
+        );
+
+    if (!principal) {
+      throw new ServiceError("Unauthorized", 401);
+    }
+
+    if (!principalHasScope(principal, scope)) {
+      throw new ServiceError(
+        `${principal.subject} does not have the ${scope} scope`,
+        403,
+      );
+    }
+
+    // These routes see every run, so keys limited to some workflow types
+    // or ref types have to use the /service/ endpoints
+    if (principal.apiKey?.workflowTypes || principal.apiKey?.refTypes) {
+      throw new ServiceError(
+        `API key ${principal.apiKey.name} is restricted to some workflow types or ref types`,
+        403,
+      );
+    }
+
+    return principal;
+  },
+
+  /**
+   * Get the quota of a tenant
+   */
+  getTenantQuota(tenantId: string): TenantQuota | undefined {
+    const config = this.getConfig();
+    return config.tenantQuotas?.[tenantId] ?? config.defaultTenantQuota;
+  },
+
+  /**
+   * Issue a short-lived token for opening a tracker WebSocket
+   */
+  async handleWebSocketToken(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    corsHeaders: HeadersInit,
+  ): Promise<Response> {
+    try {
+      const principal = await this.authorizeApiRequest(
+        request,
+        env,
+        ctx,
+        "read",
+      );
+
+      const auth = this.getConfig().auth;
+      const { token, expiresAt } = await createWebSocketToken(
+        principal,
+        (auth && auth.webSocketTokenTtl) || DEFAULT_WEBSOCKET_TOKEN_TTL,
+        env,
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          token,
+          expiresAt,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
   /**
    * Handle API requests for workflow data
    */
@@ -108,28 +560,54 @@ export default {
     const url = new URL(request.url);
     const path = url.pathname;
 
-    // Get workflow tracker Durable Object
-    const id = env.WORKFLOW_TRACKER.idFromName("default");
-    const tracker = env.WORKFLOW_TRACKER.get(id);
+    // Workflows send updates, everything else reads. Signed updates need
+    // credentials too, so they stay bound to the caller's tenant.
+    let principal: AuthPrincipal;
+    try {
+      principal = await this.authorizeApiRequest(
+        request,
+        env,
+        ctx,
+        path === "/api/workflows/update" ? "track" : "read",
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
 
     if (path === "/api/workflows/query") {
       try {
         const params = await request.json();
 
-        // Forward query to the Durable Object which will use D1
-        const doRequest = new Request(`${url.origin}/websocket`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "query",
-            params,
-          }),
-        });
-
-        const doResponse = await tracker.fetch(doRequest);
+        // Forward query to the tenant's Durable Object which will use D1
+        const doResponse = await fetchTracker(
+          principal.tenantId,
+          env,
+          `${url.origin}/websocket`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              type: "query",
+              params,
+            }),
+          },
+        );
         const data = await doResponse.json();
 
         return new Response(JSON.stringify(data), {
+          status: doResponse.status,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -153,17 +631,27 @@ export default {
     } else if (path === "/api/workflows/update") {
       // Handle workflow updates directly with D1
       try {
-        const update = await request.json();
-        const updateResult = await this.processUpdate(update, env);
+        const body = await request.text();
 
-        // After updating the database, broadcast the update to connected clients
-        await tracker.fetch(
-          new Request(`${url.origin}/broadcast`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(update),
-          }),
+        // Once signing is enabled, only workflow code that also knows the
+        // signing secret may change run state
+        if (env.TRACKER_SIGNING_SECRET) {
+          await verifyTrackerUpdate(request, body, env);
+        }
+
+        const update = this.normalizeUpdate(JSON.parse(body));
+        const tenantId = await this.getUpdateTenantId(
+          update,
+          env,
+          principal.tenantId,
         );
+        const updateResult = await this.processUpdate(update, env, tenantId);
+
+        // After updating the database, broadcast the update to connected
+        // clients, unless it was ignored because the run had already finished
+        if (updateResult?.updated !== false) {
+          await this.broadcastUpdate(update, env, url.origin, tenantId);
+        }
 
         return new Response(
           JSON.stringify({
@@ -184,7 +672,7 @@ export default {
             error: error instanceof Error ? error.message : "Unknown error",
           }),
           {
-            status: 500,
+            status: error instanceof ServiceError ? error.status : 500,
             headers: {
               ...corsHeaders,
               "Content-Type": "application/json",
@@ -201,153 +689,3014 @@ export default {
   },
 
   /**
-   * Handle service-to-service requests
+   * Serve Prometheus metrics
    */
-  async handleServiceRequest(
+  async handleMetrics(
     request: Request,
     env: Env,
     ctx: ExecutionContext,
     corsHeaders: HeadersInit,
   ): Promise<Response> {
-    // Check API key for secure service-to-service communication
-    const apiKey = request.headers.get("X-API-Key");
+    const options = this.getConfig().metrics || {};
+
+    if (request.method !== "GET") {
+      return new Response("Method not allowed", {
+        status: 405,
+        headers: corsHeaders,
+      });
+    }
+
+    if (options.auth !== false) {
+      try {
+        const principal = await this.authenticateApiRequest(
+          request,
+          env,
+          ctx,
+          "read",
+        );
+
+        // Metrics cover every tenant
+        if (principal.tenantId) {
+          throw new ServiceError(
+            `${principal.subject} is bound to tenant ${principal.tenantId} and may not read metrics`,
+            403,
+          );
+        }
+      } catch (error) {
+        return new Response(
+          error instanceof Error ? error.message : "Unknown error",
+          {
+            status: error instanceof ServiceError ? error.status : 500,
+            headers: corsHeaders,
+          },
+        );
+      }
+    }
+
+    try {
+      const metrics = await getMetrics(env, options.cacheTtl);
+
+      return new Response(metrics, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": METRICS_CONTENT_TYPE,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      console.error("Error collecting metrics:", error);
 
-    if (!apiKey || apiKey !== env.SERVICE_API_KEY) {
       return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Unauthorized",
-        }),
+        `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
         {
-          status: 401,
+          status: 500,
           headers: {
             ...corsHeaders,
-            "Content-Type": "application/json",
+            "Content-Type": "text/plain",
           },
         },
       );
     }
+  },
 
-    const url = new URL(request.url);
-    const path = url.pathname;
+  /**
+   * Serve the dashboard page. It signs in with an API key in the browser,
+   * so the page itself needs no credentials.
+   */
+  handleDashboard(request: Request): Response {
+    const options = this.getConfig().dashboard;
 
-    // Handle different service endpoints
-    if (path === "/service/start-workflow") {
-      return this.handleStartWorkflow(request, env, corsHeaders);
-    } else if (path === "/service/get-workflow") {
-      return this.handleGetWorkflow(request, env, corsHeaders);
-    } else if (path === "/service/list-workflows") {
-      return this.handleListWorkflows(request, env, corsHeaders);
-    } else if (path === "/service/get-workflows-by-ref") {
-      return this.handleGetWorkflowsByRef(request, env, corsHeaders);
+    if (request.method !== "GET") {
+      return new Response("Method not allowed", { status: 405 });
     }
 
     return new Response(
-      JSON.stringify({
-        success: false,
-        error: "Unknown service endpoint",
-      }),
+      renderDashboard(
+        typeof options === "object" ? options.title : undefined,
+      ),
       {
-        status: 404,
         headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
+          "Content-Type": "text/html; charset=utf-8",
+          "Content-Security-Policy": DASHBOARD_CONTENT_SECURITY_POLICY,
+          "Cache-Control": "no-cache",
+          "X-Content-Type-Options": "nosniff",
         },
       },
     );
   },
 
   /**
-   * Start a new workflow
+   * Handle REST API requests by forwarding them to the service endpoint
+   * each route is an alias of
    */
-  async handleStartWorkflow(
+  async handleRestRequest(
     request: Request,
     env: Env,
+    ctx: ExecutionContext,
     corsHeaders: HeadersInit,
   ): Promise<Response> {
-    try {
-      const requestData = await request.json() as {
-        workflowType: string;
-        params: Record<string, any>;
-        ref_id?: string;
-        ref_type?: string;
-        metadata?: Record<string, any>;
-      };
-      const { workflowType, params, ref_id, ref_type, metadata } = requestData;
+    const url = new URL(request.url);
 
-      // Generate a unique ID for this workflow instance
-      const instanceId = crypto.randomUUID();
+    if (url.pathname === OPENAPI_PATH && request.method === "GET") {
+      return new Response(
+        JSON.stringify(
+          buildOpenApiDocument(SERVICE_ENDPOINT_SCOPES, url.origin),
+        ),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
 
-      // Ensure input_params is a valid JSON string
-      const inputParams = JSON.stringify(params || {});
-      
-      // Get or create the workflow in database
-      let workflowId;
-      
-      // First check if workflow exists with the same name, ref_id, and ref_type
-      const existingWorkflow = await env.DB.prepare(
-        "SELECT id, status, runs_count FROM workflow WHERE name = ? AND (ref_id = ? OR ref_id IS NULL) AND (ref_type = ? OR ref_type IS NULL)",
-      )
-        .bind(workflowType, ref_id || null, ref_type || null)
-        .first();
+    const match = matchRestRoute(request.method, url.pathname);
 
-      if (existingWorkflow) {
-        // Use existing workflow and increment run count
-        workflowId = existingWorkflow.id;
-        
-        // Update workflow status to Running and increment runs count
-        await env.DB.prepare(
-          `UPDATE workflow SET 
-            status = ?, 
-            last_run_id = ?, 
-            runs_count = ?, 
-            updated_at = datetime('now')
-          WHERE id = ?`
+    if (!("route" in match)) {
+      return match.allowedMethods.length > 0
+        ? restError(405, `Method ${request.method} not allowed`, {
+            ...corsHeaders,
+            Allow: match.allowedMethods.join(", "),
+          })
+        : restError(404, `Unknown endpoint: ${url.pathname}`, corsHeaders);
+    }
+
+    let payload: Record<string, any>;
+    try {
+      const text =
+        request.method === "POST" || request.method === "PATCH"
+          ? await request.text()
+          : "";
+      let body: Record<string, any> = {};
+
+      if (text) {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          throw new ServiceError("Request body must be valid JSON");
+        }
+      }
+
+      payload = buildRestPayload(match, url.searchParams, body);
+    } catch (error) {
+      return restError(
+        error instanceof ServiceError ? error.status : 500,
+        error instanceof Error ? error.message : "Unknown error",
+        corsHeaders,
+      );
+    }
+
+    const idempotencyKey = request.headers.get("Idempotency-Key");
+    if (idempotencyKey && payload.idempotencyKey === undefined) {
+      payload.idempotencyKey = idempotencyKey;
+    }
+
+    // Service endpoints take the API key from X-API-Key only
+    const headers = new Headers(request.headers);
+    const bearer = headers
+      .get("Authorization")
+      ?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (bearer && !headers.has("X-API-Key")) {
+      headers.set("X-API-Key", bearer);
+    }
+    headers.set("Content-Type", "application/json");
+    headers.delete("Content-Length");
+
+    const response = await this.handleServiceRequest(
+      new Request(`${url.origin}${match.route.servicePath}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(payload),
+      }),
+      env,
+      ctx,
+      corsHeaders,
+    );
+
+    return toRestResponse(match.route, response);
+  },
+
+  /**
+   * Handle service-to-service requests
+   */
+  async handleServiceRequest(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext,
+    corsHeaders: HeadersInit,
+  ): Promise<Response> {
+    // Check API key for secure service-to-service communication
+    const apiKey = await authenticateApiKey(
+      request.headers.get("X-API-Key"),
+      env,
+      ctx,
+    );
+
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Unauthorized",
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    // Endpoints not listed need the admin scope
+    const requiredScope = SERVICE_ENDPOINT_SCOPES[path] || "admin";
+
+    if (!hasScope(apiKey, requiredScope)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `API key ${apiKey.name} does not have the ${requiredScope} scope`,
+        }),
+        {
+          status: 403,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+
+    // Every request acts for a single tenant
+    let tenantId: string;
+    try {
+      tenantId = resolveTenantId(
+        request,
+        apiKey.tenantId,
+        hasScope(apiKey, "admin"),
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+
+    // Handle different service endpoints
+    if (path === "/service/start-workflow") {
+      return this.handleStartWorkflow(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/start-workflows") {
+      return this.handleStartWorkflows(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/get-workflow") {
+      return this.handleGetWorkflow(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/list-workflows") {
+      return this.handleListWorkflows(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/get-workflows-by-ref") {
+      return this.handleGetWorkflowsByRef(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/cancel-workflow") {
+      return this.handleRunControl(
+        request,
+        env,
+        corsHeaders,
+        "cancel",
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/pause-workflow") {
+      return this.handleRunControl(
+        request,
+        env,
+        corsHeaders,
+        "pause",
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/resume-workflow") {
+      return this.handleRunControl(
+        request,
+        env,
+        corsHeaders,
+        "resume",
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/list-delayed-workflows") {
+      return this.handleListDelayedWorkflows(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/export") {
+      return this.handleExportRuns(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/compare-versions") {
+      return this.handleCompareVersions(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/stats") {
+      return this.handleGetStats(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/rerun-workflow") {
+      return this.handleRerunWorkflow(
+        request,
+        env,
+        corsHeaders,
+        apiKey,
+        tenantId,
+      );
+    } else if (path.startsWith("/service/definitions/")) {
+      return this.handleDefinitionRequest(
+        request,
+        env,
+        corsHeaders,
+        path.slice("/service/definitions/".length),
+        apiKey,
+      );
+    } else if (path.startsWith("/service/schedules/")) {
+      return this.handleScheduleRequest(
+        request,
+        env,
+        corsHeaders,
+        path.slice("/service/schedules/".length),
+        apiKey,
+        tenantId,
+      );
+    } else if (path === "/service/retention/preview") {
+      return this.handleRetentionPreview(request, env, corsHeaders, apiKey);
+    } else if (path.startsWith("/service/api-keys/")) {
+      return this.handleApiKeyRequest(
+        request,
+        env,
+        corsHeaders,
+        path.slice("/service/api-keys/".length),
+        apiKey,
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Unknown service endpoint",
+      }),
+      {
+        status: 404,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+  },
+
+  /**
+   * Start a new workflow
+   */
+  async handleStartWorkflow(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    let claimedKey: string | undefined;
+
+    // Generate the run ID up front, so the idempotency claim can record it
+    // and a retry can find the run if this request dies
+    const runId = crypto.randomUUID();
+
+    try {
+      const requestData = await request.json() as StartWorkflowRequest;
+      const { idempotencyKey, ...startRequest } = requestData;
+
+      assertApiKeyAllowed(
+        apiKey,
+        startRequest.workflowType,
+        startRequest.ref_type,
+      );
+
+      // Claim the idempotency key before doing any work, so retries of the
+      // same request get the original response instead of a duplicate run.
+      // Keys are scoped by tenant so tenants can't see each other's responses.
+      if (idempotencyKey) {
+        const requestHash = await sha256Hex(stableStringify(startRequest));
+        const claim = await this.claimIdempotencyKey(
+          `${tenantId}:${idempotencyKey}`,
+          requestHash,
+          runId,
+          env,
+        );
+
+        if (claim.status === "replay") {
+          return new Response(claim.response, {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+              "Idempotent-Replayed": "true",
+            },
+          });
+        } else if (claim.status !== "claimed") {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error:
+                claim.status === "conflict"
+                  ? `Idempotency key ${idempotencyKey} was already used with a different request payload`
+                  : `A request with idempotency key ${idempotencyKey} is still being processed`,
+            }),
+            {
+              status: 409,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        claimedKey = `${tenantId}:${idempotencyKey}`;
+
+        // The request that held the key before may have recorded its run
+        if (claim.abandonedRunId) {
+          const recovered = await this.recoverAbandonedRun(
+            claim.abandonedRunId,
+            env,
+            tenantId,
+          );
+
+          if (recovered) {
+            const responseBody = JSON.stringify({
+              success: true,
+              ...recovered,
+            });
+            await this.completeIdempotencyKey(
+              claimedKey,
+              recovered.workflowId,
+              responseBody,
+              env,
+            );
+
+            return new Response(responseBody, {
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+                "Idempotent-Replayed": "true",
+              },
+            });
+          }
+        }
+      }
+
+      const result = await this.startWorkflowRun(
+        startRequest,
+        env,
+        tenantId,
+        runId,
+      );
+      const responseBody = JSON.stringify({
+        success: true,
+        ...result,
+      });
+
+      if (claimedKey) {
+        await this.completeIdempotencyKey(
+          claimedKey,
+          result.workflowId,
+          responseBody,
+          env,
+        );
+      }
+
+      return new Response(responseBody, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      });
+    } catch (error) {
+      // Release the key so the caller can retry the failed request
+      if (claimedKey) {
+        await this.releaseIdempotencyKey(claimedKey, env);
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          ...(error instanceof ServiceError && error.details
+            ? { errors: error.details }
+            : {}),
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Create the workflow and workflow run records for a start request and
+   * dispatch the run to its Workflows binding
+   */
+  async startWorkflowRun(
+    requestData: StartWorkflowRequest,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+    instanceId: string = crypto.randomUUID(),
+  ): Promise<StartWorkflowResult> {
+    const { workflowType, params, ref_id, ref_type, metadata, startAt } =
+      requestData;
+
+    // Reject unknown workflow types and params that don't match the schema
+    const definition = await this.validateStartRequest(
+      workflowType,
+      params,
+      env,
+    );
+
+    // Runs with a future start time are dispatched later by the tracker
+    const scheduledAt = this.parseStartAt(startAt);
+
+    await assertTenantQuota(tenantId, this.getTenantQuota(tenantId), env);
+
+    // Ensure input_params is a valid JSON string
+    const inputParams = JSON.stringify(params || {});
+    
+    // Get or create the workflow in database
+    let workflowId;
+    
+    // First check if workflow exists with the same name, ref_id, and ref_type
+    const existingWorkflow = await env.DB.prepare(
+      "SELECT id, status, runs_count FROM workflow WHERE tenant_id = ? AND name = ? AND (ref_id = ? OR ref_id IS NULL) AND (ref_type = ? OR ref_type IS NULL)",
+    )
+      .bind(tenantId, workflowType, ref_id || null, ref_type || null)
+      .first();
+
+    // Whether this request created the workflow
+    let createdWorkflow = false;
+
+    if (existingWorkflow) {
+      workflowId = existingWorkflow.id;
+    } else {
+      // Auto-create the workflow with input params and metadata. The run
+      // is counted once it has been recorded. A simultaneous start for the
+      // same ref may create it first.
+      const result = await env.DB.prepare(
+        `INSERT INTO workflow (
+          tenant_id,
+          name, 
+          status, 
+          input_params, 
+          metadata, 
+          last_run_id, 
+          ref_id, 
+          ref_type, 
+          runs_count, 
+          created_at, 
+          updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now')) 
+        ON CONFLICT (tenant_id, name, ref_id, ref_type) DO NOTHING
+        RETURNING id`
+      )
+        .bind(
+          tenantId,
+          workflowType,
+          "Pending",
+          inputParams,
+          JSON.stringify(metadata || {}),
+          instanceId,
+          ref_id || null,
+          ref_type || null,
+          0
         )
-          .bind(
-            "Running", 
-            instanceId, 
-            ((existingWorkflow.runs_count as number) || 0) + 1,
-            workflowId
+        .first();
+
+      createdWorkflow = !!result?.id;
+      const workflow =
+        result ||
+        (await env.DB.prepare(
+          "SELECT id FROM workflow WHERE tenant_id = ? AND name = ? AND ref_id IS ? AND ref_type IS ?",
+        )
+          .bind(tenantId, workflowType, ref_id || null, ref_type || null)
+          .first());
+      
+      if (!workflow || !workflow.id) {
+        throw new Error(`Failed to create workflow type: ${workflowType}`);
+      }
+      
+      workflowId = workflow.id;
+    }
+
+    // Create a new workflow run record
+    const run: Record<string, any> = {
+      id: instanceId,
+      workflow_id: workflowId,
+      tenant_id: tenantId,
+      ref_id: ref_id,
+      ref_type: ref_type,
+      input_params: inputParams,
+      output_result: "{}", // Initialize with empty JSON object
+      metadata: JSON.stringify(metadata || {}), // Store who triggered the run
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    if (scheduledAt) {
+      run.scheduled_at = scheduledAt.toISOString();
+    }
+
+    // Record which version of the workflow the run was started with
+    if (definition.version) {
+      run.workflow_version = definition.version;
+    }
+
+    // Apply the workflow type's concurrency policy to runs starting now.
+    // Delayed runs have it applied when the tracker dispatches them.
+    let queued = false;
+    if (definition.concurrency && !scheduledAt) {
+      // Don't leave a workflow created for this request without runs
+      const discardNewWorkflow = async () => {
+        if (createdWorkflow) {
+          await env.DB.prepare(
+            "DELETE FROM workflow WHERE id = ? AND NOT EXISTS (SELECT 1 FROM workflow_runs WHERE workflow_id = workflow.id)",
           )
-          .run();
-      } else {
-        // Auto-create the workflow with input params and metadata
-        const result = await env.DB.prepare(
-          `INSERT INTO workflow (
-            name, 
-            status, 
-            input_params, 
-            metadata, 
-            last_run_id, 
-            ref_id, 
-            ref_type, 
-            runs_count, 
-            created_at, 
-            updated_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now')) 
-          RETURNING id`
+            .bind(workflowId)
+            .run();
+        }
+      };
+
+      let decision;
+      try {
+        decision = await insertRunUnderPolicy(
+          definition,
+          run,
+          env,
+          tenantId,
+          (runUpdate) => this.recordCancelledRun(runUpdate, env, tenantId),
+        );
+      } catch (error) {
+        await discardNewWorkflow();
+        throw error;
+      }
+
+      if (decision.action === "skip") {
+        await discardNewWorkflow();
+        return {
+          workflowId: decision.runId,
+          ref_id: ref_id,
+          ref_type: ref_type,
+          skipped: true,
+        };
+      }
+
+      queued = decision.action === "queue";
+    } else {
+      await this.updateWorkflowRun(
+        { ...run, status: "Pending" },
+        env,
+        tenantId,
+      );
+    }
+
+    const workflowStatus: WorkflowStatus = scheduledAt
+      ? "Pending"
+      : queued
+        ? "Queued"
+        : "Running";
+
+    // Point the workflow at the new run and count it
+    await env.DB.prepare(
+      `UPDATE workflow SET 
+        status = ?, 
+        last_run_id = ?, 
+        runs_count = COALESCE(runs_count, 0) + 1, 
+        updated_at = datetime('now')
+      WHERE id = ?`
+    )
+      .bind(workflowStatus, instanceId, workflowId)
+      .run();
+
+    if (scheduledAt) {
+      // Leave the run Pending and let the tracker's alarm dispatch it
+      await scheduleDelayedDispatch(scheduledAt, env, tenantId);
+
+      return {
+        workflowId: instanceId,
+        ref_id: ref_id,
+        ref_type: ref_type,
+        scheduledAt: run.scheduled_at,
+      };
+    }
+
+    if (queued) {
+      // Released by syncWorkflowStatus when an active run finishes
+      return {
+        workflowId: instanceId,
+        ref_id: ref_id,
+        ref_type: ref_type,
+        queued: true,
+      };
+    }
+
+    // Trigger the actual workflow (using Cloudflare Workflows binding if configured)
+    try {
+      await dispatchWorkflowRun(
+        workflowType,
+        instanceId,
+        params,
+        ref_id,
+        ref_type,
+        env,
+      );
+    } catch (error) {
+      // Don't leave the run Pending, so retrying the request doesn't leave
+      // a stray run behind
+      await this.failUndispatchedRun(
+        instanceId,
+        error instanceof Error ? error.message : "Unknown error",
+        env,
+        tenantId,
+      );
+      throw error;
+    }
+
+    return {
+      workflowId: instanceId,
+      ref_id: ref_id,
+      ref_type: ref_type,
+    };
+  },
+
+  /**
+   * Make sure a workflow type is registered and its start parameters match
+   * the definition's input schema
+   */
+  async validateStartRequest(
+    workflowType: string | undefined,
+    params: Record<string, any> | undefined,
+    env: Env,
+  ): Promise<WorkflowDefinition> {
+    if (!workflowType || typeof workflowType !== "string") {
+      throw new ServiceError("workflowType must be provided");
+    }
+
+    const config = this.getConfig();
+    await syncWorkflowDefinitions(config.definitions || [], env);
+
+    let definition = await getWorkflowDefinition(workflowType, env);
+
+    if (!definition) {
+      if (!config.autoRegister) {
+        throw new ServiceError(`Unknown workflow type: ${workflowType}`);
+      }
+
+      definition = await saveWorkflowDefinition(
+        { name: workflowType },
+        "auto",
+        env,
+      );
+    }
+
+    if (definition.inputSchema) {
+      const errors = validateSchema(
+        definition.inputSchema,
+        params || {},
+        "params",
+      );
+
+      if (errors.length > 0) {
+        throw new ServiceError(
+          `Invalid params for workflow type ${workflowType}`,
+          400,
+          errors,
+        );
+      }
+    }
+
+    return definition;
+  },
+
+  /**
+   * Parse a requested start time, returning null when the run should start now
+   */
+  parseStartAt(startAt: string | number | undefined): Date | null {
+    if (startAt === undefined || startAt === null || startAt === "") {
+      return null;
+    }
+
+    const scheduledAt = new Date(startAt);
+    if (isNaN(scheduledAt.getTime())) {
+      throw new ServiceError(`Invalid startAt: ${startAt}`);
+    }
+
+    return scheduledAt.getTime() > Date.now() ? scheduledAt : null;
+  },
+
+  /**
+   * Start many workflows in one request
+   */
+  async handleStartWorkflows(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflows: StartWorkflowRequest[];
+      };
+      const { workflows } = requestData;
+
+      if (!Array.isArray(workflows) || workflows.length === 0) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "workflows must be a non-empty array",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (workflows.length > MAX_BATCH_START_SIZE) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `At most ${MAX_BATCH_START_SIZE} workflows can be started in one request`,
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const results = await this.startWorkflowRuns(
+        workflows,
+        env,
+        apiKey,
+        tenantId,
+      );
+      const failed = results.filter((result) => !result.success).length;
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          started: results.length - failed,
+          failed,
+          results,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Create the workflow and workflow run records for a batch of start
+   * requests using D1 batch statements, then dispatch each run
+   */
+  async startWorkflowRuns(
+    items: StartWorkflowRequest[],
+    env: Env,
+    apiKey?: ApiKey,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<BatchStartResult[]> {
+    const results: BatchStartResult[] = new Array(items.length);
+
+    // Items governed by a concurrency policy are started one at a time
+    const sequentialItems: number[] = [];
+
+    // Group valid items by workflow row (name, ref_id, ref_type)
+    const groups = new Map<
+      string,
+      {
+        workflowType: string;
+        ref_id?: string;
+        ref_type?: string;
+        items: {
+          index: number;
+          instanceId: string;
+          scheduledAt: Date | null;
+          version: string | null;
+        }[];
+      }
+    >();
+
+    for (const [index, item] of items.entries()) {
+      let scheduledAt: Date | null;
+      let definition: WorkflowDefinition;
+      try {
+        if (apiKey) {
+          assertApiKeyAllowed(apiKey, item?.workflowType, item?.ref_type);
+        }
+
+        definition = await this.validateStartRequest(
+          item?.workflowType,
+          item?.params,
+          env,
+        );
+        scheduledAt = this.parseStartAt(item.startAt);
+      } catch (error) {
+        results[index] = {
+          index,
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          ...(error instanceof ServiceError && error.details
+            ? { errors: error.details }
+            : {}),
+        };
+        continue;
+      }
+
+      if (definition.concurrency && !scheduledAt) {
+        sequentialItems.push(index);
+        continue;
+      }
+
+      const key = JSON.stringify([
+        item.workflowType,
+        item.ref_id || null,
+        item.ref_type || null,
+      ]);
+
+      if (!groups.has(key)) {
+        groups.set(key, {
+          workflowType: item.workflowType,
+          ref_id: item.ref_id,
+          ref_type: item.ref_type,
+          items: [],
+        });
+      }
+
+      groups.get(key).items.push({
+        index,
+        instanceId: crypto.randomUUID(),
+        scheduledAt,
+        version: definition.version || null,
+      });
+    }
+
+    for (const index of sequentialItems) {
+      try {
+        const result = await this.startWorkflowRun(
+          items[index],
+          env,
+          tenantId,
+        );
+        results[index] = { index, success: true, ...result };
+      } catch (error) {
+        results[index] = {
+          index,
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          ...(error instanceof ServiceError && error.details
+            ? { errors: error.details }
+            : {}),
+        };
+      }
+    }
+
+    const groupList = Array.from(groups.values());
+    if (groupList.length === 0) {
+      return results;
+    }
+
+    // The batched runs either all fit in the tenant's quota or all fail
+    try {
+      await assertTenantQuota(
+        tenantId,
+        this.getTenantQuota(tenantId),
+        env,
+        groupList.reduce((total, group) => total + group.items.length, 0),
+      );
+    } catch (error) {
+      for (const group of groupList) {
+        for (const { index } of group.items) {
+          results[index] = {
+            index,
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      }
+
+      return results;
+    }
+
+    // Look up existing workflow rows in one round-trip
+    const existingResults = await env.DB.batch(
+      groupList.map((group) =>
+        env.DB.prepare(
+          "SELECT id, status, runs_count FROM workflow WHERE tenant_id = ? AND name = ? AND (ref_id = ? OR ref_id IS NULL) AND (ref_type = ? OR ref_type IS NULL)",
+        ).bind(
+          tenantId,
+          group.workflowType,
+          group.ref_id || null,
+          group.ref_type || null,
+        ),
+      ),
+    );
+
+    // Upsert workflow rows and insert the runs in a single batch
+    const statements: D1PreparedStatement[] = [];
+    const now = new Date().toISOString();
+
+    groupList.forEach((group, groupIndex) => {
+      const existingWorkflow = existingResults[groupIndex].results?.[0] as
+        | Record<string, any>
+        | undefined;
+      const lastRun = group.items[group.items.length - 1];
+      const lastRunStatus = lastRun.scheduledAt ? "Pending" : "Running";
+      const firstItem = items[group.items[0].index];
+
+      if (existingWorkflow) {
+        statements.push(
+          env.DB.prepare(
+            `UPDATE workflow SET 
+              status = ?, 
+              last_run_id = ?, 
+              runs_count = COALESCE(runs_count, 0) + ?, 
+              updated_at = datetime('now')
+            WHERE id = ?`,
+          ).bind(
+            lastRunStatus,
+            lastRun.instanceId,
+            group.items.length,
+            existingWorkflow.id,
+          ),
+        );
+      } else {
+        // A concurrent request may have created the row since the lookup
+        statements.push(
+          env.DB.prepare(
+            `INSERT INTO workflow (
+              tenant_id,
+              name, 
+              status, 
+              input_params, 
+              metadata, 
+              last_run_id, 
+              ref_id, 
+              ref_type, 
+              runs_count, 
+              created_at, 
+              updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+            ON CONFLICT (tenant_id, name, ref_id, ref_type) DO UPDATE SET 
+              status = excluded.status, 
+              last_run_id = excluded.last_run_id, 
+              runs_count = COALESCE(runs_count, 0) + excluded.runs_count, 
+              updated_at = excluded.updated_at`,
+          ).bind(
+            tenantId,
+            group.workflowType,
+            lastRunStatus,
+            JSON.stringify(firstItem.params || {}),
+            JSON.stringify(firstItem.metadata || {}),
+            lastRun.instanceId,
+            group.ref_id || null,
+            group.ref_type || null,
+            group.items.length,
+          ),
+        );
+      }
+
+      for (const { index, instanceId, scheduledAt, version } of group.items) {
+        const item = items[index];
+
+        // New workflow rows are resolved by name and ref inside the batch
+        statements.push(
+          env.DB.prepare(
+            `INSERT INTO workflow_runs (
+              id, 
+              workflow_id, 
+              tenant_id, 
+              status, 
+              ref_id, 
+              ref_type, 
+              input_params, 
+              output_result, 
+              metadata, 
+              scheduled_at, 
+              workflow_version, 
+              created_at, 
+              updated_at
+            ) VALUES (?, ${
+              existingWorkflow
+                ? "?"
+                : "(SELECT id FROM workflow WHERE tenant_id = ? AND name = ? AND ref_id IS ? AND ref_type IS ?)"
+            }, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          ).bind(
+            instanceId,
+            ...(existingWorkflow
+              ? [existingWorkflow.id]
+              : [
+                  tenantId,
+                  group.workflowType,
+                  group.ref_id || null,
+                  group.ref_type || null,
+                ]),
+            tenantId,
+            "Pending",
+            item.ref_id || null,
+            item.ref_type || null,
+            JSON.stringify(item.params || {}),
+            "{}",
+            JSON.stringify(item.metadata || {}),
+            scheduledAt ? scheduledAt.toISOString() : null,
+            version,
+            now,
+            now,
+          ),
+        );
+      }
+    });
+
+    await env.DB.batch(statements);
+
+    // Delayed runs are left Pending for the tracker's alarm to dispatch
+    let earliestScheduledAt: Date | null = null;
+
+    for (const group of groupList) {
+      for (const { index, instanceId, scheduledAt } of group.items) {
+        if (!scheduledAt) {
+          continue;
+        }
+
+        results[index] = {
+          index,
+          success: true,
+          workflowId: instanceId,
+          ref_id: group.ref_id,
+          ref_type: group.ref_type,
+          scheduledAt: scheduledAt.toISOString(),
+        };
+
+        if (!earliestScheduledAt || scheduledAt < earliestScheduledAt) {
+          earliestScheduledAt = scheduledAt;
+        }
+      }
+    }
+
+    if (earliestScheduledAt) {
+      await scheduleDelayedDispatch(earliestScheduledAt, env, tenantId);
+    }
+
+    // Create the Workflows instances, collecting failures per item
+    const dispatches = groupList.flatMap((group) =>
+      group.items
+        .filter(({ scheduledAt }) => !scheduledAt)
+        .map(({ index, instanceId }) => ({ group, index, instanceId })),
+    );
+
+    const outcomes = await Promise.allSettled(
+      dispatches.map(({ group, index, instanceId }) =>
+        dispatchWorkflowRun(
+          group.workflowType,
+          instanceId,
+          items[index].params || {},
+          group.ref_id,
+          group.ref_type,
+          env,
+        ),
+      ),
+    );
+
+    const failedStatements: D1PreparedStatement[] = [];
+
+    outcomes.forEach((outcome, i) => {
+      const { group, index, instanceId } = dispatches[i];
+
+      if (outcome.status === "fulfilled") {
+        results[index] = {
+          index,
+          success: true,
+          workflowId: instanceId,
+          ref_id: group.ref_id,
+          ref_type: group.ref_type,
+        };
+        return;
+      }
+
+      const error =
+        outcome.reason instanceof Error
+          ? outcome.reason.message
+          : "Unknown error";
+
+      results[index] = {
+        index,
+        success: false,
+        workflowId: instanceId,
+        ref_id: group.ref_id,
+        ref_type: group.ref_type,
+        error,
+      };
+
+      failedStatements.push(
+        env.DB.prepare(
+          `UPDATE workflow_runs SET 
+            status = ?, 
+            output_result = ?, 
+            completed_at = ?, 
+            updated_at = datetime('now')
+          WHERE id = ?`,
+        ).bind(
+          "Errored",
+          JSON.stringify({ success: false, error }),
+          new Date().toISOString(),
+          instanceId,
+        ),
+        // Workflow rows pointing at the run shouldn't stay Running
+        env.DB.prepare(
+          `UPDATE workflow SET 
+            status = 'Errored', 
+            updated_at = datetime('now')
+          WHERE last_run_id = ? AND tenant_id = ?`,
+        ).bind(instanceId, tenantId),
+      );
+    });
+
+    // Record runs that could not be dispatched as errored
+    if (failedStatements.length > 0) {
+      await env.DB.batch(failedStatements);
+
+      for (const [i, outcome] of outcomes.entries()) {
+        if (outcome.status === "rejected") {
+          await recordRunMetrics(dispatches[i].instanceId, env);
+        }
+      }
+    }
+
+    return results;
+  },
+
+  /**
+   * Claim an idempotency key for a start request. A claim that wasn't
+   * completed within idempotencyClaimTimeout is taken over, returning the
+   * run the previous request recorded.
+   */
+  async claimIdempotencyKey(
+    idempotencyKey: string,
+    requestHash: string,
+    runId: string,
+    env: Env,
+  ): Promise<
+    | { status: "claimed"; abandonedRunId?: string }
+    | { status: "conflict" | "in_progress" }
+    | { status: "replay"; response: string }
+  > {
+    const ttl = this.getConfig().idempotencyKeyTtl ?? 86400;
+    const claimTimeout = this.getConfig().idempotencyClaimTimeout ?? 60;
+
+    // Drop the key if its TTL has passed so it can be claimed again
+    await env.DB.prepare(
+      "DELETE FROM workflow_idempotency_keys WHERE idempotency_key = ? AND expires_at <= datetime('now')",
+    )
+      .bind(idempotencyKey)
+      .run();
+
+    const claimed = await env.DB.prepare(
+      `INSERT INTO workflow_idempotency_keys (
+        idempotency_key, 
+        request_hash, 
+        run_id, 
+        created_at, 
+        claimed_until, 
+        expires_at
+      ) VALUES (?, ?, ?, datetime('now'), datetime('now', ?), datetime('now', ?)) 
+      ON CONFLICT (idempotency_key) DO NOTHING 
+      RETURNING idempotency_key`,
+    )
+      .bind(
+        idempotencyKey,
+        requestHash,
+        runId,
+        `+${claimTimeout} seconds`,
+        `+${ttl} seconds`,
+      )
+      .first();
+
+    if (claimed) {
+      return { status: "claimed" };
+    }
+
+    const existing = await env.DB.prepare(
+      "SELECT request_hash, run_id, response FROM workflow_idempotency_keys WHERE idempotency_key = ?",
+    )
+      .bind(idempotencyKey)
+      .first();
+
+    if (existing && existing.request_hash !== requestHash) {
+      return { status: "conflict" };
+    } else if (existing && existing.response) {
+      return { status: "replay", response: existing.response as string };
+    }
+
+    // Take over a claim whose request died before completing or releasing
+    // it. Only one of several concurrent retries gets the row back.
+    const takenOver = await env.DB.prepare(
+      `UPDATE workflow_idempotency_keys SET 
+        run_id = ?, 
+        claimed_until = datetime('now', ?) 
+      WHERE idempotency_key = ? 
+        AND response IS NULL 
+        AND (claimed_until IS NULL OR claimed_until <= datetime('now')) 
+      RETURNING idempotency_key`,
+    )
+      .bind(runId, `+${claimTimeout} seconds`, idempotencyKey)
+      .first();
+
+    if (takenOver) {
+      return {
+        status: "claimed",
+        abandonedRunId: (existing?.run_id as string) || undefined,
+      };
+    }
+
+    return { status: "in_progress" };
+  },
+
+  /**
+   * Find the run recorded by a start request whose idempotency claim was
+   * taken over. A run that got past dispatch is returned as the request's
+   * result; one still waiting to be dispatched is recorded as errored.
+   *
+   * @returns Result to replay, or null to start a new run
+   */
+  async recoverAbandonedRun(
+    runId: string,
+    env: Env,
+    tenantId: string,
+  ): Promise<StartWorkflowResult | null> {
+    const run = await env.DB.prepare(
+      "SELECT id, status, ref_id, ref_type, scheduled_at FROM workflow_runs WHERE id = ? AND tenant_id = ?",
+    )
+      .bind(runId, tenantId)
+      .first();
+
+    if (!run) {
+      return null;
+    }
+
+    if (run.status === "Pending" && !run.scheduled_at) {
+      await this.failUndispatchedRun(
+        runId,
+        "Start request was interrupted before the run was dispatched",
+        env,
+        tenantId,
+      );
+      return null;
+    }
+
+    return {
+      workflowId: runId,
+      ref_id: (run.ref_id as string) || undefined,
+      ref_type: (run.ref_type as string) || undefined,
+      ...(run.status === "Queued" ? { queued: true } : {}),
+      ...(run.scheduled_at ? { scheduledAt: run.scheduled_at as string } : {}),
+    };
+  },
+
+  /**
+   * Record a run whose start request failed before its Workflows instance
+   * was created as errored, along with its workflow if it is the latest
+   * run. Does nothing if the run wasn't recorded.
+   */
+  async failUndispatchedRun(
+    runId: string,
+    error: string,
+    env: Env,
+    tenantId: string,
+  ): Promise<void> {
+    const result = await env.DB.prepare(
+      `UPDATE workflow_runs SET 
+        status = ?, 
+        output_result = ?, 
+        completed_at = ?, 
+        updated_at = datetime('now')
+      WHERE id = ? AND tenant_id = ? AND status = 'Pending' AND scheduled_at IS NULL`,
+    )
+      .bind(
+        "Errored",
+        JSON.stringify({ success: false, error }),
+        new Date().toISOString(),
+        runId,
+        tenantId,
+      )
+      .run();
+
+    if (result.meta.changes === 0) {
+      return;
+    }
+
+    // The workflow was marked Running when the run was created
+    await env.DB.prepare(
+      `UPDATE workflow SET 
+        status = 'Errored', 
+        updated_at = datetime('now')
+      WHERE last_run_id = ? AND tenant_id = ?`,
+    )
+      .bind(runId, tenantId)
+      .run();
+
+    await recordRunMetrics(runId, env);
+  },
+
+  /**
+   * Store the response for a claimed idempotency key
+   */
+  async completeIdempotencyKey(
+    idempotencyKey: string,
+    runId: string,
+    response: string,
+    env: Env,
+  ): Promise<void> {
+    await env.DB.prepare(
+      "UPDATE workflow_idempotency_keys SET run_id = ?, response = ? WHERE idempotency_key = ?",
+    )
+      .bind(runId, response, idempotencyKey)
+      .run();
+  },
+
+  /**
+   * Release a claimed idempotency key after the request failed
+   */
+  async releaseIdempotencyKey(
+    idempotencyKey: string,
+    env: Env,
+  ): Promise<void> {
+    await env.DB.prepare(
+      "DELETE FROM workflow_idempotency_keys WHERE idempotency_key = ? AND response IS NULL",
+    )
+      .bind(idempotencyKey)
+      .run();
+  },
+
+  /**
+   * Re-run a finished workflow run from its stored input
+   */
+  async handleRerunWorkflow(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        runId: string;
+        overrides?: Record<string, any>;
+      };
+      const { runId, overrides } = requestData;
+
+      if (!runId) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "runId must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      // Load the original run together with its workflow type
+      const previousRun = await env.DB.prepare(
+        `SELECT r.*, w.name AS workflow_name
+        FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.id = ? AND r.tenant_id = ?`,
+      )
+        .bind(runId, tenantId)
+        .first();
+
+      if (!previousRun) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Workflow run not found: ${runId}`,
+          }),
+          {
+            status: 404,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (!["Errored", "Cancelled"].includes(previousRun.status as string)) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Cannot rerun workflow run in status ${previousRun.status}`,
+          }),
+          {
+            status: 409,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const workflowType = previousRun.workflow_name as string;
+      const ref_id = (previousRun.ref_id as string) || undefined;
+      const ref_type = (previousRun.ref_type as string) || undefined;
+
+      assertApiKeyAllowed(apiKey, workflowType, ref_type);
+
+      // Archived runs only keep their input in R2
+      if (previousRun.archived_at) {
+        const [archived] = await hydrateArchivedRuns([previousRun], env);
+        previousRun.input_params = archived.input_params;
+        previousRun.metadata = archived.metadata;
+      }
+
+      // Merge any overrides on top of the stored input parameters
+      const params = {
+        ...parseJsonSafe<Record<string, any>>(
+          previousRun.input_params as string,
+          {},
+        ),
+        ...(overrides || {}),
+      };
+
+      // Runs of workflow types without a definition can still be re-run,
+      // but registered types must get valid params
+      const definition = await getWorkflowDefinition(workflowType, env);
+      const schemaErrors = definition?.inputSchema
+        ? validateSchema(definition.inputSchema, params, "params")
+        : [];
+
+      if (schemaErrors.length > 0) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Invalid params for workflow type ${workflowType}`,
+            errors: schemaErrors,
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      // Reruns count towards the tenant's quota like new starts
+      await assertTenantQuota(tenantId, this.getTenantQuota(tenantId), env);
+
+      const instanceId = crypto.randomUUID();
+
+      // The new run record, linked to the one it replaces
+      const run: Record<string, any> = {
+        id: instanceId,
+        workflow_id: previousRun.workflow_id,
+        tenant_id: tenantId,
+        ref_id: previousRun.ref_id,
+        ref_type: previousRun.ref_type,
+        input_params: JSON.stringify(params),
+        output_result: "{}",
+        metadata: previousRun.metadata || "{}",
+        rerun_of: runId,
+        ...(definition?.version
+          ? { workflow_version: definition.version }
+          : {}),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      // Reruns are subject to the same concurrency policy as new starts
+      let queued = false;
+      if (definition?.concurrency) {
+        const decision = await insertRunUnderPolicy(
+          definition,
+          run,
+          env,
+          tenantId,
+          (runUpdate) => this.recordCancelledRun(runUpdate, env, tenantId),
+        );
+
+        if (decision.action === "skip") {
+          return new Response(
+            JSON.stringify({
+              success: true,
+              workflowId: decision.runId,
+              rerunOf: runId,
+              ref_id: ref_id,
+              ref_type: ref_type,
+              skipped: true,
+            }),
+            {
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        queued = decision.action === "queue";
+      } else {
+        await this.updateWorkflowRun(
+          { ...run, status: "Pending" },
+          env,
+          tenantId,
+        );
+      }
+
+      // Point the parent workflow at the new run
+      await env.DB.prepare(
+        `UPDATE workflow SET 
+          status = ?, 
+          last_run_id = ?, 
+          runs_count = COALESCE(runs_count, 0) + 1, 
+          updated_at = datetime('now')
+        WHERE id = ?`,
+      )
+        .bind(queued ? "Queued" : "Running", instanceId, previousRun.workflow_id)
+        .run();
+
+      if (!queued) {
+        try {
+          await dispatchWorkflowRun(
+            workflowType,
+            instanceId,
+            params,
+            ref_id,
+            ref_type,
+            env,
+          );
+        } catch (error) {
+          // Don't leave the run Pending in a concurrency slot, or its
+          // workflow Running
+          await this.failUndispatchedRun(
+            instanceId,
+            error instanceof Error ? error.message : "Unknown error",
+            env,
+            tenantId,
+          );
+          throw error;
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflowId: instanceId,
+          rerunOf: runId,
+          ref_id: ref_id,
+          ref_type: ref_type,
+          ...(queued ? { queued: true } : {}),
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Get a specific workflow by ID
+   */
+  async handleGetWorkflow(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflowId: string;
+      };
+      const { workflowId } = requestData;
+
+      // Query the workflow data in the tenant's tracker
+      const page = await this.queryTrackerPage(request, env, tenantId, {
+        workflowId,
+      });
+
+      // Runs the API key may not access are reported as not found
+      const workflows = await filterRunsForApiKey(page.data, apiKey, env);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflow: workflows[0] || null,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * List workflows with filters
+   */
+  async handleListWorkflows(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as WorkflowRunQuery;
+      const { workflowId, allowedWorkflowTypes, allowedRefTypes, ...query } =
+        requestData;
+
+      // Query the workflows in the tenant's tracker
+      const page = await this.queryTrackerPage(request, env, tenantId, {
+        ...query,
+        allowedWorkflowTypes: apiKey.workflowTypes,
+        allowedRefTypes: apiKey.refTypes,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflows: page.data,
+          nextCursor: page.nextCursor,
+          totalCount: page.totalCount,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Query a page of runs in a tenant's tracker
+   *
+   * @throws ServiceError with the tracker's status if the query is rejected
+   */
+  async queryTrackerPage(
+    request: Request,
+    env: Env,
+    tenantId: string,
+    params: WorkflowRunQuery,
+  ): Promise<WorkflowRunPage> {
+    const response = await fetchTracker(
+      tenantId,
+      env,
+      `${new URL(request.url).origin}/websocket`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "query",
+          params,
+        }),
+      },
+    );
+
+    const responseData = await response.json() as WorkflowRunPage & {
+      success: boolean;
+      error?: string;
+    };
+
+    if (!responseData.success) {
+      throw new ServiceError(
+        responseData.error || "Query failed",
+        response.status,
+      );
+    }
+
+    return {
+      data: responseData.data || [],
+      nextCursor: responseData.nextCursor ?? null,
+      totalCount: responseData.totalCount,
+    };
+  },
+
+  /**
+   * List delayed runs that are waiting for their start time
+   */
+  async handleListDelayedWorkflows(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflowType?: string;
+        ref_id?: string;
+        ref_type?: string;
+        limit?: number;
+        offset?: number;
+      };
+      const { workflowType, ref_id, ref_type } = requestData;
+      const limit = normalizePageSize(requestData.limit);
+      const offset = normalizeOffset(requestData.offset);
+
+      let query = `SELECT r.*, w.name AS workflow_name
+        FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.tenant_id = ? 
+          AND r.status = 'Pending' 
+          AND r.scheduled_at IS NOT NULL 
+          AND r.dispatched_at IS NULL`;
+      const bindValues: any[] = [tenantId];
+
+      if (workflowType) {
+        query += " AND w.name = ?";
+        bindValues.push(workflowType);
+      }
+
+      if (ref_id) {
+        query += " AND r.ref_id = ?";
+        bindValues.push(ref_id);
+      }
+
+      if (ref_type) {
+        query += " AND r.ref_type = ?";
+        bindValues.push(ref_type);
+      }
+
+      query += " ORDER BY r.scheduled_at ASC LIMIT ? OFFSET ?";
+      bindValues.push(limit, offset);
+
+      const workflows = await env.DB.prepare(query)
+        .bind(...bindValues)
+        .all();
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflows: workflows.results.filter((run) =>
+            isApiKeyAllowed(
+              apiKey,
+              run.workflow_name as string,
+              (run.ref_type as string) || undefined,
+            ),
+          ),
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Stream runs as NDJSON or CSV
+   */
+  async handleExportRuns(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const filters = await request.json() as RunExportRequest;
+      validateExportRequest(filters);
+
+      const format = filters.format || "ndjson";
+      const filename = `runs-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      return new Response(
+        createRunExportStream(filters, tenantId, apiKey, env),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": EXPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="${filename}"`,
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Compare failure rate and duration across versions of a workflow type
+   */
+  async handleCompareVersions(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflowType: string;
+        versions?: string[];
+        since?: string;
+        until?: string;
+      };
+      const { workflowType, versions, since, until } = requestData;
+
+      if (!workflowType) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "workflowType must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      assertApiKeyAllowed(apiKey, workflowType, undefined);
+
+      for (const [field, value] of Object.entries({ since, until })) {
+        if (
+          value !== undefined &&
+          value !== null &&
+          isNaN(new Date(value).getTime())
+        ) {
+          throw new ServiceError(`${field} must be a valid timestamp`);
+        }
+      }
+
+      const conditions = ["r.tenant_id = ?", "w.name = ?"];
+      const bindValues: any[] = [tenantId, workflowType];
+
+      if (since) {
+        conditions.push("r.created_at >= ?");
+        bindValues.push(new Date(since).toISOString());
+      }
+
+      if (until) {
+        conditions.push("r.created_at < ?");
+        bindValues.push(new Date(until).toISOString());
+      }
+
+      if (versions && versions.length > 0) {
+        conditions.push(
+          `r.workflow_version IN (${generatePlaceholders(versions.length)})`,
+        );
+        bindValues.push(...versions);
+      }
+
+      // Durations only count runs that finished
+      const duration =
+        "CASE WHEN r.completed_at IS NOT NULL THEN (julianday(r.completed_at) - julianday(r.created_at)) * 86400000 END";
+
+      const stats = await env.DB.prepare(
+        `SELECT 
+          r.workflow_version AS version, 
+          COUNT(*) AS total, 
+          SUM(CASE WHEN r.status = 'Completed' THEN 1 ELSE 0 END) AS completed, 
+          SUM(CASE WHEN r.status = 'Errored' THEN 1 ELSE 0 END) AS errored, 
+          SUM(CASE WHEN r.status = 'Cancelled' THEN 1 ELSE 0 END) AS cancelled, 
+          AVG(${duration}) AS avg_duration_ms, 
+          MIN(${duration}) AS min_duration_ms, 
+          MAX(${duration}) AS max_duration_ms, 
+          MIN(r.created_at) AS first_run_at, 
+          MAX(r.created_at) AS last_run_at
+        FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE ${conditions.join(" AND ")}
+        GROUP BY r.workflow_version
+        ORDER BY first_run_at ASC`,
+      )
+        .bind(...bindValues)
+        .all();
+
+      const comparison: WorkflowVersionStats[] = stats.results.map(
+        (row: Record<string, any>) => {
+          const finished = row.completed + row.errored;
+
+          return {
+            version: row.version,
+            total: row.total,
+            completed: row.completed,
+            errored: row.errored,
+            cancelled: row.cancelled,
+            active: row.total - finished - row.cancelled,
+            // Share of finished runs that errored
+            failure_rate: finished > 0 ? row.errored / finished : null,
+            avg_duration_ms:
+              row.avg_duration_ms === null ? null : Math.round(row.avg_duration_ms),
+            min_duration_ms:
+              row.min_duration_ms === null ? null : Math.round(row.min_duration_ms),
+            max_duration_ms:
+              row.max_duration_ms === null ? null : Math.round(row.max_duration_ms),
+            first_run_at: row.first_run_at,
+            last_run_at: row.last_run_at,
+          };
+        },
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflowType,
+          versions: comparison,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Get run and step statistics per workflow type over a time window
+   */
+  async handleGetStats(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const filters = await request.json() as WorkflowStatsFilters;
+      validateStatsFilters(filters);
+
+      const stats = await getWorkflowStats(filters, tenantId, apiKey, env);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          ...stats,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Get workflows by reference ID and type
+   */
+  async handleGetWorkflowsByRef(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as WorkflowRunQuery;
+      const {
+        ref_id,
+        ref_type,
+        workflowId,
+        allowedWorkflowTypes,
+        allowedRefTypes,
+        ...query
+      } = requestData;
+
+      if (!ref_id && !ref_type) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "Either ref_id or ref_type must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      // Query the workflows using reference parameters in the tenant's tracker
+      const page = await this.queryTrackerPage(request, env, tenantId, {
+        ...query,
+        ref_id,
+        ref_type,
+        allowedWorkflowTypes: apiKey.workflowTypes,
+        allowedRefTypes: apiKey.refTypes,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflows: page.data,
+          nextCursor: page.nextCursor,
+          totalCount: page.totalCount,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Cancel, pause or resume a workflow run
+   */
+  async handleRunControl(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    action: "cancel" | "pause" | "resume",
+    apiKey: ApiKey,
+    tenantId: string,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflowId: string;
+      };
+      const { workflowId } = requestData;
+
+      if (!workflowId) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "workflowId must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      // Look up the run together with the name of its workflow type
+      const run = await env.DB.prepare(
+        `SELECT r.id, r.status, r.paused_from, r.ref_type, r.scheduled_at, r.dispatched_at, w.name AS workflow_name
+        FROM workflow_runs r
+        JOIN workflow w ON w.id = r.workflow_id
+        WHERE r.id = ? AND r.tenant_id = ?`,
+      )
+        .bind(workflowId, tenantId)
+        .first();
+
+      if (!run) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Workflow run not found: ${workflowId}`,
+          }),
+          {
+            status: 404,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      assertApiKeyAllowed(
+        apiKey,
+        run.workflow_name as string,
+        (run.ref_type as string) || undefined,
+      );
+
+      // Statuses from which each action is allowed
+      const allowedStatuses: Record<typeof action, string[]> = {
+        cancel: ["Queued", "Pending", "Running", "Sleeping", "Paused"],
+        pause: ["Running", "Sleeping"],
+        resume: ["Paused"],
+      };
+
+      if (!allowedStatuses[action].includes(run.status as string)) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Cannot ${action} workflow run in status ${run.status}`,
+          }),
+          {
+            status: 409,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const workflowType = run.workflow_name as string;
+      const workflowBinding = await getWorkflowBinding(workflowType, env);
+
+      // Queued and delayed runs have no Workflows instance until they are dispatched
+      const awaitingDispatch =
+        run.status === "Queued" || (!!run.scheduled_at && !run.dispatched_at);
+
+      // A run without a binding can still be cancelled in the tracker,
+      // but pausing and resuming need a live instance
+      if (!workflowBinding && action !== "cancel") {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `No Workflows binding configured for workflow type: ${workflowType}`,
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (workflowBinding && !awaitingDispatch) {
+        const instance = await workflowBinding.get(workflowId);
+
+        if (action === "cancel") {
+          await instance.terminate();
+        } else if (action === "pause") {
+          await instance.pause();
+        } else {
+          await instance.resume();
+        }
+      }
+
+      const statusByAction: Record<typeof action, WorkflowStatus> = {
+        cancel: "Cancelled",
+        pause: "Paused",
+        resume: "Running",
+      };
+
+      const runUpdate: Record<string, any> = {
+        id: workflowId,
+        status: statusByAction[action],
+      };
+
+      if (action === "cancel") {
+        runUpdate.completed_at = new Date().toISOString();
+      }
+
+      // Remember whether the run was running or sleeping, so that resuming
+      // puts it back in the same status
+      if (action === "pause") {
+        runUpdate.paused_from = run.status;
+      } else if (action === "resume") {
+        runUpdate.status = (run.paused_from as WorkflowStatus) || "Running";
+        runUpdate.paused_from = null;
+      }
+
+      // Record the new status and let connected clients know about it
+      const update = { type: "run_update", run_update: runUpdate };
+      const result = await this.processUpdate(update, env, tenantId);
+
+      // The run finished while the instance was being controlled
+      if (result.updated === false) {
+        throw new ServiceError(
+          `Workflow run ${workflowId} has already finished`,
+          409,
+        );
+      }
+
+      await this.broadcastUpdate(
+        update,
+        env,
+        new URL(request.url).origin,
+        tenantId,
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          workflowId,
+          status: runUpdate.status,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Broadcast an update to clients of the tenant's workflow tracker
+   */
+  async broadcastUpdate(
+    update: any,
+    env: Env,
+    origin: string,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<void> {
+    await fetchTracker(tenantId, env, `${origin}/broadcast`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    });
+  },
+
+  /**
+   * Register, read and delete workflow definitions
+   */
+  async handleDefinitionRequest(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    action: string,
+    apiKey: ApiKey,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        name?: string;
+        definition?: WorkflowDefinition;
+      };
+
+      await syncWorkflowDefinitions(this.getConfig().definitions || [], env);
+
+      // Definitions are shared by all tenants, so only keys that aren't
+      // bound to a tenant may change them
+      if ((action === "register" || action === "delete") && apiKey.tenantId) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `API key ${apiKey.name} is bound to tenant ${apiKey.tenantId} and cannot change shared definitions`,
+          }),
+          {
+            status: 403,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (action === "list") {
+        const definitions = await env.DB.prepare(
+          "SELECT * FROM workflow_definitions ORDER BY name ASC",
+        ).all();
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            definitions: definitions.results.map((row) => ({
+              ...rowToDefinition(row),
+              source: row.source,
+            })),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (action === "register") {
+        const { definition } = requestData;
+        let validationError: string | null = null;
+
+        if (!definition || !definition.name || typeof definition.name !== "string") {
+          validationError = "definition.name must be provided";
+        } else if (
+          (definition.inputSchema !== undefined &&
+            typeof definition.inputSchema !== "object") ||
+          (definition.outputSchema !== undefined &&
+            typeof definition.outputSchema !== "object")
+        ) {
+          validationError = "definition schemas must be JSON Schema objects";
+        } else if (
+          definition.version !== undefined &&
+          typeof definition.version !== "string"
+        ) {
+          validationError = "definition.version must be a string";
+        } else {
+          validationError =
+            validateConcurrencyPolicy(definition.concurrency) ||
+            validateRetentionPolicy(definition.retention);
+        }
+
+        if (validationError) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: validationError,
+            }),
+            {
+              status: 400,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        const saved = await saveWorkflowDefinition(
+          {
+            name: definition.name,
+            description: definition.description,
+            version: definition.version,
+            binding: definition.binding,
+            inputSchema: definition.inputSchema,
+            outputSchema: definition.outputSchema,
+            concurrency: definition.concurrency,
+            retention: definition.retention,
+          },
+          "api",
+          env,
+        );
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            definition: saved,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const { name } = requestData;
+
+      if (!name) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "name must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (action === "get" || action === "delete") {
+        const definition = await getWorkflowDefinition(name, env);
+
+        if (!definition) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: `Workflow definition not found: ${name}`,
+            }),
+            {
+              status: 404,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        if (action === "delete") {
+          await deleteWorkflowDefinition(name, env);
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            ...(action === "delete" ? { deleted: true, name } : { definition }),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Unknown service endpoint",
+        }),
+        {
+          status: 404,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Show which runs the retention policies, or a policy that isn't
+   * configured yet, would delete
+   */
+  async handleRetentionPreview(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    apiKey: ApiKey,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        workflowType?: string;
+        retention?: WorkflowRetentionPolicy;
+      };
+      const { workflowType, retention } = requestData;
+
+      // Retention policies are shared by all tenants, like definitions
+      if (apiKey.tenantId) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `API key ${apiKey.name} is bound to tenant ${apiKey.tenantId} and cannot preview shared retention policies`,
+          }),
+          {
+            status: 403,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const validationError =
+        workflowType && !retention
+          ? "retention must be provided with workflowType"
+          : validateRetentionPolicy(retention);
+
+      if (validationError) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: validationError,
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const config = this.getConfig();
+      await syncWorkflowDefinitions(config.definitions || [], env);
+
+      const report = await previewRetention(
+        config.retention,
+        config.retentionAction || "delete",
+        env,
+        retention ? { workflowType, policy: retention } : undefined,
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          ...report,
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }),
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        },
+      );
+    }
+  },
+
+  /**
+   * Create, list, rotate and revoke API keys
+   */
+  async handleApiKeyRequest(
+    request: Request,
+    env: Env,
+    corsHeaders: HeadersInit,
+    action: string,
+    apiKey: ApiKey,
+  ): Promise<Response> {
+    try {
+      const requestData = await request.json() as {
+        id?: string;
+        apiKey?: ApiKeyInput;
+        includeRevoked?: boolean;
+        gracePeriod?: number;
+      };
+
+      // Admin keys bound to a tenant only manage that tenant's keys
+      const tenantId = apiKey.tenantId;
+
+      if (action === "list") {
+        const conditions: string[] = [];
+        const bindValues: any[] = [];
+
+        if (!requestData.includeRevoked) {
+          conditions.push("revoked_at IS NULL");
+        }
+
+        if (tenantId) {
+          conditions.push("tenant_id = ?");
+          bindValues.push(tenantId);
+        }
+
+        const rows = await env.DB.prepare(
+          `SELECT * FROM api_keys ${
+            conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+          } ORDER BY created_at DESC`,
+        )
+          .bind(...bindValues)
+          .all();
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            apiKeys: rows.results
+              .map((row) => rowToApiKey(row))
+              .filter((key) => isWithinApiKeyRestrictions(apiKey, key)),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (action === "create") {
+        const input = requestData.apiKey || {};
+
+        if (tenantId) {
+          if (input.tenantId && input.tenantId !== tenantId) {
+            return new Response(
+              JSON.stringify({
+                success: false,
+                error: `API key ${apiKey.name} can only create keys for tenant ${tenantId}`,
+              }),
+              {
+                status: 403,
+                headers: {
+                  ...corsHeaders,
+                  "Content-Type": "application/json",
+                },
+              },
+            );
+          }
+
+          input.tenantId = tenantId;
+        }
+
+        const validationError = validateApiKeyInput(input);
+
+        if (validationError) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: validationError,
+            }),
+            {
+              status: 400,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        assertWithinApiKeyRestrictions(apiKey, input);
+
+        // The plain-text key is only ever returned here
+        const created = await createApiKey(input, env);
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            key: created.key,
+            apiKey: created.apiKey,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const { id } = requestData;
+
+      if (!id) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "id must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      // Keys of other tenants are reported as not found
+      if (tenantId) {
+        const owned = await env.DB.prepare(
+          "SELECT id FROM api_keys WHERE id = ? AND tenant_id = ?",
         )
-          .bind(
-            workflowType,
-            "Running",
-            inputParams,
-            JSON.stringify(metadata || {}),
-            instanceId,
-            ref_id || null,
-            ref_type || null,
-            1 // First run
-          )
+          .bind(id, tenantId)
           .first();
-        
-        if (!result || !result.id) {
+
+        if (!owned) {
           return new Response(
             JSON.stringify({
               success: false,
-              error: `Failed to create workflow type: ${workflowType}`,
+              error: `API key not found: ${id}`,
             }),
             {
-              status: 500,
+              status: 404,
               headers: {
                 ...corsHeaders,
                 "Content-Type": "application/json",
@@ -355,51 +3704,132 @@ export default {
             },
           );
         }
-        
-        workflowId = result.id;
       }
 
-      // Create a new workflow run record
-      await this.updateWorkflowRun(
-        {
-          id: instanceId,
-          workflow_id: workflowId,
-          status: "Pending",
-          ref_id: ref_id,
-          ref_type: ref_type,
-          input_params: inputParams,
-          output_result: "{}", // Initialize with empty JSON object
-          metadata: JSON.stringify(metadata || {}), // Store who triggered the run
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        },
-        env,
-      );
+      // Restricted keys only see and manage keys within their restrictions,
+      // so rotating can't hand out wider access either
+      if (apiKey.workflowTypes || apiKey.refTypes) {
+        const managed = await env.DB.prepare(
+          "SELECT * FROM api_keys WHERE id = ?",
+        )
+          .bind(id)
+          .first();
 
-      // Trigger the actual workflow (using Cloudflare Workflows binding if configured)
-      if (env[workflowType.toUpperCase()]) {
-        // Start workflow using the Workflows binding
-        const workflowBinding = env[workflowType.toUpperCase()];
+        if (managed) {
+          assertWithinApiKeyRestrictions(apiKey, rowToApiKey(managed));
+        }
+      }
+
+      if (action === "get") {
+        const row = await env.DB.prepare("SELECT * FROM api_keys WHERE id = ?")
+          .bind(id)
+          .first();
+
+        if (!row) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: `API key not found: ${id}`,
+            }),
+            {
+              status: 404,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
 
-        // Create workflow instance with the ID we generated and include ref_id/ref_type
-        await workflowBinding.create({
-          id: instanceId,
-          payload: {
-            ...params,
-            ref_id: ref_id,
-            ref_type: ref_type,
+        return new Response(
+          JSON.stringify({
+            success: true,
+            apiKey: rowToApiKey(row),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
           },
-        });
+        );
+      } else if (action === "rotate") {
+        const rotated = await rotateApiKey(
+          id,
+          Math.max(0, requestData.gracePeriod || 0),
+          env,
+        );
+
+        if (!rotated) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: `Active API key not found: ${id}`,
+            }),
+            {
+              status: 404,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            key: rotated.key,
+            apiKey: rotated.apiKey,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      } else if (action === "revoke") {
+        const revoked = await revokeApiKey(id, env);
+
+        if (!revoked) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: `Active API key not found: ${id}`,
+            }),
+            {
+              status: 404,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            revoked: true,
+            id,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
       }
 
       return new Response(
         JSON.stringify({
-          success: true,
-          workflowId: instanceId,
-          ref_id: ref_id,
-          ref_type: ref_type,
+          success: false,
+          error: "Unknown service endpoint",
         }),
         {
+          status: 404,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -413,7 +3843,7 @@ export default {
           error: error instanceof Error ? error.message : "Unknown error",
         }),
         {
-          status: 500,
+          status: error instanceof ServiceError ? error.status : 500,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -424,43 +3854,316 @@ export default {
   },
 
   /**
-   * Get a specific workflow by ID
+   * Create, read, update and delete workflow schedules
    */
-  async handleGetWorkflow(
+  async handleScheduleRequest(
     request: Request,
     env: Env,
     corsHeaders: HeadersInit,
+    action: string,
+    apiKey: ApiKey,
+    tenantId: string,
   ): Promise<Response> {
     try {
       const requestData = await request.json() as {
-        workflowId: string;
+        id?: string;
+        schedule?: WorkflowScheduleInput;
+        workflowType?: string;
+        enabled?: boolean;
+        limit?: number;
+        offset?: number;
       };
-      const { workflowId } = requestData;
 
-      // Get workflow tracker Durable Object
-      const id = env.WORKFLOW_TRACKER.idFromName("default");
-      const tracker = env.WORKFLOW_TRACKER.get(id);
+      if (action === "list") {
+        const { workflowType, enabled, limit = 20, offset = 0 } = requestData;
+        const conditions: string[] = ["tenant_id = ?"];
+        const bindValues: any[] = [tenantId];
+
+        if (workflowType) {
+          conditions.push("workflow_type = ?");
+          bindValues.push(workflowType);
+        }
+
+        if (enabled !== undefined) {
+          conditions.push("enabled = ?");
+          bindValues.push(enabled ? 1 : 0);
+        }
+
+        const schedules = await env.DB.prepare(
+          `SELECT * FROM workflow_schedules WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+        )
+          .bind(...bindValues, limit, offset)
+          .all();
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            schedules: schedules.results.filter((schedule) =>
+              isApiKeyAllowed(
+                apiKey,
+                schedule.workflow_type as string,
+                (schedule.ref_type as string) || undefined,
+              ),
+            ),
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      if (action === "create") {
+        const input = requestData.schedule || {};
+        const validationError = this.validateScheduleInput(input, true);
+
+        assertApiKeyAllowed(apiKey, input.workflowType, input.ref_type);
+
+        if (!validationError) {
+          await this.validateStartRequest(input.workflowType, input.params, env);
+        }
+
+        if (validationError) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: validationError,
+            }),
+            {
+              status: 400,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        const schedule = await env.DB.prepare(
+          `INSERT INTO workflow_schedules (
+            id, 
+            tenant_id, 
+            name, 
+            cron, 
+            workflow_type, 
+            params, 
+            ref_id, 
+            ref_type, 
+            metadata, 
+            enabled, 
+            catch_up, 
+            next_run_at, 
+            created_at, 
+            updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now')) 
+          RETURNING *`,
+        )
+          .bind(
+            crypto.randomUUID(),
+            tenantId,
+            input.name || null,
+            input.cron,
+            input.workflowType,
+            JSON.stringify(input.params || {}),
+            input.ref_id || null,
+            input.ref_type || null,
+            JSON.stringify(input.metadata || {}),
+            input.enabled === false ? 0 : 1,
+            input.catchUp || null,
+            nextCronTime(input.cron, new Date()).toISOString(),
+          )
+          .first();
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            schedule,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const { id } = requestData;
+
+      if (!id) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "id must be provided",
+          }),
+          {
+            status: 400,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      const existing = await env.DB.prepare(
+        "SELECT * FROM workflow_schedules WHERE id = ? AND tenant_id = ?",
+      )
+        .bind(id, tenantId)
+        .first();
+
+      if (!existing) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Schedule not found: ${id}`,
+          }),
+          {
+            status: 404,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
+
+      assertApiKeyAllowed(
+        apiKey,
+        existing.workflow_type as string,
+        (existing.ref_type as string) || undefined,
+      );
+
+      if (action === "get") {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            schedule: existing,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      } else if (action === "delete") {
+        await env.DB.prepare("DELETE FROM workflow_schedules WHERE id = ?")
+          .bind(id)
+          .run();
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            deleted: true,
+            id,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      } else if (action === "update") {
+        const input = requestData.schedule || {};
+        const validationError = this.validateScheduleInput(input, false);
+
+        // The key must also be allowed to use the schedule's new target
+        assertApiKeyAllowed(
+          apiKey,
+          input.workflowType ?? (existing.workflow_type as string),
+          input.ref_type ?? ((existing.ref_type as string) || undefined),
+        );
+
+        if (
+          !validationError &&
+          (input.workflowType !== undefined || input.params !== undefined)
+        ) {
+          await this.validateStartRequest(
+            input.workflowType ?? (existing.workflow_type as string),
+            input.params ?? parseJsonSafe(existing.params as string, {}),
+            env,
+          );
+        }
+
+        if (validationError) {
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: validationError,
+            }),
+            {
+              status: 400,
+              headers: {
+                ...corsHeaders,
+                "Content-Type": "application/json",
+              },
+            },
+          );
+        }
+
+        // Map the input fields onto their columns
+        const updateData: Record<string, any> = {};
+        if (input.name !== undefined) updateData.name = input.name;
+        if (input.cron !== undefined) updateData.cron = input.cron;
+        if (input.workflowType !== undefined)
+          updateData.workflow_type = input.workflowType;
+        if (input.params !== undefined)
+          updateData.params = JSON.stringify(input.params);
+        if (input.ref_id !== undefined) updateData.ref_id = input.ref_id;
+        if (input.ref_type !== undefined) updateData.ref_type = input.ref_type;
+        if (input.metadata !== undefined)
+          updateData.metadata = JSON.stringify(input.metadata);
+        if (input.enabled !== undefined)
+          updateData.enabled = input.enabled ? 1 : 0;
+        if (input.catchUp !== undefined) updateData.catch_up = input.catchUp;
+
+        // Recompute the next fire time when the expression changes or the
+        // schedule is re-enabled, so it doesn't catch up on the time it was off
+        if (
+          input.cron !== undefined ||
+          (input.enabled === true && !existing.enabled)
+        ) {
+          updateData.next_run_at = nextCronTime(
+            input.cron || (existing.cron as string),
+            new Date(),
+          ).toISOString();
+        }
+
+        const { setClause, values } = generateSetClause(updateData);
 
-      // Query the workflow data
-      const response = await tracker.fetch(
-        new Request(`${new URL(request.url).origin}/websocket`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "query",
-            params: { workflowId },
-          }),
-        }),
-      );
+        const schedule = await env.DB.prepare(
+          `UPDATE workflow_schedules SET ${
+            setClause ? `${setClause}, ` : ""
+          }updated_at = datetime('now') WHERE id = ? RETURNING *`,
+        )
+          .bind(...values, id)
+          .first();
 
-      const responseData = await response.json() as { data?: any[] };
+        return new Response(
+          JSON.stringify({
+            success: true,
+            schedule,
+          }),
+          {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+            },
+          },
+        );
+      }
 
       return new Response(
         JSON.stringify({
-          success: true,
-          workflow: responseData.data?.[0] || null,
+          success: false,
+          error: "Unknown service endpoint",
         }),
         {
+          status: 404,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -472,9 +4175,12 @@ export default {
         JSON.stringify({
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
+          ...(error instanceof ServiceError && error.details
+            ? { errors: error.details }
+            : {}),
         }),
         {
-          status: 500,
+          status: error instanceof ServiceError ? error.status : 500,
           headers: {
             ...corsHeaders,
             "Content-Type": "application/json",
@@ -485,191 +4191,301 @@ export default {
   },
 
   /**
-   * List workflows with filters
+   * Validate schedule input, returning an error message if it is invalid
    */
-  async handleListWorkflows(
-    request: Request,
+  validateScheduleInput(
+    input: WorkflowScheduleInput,
+    isCreate: boolean,
+  ): string | null {
+    if (isCreate && !input.cron) {
+      return "schedule.cron must be provided";
+    }
+
+    if (isCreate && !input.workflowType) {
+      return "schedule.workflowType must be provided";
+    }
+
+    if (input.cron !== undefined) {
+      try {
+        // Expressions like "0 0 31 2 *" parse but never fire
+        nextCronTime(parseCron(input.cron), new Date());
+      } catch (error) {
+        return error instanceof Error ? error.message : "Invalid cron expression";
+      }
+    }
+
+    if (
+      input.catchUp !== undefined &&
+      !["skip", "latest", "all"].includes(input.catchUp)
+    ) {
+      return "schedule.catchUp must be one of: skip, latest, all";
+    }
+
+    return null;
+  },
+
+  /**
+   * Start runs for every schedule that is due at the given time
+   */
+  async runDueSchedules(
+    now: Date,
     env: Env,
-    corsHeaders: HeadersInit,
-  ): Promise<Response> {
-    try {
-      const requestData = await request.json() as {
-        status?: string;
-        limit?: number;
-        offset?: number;
-      };
-      const { status, limit, offset } = requestData;
+  ): Promise<{ schedules: number; started: number; failed: number }> {
+    const config = this.getConfig();
+    const summary = { schedules: 0, started: 0, failed: 0 };
 
-      // Get workflow tracker Durable Object
-      const id = env.WORKFLOW_TRACKER.idFromName("default");
-      const tracker = env.WORKFLOW_TRACKER.get(id);
+    const dueSchedules = await env.DB.prepare(
+      "SELECT * FROM workflow_schedules WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at ASC LIMIT 100",
+    )
+      .bind(now.toISOString())
+      .all<WorkflowSchedule>();
 
-      // Query the workflows
-      const response = await tracker.fetch(
-        new Request(`${new URL(request.url).origin}/websocket`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "query",
-            params: { status, limit, offset },
-          }),
-        }),
-      );
+    for (const schedule of dueSchedules.results) {
+      try {
+        const cron = parseCron(schedule.cron);
+        const dueAt = new Date(schedule.next_run_at);
 
-      const responseData = await response.json() as { data?: any[] };
+        // Claim this due time, so overlapping invocations don't start it twice
+        const claimed = await env.DB.prepare(
+          `UPDATE workflow_schedules SET 
+            next_run_at = ?, 
+            updated_at = datetime('now') 
+          WHERE id = ? AND next_run_at = ?`,
+        )
+          .bind(
+            nextCronTime(cron, now).toISOString(),
+            schedule.id,
+            schedule.next_run_at,
+          )
+          .run();
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          workflows: responseData.data || [],
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        },
-      );
-    } catch (error) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }),
-        {
-          status: 500,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        },
-      );
+        if (!claimed.meta.changes) {
+          continue;
+        }
+
+        summary.schedules++;
+
+        // Only the latest fire times can be started, so walk back from now
+        // instead of forward from a due time that may be long past
+        const policy = schedule.catch_up || config.scheduleCatchUp || "latest";
+        const maxRuns =
+          policy === "all" ? (config.maxScheduleCatchUpRuns ?? 10) : 1;
+
+        const fireTimes: Date[] = [];
+        let fireTime = previousCronTime(cron, now, dueAt);
+        while (fireTime && fireTimes.length < maxRuns) {
+          fireTimes.unshift(fireTime);
+          fireTime = previousCronTime(
+            cron,
+            new Date(fireTime.getTime() - 60 * 1000),
+            dueAt,
+          );
+        }
+
+        // Apply the catch-up policy to the fire times that are due
+        const runTimes =
+          policy === "skip"
+            ? fireTimes.filter(
+                (time) => now.getTime() - time.getTime() < 60 * 1000,
+              )
+            : fireTimes;
+
+        for (const runTime of runTimes) {
+          try {
+            const result = await this.startWorkflowRun(
+              {
+                workflowType: schedule.workflow_type,
+                params: parseJsonSafe(schedule.params, {}),
+                ref_id: schedule.ref_id || undefined,
+                ref_type: schedule.ref_type || undefined,
+                metadata: {
+                  ...parseJsonSafe(schedule.metadata, {}),
+                  scheduleId: schedule.id,
+                  scheduledFor: runTime.toISOString(),
+                },
+              },
+              env,
+              schedule.tenant_id || DEFAULT_TENANT_ID,
+            );
+
+            await env.DB.prepare(
+              "UPDATE workflow_schedules SET last_run_at = ?, last_run_id = ? WHERE id = ?",
+            )
+              .bind(runTime.toISOString(), result.workflowId, schedule.id)
+              .run();
+
+            summary.started++;
+          } catch (error) {
+            summary.failed++;
+            console.error(
+              `Failed to start scheduled run for schedule ${schedule.id}:`,
+              error,
+            );
+          }
+        }
+      } catch (error) {
+        summary.failed++;
+        console.error(`Failed to evaluate schedule ${schedule.id}:`, error);
+      }
+    }
+
+    return summary;
+  },
+
+  /**
+   * Check the shape of a tracker update and drop the columns workflow code
+   * may not write
+   *
+   * @throws ServiceError (400) for an unknown update type or a payload that
+   * isn't an object
+   */
+  normalizeUpdate(update: any): Record<string, any> {
+    const type = update?.type;
+
+    if (!Object.prototype.hasOwnProperty.call(UPDATE_COLUMNS, type)) {
+      throw new ServiceError(`Unknown update type: ${type}`);
+    }
+
+    const data = update[type];
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new ServiceError(`${type} must be an object`);
     }
+
+    return { type, [type]: pickColumns(data, UPDATE_COLUMNS[type]) };
   },
 
   /**
-   * Get workflows by reference ID and type
+   * Work out which tenant an update belongs to from the record it targets
    */
-  async handleGetWorkflowsByRef(
-    request: Request,
+  async getUpdateTenantId(
+    update: any,
     env: Env,
-    corsHeaders: HeadersInit,
-  ): Promise<Response> {
-    try {
-      const requestData = await request.json() as {
-        ref_id?: string;
-        ref_type?: string;
-        status?: string;
-        limit?: number;
-        offset?: number;
-      };
-      const { ref_id, ref_type, status, limit, offset } = requestData;
+    callerTenantId?: string,
+  ): Promise<string> {
+    let record: Record<string, unknown> | null = null;
+    let notFound = "Workflow run not found";
 
-      if (!ref_id && !ref_type) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: "Either ref_id or ref_type must be provided",
-          }),
-          {
-            status: 400,
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          },
-        );
-      }
+    if (update?.type === "run_update" && update.run_update?.id) {
+      record = await env.DB.prepare(
+        "SELECT tenant_id FROM workflow_runs WHERE id = ?",
+      )
+        .bind(update.run_update.id)
+        .first();
 
-      // Get workflow tracker Durable Object
-      const id = env.WORKFLOW_TRACKER.idFromName("default");
-      const tracker = env.WORKFLOW_TRACKER.get(id);
+      // New runs belong to the tenant of their workflow
+      if (!record && update.run_update.workflow_id !== undefined) {
+        notFound = "Workflow not found";
+        record = await env.DB.prepare(
+          "SELECT tenant_id FROM workflow WHERE id = ?",
+        )
+          .bind(update.run_update.workflow_id)
+          .first();
+      }
+    } else if (update?.type === "step_update" && update.step_update) {
+      const step = update.step_update;
+      const runId = step.workflow_run_id || step.workflow_instance_id;
 
-      // Query the workflows using reference parameters
-      const response = await tracker.fetch(
-        new Request(`${new URL(request.url).origin}/websocket`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            type: "query",
-            params: {
-              ref_id,
-              ref_type,
-              status,
-              limit: limit || 20,
-              offset: offset || 0,
-            },
-          }),
-        }),
-      );
+      if (step.id) {
+        notFound = "Workflow step not found";
+        record = await env.DB.prepare(
+          "SELECT tenant_id FROM workflow_steps WHERE id = ?",
+        )
+          .bind(step.id)
+          .first();
+      } else if (runId) {
+        record = await env.DB.prepare(
+          "SELECT tenant_id FROM workflow_runs WHERE id = ?",
+        )
+          .bind(runId)
+          .first();
+      }
+    } else if (
+      update?.type === "retry_update" &&
+      update.retry_update?.workflow_step_id
+    ) {
+      notFound = "Workflow step not found";
+      record = await env.DB.prepare(
+        "SELECT tenant_id FROM workflow_steps WHERE id = ?",
+      )
+        .bind(update.retry_update.workflow_step_id)
+        .first();
+    }
 
-      const responseData = await response.json() as { data?: any[] };
+    const recordTenantId = record?.tenant_id as string | undefined;
 
-      return new Response(
-        JSON.stringify({
-          success: true,
-          workflows: responseData.data || [],
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        },
-      );
-    } catch (error) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-        }),
-        {
-          status: 500,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        },
-      );
+    // Records of other tenants are reported as not found
+    if (callerTenantId && recordTenantId && recordTenantId !== callerTenantId) {
+      throw new ServiceError(notFound, 404);
     }
+
+    return recordTenantId || callerTenantId || DEFAULT_TENANT_ID;
   },
 
   /**
    * Process updates to the D1 database
    */
-  async processUpdate(update: any, env: Env): Promise<any> {
-    const { type } = update;
+  async processUpdate(
+    update: any,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<any> {
+    // The tenant comes from the caller, never from the payload
+    const { type, [type]: data } = this.normalizeUpdate(update);
 
     if (type === "run_update") {
-      const result = await this.updateWorkflowRun(update.run_update, env);
+      const result = await this.updateWorkflowRun(data, env, tenantId);
       
-      // If this is a status update for a run, also update the parent workflow
-      if (update.run_update.status) {
-        await this.syncWorkflowStatus(update.run_update, env);
+      // If this is a status update for a run, also update the parent workflow.
+      // Updates to finished runs are ignored and leave the workflow alone too.
+      if (data.status && result.updated !== false) {
+        await this.syncWorkflowStatus(data, env);
       }
       
       return result;
     } else if (type === "step_update") {
-      return this.updateWorkflowStep(update.step_update, env);
-    } else if (type === "retry_update") {
-      return this.updateWorkflowStepRetry(update.retry_update, env);
+      return this.updateWorkflowStep(data, env, tenantId);
     }
 
-    throw new Error(`Unknown update type: ${type}`);
+    return this.updateWorkflowStepRetry(data, env, tenantId);
   },
   
+  /**
+   * Sync a run cancelled by a cancel-previous concurrency policy to its
+   * workflow and let connected clients know about it
+   */
+  async recordCancelledRun(
+    runUpdate: Record<string, any>,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<void> {
+    await this.syncWorkflowStatus(runUpdate, env);
+    await this.broadcastUpdate(
+      { type: "run_update", run_update: runUpdate },
+      env,
+      "https://workflow-tracker",
+      tenantId,
+    );
+  },
+
   /**
    * Sync workflow status with its latest run
    */
   async syncWorkflowStatus(run: any, env: Env): Promise<any> {
-    // Only proceed if we have a completed, errored or sleeping status
-    if (!run.status || !run.id || !['Completed', 'Errored', 'Sleeping'].includes(run.status)) {
+    // Only proceed if the status is one that should be mirrored on the workflow
+    if (
+      !run.status ||
+      !run.id ||
+      !["Running", "Sleeping", "Paused", "Completed", "Errored", "Cancelled"].includes(run.status)
+    ) {
       return { skipped: true };
     }
     
-    // Get the workflow ID for this run
+    // Get the workflow ID and type for this run
     const workflowRun = await env.DB.prepare(
-      "SELECT workflow_id, output_result FROM workflow_runs WHERE id = ?"
+      `SELECT r.workflow_id, r.output_result, r.tenant_id, w.name AS workflow_name
+      FROM workflow_runs r
+      JOIN workflow w ON w.id = r.workflow_id
+      WHERE r.id = ?`
     )
       .bind(run.id)
       .first();
@@ -707,21 +4523,63 @@ export default {
     )
       .bind(...values)
       .run();
+
+    // A finished run frees a concurrency slot for queued runs of its type
+    if (["Completed", "Errored", "Cancelled"].includes(run.status)) {
+      try {
+        await releaseQueuedRuns(
+          workflowRun.workflow_name as string,
+          env,
+          (workflowRun.tenant_id as string) || DEFAULT_TENANT_ID,
+        );
+      } catch (error) {
+        console.error(
+          `Failed to release queued runs of ${workflowRun.workflow_name}:`,
+          error,
+        );
+      }
+    }
       
     return { updated: true, workflow_id: workflowRun.workflow_id };
   },
 
   /**
-   * Update workflow run in D1 database
+   * Update workflow run in D1 database. Runs and workflows of other tenants
+   * are reported as not found. Completed, errored and cancelled runs are left
+   * as they are and reported with updated: false.
    */
-  async updateWorkflowRun(run: any, env: Env): Promise<any> {
+  async updateWorkflowRun(
+    run: any,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<any> {
+    if (!run.id) {
+      throw new ServiceError("run_update needs an id");
+    }
+
     // Check if run exists
     const existing = await env.DB.prepare(
-      "SELECT id FROM workflow_runs WHERE id = ?",
+      "SELECT id, tenant_id FROM workflow_runs WHERE id = ?",
     )
       .bind(run.id)
       .first();
 
+    if (existing && existing.tenant_id !== tenantId) {
+      throw new ServiceError("Workflow run not found", 404);
+    }
+
+    if (run.workflow_id !== undefined) {
+      const workflow = await env.DB.prepare(
+        "SELECT id FROM workflow WHERE id = ? AND tenant_id = ?",
+      )
+        .bind(run.workflow_id, tenantId)
+        .first();
+
+      if (!workflow) {
+        throw new ServiceError("Workflow not found", 404);
+      }
+    }
+
     if (existing) {
       // Build update query dynamically
       const setStatements: string[] = [];
@@ -737,15 +4595,27 @@ export default {
       // Add updated_at timestamp
       setStatements.push('updated_at = datetime("now")');
 
-      // Add the id for WHERE clause
-      values.push(run.id);
+      // Add the id and tenant for WHERE clause
+      values.push(run.id, tenantId);
 
-      await env.DB.prepare(
-        `UPDATE workflow_runs SET ${setStatements.join(", ")} WHERE id = ?`,
+      // Finished runs keep their final state, so updates that workflow code
+      // sends after a run was cancelled don't bring it back to life
+      const result = await env.DB.prepare(
+        `UPDATE workflow_runs SET ${setStatements.join(", ")}
+        WHERE id = ? AND tenant_id = ?
+          AND (status IS NULL OR status NOT IN ('Completed', 'Errored', 'Cancelled'))`,
       )
         .bind(...values)
         .run();
 
+      if (!result.meta.changes) {
+        return { updated: false, id: run.id };
+      }
+
+      if (run.status !== undefined || run.completed_at !== undefined) {
+        await recordRunMetrics(run.id, env);
+      }
+
       return { updated: true, id: run.id };
     } else {
       // Ensure created_at has a value
@@ -753,6 +4623,8 @@ export default {
         run.created_at = new Date().toISOString();
       }
 
+      run.tenant_id = tenantId;
+
       // Set updated_at to current time
       run.updated_at = new Date().toISOString();
 
@@ -769,18 +4641,54 @@ export default {
         .bind(...values)
         .run();
 
+      await recordRunMetrics(run.id, env);
+
       return { inserted: true, id: run.id };
     }
   },
 
   /**
-   * Update workflow step in D1 database
+   * Update workflow step in D1 database. Steps and runs of other tenants are
+   * reported as not found.
    */
-  async updateWorkflowStep(step: any, env: Env): Promise<any> {
+  async updateWorkflowStep(
+    step: any,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<any> {
     // Rename workflow_instance_id to workflow_run_id if it exists
     if (step.workflow_instance_id && !step.workflow_run_id) {
       step.workflow_run_id = step.workflow_instance_id;
-      delete step.workflow_instance_id;
+    }
+    delete step.workflow_instance_id;
+
+    if (!step.id && !step.workflow_run_id) {
+      throw new ServiceError("step_update needs an id or a workflow_run_id");
+    }
+
+    if (step.id) {
+      const existing = await env.DB.prepare(
+        "SELECT tenant_id FROM workflow_steps WHERE id = ?",
+      )
+        .bind(step.id)
+        .first();
+
+      if (!existing || existing.tenant_id !== tenantId) {
+        throw new ServiceError("Workflow step not found", 404);
+      }
+    }
+
+    // Steps can only be added to, or moved to, runs of the same tenant
+    if (step.workflow_run_id) {
+      const run = await env.DB.prepare(
+        "SELECT id FROM workflow_runs WHERE id = ? AND tenant_id = ?",
+      )
+        .bind(step.workflow_run_id, tenantId)
+        .first();
+
+      if (!run) {
+        throw new ServiceError("Workflow run not found", 404);
+      }
     }
     
     if (step.id) {
@@ -795,15 +4703,19 @@ export default {
         }
       });
 
-      // Add the id for WHERE clause
-      values.push(step.id);
+      // Add the id and tenant for WHERE clause
+      values.push(step.id, tenantId);
 
       await env.DB.prepare(
-        `UPDATE workflow_steps SET ${setStatements.join(", ")} WHERE id = ?`,
+        `UPDATE workflow_steps SET ${setStatements.join(", ")} WHERE id = ? AND tenant_id = ?`,
       )
         .bind(...values)
         .run();
 
+      if (step.status !== undefined || step.completed_at !== undefined) {
+        await recordStepMetrics(step.id, env);
+      }
+
       return { updated: true, id: step.id };
     } else {
       // Insert new step
@@ -814,6 +4726,7 @@ export default {
       if (step.status === "Completed" && !step.completed_at) {
         step.completed_at = new Date().toISOString();
       }
+      step.tenant_id = tenantId;
 
       // Get all columns and values
       const columns = Object.keys(step).join(", ");
@@ -826,14 +4739,37 @@ export default {
         .bind(...values)
         .first();
 
+      if (result) {
+        await recordStepMetrics(result.id as number, env);
+      }
+
       return { inserted: true, id: result?.id };
     }
   },
 
   /**
-   * Update workflow step retry in D1 database
+   * Update workflow step retry in D1 database. Steps of other tenants are
+   * reported as not found.
    */
-  async updateWorkflowStepRetry(retry: any, env: Env): Promise<any> {
+  async updateWorkflowStepRetry(
+    retry: any,
+    env: Env,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<any> {
+    if (!retry.workflow_step_id) {
+      throw new ServiceError("retry_update needs a workflow_step_id");
+    }
+
+    const step = await env.DB.prepare(
+      "SELECT id FROM workflow_steps WHERE id = ? AND tenant_id = ?",
+    )
+      .bind(retry.workflow_step_id, tenantId)
+      .first();
+
+    if (!step) {
+      throw new ServiceError("Workflow step not found", 404);
+    }
+
     // Generate created_at if not provided
     if (!retry.created_at) {
       retry.created_at = new Date().toISOString();
@@ -850,6 +4786,8 @@ export default {
       .bind(...values)
       .first();
 
+    await recordStepRetry(retry.workflow_step_id, env);
+
     return { inserted: true, id: result?.id };
   },
 
@@ -861,16 +4799,49 @@ export default {
     env: Env,
     ctx: ExecutionContext,
   ): Promise<Response> {
-    // Get workflow tracker Durable Object
-    const id = env.WORKFLOW_TRACKER.idFromName("default");
-    const tracker = env.WORKFLOW_TRACKER.get(id);
-
-    // Forward WebSocket connection to the Durable Object
-    return tracker.fetch(
-      new Request(`${new URL(request.url).origin}/websocket`, {
-        headers: request.headers,
+    // Browsers can't set headers on WebSocket requests, so they pass a
+    // short-lived token from /api/tracker-websocket/token instead
+    let principal: AuthPrincipal;
+    try {
+      principal = await this.authorizeApiRequest(
+        request,
+        env,
+        ctx,
+        "read",
+        new URL(request.url).searchParams.get("token"),
+      );
+    } catch (error) {
+      return new Response(
+        error instanceof Error ? error.message : "Unknown error",
+        {
+          status: error instanceof ServiceError ? error.status : 500,
+        },
+      );
+    }
+
+    // Forward WebSocket connection to the tenant's Durable Object, so the
+    // client only receives that tenant's updates
+    const url = new URL(request.url);
+    const initialData = url.searchParams.get("initial_data");
+
+    // The tracker keeps who opened the socket with the session; overwrite
+    // any value the caller may have sent
+    const headers = new Headers(request.headers);
+    headers.set(
+      TRACKER_PRINCIPAL_HEADER,
+      `${principal.method} ${encodeURIComponent(principal.subject)}`,
+    );
+
+    return fetchTracker(
+      principal.tenantId,
+      env,
+      `${url.origin}/websocket${
+        initialData ? `?initial_data=${encodeURIComponent(initialData)}` : ""
+      }`,
+      {
+        headers,
         method: request.method,
-      }),
+      },
     );
   },
 };
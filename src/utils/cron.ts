@@ -0,0 +1,256 @@
+// src/utils/cron.ts
+/**
+ * Utility functions for evaluating cron expressions
+ *
+ * Supports the standard five fields (minute, hour, day of month, month,
+ * day of week) with `*`, lists, ranges and steps, plus the `@hourly`,
+ * `@daily`, `@weekly`, `@monthly` and `@yearly` shortcuts. All times are UTC.
+ */
+
+/**
+ * Parsed cron expression, one set of allowed values per field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 are both Sunday)
+];
+
+/**
+ * Parse a single cron field into the set of values it allows
+ *
+ * @param field Field text
+ * @param min Smallest allowed value
+ * @param max Largest allowed value
+ * @returns Set of allowed values
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field: ${field}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = Number(from);
+      end = Number(to);
+    } else {
+      start = Number(rangePart);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value in cron field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @param expression Cron expression
+ * @returns Parsed cron schedule
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] || expression;
+  const fields = normalized.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1]),
+  );
+
+  // Treat 7 as Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * Check whether a day matches the schedule's day-of-month and day-of-week
+ * fields. As in standard cron, when both are restricted either may match.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) {
+    return true;
+  } else if (schedule.anyDayOfMonth) {
+    return dayOfWeek;
+  } else if (schedule.anyDayOfWeek) {
+    return dayOfMonth;
+  }
+
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Get the first fire time of a cron expression strictly after a given time
+ *
+ * @param expression Cron expression or parsed schedule
+ * @param after Time to search from
+ * @returns Next fire time
+ * @throws Error if the expression never fires within five years
+ */
+export function nextCronTime(
+  expression: string | CronSchedule,
+  after: Date,
+): Date {
+  const schedule =
+    typeof expression === "string" ? parseCron(expression) : expression;
+
+  // Start at the next whole minute
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new Error("Cron expression does not fire within the next five years");
+}
+
+/**
+ * Get the last fire time of a cron expression at or before a given time
+ *
+ * @param expression Cron expression or parsed schedule
+ * @param atOrBefore Time to search back from
+ * @param notBefore Earliest time to search back to
+ * Default: five years before atOrBefore
+ * @returns Last fire time, or null if it doesn't fire in that window
+ */
+export function previousCronTime(
+  expression: string | CronSchedule,
+  atOrBefore: Date,
+  notBefore?: Date,
+): Date | null {
+  const schedule =
+    typeof expression === "string" ? parseCron(expression) : expression;
+
+  // Start at the current whole minute, which may itself be a fire time
+  const date = new Date(atOrBefore.getTime());
+  date.setUTCSeconds(0, 0);
+
+  const limit = notBefore
+    ? notBefore.getTime()
+    : atOrBefore.getTime() - 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() >= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      // Last minute of the previous month
+      date.setUTCDate(0);
+      date.setUTCHours(23, 59, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setUTCHours(0, 0, 0, 0);
+      date.setUTCMinutes(-1);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCMinutes(0, 0, 0);
+      date.setUTCMinutes(-1);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() - 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  return null;
+}
@@ -0,0 +1,132 @@
+// src/utils/crypto.ts
+/**
+ * Utility functions for hashing and signing with the Web Crypto API
+ */
+
+/**
+ * Encode bytes as a lowercase hex string
+ *
+ * @param buffer Bytes to encode
+ * @returns Hex string
+ */
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Compute the SHA-256 digest of a string
+ *
+ * @param input String to hash
+ * @returns Hex-encoded digest
+ */
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input),
+  );
+  return toHex(digest);
+}
+
+/**
+ * Serialize a value to JSON with object keys in sorted order, so that
+ * equivalent payloads always produce the same string
+ *
+ * @param value Value to serialize
+ * @returns Canonical JSON string
+ */
+export function stableStringify(value: any): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Compute an HMAC-SHA256 signature
+ *
+ * @param secret Signing secret
+ * @param message Message to sign
+ * @returns Signature bytes
+ */
+export async function hmacSha256(
+  secret: string,
+  message: string,
+): Promise<ArrayBuffer> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+}
+
+/**
+ * Encode bytes or a string as unpadded base64url
+ *
+ * @param input Bytes or UTF-8 string to encode
+ * @returns Base64url string
+ */
+export function base64UrlEncode(input: ArrayBuffer | string): string {
+  const bytes =
+    typeof input === "string"
+      ? new TextEncoder().encode(input)
+      : new Uint8Array(input);
+
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a base64url string
+ *
+ * @param input Base64url string, with or without padding
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64url
+ */
+export function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Compare two strings in constant time, so signatures can't be guessed
+ * from response timings
+ *
+ * @param a First string
+ * @param b Second string
+ * @returns Whether the strings are equal
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
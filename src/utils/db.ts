@@ -73,6 +73,23 @@ export function generateSetClause(
   return { setClause, values };
 }
 
+/**
+ * Keep only the given columns of an object, e.g. the columns callers may
+ * write
+ *
+ * @param obj Object with column values
+ * @param columns Columns to keep
+ * @returns Object with only the given columns
+ */
+export function pickColumns(
+  obj: Record<string, any>,
+  columns: readonly string[],
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([key]) => columns.includes(key)),
+  );
+}
+
 /**
  * Generate placeholders for SQL VALUES clause
  *
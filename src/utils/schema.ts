@@ -0,0 +1,236 @@
+// src/utils/schema.ts
+/**
+ * Minimal JSON Schema validator for workflow parameters
+ *
+ * Supports the commonly used subset of JSON Schema: type, enum, const,
+ * properties, required, additionalProperties, items, string/number/array
+ * bounds, pattern, format (date-time, date, email, uri, uuid) and the
+ * allOf/anyOf/oneOf/not combinators.
+ */
+
+/**
+ * A JSON Schema document
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * A single validation failure, located by a dotted path
+ */
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+const FORMATS: Record<string, RegExp> = {
+  "date-time":
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+};
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function typeOf(value: any): string {
+  if (value === null) {
+    return "null";
+  } else if (Array.isArray(value)) {
+    return "array";
+  } else if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+
+  return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function matchesType(value: any, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Compare two JSON values for equality
+ */
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param schema Schema to validate against
+ * @param value Value to validate
+ * @param path Path of the value, used in error messages
+ * @returns List of validation errors (empty if valid)
+ */
+export function validateSchema(
+  schema: JsonSchema | boolean,
+  value: any,
+  path = "$",
+): SchemaValidationError[] {
+  if (schema === true || schema === undefined || schema === null) {
+    return [];
+  } else if (schema === false) {
+    return [{ path, message: "is not allowed" }];
+  }
+
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`must be of type ${types.join(" or ")}`);
+      // Further keywords are meaningless for the wrong type
+      return errors;
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((option: any) => isEqual(option, value))
+  ) {
+    fail(
+      `must be one of: ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}`,
+    );
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    fail(`must be equal to ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters long`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+    if (
+      schema.format !== undefined &&
+      FORMATS[schema.format] &&
+      !FORMATS[schema.format].test(value)
+    ) {
+      fail(`must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+    if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) {
+      fail(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set(value.map((item) => JSON.stringify(item)));
+      if (seen.size !== value.length) {
+        fail("must not contain duplicate items");
+      }
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(schema.items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: "is required" });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (properties[key] !== undefined) {
+        errors.push(
+          ...validateSchema(properties[key], propertyValue, `${path}.${key}`),
+        );
+      } else if (schema.additionalProperties !== undefined) {
+        errors.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            propertyValue,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateSchema(subschema, value, path));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some(
+      (subschema: JsonSchema) =>
+        validateSchema(subschema, value, path).length === 0,
+    );
+    if (!matches) {
+      fail("must match at least one of the allowed schemas");
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (subschema: JsonSchema) =>
+        validateSchema(subschema, value, path).length === 0,
+    ).length;
+    if (matches !== 1) {
+      fail("must match exactly one of the allowed schemas");
+    }
+  }
+
+  if (
+    schema.not !== undefined &&
+    validateSchema(schema.not, value, path).length === 0
+  ) {
+    fail("must not match the disallowed schema");
+  }
+
+  return errors;
+}
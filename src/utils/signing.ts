@@ -0,0 +1,33 @@
+// src/utils/signing.ts
+/**
+ * Signing of tracker updates sent from workflow code
+ */
+import { hmacSha256, toHex } from "./crypto";
+
+export const SIGNATURE_HEADER = "X-Flowflare-Signature";
+export const TIMESTAMP_HEADER = "X-Flowflare-Timestamp";
+export const NONCE_HEADER = "X-Flowflare-Nonce";
+
+/**
+ * How far the timestamp of a signed update may be from the current time,
+ * in seconds
+ */
+export const SIGNATURE_TOLERANCE = 300;
+
+/**
+ * Sign a tracker update body
+ *
+ * @param secret Shared signing secret
+ * @param timestamp Unix time in seconds when the update was signed
+ * @param nonce Unique value for this update
+ * @param body JSON body of the update
+ * @returns Hex-encoded HMAC-SHA256 of `<timestamp>.<nonce>.<body>`
+ */
+export async function signTrackerUpdate(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string,
+): Promise<string> {
+  return toHex(await hmacSha256(secret, `${timestamp}.${nonce}.${body}`));
+}
@@ -1,5 +1,49 @@
 // src/workflow/integration.ts
 import { StepRetryConfig } from "./types";
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signTrackerUpdate,
+} from "../utils/signing";
+
+/**
+ * Headers for requests to the tracker API, including the API key from
+ * TRACKER_API_KEY and a signature made with TRACKER_SIGNING_SECRET when
+ * they are set
+ *
+ * @param env Environment with the API key and signing secret
+ * @param body JSON body of the request
+ * @returns Request headers
+ */
+async function trackerHeaders(
+  env: any,
+  body: string,
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (env.TRACKER_API_KEY) {
+    headers["X-API-Key"] = env.TRACKER_API_KEY;
+  }
+
+  if (env.TRACKER_SIGNING_SECRET) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomUUID();
+
+    headers[TIMESTAMP_HEADER] = timestamp;
+    headers[NONCE_HEADER] = nonce;
+    headers[SIGNATURE_HEADER] = await signTrackerUpdate(
+      env.TRACKER_SIGNING_SECRET,
+      timestamp,
+      nonce,
+      body,
+    );
+  }
+
+  return headers;
+}
 
 /**
  * Send an update to the workflow tracker
@@ -17,30 +61,24 @@ async function sendTrackerUpdate(
   try {
     // Use either the TRACKER_API_URL environment variable or a direct fetch
     let response;
+    const body = JSON.stringify({
+      type,
+      [`${type}`]: data,
+    });
 
     if (env.TRACKER_API_URL) {
       // Use external API URL
       response = await fetch(`${env.TRACKER_API_URL}/api/workflows/update`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          type,
-          [`${type}`]: data,
-        }),
+        headers: await trackerHeaders(env, body),
+        body,
       });
     } else if (env.WORKFLOW_TRACKER_API) {
       // Use service binding
       response = await env.WORKFLOW_TRACKER_API.fetch("/api/workflows/update", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          type,
-          [`${type}`]: data,
-        }),
+        headers: await trackerHeaders(env, body),
+        body,
       });
     } else {
       // Use local D1 database (this assumes we're running in the same worker)
@@ -121,6 +159,9 @@ export async function recordWorkflowStepRetry(
 /**
  * Track execution of a step with comprehensive error handling and retry tracking
  *
+ * When `env.WORKFLOW_VERSION` is set, every step write is stamped with it so
+ * steps can be compared across deployments of the workflow code.
+ *
  * @param env Environment
  * @param workflowInstanceId Workflow instance ID
  * @param stepName Step name
@@ -149,6 +190,11 @@ export async function trackStep(
   const config = { ...defaultRetryConfig, ...retryConfig };
   const { maxRetries, baseDelay, backoffType, currentRetry } = config;
 
+  // Version of the workflow code running this step
+  const versionData = env.WORKFLOW_VERSION
+    ? { workflow_version: env.WORKFLOW_VERSION }
+    : {};
+
   // Record that step is starting
   let stepId;
   try {
@@ -159,6 +205,7 @@ export async function trackStep(
       step_index: stepIndex,
       state: null,
       started_at: new Date().toISOString(),
+      ...versionData,
     };
 
     const updateResult = await updateWorkflowStep(stepStartData, env);
@@ -186,6 +233,7 @@ export async function trackStep(
       state:
         typeof result === "object" ? JSON.stringify(result) : String(result),
       completed_at: new Date().toISOString(),
+      ...versionData,
     };
 
     await updateWorkflowStep(stepCompleteData, env);
@@ -226,6 +274,7 @@ export async function trackStep(
             }
           : null,
       }),
+      ...versionData,
     };
 
     await updateWorkflowStep(stepFailedData, env);
@@ -0,0 +1,4 @@
+-- Link reruns to the run they were started from
+ALTER TABLE workflow_runs ADD COLUMN rerun_of TEXT; -- ID of the run this run was re-run from
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_rerun_of ON workflow_runs (rerun_of);
@@ -0,0 +1,11 @@
+-- Idempotency keys for start requests
+CREATE TABLE IF NOT EXISTS workflow_idempotency_keys (
+    idempotency_key TEXT PRIMARY KEY, -- Key supplied by the caller
+    request_hash TEXT NOT NULL, -- SHA-256 of the canonical request payload
+    run_id TEXT, -- ID of the run started by the original request
+    response TEXT, -- JSON response of the original request (NULL while in progress)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL -- When the key can be reused
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_idempotency_keys_expires_at ON workflow_idempotency_keys (expires_at);
@@ -0,0 +1,20 @@
+-- Cron schedules for starting workflows
+CREATE TABLE IF NOT EXISTS workflow_schedules (
+    id TEXT PRIMARY KEY,
+    name TEXT, -- Optional human-readable name
+    cron TEXT NOT NULL, -- Cron expression (UTC)
+    workflow_type TEXT NOT NULL, -- Workflow type/name to start
+    params TEXT NOT NULL DEFAULT '{}', -- JSON string of the workflow input parameters
+    ref_id TEXT, -- External reference ID for started runs
+    ref_type TEXT, -- Reference type for started runs
+    metadata TEXT NOT NULL DEFAULT '{}', -- JSON string of metadata added to started runs
+    enabled INTEGER NOT NULL DEFAULT 1,
+    catch_up TEXT, -- Catch-up policy for missed fire times (skip, latest, all); NULL uses the service default
+    next_run_at TIMESTAMP NOT NULL, -- Next time the schedule is due
+    last_run_at TIMESTAMP, -- Fire time of the most recent run
+    last_run_id TEXT, -- ID of the most recent run
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_next_run_at ON workflow_schedules (enabled, next_run_at);
@@ -0,0 +1,5 @@
+-- Delayed starts: runs that are dispatched at a later time
+ALTER TABLE workflow_runs ADD COLUMN scheduled_at TIMESTAMP; -- When a delayed run should start
+ALTER TABLE workflow_runs ADD COLUMN dispatched_at TIMESTAMP; -- When a delayed run's Workflows instance was created
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_scheduled_at ON workflow_runs (status, scheduled_at);
@@ -0,0 +1,11 @@
+-- Registry of workflow definitions
+CREATE TABLE IF NOT EXISTS workflow_definitions (
+    name TEXT PRIMARY KEY, -- Workflow type/name used when starting runs
+    description TEXT,
+    binding TEXT, -- Name of the Cloudflare Workflows binding (defaults to the upper-cased name)
+    input_schema TEXT, -- JSON Schema for the input parameters
+    output_schema TEXT, -- JSON Schema for the output result
+    source TEXT NOT NULL DEFAULT 'api', -- Where the definition came from (config, api, auto)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,8 @@
+-- Version tracking for workflow definitions, runs and steps
+ALTER TABLE workflow_definitions ADD COLUMN version TEXT; -- Current version of the workflow code
+
+ALTER TABLE workflow_runs ADD COLUMN workflow_version TEXT; -- Definition version when the run was started
+
+ALTER TABLE workflow_steps ADD COLUMN workflow_version TEXT; -- Version of the workflow code that ran the step
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_version ON workflow_runs (workflow_id, workflow_version);
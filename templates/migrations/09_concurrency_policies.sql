@@ -0,0 +1,5 @@
+-- Concurrency policies for workflow types
+ALTER TABLE workflow_definitions ADD COLUMN concurrency TEXT; -- JSON string of the concurrency policy
+
+-- Active and queued runs are counted per workflow type and per ref
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow_status ON workflow_runs (workflow_id, status, created_at);
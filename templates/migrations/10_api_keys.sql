@@ -0,0 +1,18 @@
+-- API keys for the service API
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL, -- First characters of the key, for recognising it
+    key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key
+    scopes TEXT NOT NULL, -- JSON array of scopes (start, read, cancel, admin)
+    workflow_types TEXT, -- JSON array of allowed workflow types, NULL for all
+    ref_types TEXT, -- JSON array of allowed reference types, NULL for all
+    expires_at TIMESTAMP,
+    last_used_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    rotated_from TEXT, -- ID of the key this key replaced
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_name ON api_keys (name);
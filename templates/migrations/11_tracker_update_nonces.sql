@@ -0,0 +1,8 @@
+-- Nonces of signed tracker updates, to reject replayed updates
+CREATE TABLE IF NOT EXISTS tracker_update_nonces (
+    nonce TEXT PRIMARY KEY, -- Nonce sent with the update
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL -- When the update's timestamp falls outside the accepted window
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracker_update_nonces_expires_at ON tracker_update_nonces (expires_at);
@@ -0,0 +1,56 @@
+-- Tenant isolation: every workflow, run, step, schedule and API key belongs to a tenant
+-- Existing rows belong to the 'default' tenant
+
+-- Rebuild the workflow table so its unique constraint includes the tenant
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE workflow_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant_id TEXT NOT NULL DEFAULT 'default', -- Tenant the workflow belongs to
+    name TEXT NOT NULL,
+    status TEXT, -- Status of the latest run (Running, Sleeping, Completed, Errored)
+    input_params TEXT NOT NULL DEFAULT '{}', -- Original input parameters (not modified after creation)
+    output_result TEXT NOT NULL DEFAULT '{}', -- Final result if workflow is completed
+    metadata TEXT NOT NULL DEFAULT '{}', -- JSON string with metadata about the workflow
+    last_run_id TEXT, -- ID of the most recent run
+    ref_id TEXT, -- External reference ID (e.g., order ID, user ID)
+    ref_type TEXT, -- Reference type (e.g., "order", "user")
+    runs_count INTEGER DEFAULT 0, -- Count of total runs
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    UNIQUE(tenant_id, name, ref_id, ref_type)
+);
+
+INSERT INTO workflow_new (
+    id, name, status, input_params, output_result, metadata, last_run_id,
+    ref_id, ref_type, runs_count, created_at, updated_at, completed_at
+)
+SELECT
+    id, name, status, input_params, output_result, metadata, last_run_id,
+    ref_id, ref_type, runs_count, created_at, updated_at, completed_at
+FROM workflow;
+
+DROP TABLE workflow;
+
+ALTER TABLE workflow_new RENAME TO workflow;
+
+PRAGMA defer_foreign_keys = false;
+
+ALTER TABLE workflow_runs ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'; -- Tenant the run belongs to
+
+ALTER TABLE workflow_steps ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'; -- Tenant the step's run belongs to
+
+ALTER TABLE workflow_schedules ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default'; -- Tenant started runs belong to
+
+ALTER TABLE api_keys ADD COLUMN tenant_id TEXT; -- Tenant the key is bound to, NULL for unbound keys
+
+CREATE INDEX IF NOT EXISTS idx_workflow_tenant_name ON workflow (tenant_id, name);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_tenant_status ON workflow_runs (tenant_id, status, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_tenant_created_at ON workflow_runs (tenant_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_schedules_tenant_id ON workflow_schedules (tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant_id ON api_keys (tenant_id);
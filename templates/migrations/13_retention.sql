@@ -0,0 +1,12 @@
+-- Retention policies for workflow types
+ALTER TABLE workflow_definitions ADD COLUMN retention TEXT; -- JSON string of days to keep finished runs, by status
+
+-- Runs removed by retention purges, rolled up so workflow totals survive them
+ALTER TABLE workflow ADD COLUMN purged_runs_count INTEGER DEFAULT 0;
+ALTER TABLE workflow ADD COLUMN purged_completed_count INTEGER DEFAULT 0;
+ALTER TABLE workflow ADD COLUMN purged_errored_count INTEGER DEFAULT 0;
+ALTER TABLE workflow ADD COLUMN purged_cancelled_count INTEGER DEFAULT 0;
+ALTER TABLE workflow ADD COLUMN last_purged_at TIMESTAMP;
+
+-- Expired runs are found by status and completion time
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_status_completed_at ON workflow_runs (status, completed_at);
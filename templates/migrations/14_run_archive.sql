@@ -0,0 +1,3 @@
+-- Runs moved to R2 by retention purges
+ALTER TABLE workflow_runs ADD COLUMN archived_at TIMESTAMP; -- When the run was moved to R2
+ALTER TABLE workflow_runs ADD COLUMN archive_key TEXT; -- Key of the run's document in the archive bucket
@@ -0,0 +1,2 @@
+-- Status a run had before it was paused, restored when it is resumed
+ALTER TABLE workflow_runs ADD COLUMN paused_from TEXT; -- Running or Sleeping while the run is paused
@@ -0,0 +1,2 @@
+-- Claims on idempotency keys expire, so a key held by a request that died can be taken over
+ALTER TABLE workflow_idempotency_keys ADD COLUMN claimed_until TIMESTAMP; -- When an in-progress claim can be taken over
@@ -0,0 +1,8 @@
+-- Nonces of HMAC-signed requests, to reject replayed requests
+CREATE TABLE IF NOT EXISTS hmac_request_nonces (
+    nonce TEXT PRIMARY KEY, -- Secret variable and nonce sent with the request
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL -- When the request's timestamp falls outside the accepted window
+);
+
+CREATE INDEX IF NOT EXISTS idx_hmac_request_nonces_expires_at ON hmac_request_nonces (expires_at);
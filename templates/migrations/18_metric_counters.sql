@@ -0,0 +1,14 @@
+-- Counters behind the Prometheus metrics, kept across retention purges
+CREATE TABLE IF NOT EXISTS workflow_metric_counters (
+    tenant_id TEXT NOT NULL,
+    workflow_type TEXT NOT NULL,
+    name TEXT NOT NULL, -- Sample name, e.g. flowflare_run_duration_seconds_bucket
+    labels TEXT NOT NULL DEFAULT '{}', -- JSON string of the sample's other labels
+    value REAL NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (tenant_id, workflow_type, name, labels)
+);
+
+-- When a finished run or step was added to the counters, so it is only counted once
+ALTER TABLE workflow_runs ADD COLUMN metrics_recorded_at TIMESTAMP;
+ALTER TABLE workflow_steps ADD COLUMN metrics_recorded_at TIMESTAMP;
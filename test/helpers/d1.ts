@@ -0,0 +1,161 @@
+// test/helpers/d1.ts
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * Directory with the migrations `flowflare-setup` applies
+ */
+const MIGRATIONS_DIR = join(__dirname, "..", "..", "templates", "migrations");
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+/**
+ * D1 database backed by an in-memory SQLite database, with every migration
+ * applied
+ */
+export interface TestDatabase extends D1Database {
+  /**
+   * Underlying SQLite database, for setting up and inspecting rows
+   */
+  sqlite: Database;
+}
+
+/**
+ * Create an in-memory D1 database with the service's schema
+ *
+ * @returns D1 binding for the worker's Env
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  sqlJs = sqlJs || initSqlJs();
+  const sqlite = new (await sqlJs).Database();
+
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    if (file.endsWith(".sql")) {
+      sqlite.exec(readFileSync(join(MIGRATIONS_DIR, file), "utf8"));
+    }
+  }
+
+  return new TestD1Database(sqlite) as unknown as TestDatabase;
+}
+
+/**
+ * Convert a bound value the way D1 does
+ */
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined) {
+    throw new Error(
+      "D1_TYPE_ERROR: Type 'undefined' not supported for value 'undefined'",
+    );
+  } else if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  } else if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+
+  return value as SqlValue;
+}
+
+class TestD1PreparedStatement {
+  constructor(
+    private database: TestD1Database,
+    readonly sql: string,
+    readonly values: SqlValue[] = [],
+  ) {}
+
+  bind(...values: unknown[]): TestD1PreparedStatement {
+    return new TestD1PreparedStatement(
+      this.database,
+      this.sql,
+      values.map(toSqlValue),
+    );
+  }
+
+  async first(column?: string): Promise<any> {
+    const [row] = this.database.execute(this.sql, this.values).results;
+    if (!row) {
+      return null;
+    }
+
+    return column === undefined ? row : row[column];
+  }
+
+  async all(): Promise<D1Result> {
+    return this.database.execute(this.sql, this.values);
+  }
+
+  async run(): Promise<D1Result> {
+    return this.database.execute(this.sql, this.values);
+  }
+
+  async raw(): Promise<unknown[][]> {
+    return this.database
+      .execute(this.sql, this.values)
+      .results.map((row) => Object.values(row));
+  }
+}
+
+class TestD1Database {
+  constructor(readonly sqlite: Database) {}
+
+  prepare(sql: string): TestD1PreparedStatement {
+    return new TestD1PreparedStatement(this, sql);
+  }
+
+  async batch(statements: TestD1PreparedStatement[]): Promise<D1Result[]> {
+    // D1 runs a batch as a single transaction
+    this.sqlite.exec("BEGIN");
+    try {
+      const results = statements.map((statement) =>
+        this.execute(statement.sql, statement.values),
+      );
+      this.sqlite.exec("COMMIT");
+      return results;
+    } catch (error) {
+      this.sqlite.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  async exec(sql: string): Promise<D1ExecResult> {
+    this.sqlite.exec(sql);
+    return { count: 1, duration: 0 };
+  }
+
+  execute(sql: string, values: SqlValue[]): D1Result<Record<string, any>> {
+    const changesBefore = this.totalChanges();
+    const statement = this.sqlite.prepare(sql);
+    const results: Record<string, any>[] = [];
+
+    try {
+      statement.bind(values);
+      while (statement.step()) {
+        results.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    const changes = this.totalChanges() - changesBefore;
+    const [lastRowId] = this.sqlite.exec("SELECT last_insert_rowid()");
+
+    return {
+      success: true,
+      results,
+      meta: {
+        duration: 0,
+        size_after: 0,
+        rows_read: results.length,
+        rows_written: changes,
+        last_row_id: Number(lastRowId.values[0][0]),
+        changed_db: changes > 0,
+        changes,
+      },
+    };
+  }
+
+  private totalChanges(): number {
+    const [row] = this.sqlite.exec("SELECT total_changes()");
+    return Number(row.values[0][0]);
+  }
+}
@@ -0,0 +1,62 @@
+// test/helpers/env.ts
+import { Env } from "../../src/service/types";
+import { createTestDatabase, TestDatabase } from "./d1";
+import { createTestBucket, TestBucket } from "./r2";
+import { createTrackerNamespace, TestTrackerNamespace } from "./tracker";
+
+/**
+ * Env with the in-memory D1 database, R2 bucket and tracker Durable Objects
+ */
+export interface TestEnv extends Env {
+  DB: TestDatabase;
+  ARCHIVE_BUCKET: TestBucket;
+  WORKFLOW_TRACKER: TestTrackerNamespace;
+}
+
+/**
+ * API key the test Env accepts
+ */
+export const TEST_API_KEY = "test-service-key";
+
+/**
+ * Create bindings for a test, with a fresh database and bucket
+ *
+ * @param overrides Bindings to add or replace
+ * @returns Env for calling service functions and worker handlers
+ */
+export async function createTestEnv(
+  overrides: Partial<Env> = {},
+): Promise<TestEnv> {
+  const env = {
+    DB: await createTestDatabase(),
+    ARCHIVE_BUCKET: createTestBucket(),
+    SERVICE_API_KEY: TEST_API_KEY,
+    ...overrides,
+  } as TestEnv;
+  env.WORKFLOW_TRACKER = createTrackerNamespace(env);
+
+  return env;
+}
+
+/**
+ * Insert a row and return its generated ID
+ *
+ * @param env Test Env
+ * @param table Table to insert into
+ * @param row Column values
+ * @returns last_row_id of the insert
+ */
+export async function insertRow(
+  env: TestEnv,
+  table: string,
+  row: Record<string, any>,
+): Promise<number> {
+  const columns = Object.keys(row);
+  const result = await env.DB.prepare(
+    `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+  )
+    .bind(...Object.values(row))
+    .run();
+
+  return result.meta.last_row_id;
+}
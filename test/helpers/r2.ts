@@ -0,0 +1,103 @@
+// test/helpers/r2.ts
+
+/**
+ * Object stored in the in-memory bucket
+ */
+export interface StoredObject {
+  body: Uint8Array;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+  uploaded: Date;
+}
+
+/**
+ * R2 bucket that keeps its objects in a Map
+ */
+export interface TestBucket extends R2Bucket {
+  /**
+   * Stored objects by key, for inspecting and removing them
+   */
+  objects: Map<string, StoredObject>;
+}
+
+/**
+ * Create an empty in-memory R2 bucket
+ *
+ * @returns Bucket binding for the worker's Env
+ */
+export function createTestBucket(): TestBucket {
+  const objects = new Map<string, StoredObject>();
+
+  const toObject = (key: string, stored: StoredObject) => ({
+    key,
+    size: stored.body.byteLength,
+    etag: key,
+    httpEtag: `"${key}"`,
+    uploaded: stored.uploaded,
+    httpMetadata: stored.httpMetadata,
+    customMetadata: stored.customMetadata,
+  });
+
+  const bucket = {
+    objects,
+
+    async put(
+      key: string,
+      value: ArrayBuffer | ArrayBufferView | string | Blob | ReadableStream,
+      options: R2PutOptions = {},
+    ) {
+      const body = new Uint8Array(await new Response(value as any).arrayBuffer());
+      const stored: StoredObject = {
+        body,
+        httpMetadata: (options.httpMetadata as R2HTTPMetadata) || {},
+        customMetadata: options.customMetadata || {},
+        uploaded: new Date(),
+      };
+      objects.set(key, stored);
+
+      return toObject(key, stored);
+    },
+
+    async get(key: string) {
+      const stored = objects.get(key);
+      if (!stored) {
+        return null;
+      }
+
+      return {
+        ...toObject(key, stored),
+        body: new Blob([stored.body]).stream(),
+        bodyUsed: false,
+        arrayBuffer: async () => stored.body.slice().buffer,
+        text: async () => new TextDecoder().decode(stored.body),
+        json: async () => JSON.parse(new TextDecoder().decode(stored.body)),
+        blob: async () => new Blob([stored.body]),
+      };
+    },
+
+    async head(key: string) {
+      const stored = objects.get(key);
+      return stored ? toObject(key, stored) : null;
+    },
+
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        objects.delete(key);
+      }
+    },
+
+    async list(options: R2ListOptions = {}) {
+      const keys = Array.from(objects.keys())
+        .filter((key) => key.startsWith(options.prefix || ""))
+        .sort();
+
+      return {
+        objects: keys.map((key) => toObject(key, objects.get(key))),
+        truncated: false,
+        delimitedPrefixes: [],
+      };
+    },
+  };
+
+  return bucket as unknown as TestBucket;
+}
@@ -0,0 +1,82 @@
+// test/helpers/service.ts
+import { createWorkflowService } from "../../src/service";
+import { WorkflowServiceOptions } from "../../src/service/types";
+import { TEST_API_KEY, TestEnv } from "./env";
+
+/**
+ * ExecutionContext that collects waitUntil promises
+ */
+export interface TestContext extends ExecutionContext {
+  /**
+   * Wait for everything passed to waitUntil
+   */
+  settle(): Promise<void>;
+}
+
+/**
+ * Create an ExecutionContext for calling the worker
+ */
+export function createTestContext(): TestContext {
+  const pending: Promise<unknown>[] = [];
+
+  return {
+    waitUntil: (promise: Promise<unknown>) => {
+      pending.push(promise);
+    },
+    passThroughOnException: () => {},
+    props: {},
+    settle: async () => {
+      await Promise.allSettled(pending);
+    },
+  } as TestContext;
+}
+
+/**
+ * Create the worker with the given options
+ *
+ * @param options Service options
+ * @returns Worker handler, with its internal methods
+ */
+export function createTestService(
+  options: WorkflowServiceOptions = {},
+): Record<string, any> {
+  return createWorkflowService({ autoRegister: true, ...options });
+}
+
+/**
+ * POST a JSON body to a service endpoint with the test API key
+ *
+ * @param service Worker handler
+ * @param env Test Env
+ * @param path Endpoint path, e.g. /service/start-workflow
+ * @param body Request body
+ * @param headers Extra request headers
+ * @returns Status and parsed response body
+ */
+export async function callService(
+  service: Record<string, any>,
+  env: TestEnv,
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; headers: Headers; body: any }> {
+  const response: Response = await service.fetch(
+    new Request(`https://flowflare.test${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-Key": TEST_API_KEY,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    }),
+    env,
+    createTestContext(),
+  );
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: await response.json(),
+  };
+}
@@ -0,0 +1,104 @@
+// test/helpers/tracker.ts
+import { WorkflowTracker } from "../../src/service/tracker";
+import { Env } from "../../src/service/types";
+
+/**
+ * WebSocket that records what the tracker sends it
+ */
+export class TestWebSocket {
+  /**
+   * Parsed messages sent to the client
+   */
+  sent: any[] = [];
+  closed = false;
+  private attachment: unknown = null;
+
+  send(message: string): void {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  serializeAttachment(value: unknown): void {
+    this.attachment = JSON.parse(JSON.stringify(value));
+  }
+
+  deserializeAttachment(): unknown {
+    return this.attachment;
+  }
+}
+
+/**
+ * Durable Object state with in-memory storage and hibernated sockets
+ */
+export interface TestState extends DurableObjectState {
+  sockets: TestWebSocket[];
+  alarm: number | null;
+}
+
+/**
+ * Create the state of a tracker Durable Object
+ */
+export function createTestState(): TestState {
+  const storage = new Map<string, unknown>();
+  const state = {
+    sockets: [] as TestWebSocket[],
+    alarm: null as number | null,
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => {
+        storage.set(key, value);
+      },
+      delete: async (key: string) => storage.delete(key),
+      getAlarm: async () => state.alarm,
+      setAlarm: async (time: number | Date) => {
+        state.alarm = new Date(time).getTime();
+      },
+      deleteAlarm: async () => {
+        state.alarm = null;
+      },
+    },
+    acceptWebSocket: (socket: TestWebSocket) => {
+      state.sockets.push(socket);
+    },
+    getWebSockets: () => state.sockets,
+  };
+
+  return state as unknown as TestState;
+}
+
+/**
+ * Durable Object namespace that keeps one tracker per tenant in memory
+ */
+export interface TestTrackerNamespace extends DurableObjectNamespace {
+  trackers: Map<string, WorkflowTracker>;
+}
+
+/**
+ * Create the WORKFLOW_TRACKER binding for an Env
+ *
+ * @param env Env the trackers are created with
+ * @returns Namespace that routes fetches to the trackers
+ */
+export function createTrackerNamespace(env: Env): TestTrackerNamespace {
+  const trackers = new Map<string, WorkflowTracker>();
+
+  const getTracker = (name: string) => {
+    if (!trackers.has(name)) {
+      trackers.set(name, new WorkflowTracker(createTestState(), env));
+    }
+    return trackers.get(name);
+  };
+
+  const namespace = {
+    trackers,
+    idFromName: (name: string) => ({ name, toString: () => name }),
+    get: (id: { name: string }) => ({
+      fetch: (request: Request) => getTracker(id.name).fetch(request),
+    }),
+  };
+
+  return namespace as unknown as TestTrackerNamespace;
+}
@@ -0,0 +1,221 @@
+// test/service/archive.test.ts
+import {
+  ArchivedRunDocument,
+  archiveRun,
+  hydrateArchivedRuns,
+} from "../../src/service/archive";
+import { purgeExpiredRuns } from "../../src/service/retention";
+import { loadRunDetails } from "../../src/service/query";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+
+const RUN_ID = "run-archived";
+const ARCHIVE_KEY = `runs/default/${RUN_ID}.json.gz`;
+
+async function gunzip(body: Uint8Array): Promise<any> {
+  const stream = new Blob([body])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+
+  return JSON.parse(await new Response(stream).text());
+}
+
+async function getRun(env: TestEnv, id: string): Promise<Record<string, any>> {
+  return env.DB.prepare("SELECT * FROM workflow_runs WHERE id = ?")
+    .bind(id)
+    .first();
+}
+
+describe("run archive", () => {
+  let env: TestEnv;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+
+    const workflowId = await insertRow(env, "workflow", { name: "orders" });
+    const finishedAt = new Date(Date.now() - 60 * 86400000).toISOString();
+
+    for (const id of [RUN_ID, "run-live"]) {
+      await insertRow(env, "workflow_runs", {
+        id,
+        workflow_id: workflowId,
+        status: "Completed",
+        input_params: JSON.stringify({ orderId: id }),
+        output_result: JSON.stringify({ shipped: true }),
+        created_at: finishedAt,
+        completed_at: id === RUN_ID ? finishedAt : new Date().toISOString(),
+      });
+
+      const stepId = await insertRow(env, "workflow_steps", {
+        workflow_run_id: id,
+        step_name: "charge",
+        status: "Completed",
+        step_index: 0,
+      });
+      await insertRow(env, "workflow_steps", {
+        workflow_run_id: id,
+        step_name: "ship",
+        status: "Completed",
+        step_index: 1,
+      });
+      await insertRow(env, "workflow_step_retries", {
+        workflow_step_id: stepId,
+        retry_count: 1,
+        retry_at: finishedAt,
+        last_error: "card declined",
+      });
+    }
+
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("archiveRun", () => {
+    it("writes the run, its steps and their retries as gzip JSON", async () => {
+      const run = await getRun(env, RUN_ID);
+
+      const key = await archiveRun(run, env);
+
+      expect(key).toBe(ARCHIVE_KEY);
+
+      const stored = env.ARCHIVE_BUCKET.objects.get(key);
+      expect(stored.httpMetadata).toEqual({
+        contentType: "application/json",
+        contentEncoding: "gzip",
+      });
+      expect(stored.customMetadata).toEqual({
+        runId: RUN_ID,
+        tenantId: "default",
+        status: "Completed",
+      });
+
+      const document: ArchivedRunDocument = await gunzip(stored.body);
+      expect(document.version).toBe(1);
+      expect(document.run).toEqual(run);
+      expect(document.steps.map((step) => step.step_name)).toEqual([
+        "charge",
+        "ship",
+      ]);
+      expect(document.steps[0].retries).toEqual([
+        expect.objectContaining({ retry_count: 1, last_error: "card declined" }),
+      ]);
+      expect(document.steps[1].retries).toEqual([]);
+
+      // The D1 rows are left for the caller to replace
+      const steps = await env.DB.prepare(
+        "SELECT COUNT(*) AS count FROM workflow_steps WHERE workflow_run_id = ?",
+      )
+        .bind(RUN_ID)
+        .first("count");
+      expect(steps).toBe(2);
+    });
+
+    it("leaves a stub row when a retention purge archives the run", async () => {
+      const report = await purgeExpiredRuns({ Completed: 30 }, env, {
+        action: "archive",
+      });
+
+      expect(report).toMatchObject({ runs: 1, steps: 2, retries: 1 });
+      expect(env.ARCHIVE_BUCKET.objects.has(ARCHIVE_KEY)).toBe(true);
+
+      const stub = await getRun(env, RUN_ID);
+      expect(stub).toMatchObject({
+        status: "Completed",
+        archive_key: ARCHIVE_KEY,
+        input_params: "{}",
+        output_result: "{}",
+        metadata: "{}",
+      });
+      expect(stub.archived_at).toBeTruthy();
+
+      const steps = await env.DB.prepare(
+        "SELECT workflow_run_id FROM workflow_steps",
+      ).all();
+      expect(steps.results.map((step) => step.workflow_run_id)).toEqual([
+        "run-live",
+        "run-live",
+      ]);
+
+      // Runs that haven't expired are untouched
+      expect((await getRun(env, "run-live")).archived_at).toBeNull();
+    });
+  });
+
+  describe("hydrateArchivedRuns", () => {
+    beforeEach(async () => {
+      await purgeExpiredRuns({ Completed: 30 }, env, { action: "archive" });
+    });
+
+    it("restores archived runs from the bucket", async () => {
+      const stub = await getRun(env, RUN_ID);
+      const live = await getRun(env, "run-live");
+
+      const [restored, untouched] = await hydrateArchivedRuns(
+        [stub, live],
+        env,
+      );
+
+      expect(restored).toMatchObject({
+        id: RUN_ID,
+        input_params: JSON.stringify({ orderId: RUN_ID }),
+        output_result: JSON.stringify({ shipped: true }),
+        archived_at: stub.archived_at,
+        archive_key: ARCHIVE_KEY,
+      });
+      expect(restored.steps).toHaveLength(2);
+      expect(restored.steps[0].retries).toHaveLength(1);
+      expect(untouched).toBe(live);
+    });
+
+    it("falls back to the stub when the archived document is missing", async () => {
+      env.ARCHIVE_BUCKET.objects.delete(ARCHIVE_KEY);
+      const stub = await getRun(env, RUN_ID);
+
+      const [run] = await hydrateArchivedRuns([stub], env);
+
+      expect(run).toBe(stub);
+      expect(console.error).toHaveBeenCalledWith(
+        `Archived run ${RUN_ID} not found in archive bucket`,
+      );
+    });
+  });
+
+  describe("loadRunDetails", () => {
+    beforeEach(async () => {
+      await purgeExpiredRuns({ Completed: 30 }, env, { action: "archive" });
+    });
+
+    it("attaches archived steps without retries for include=steps", async () => {
+      const runs = [await getRun(env, RUN_ID), await getRun(env, "run-live")];
+
+      const [archived, live] = await loadRunDetails(runs, "steps", env);
+
+      expect(archived.input_params).toBe(JSON.stringify({ orderId: RUN_ID }));
+      expect(archived.steps.map((step) => step.step_name)).toEqual([
+        "charge",
+        "ship",
+      ]);
+      expect(live.steps.map((step) => step.step_name)).toEqual([
+        "charge",
+        "ship",
+      ]);
+      for (const step of [...archived.steps, ...live.steps]) {
+        expect(step).not.toHaveProperty("retries");
+      }
+    });
+
+    it("attaches retries for include=steps+retries", async () => {
+      const [archived] = await loadRunDetails(
+        [await getRun(env, RUN_ID)],
+        "steps+retries",
+        env,
+      );
+
+      expect(archived.steps[0].retries).toEqual([
+        expect.objectContaining({ last_error: "card declined" }),
+      ]);
+    });
+  });
+});
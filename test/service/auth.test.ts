@@ -0,0 +1,503 @@
+// test/service/auth.test.ts
+import {
+  apiKeyVerifier,
+  authenticateRequest,
+  createWebSocketToken,
+  hmacVerifier,
+  jwtVerifier,
+  principalHasScope,
+  verifyWebSocketToken,
+} from "../../src/service/auth";
+import { ServiceError } from "../../src/service/errors";
+import { createApiKey, revokeApiKey } from "../../src/service/keys";
+import { AuthVerifier } from "../../src/service/types";
+import {
+  base64UrlEncode,
+  hmacSha256,
+  sha256Hex,
+  toHex,
+} from "../../src/utils/crypto";
+import { createTestEnv, TestEnv } from "../helpers/env";
+
+const HMAC_SECRET = "hmac-secret";
+const JWT_SECRET = "jwt-secret";
+const URL = "https://flowflare.test/api/workflows?limit=5";
+const BODY = JSON.stringify({ status: "Running" });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+async function signedRequest(
+  headers: { timestamp?: number; nonce?: string | null } = {},
+): Promise<Request> {
+  const timestamp = String(headers.timestamp ?? now());
+  const nonce = headers.nonce === undefined ? "nonce-1" : headers.nonce;
+  const signature = toHex(
+    await hmacSha256(
+      HMAC_SECRET,
+      `${timestamp}\n${nonce}\nPOST\n/api/workflows?limit=5\n${await sha256Hex(BODY)}`,
+    ),
+  );
+
+  return new Request(URL, {
+    method: "POST",
+    headers: {
+      "X-Signature": signature,
+      "X-Signature-Timestamp": timestamp,
+      ...(nonce !== null ? { "X-Signature-Nonce": nonce } : {}),
+    },
+    body: BODY,
+  });
+}
+
+async function bearerRequest(claims: Record<string, any>): Promise<Request> {
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signature = base64UrlEncode(
+    await hmacSha256(JWT_SECRET, `${header}.${payload}`),
+  );
+
+  return bearer(`${header}.${payload}.${signature}`);
+}
+
+function bearer(token: string): Request {
+  return new Request(URL, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe("auth verifiers", () => {
+  let env: TestEnv;
+
+  beforeEach(async () => {
+    env = await createTestEnv({
+      AUTH_HMAC_SECRET: HMAC_SECRET,
+      AUTH_JWT_SECRET: JWT_SECRET,
+    });
+  });
+
+  describe("apiKeyVerifier", () => {
+    const verifier = apiKeyVerifier();
+
+    const keyRequest = (key?: string) =>
+      new Request(URL, { headers: key ? { "X-API-Key": key } : {} });
+
+    it("accepts a key with its scopes and tenant", async () => {
+      const { key, apiKey } = await createApiKey(
+        { name: "acme-reader", scopes: ["read"], tenantId: "acme" },
+        env,
+      );
+
+      expect(await verifier.verify(keyRequest(key), env)).toMatchObject({
+        method: "apiKey",
+        subject: "acme-reader",
+        scopes: ["read"],
+        tenantId: "acme",
+        apiKey: { id: apiKey.id },
+      });
+    });
+
+    it("rejects missing, unknown and revoked keys", async () => {
+      const { key, apiKey } = await createApiKey(
+        { name: "reader", scopes: ["read"] },
+        env,
+      );
+      await revokeApiKey(apiKey.id, env);
+
+      for (const request of [
+        keyRequest(),
+        keyRequest("ffk_unknown"),
+        keyRequest(key),
+      ]) {
+        expect(await verifier.verify(request, env)).toBeNull();
+      }
+    });
+  });
+
+  describe("hmacVerifier", () => {
+    const verifier = hmacVerifier({ scopes: ["read"] });
+
+    it("accepts a signed request", async () => {
+      const principal = await verifier.verify(await signedRequest(), env);
+
+      expect(principal).toEqual({
+        method: "hmac",
+        subject: "AUTH_HMAC_SECRET",
+        scopes: ["read"],
+        tenantId: undefined,
+      });
+    });
+
+    it("rejects a replayed nonce", async () => {
+      expect(await verifier.verify(await signedRequest(), env)).not.toBeNull();
+      expect(await verifier.verify(await signedRequest(), env)).toBeNull();
+      expect(
+        await verifier.verify(await signedRequest({ nonce: "nonce-2" }), env),
+      ).not.toBeNull();
+    });
+
+    it("rejects a request without a nonce", async () => {
+      const principal = await verifier.verify(
+        await signedRequest({ nonce: null }),
+        env,
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("rejects a timestamp outside the window", async () => {
+      const principal = await verifier.verify(
+        await signedRequest({ timestamp: now() - 301 }),
+        env,
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("rejects a nonce the signature doesn't cover", async () => {
+      const request = await signedRequest();
+      request.headers.set("X-Signature-Nonce", "nonce-2");
+
+      expect(await verifier.verify(request, env)).toBeNull();
+    });
+
+    it("rejects a body the signature doesn't cover", async () => {
+      const signed = await signedRequest();
+      const request = new Request(signed, {
+        body: JSON.stringify({ status: "Completed" }),
+      });
+
+      expect(await verifier.verify(request, env)).toBeNull();
+    });
+
+    it("rejects requests when its secret isn't set", async () => {
+      delete env.AUTH_HMAC_SECRET;
+
+      expect(await verifier.verify(await signedRequest(), env)).toBeNull();
+    });
+
+    it("binds signed requests to its tenant", async () => {
+      const principal = await hmacVerifier({ tenantId: "acme" }).verify(
+        await signedRequest(),
+        env,
+      );
+
+      expect(principal).toMatchObject({ tenantId: "acme", scopes: undefined });
+    });
+  });
+
+  describe("jwtVerifier", () => {
+    it("accepts a token that hasn't expired", async () => {
+      const principal = await jwtVerifier().verify(
+        await bearerRequest({ sub: "dashboard", exp: now() + 60 }),
+        env,
+      );
+
+      expect(principal).toMatchObject({ method: "jwt", subject: "dashboard" });
+    });
+
+    it("rejects an expired token", async () => {
+      const principal = await jwtVerifier().verify(
+        await bearerRequest({ sub: "dashboard", exp: now() - 120 }),
+        env,
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("rejects a token without exp", async () => {
+      const principal = await jwtVerifier().verify(
+        await bearerRequest({ sub: "dashboard" }),
+        env,
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("accepts a token without exp that is younger than maxAge", async () => {
+      const verifier = jwtVerifier({ maxAge: 300 });
+
+      expect(
+        await verifier.verify(
+          await bearerRequest({ sub: "dashboard", iat: now() - 60 }),
+          env,
+        ),
+      ).toMatchObject({ subject: "dashboard" });
+      expect(
+        await verifier.verify(
+          await bearerRequest({ sub: "dashboard", iat: now() - 600 }),
+          env,
+        ),
+      ).toBeNull();
+      expect(
+        await verifier.verify(await bearerRequest({ sub: "dashboard" }), env),
+      ).toBeNull();
+    });
+
+    it("rejects a token signed with another secret", async () => {
+      const principal = await jwtVerifier({ secretVar: "OTHER_SECRET" }).verify(
+        await bearerRequest({ sub: "dashboard", exp: now() + 60 }),
+        { ...env, OTHER_SECRET: "other-secret" },
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("reads scopes and the tenant from claims", async () => {
+      const verifier = jwtVerifier({
+        scopeClaim: "scope",
+        tenantClaim: "org",
+      });
+
+      const principal = await verifier.verify(
+        await bearerRequest({
+          sub: "dashboard",
+          exp: now() + 60,
+          scope: "read openid track",
+          org: "acme",
+        }),
+        env,
+      );
+
+      expect(principal).toMatchObject({
+        scopes: ["read", "track"],
+        tenantId: "acme",
+      });
+    });
+
+    it("checks the issuer and audience", async () => {
+      const verifier = jwtVerifier({
+        issuer: "https://auth.test",
+        audience: "flowflare",
+      });
+      const claims = { sub: "dashboard", exp: now() + 60 };
+
+      expect(
+        await verifier.verify(
+          await bearerRequest({
+            ...claims,
+            iss: "https://auth.test",
+            aud: ["other", "flowflare"],
+          }),
+          env,
+        ),
+      ).not.toBeNull();
+      expect(
+        await verifier.verify(
+          await bearerRequest({
+            ...claims,
+            iss: "https://evil.test",
+            aud: "flowflare",
+          }),
+          env,
+        ),
+      ).toBeNull();
+      expect(
+        await verifier.verify(
+          await bearerRequest({
+            ...claims,
+            iss: "https://auth.test",
+            aud: "other",
+          }),
+          env,
+        ),
+      ).toBeNull();
+    });
+
+    it("rejects a token that isn't valid yet", async () => {
+      const principal = await jwtVerifier().verify(
+        await bearerRequest({
+          sub: "dashboard",
+          exp: now() + 600,
+          nbf: now() + 300,
+        }),
+        env,
+      );
+
+      expect(principal).toBeNull();
+    });
+
+    it("rejects algorithms it doesn't accept", async () => {
+      const header = base64UrlEncode(JSON.stringify({ alg: "none" }));
+      const payload = base64UrlEncode(
+        JSON.stringify({ sub: "dashboard", exp: now() + 60 }),
+      );
+
+      expect(
+        await jwtVerifier().verify(bearer(`${header}.${payload}.`), env),
+      ).toBeNull();
+      expect(
+        await jwtVerifier({ algorithms: ["RS256"] }).verify(
+          await bearerRequest({ sub: "dashboard", exp: now() + 60 }),
+          env,
+        ),
+      ).toBeNull();
+    });
+
+    it("verifies RS256 tokens with the key from the JWKS", async () => {
+      const { privateKey, publicKey } = (await crypto.subtle.generateKey(
+        {
+          name: "RSASSA-PKCS1-v1_5",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        true,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+      const jwk = {
+        ...((await crypto.subtle.exportKey("jwk", publicKey)) as JsonWebKey),
+        kid: "k1",
+      } as JsonWebKey;
+
+      const sign = async (kid: string) => {
+        const header = base64UrlEncode(JSON.stringify({ alg: "RS256", kid }));
+        const payload = base64UrlEncode(
+          JSON.stringify({ sub: "dashboard", exp: now() + 60 }),
+        );
+        const signature = await crypto.subtle.sign(
+          "RSASSA-PKCS1-v1_5",
+          privateKey,
+          new TextEncoder().encode(`${header}.${payload}`),
+        );
+
+        return bearer(`${header}.${payload}.${base64UrlEncode(signature)}`);
+      };
+
+      const verifier = jwtVerifier({ jwks: { keys: [jwk] } });
+
+      expect(await verifier.verify(await sign("k1"), env)).toMatchObject({
+        subject: "dashboard",
+      });
+      expect(await verifier.verify(await sign("k2"), env)).toBeNull();
+      expect(
+        await verifier.verify(
+          await bearerRequest({ sub: "dashboard", exp: now() + 60 }),
+          env,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("authenticateRequest", () => {
+    const verifierFor = (name: string, subject?: string): AuthVerifier => ({
+      name,
+      verify: jest.fn(async () => (subject ? { method: name, subject } : null)),
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("uses the first verifier that accepts the request", async () => {
+      const verifiers = [
+        verifierFor("none"),
+        verifierFor("first", "a"),
+        verifierFor("second", "b"),
+      ];
+
+      expect(
+        await authenticateRequest(new Request(URL), env, verifiers),
+      ).toEqual({ method: "first", subject: "a" });
+      expect(verifiers[2].verify).not.toHaveBeenCalled();
+    });
+
+    it("skips verifiers that fail", async () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      const failing: AuthVerifier = {
+        name: "jwks",
+        verify: async () => {
+          throw new Error("JWKS unavailable");
+        },
+      };
+
+      expect(
+        await authenticateRequest(new Request(URL), env, [
+          failing,
+          verifierFor("apiKey", "reader"),
+        ]),
+      ).toMatchObject({ subject: "reader" });
+      expect(error).toHaveBeenCalledWith(
+        "Auth verifier jwks failed: JWKS unavailable",
+      );
+      expect(
+        await authenticateRequest(new Request(URL), env, [failing]),
+      ).toBeNull();
+    });
+  });
+
+  describe("principalHasScope", () => {
+    it("grants every scope to callers without scopes and to admins", () => {
+      expect(principalHasScope({ method: "jwt", subject: "a" }, "start")).toBe(
+        true,
+      );
+      expect(
+        principalHasScope(
+          { method: "jwt", subject: "a", scopes: ["admin"] },
+          "start",
+        ),
+      ).toBe(true);
+    });
+
+    it("only grants listed scopes otherwise", () => {
+      const principal = {
+        method: "jwt",
+        subject: "a",
+        scopes: ["read" as const],
+      };
+
+      expect(principalHasScope(principal, "read")).toBe(true);
+      expect(principalHasScope(principal, "track")).toBe(false);
+    });
+  });
+
+  describe("WebSocket tokens", () => {
+    const principal = { method: "jwt", subject: "dashboard", tenantId: "t-1" };
+
+    it("round-trips a token signed with AUTH_TOKEN_SECRET", async () => {
+      env.AUTH_TOKEN_SECRET = "token-secret";
+
+      const { token } = await createWebSocketToken(principal, 60, env);
+
+      expect(await verifyWebSocketToken(token, env)).toEqual({
+        method: "websocketToken",
+        subject: "dashboard",
+        tenantId: "t-1",
+      });
+    });
+
+    it("rejects expired and tampered tokens", async () => {
+      env.AUTH_TOKEN_SECRET = "token-secret";
+
+      const { token } = await createWebSocketToken(principal, 60, env);
+      const [, signature] = token.split(".");
+      const tampered = base64UrlEncode(
+        JSON.stringify({ sub: "dashboard", tid: "t-2", exp: now() + 60 }),
+      );
+
+      expect(
+        await verifyWebSocketToken(`${tampered}.${signature}`, env),
+      ).toBeNull();
+      expect(await verifyWebSocketToken(null, env)).toBeNull();
+      expect(await verifyWebSocketToken("not-a-token", env)).toBeNull();
+
+      jest.useFakeTimers({ now: Date.now() + 61 * 1000 });
+      try {
+        expect(await verifyWebSocketToken(token, env)).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("doesn't fall back to SERVICE_API_KEY", async () => {
+      const issue = createWebSocketToken(principal, 60, env);
+
+      await expect(issue).rejects.toThrow(ServiceError);
+      await expect(issue).rejects.toMatchObject({ status: 500 });
+
+      // A token signed with the API key isn't accepted either
+      env.AUTH_TOKEN_SECRET = env.SERVICE_API_KEY;
+      const { token } = await createWebSocketToken(principal, 60, env);
+      env.AUTH_TOKEN_SECRET = "token-secret";
+
+      expect(await verifyWebSocketToken(token, env)).toBeNull();
+    });
+  });
+});
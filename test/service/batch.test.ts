@@ -0,0 +1,127 @@
+// test/service/batch.test.ts
+import { createTestEnv, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("batch starts", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let create: jest.Mock;
+
+  const startWorkflows = (workflows: Record<string, any>[]) =>
+    callService(service, env, "/service/start-workflows", { workflows });
+
+  const getWorkflows = async () =>
+    (await env.DB.prepare("SELECT * FROM workflow ORDER BY name, ref_id").all())
+      .results;
+
+  beforeEach(async () => {
+    // Instances for params with fail: true can't be created
+    create = jest.fn(async ({ payload }) => {
+      if (payload.fail) {
+        throw new Error("Workflows is unavailable");
+      }
+    });
+
+    env = await createTestEnv({ ORDERS: { create } });
+    service = createTestService({
+      definitions: [{ name: "orders" }, { name: "refunds" }],
+    });
+  });
+
+  it("reports failed dispatches per item", async () => {
+    const response = await startWorkflows([
+      { workflowType: "orders", params: {}, ref_id: "o-1", ref_type: "order" },
+      {
+        workflowType: "orders",
+        params: { fail: true },
+        ref_id: "o-2",
+        ref_type: "order",
+      },
+      { params: {} },
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ started: 1, failed: 2 });
+
+    const [started, undispatched, invalid] = response.body.results;
+    expect(started).toMatchObject({ index: 0, success: true });
+    expect(undispatched).toMatchObject({
+      index: 1,
+      success: false,
+      error: "Workflows is unavailable",
+    });
+    expect(invalid).toMatchObject({ index: 2, success: false });
+
+    const runs = await env.DB.prepare(
+      "SELECT id, status FROM workflow_runs",
+    ).all();
+    expect(
+      Object.fromEntries(runs.results.map((run) => [run.id, run.status])),
+    ).toEqual({
+      [started.workflowId]: "Pending",
+      [undispatched.workflowId]: "Errored",
+    });
+
+    // The workflow of the failed run doesn't stay Running
+    expect(
+      (await getWorkflows()).map((workflow) => [
+        workflow.ref_id,
+        workflow.status,
+      ]),
+    ).toEqual([
+      ["o-1", "Running"],
+      ["o-2", "Errored"],
+    ]);
+  });
+
+  it("doesn't mark the workflow errored when a later run was dispatched", async () => {
+    const response = await startWorkflows([
+      {
+        workflowType: "orders",
+        params: { fail: true },
+        ref_id: "o-1",
+        ref_type: "order",
+      },
+      { workflowType: "orders", params: {}, ref_id: "o-1", ref_type: "order" },
+    ]);
+
+    expect(response.body).toMatchObject({ started: 1, failed: 1 });
+    expect(await getWorkflows()).toEqual([
+      expect.objectContaining({
+        status: "Running",
+        last_run_id: response.body.results[1].workflowId,
+        runs_count: 2,
+      }),
+    ]);
+  });
+
+  it("shares the workflow row between simultaneous batches for a new ref", async () => {
+    const batch = [
+      { workflowType: "orders", params: {}, ref_id: "o-1", ref_type: "order" },
+      { workflowType: "orders", params: {}, ref_id: "o-1", ref_type: "order" },
+    ];
+
+    const responses = await Promise.all([
+      startWorkflows(batch),
+      startWorkflows(batch),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ started: 2, failed: 0 });
+    }
+
+    const workflows = await getWorkflows();
+    expect(workflows).toHaveLength(1);
+    expect(workflows[0].runs_count).toBe(4);
+
+    const runs = await env.DB.prepare(
+      "SELECT workflow_id FROM workflow_runs",
+    ).all();
+    expect(runs.results).toHaveLength(4);
+    expect(
+      runs.results.every((run) => run.workflow_id === workflows[0].id),
+    ).toBe(true);
+    expect(create).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,183 @@
+// test/service/concurrency.test.ts
+import { WorkflowTracker } from "../../src/service/tracker";
+import { createTestEnv, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+import { createTestState } from "../helpers/tracker";
+
+describe("concurrency policies", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let create: jest.Mock;
+  let terminate: jest.Mock;
+
+  const start = (workflowType: string, ref_id: string, extra = {}) =>
+    callService(service, env, "/service/start-workflow", {
+      workflowType,
+      params: {},
+      ref_id,
+      ref_type: "order",
+      ...extra,
+    });
+
+  const getRun = (id: string) =>
+    env.DB.prepare("SELECT * FROM workflow_runs WHERE id = ?").bind(id).first();
+
+  const dispatchedIds = () =>
+    create.mock.calls.map(([instance]) => instance.id as string);
+
+  beforeEach(async () => {
+    create = jest.fn().mockResolvedValue(undefined);
+    terminate = jest.fn().mockResolvedValue(undefined);
+    const binding = {
+      create,
+      get: jest.fn().mockResolvedValue({ terminate }),
+    };
+
+    env = await createTestEnv({
+      EXPORTS: binding,
+      BUILDS: binding,
+      ORDERS: binding,
+    });
+    service = createTestService({
+      definitions: [
+        { name: "exports", concurrency: { perRef: "reject" } },
+        { name: "builds", concurrency: { maxConcurrent: 1 } },
+        {
+          name: "orders",
+          concurrency: { perRef: "cancel-previous", maxConcurrent: 1 },
+        },
+      ],
+    });
+
+    jest.spyOn(WorkflowTracker.prototype, "broadcastUpdate");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("lets only one of two simultaneous starts for a ref through", async () => {
+    const responses = await Promise.all([
+      start("exports", "o-1"),
+      start("exports", "o-1"),
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([
+      200, 409,
+    ]);
+
+    const runs = await env.DB.prepare("SELECT id FROM workflow_runs").all();
+    expect(runs.results).toHaveLength(1);
+    expect(dispatchedIds()).toEqual([runs.results[0].id]);
+  });
+
+  it("queues simultaneous starts over the limit", async () => {
+    const responses = await Promise.all([
+      start("builds", "b-1"),
+      start("builds", "b-2"),
+      start("builds", "b-3"),
+    ]);
+
+    expect(responses.every((response) => response.status === 200)).toBe(true);
+    expect(responses.filter((response) => response.body.queued)).toHaveLength(
+      2,
+    );
+
+    const statuses = await env.DB.prepare(
+      "SELECT status FROM workflow_runs ORDER BY status",
+    ).all();
+    expect(statuses.results.map((run) => run.status)).toEqual([
+      "Pending",
+      "Queued",
+      "Queued",
+    ]);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("broadcasts and syncs runs cancelled by cancel-previous", async () => {
+    const previous = await start("orders", "o-1");
+    const waiting = await start("orders", "o-2");
+    expect(waiting.body.queued).toBe(true);
+
+    const replacement = await start("orders", "o-1");
+
+    const cancelled = await getRun(previous.body.workflowId);
+    expect(cancelled.status).toBe("Cancelled");
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect(WorkflowTracker.prototype.broadcastUpdate).toHaveBeenCalledWith({
+      type: "run_update",
+      run_update: {
+        id: previous.body.workflowId,
+        status: "Cancelled",
+        completed_at: cancelled.completed_at,
+      },
+    });
+
+    // Syncing the cancelled run freed its slot for the queued run, so the
+    // replacement now waits behind it
+    expect(dispatchedIds()).toEqual([
+      previous.body.workflowId,
+      waiting.body.workflowId,
+    ]);
+    expect(replacement.body.queued).toBe(true);
+    expect((await getRun(replacement.body.workflowId)).status).toBe("Queued");
+  });
+
+  it("queues a delayed run whose slot is taken when it comes due", async () => {
+    const active = await start("exports", "o-1");
+    const delayed = await start("exports", "o-1", {
+      startAt: new Date(Date.now() + 3600000).toISOString(),
+    });
+    expect(delayed.body.scheduledAt).toBeTruthy();
+
+    await env.DB.prepare(
+      "UPDATE workflow_runs SET scheduled_at = ? WHERE id = ?",
+    )
+      .bind(new Date(Date.now() - 1000).toISOString(), delayed.body.workflowId)
+      .run();
+
+    await new WorkflowTracker(createTestState(), env).alarm();
+
+    const queued = await getRun(delayed.body.workflowId);
+    expect(queued.status).toBe("Queued");
+    expect(queued.dispatched_at).toBeNull();
+    expect(dispatchedIds()).toEqual([active.body.workflowId]);
+    expect(WorkflowTracker.prototype.broadcastUpdate).toHaveBeenCalledWith({
+      type: "run_update",
+      run_update: { id: delayed.body.workflowId, status: "Queued" },
+    });
+
+    // It is released like other queued runs once the active run ends
+    const cancel = await callService(service, env, "/service/cancel-workflow", {
+      workflowId: active.body.workflowId,
+    });
+    expect(cancel.status).toBe(200);
+
+    const released = await getRun(delayed.body.workflowId);
+    expect(released.status).toBe("Pending");
+    expect(released.dispatched_at).toBeTruthy();
+    expect(dispatchedIds()).toEqual([
+      active.body.workflowId,
+      delayed.body.workflowId,
+    ]);
+  });
+
+  it("dispatches a delayed run whose slot is free when it comes due", async () => {
+    const delayed = await start("exports", "o-1", {
+      startAt: new Date(Date.now() + 3600000).toISOString(),
+    });
+
+    await env.DB.prepare(
+      "UPDATE workflow_runs SET scheduled_at = ? WHERE id = ?",
+    )
+      .bind(new Date(Date.now() - 1000).toISOString(), delayed.body.workflowId)
+      .run();
+
+    await new WorkflowTracker(createTestState(), env).alarm();
+
+    const run = await getRun(delayed.body.workflowId);
+    expect(run.status).toBe("Pending");
+    expect(run.dispatched_at).toBeTruthy();
+    expect(dispatchedIds()).toEqual([delayed.body.workflowId]);
+  });
+});
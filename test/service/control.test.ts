@@ -0,0 +1,176 @@
+// test/service/control.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("run control", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let instance: Record<string, jest.Mock>;
+  let workflowId: number;
+
+  const control = (action: string, runId: string) =>
+    callService(service, env, `/service/${action}-workflow`, {
+      workflowId: runId,
+    });
+
+  const sendUpdate = (data: Record<string, any>) =>
+    callService(service, env, "/api/workflows/update", {
+      type: "run_update",
+      run_update: data,
+    });
+
+  const getRun = () =>
+    env.DB.prepare("SELECT * FROM workflow_runs WHERE id = 'run-1'").first();
+
+  const getWorkflow = () =>
+    env.DB.prepare("SELECT * FROM workflow WHERE id = ?")
+      .bind(workflowId)
+      .first();
+
+  beforeEach(async () => {
+    instance = {
+      terminate: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn().mockResolvedValue(undefined),
+      resume: jest.fn().mockResolvedValue(undefined),
+    };
+    env = await createTestEnv({
+      ORDERS: {
+        create: jest.fn(),
+        get: jest.fn().mockResolvedValue(instance),
+      },
+    });
+    service = createTestService({ definitions: [{ name: "orders" }] });
+
+    workflowId = await insertRow(env, "workflow", {
+      tenant_id: "default",
+      name: "orders",
+      status: "Running",
+      ref_id: "o-1",
+      ref_type: "order",
+      last_run_id: "run-1",
+      runs_count: 1,
+    });
+    await insertRow(env, "workflow_runs", {
+      id: "run-1",
+      tenant_id: "default",
+      workflow_id: workflowId,
+      status: "Sleeping",
+      ref_id: "o-1",
+      ref_type: "order",
+      dispatched_at: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  describe("cancel", () => {
+    it("terminates the instance and marks the run and workflow cancelled", async () => {
+      const response = await control("cancel", "run-1");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        workflowId: "run-1",
+        status: "Cancelled",
+      });
+      expect(env.ORDERS.get).toHaveBeenCalledWith("run-1");
+      expect(instance.terminate).toHaveBeenCalled();
+
+      const run = await getRun();
+      expect(run.status).toBe("Cancelled");
+      expect(run.completed_at).toBeTruthy();
+      expect((await getWorkflow()).status).toBe("Cancelled");
+    });
+
+    it("ignores updates the workflow sends after it was cancelled", async () => {
+      await control("cancel", "run-1");
+
+      for (const status of ["Running", "Completed"]) {
+        const response = await sendUpdate({
+          id: "run-1",
+          status,
+          output_result: JSON.stringify({ charged: true }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.body.result).toEqual({ updated: false, id: "run-1" });
+      }
+
+      const run = await getRun();
+      expect(run.status).toBe("Cancelled");
+      expect(run.output_result).not.toContain("charged");
+      expect((await getWorkflow()).status).toBe("Cancelled");
+    });
+
+    it("cancels queued runs without touching an instance", async () => {
+      await env.DB.prepare(
+        "UPDATE workflow_runs SET status = 'Queued', dispatched_at = NULL",
+      ).run();
+
+      const response = await control("cancel", "run-1");
+
+      expect(response.status).toBe(200);
+      expect(env.ORDERS.get).not.toHaveBeenCalled();
+      expect((await getRun()).status).toBe("Cancelled");
+    });
+
+    it("doesn't cancel finished runs", async () => {
+      await env.DB.prepare(
+        "UPDATE workflow_runs SET status = 'Completed'",
+      ).run();
+
+      const response = await control("cancel", "run-1");
+
+      expect(response.status).toBe(409);
+      expect(instance.terminate).not.toHaveBeenCalled();
+      expect((await getRun()).status).toBe("Completed");
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("pauses the instance and resumes it in the status it was paused from", async () => {
+      const paused = await control("pause", "run-1");
+
+      expect(paused.status).toBe(200);
+      expect(instance.pause).toHaveBeenCalled();
+      expect(await getRun()).toMatchObject({
+        status: "Paused",
+        paused_from: "Sleeping",
+      });
+      expect((await getWorkflow()).status).toBe("Paused");
+
+      const resumed = await control("resume", "run-1");
+
+      expect(resumed.status).toBe(200);
+      expect(resumed.body.status).toBe("Sleeping");
+      expect(instance.resume).toHaveBeenCalled();
+      expect(await getRun()).toMatchObject({
+        status: "Sleeping",
+        paused_from: null,
+      });
+      expect((await getWorkflow()).status).toBe("Sleeping");
+    });
+
+    it("only resumes paused runs and only pauses running or sleeping runs", async () => {
+      expect((await control("resume", "run-1")).status).toBe(409);
+      expect(instance.resume).not.toHaveBeenCalled();
+
+      await control("pause", "run-1");
+
+      expect((await control("pause", "run-1")).status).toBe(409);
+      expect(instance.pause).toHaveBeenCalledTimes(1);
+    });
+
+    it("can cancel a paused run", async () => {
+      await control("pause", "run-1");
+
+      expect((await control("cancel", "run-1")).status).toBe(200);
+      expect((await getRun()).status).toBe("Cancelled");
+      expect((await control("resume", "run-1")).status).toBe(409);
+    });
+  });
+
+  it("reports unknown runs as not found", async () => {
+    for (const action of ["cancel", "pause", "resume"]) {
+      expect((await control(action, "run-2")).status).toBe(404);
+    }
+  });
+});
@@ -0,0 +1,224 @@
+// test/service/dashboard.test.ts
+import { verifyWebSocketToken } from "../../src/service/auth";
+import { DASHBOARD_CONTENT_SECURITY_POLICY } from "../../src/service/dashboard";
+import { createApiKey } from "../../src/service/keys";
+import {
+  createTestEnv,
+  insertRow,
+  TEST_API_KEY,
+  TestEnv,
+} from "../helpers/env";
+import { createTestContext, createTestService } from "../helpers/service";
+
+describe("dashboard", () => {
+  let env: TestEnv;
+
+  const request = (
+    service: Record<string, any>,
+    method: string,
+    path: string,
+    headers: Record<string, string> = {},
+  ): Promise<Response> =>
+    service.fetch(
+      new Request(`https://flowflare.test${path}`, { method, headers }),
+      env,
+      createTestContext(),
+    );
+
+  beforeEach(async () => {
+    env = await createTestEnv({ AUTH_TOKEN_SECRET: "token-secret" });
+  });
+
+  describe("page", () => {
+    it("isn't served unless enabled", async () => {
+      const response = await request(createTestService(), "GET", "/dashboard");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("is served without credentials, with a strict content policy", async () => {
+      const response = await request(
+        createTestService({ dashboard: true }),
+        "GET",
+        "/dashboard",
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe(
+        "text/html; charset=utf-8",
+      );
+      expect(response.headers.get("Content-Security-Policy")).toBe(
+        DASHBOARD_CONTENT_SECURITY_POLICY,
+      );
+      expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+
+      // The page holds no data: it signs in with a key in the browser
+      const html = await response.text();
+      expect(html).toContain('<form id="login"');
+      expect(html).not.toContain(TEST_API_KEY);
+    });
+
+    it("is served at its configured path with an escaped title", async () => {
+      const service = createTestService({
+        dashboard: { path: "/ops", title: "Ops <Acme>" },
+      });
+
+      expect((await request(service, "GET", "/dashboard")).status).toBe(404);
+
+      const response = await request(service, "GET", "/ops");
+      expect(await response.text()).toContain(
+        "<title>Ops &lt;Acme&gt;</title>",
+      );
+      expect((await request(service, "POST", "/ops")).status).toBe(405);
+    });
+  });
+
+  describe("endpoints", () => {
+    let service: Record<string, any>;
+
+    // The endpoints the dashboard calls, with the headers it sends
+    const callDashboardApi = async (
+      method: string,
+      path: string,
+      apiKey: string,
+      tenant?: string,
+    ) => {
+      const response = await request(service, method, path, {
+        "Content-Type": "application/json",
+        "X-API-Key": apiKey,
+        ...(tenant ? { "X-Tenant-Id": tenant } : {}),
+      });
+
+      return { status: response.status, body: (await response.json()) as any };
+    };
+
+    beforeEach(async () => {
+      service = createTestService({ dashboard: true });
+
+      for (const tenant of ["acme", "globex"]) {
+        const workflowId = await insertRow(env, "workflow", {
+          tenant_id: tenant,
+          name: "orders",
+        });
+        await insertRow(env, "workflow_runs", {
+          id: `run-${tenant}`,
+          tenant_id: tenant,
+          workflow_id: workflowId,
+          status: "Running",
+        });
+      }
+    });
+
+    it("require an API key", async () => {
+      for (const [method, path] of [
+        ["GET", "/v1/runs"],
+        ["GET", "/v1/runs/run-acme"],
+        ["POST", "/v1/runs/run-acme/cancel"],
+        ["POST", "/api/tracker-websocket/token"],
+      ]) {
+        for (const apiKey of ["", "wrong-key"]) {
+          const { status } = await callDashboardApi(method, path, apiKey);
+
+          expect([method, path, status]).toEqual([method, path, 401]);
+        }
+      }
+    });
+
+    it("list and show runs of the selected tenant only", async () => {
+      const runs = await callDashboardApi(
+        "GET",
+        "/v1/runs",
+        TEST_API_KEY,
+        "acme",
+      );
+
+      expect(runs.status).toBe(200);
+      expect(runs.body.data.map((run: any) => run.id)).toEqual(["run-acme"]);
+
+      expect(
+        (
+          await callDashboardApi(
+            "GET",
+            "/v1/runs/run-globex",
+            TEST_API_KEY,
+            "acme",
+          )
+        ).status,
+      ).toBe(404);
+      expect(
+        (
+          await callDashboardApi(
+            "POST",
+            "/v1/runs/run-globex/cancel",
+            TEST_API_KEY,
+            "acme",
+          )
+        ).status,
+      ).toBe(404);
+    });
+
+    it("keep tenant-bound keys to their tenant", async () => {
+      const { key } = await createApiKey(
+        { name: "acme-dashboard", scopes: ["read"], tenantId: "acme" },
+        env,
+      );
+
+      const runs = await callDashboardApi("GET", "/v1/runs", key);
+      expect(runs.body.data.map((run: any) => run.id)).toEqual(["run-acme"]);
+
+      const other = await callDashboardApi("GET", "/v1/runs", key, "globex");
+      expect(other.status).toBe(403);
+      expect(other.body.error.code).toBe("forbidden");
+    });
+
+    it("need the control scope to cancel runs", async () => {
+      const { key } = await createApiKey(
+        { name: "acme-dashboard", scopes: ["read"], tenantId: "acme" },
+        env,
+      );
+
+      const response = await callDashboardApi(
+        "POST",
+        "/v1/runs/run-acme/cancel",
+        key,
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("issue WebSocket tokens for the caller's tenant", async () => {
+      const { key } = await createApiKey(
+        { name: "acme-dashboard", scopes: ["read"], tenantId: "acme" },
+        env,
+      );
+
+      for (const [apiKey, tenant] of [
+        [key, undefined],
+        [TEST_API_KEY, "acme"],
+      ]) {
+        const response = await callDashboardApi(
+          "POST",
+          "/api/tracker-websocket/token",
+          apiKey,
+          tenant,
+        );
+
+        expect(response.status).toBe(200);
+        expect(
+          await verifyWebSocketToken(response.body.token, env),
+        ).toMatchObject({ tenantId: "acme" });
+      }
+
+      expect(
+        (
+          await callDashboardApi(
+            "POST",
+            "/api/tracker-websocket/token",
+            key,
+            "globex",
+          )
+        ).status,
+      ).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// test/service/delayed.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("delayed runs", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  const listDelayed = (body: Record<string, any> = {}) =>
+    callService(service, env, "/service/list-delayed-workflows", body);
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    const workflowId = await insertRow(env, "workflow", {
+      tenant_id: "default",
+      name: "orders",
+    });
+
+    for (let index = 0; index < 3; index++) {
+      await insertRow(env, "workflow_runs", {
+        id: `run-${index}`,
+        tenant_id: "default",
+        workflow_id: workflowId,
+        status: "Pending",
+        scheduled_at: `2030-01-0${3 - index}T09:00:00.000Z`,
+      });
+    }
+
+    await insertRow(env, "workflow_runs", {
+      id: "run-dispatched",
+      tenant_id: "default",
+      workflow_id: workflowId,
+      status: "Pending",
+      scheduled_at: "2024-01-01T09:00:00.000Z",
+      dispatched_at: "2024-01-01T09:00:00.000Z",
+    });
+  });
+
+  it("lists runs waiting for their start time, soonest first", async () => {
+    const response = await listDelayed();
+
+    expect(response.status).toBe(200);
+    expect(response.body.workflows.map((run: any) => run.id)).toEqual([
+      "run-2",
+      "run-1",
+      "run-0",
+    ]);
+  });
+
+  it("pages through the runs", async () => {
+    const response = await listDelayed({ limit: 2, offset: 1 });
+
+    expect(response.body.workflows.map((run: any) => run.id)).toEqual([
+      "run-1",
+      "run-0",
+    ]);
+  });
+
+  it("rejects invalid limits and offsets", async () => {
+    for (const [body, error] of [
+      [{ limit: 0 }, "limit must be a positive integer"],
+      [{ limit: "all" }, "limit must be a positive integer"],
+      [{ offset: -1 }, "offset must be a non-negative integer"],
+      [{ offset: 1.5 }, "offset must be a non-negative integer"],
+    ] as const) {
+      const response = await listDelayed(body);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(error);
+    }
+  });
+});
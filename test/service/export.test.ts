@@ -0,0 +1,330 @@
+// test/service/export.test.ts
+import { EXPORT_PAGE_SIZE } from "../../src/service/export";
+import { createApiKey } from "../../src/service/keys";
+import {
+  createTestEnv,
+  insertRow,
+  TEST_API_KEY,
+  TestEnv,
+} from "../helpers/env";
+import { createTestContext, createTestService } from "../helpers/service";
+
+describe("run exports", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let ordersId: number;
+  let refundsId: number;
+
+  /**
+   * Request an export and read the stream chunk by chunk
+   */
+  const exportRuns = async (
+    body: Record<string, any> = {},
+    apiKey = TEST_API_KEY,
+  ) => {
+    const response: Response = await service.fetch(
+      new Request("https://flowflare.test/service/export", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-API-Key": apiKey,
+          ...(apiKey === TEST_API_KEY ? { "X-Tenant-Id": "acme" } : {}),
+        },
+        body: JSON.stringify(body),
+      }),
+      env,
+      createTestContext(),
+    );
+
+    const chunks: string[] = [];
+    if (response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      for (
+        let read = await reader.read();
+        !read.done;
+        read = await reader.read()
+      ) {
+        chunks.push(decoder.decode(read.value));
+      }
+    }
+
+    return { response, chunks, text: chunks.join("") };
+  };
+
+  const ndjsonIds = (text: string) =>
+    text
+      .trim()
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line).id);
+
+  const insertRun = (run: Record<string, any>) =>
+    insertRow(env, "workflow_runs", {
+      tenant_id: "acme",
+      workflow_id: ordersId,
+      status: "Completed",
+      ...run,
+    });
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    ordersId = await insertRow(env, "workflow", {
+      tenant_id: "acme",
+      name: "orders",
+    });
+    refundsId = await insertRow(env, "workflow", {
+      tenant_id: "acme",
+      name: "refunds",
+    });
+  });
+
+  describe("formats", () => {
+    beforeEach(async () => {
+      await insertRun({
+        id: "run-1",
+        ref_id: "o-1",
+        ref_type: "order",
+        created_at: "2024-01-01T00:00:00.000Z",
+        input_params: JSON.stringify({ note: 'say "hi", then leave' }),
+      });
+      await insertRun({
+        id: "run-2",
+        workflow_id: refundsId,
+        status: "Running",
+        created_at: "2024-01-02T00:00:00.000Z",
+      });
+
+      const charge = await insertRow(env, "workflow_steps", {
+        tenant_id: "acme",
+        workflow_run_id: "run-1",
+        step_name: "charge",
+        status: "Completed",
+        step_index: 0,
+      });
+      await insertRow(env, "workflow_steps", {
+        tenant_id: "acme",
+        workflow_run_id: "run-1",
+        step_name: "ship",
+        status: "Completed",
+        step_index: 1,
+      });
+      for (const [retry_count, last_error] of [
+        [1, "card declined"],
+        [2, "gateway timeout"],
+      ] as const) {
+        await insertRow(env, "workflow_step_retries", {
+          workflow_step_id: charge,
+          retry_count,
+          retry_at: "2024-01-01T00:00:01.000Z",
+          last_error,
+        });
+      }
+    });
+
+    it("streams NDJSON runs oldest first with steps and retries nested", async () => {
+      const { response, text } = await exportRuns();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+      expect(response.headers.get("Content-Disposition")).toMatch(
+        /^attachment; filename="runs-\d{4}-\d{2}-\d{2}\.ndjson"$/,
+      );
+
+      const [first, second] = text
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(first).toMatchObject({ id: "run-1", workflow_type: "orders" });
+      expect(
+        first.steps.map((step: any) => [
+          step.step_name,
+          step.retries.map((retry: any) => retry.last_error),
+        ]),
+      ).toEqual([
+        ["charge", ["card declined", "gateway timeout"]],
+        ["ship", []],
+      ]);
+      expect(second).toMatchObject({
+        id: "run-2",
+        workflow_type: "refunds",
+        steps: [],
+      });
+    });
+
+    it("streams CSV with one row per step", async () => {
+      const { response, text } = await exportRuns({ format: "csv" });
+
+      expect(response.headers.get("Content-Type")).toBe(
+        "text/csv; charset=utf-8",
+      );
+
+      const rows = text.split("\r\n");
+      expect(rows[0]).toBe(
+        "run_id,workflow_type,status,ref_id,ref_type,workflow_version,created_at,updated_at,completed_at,input_params,output_result,metadata,step_id,step_index,step_name,step_status,step_started_at,step_completed_at,step_retries,step_last_error",
+      );
+      expect(rows).toHaveLength(5);
+      expect(rows[4]).toBe("");
+
+      // Values with commas and quotes are quoted, and quotes doubled
+      expect(rows[1]).toContain('"{""note"":""say \\""hi\\"", then leave""}"');
+      expect(rows[1]).toMatch(/,charge,Completed,,,2,gateway timeout$/);
+      expect(rows[2]).toMatch(/,ship,Completed,,,0,$/);
+
+      // Runs without steps get a single row with empty step columns
+      expect(rows[3]).toMatch(/^run-2,refunds,Running,/);
+      expect(rows[3]).toMatch(/,,,,,,,,$/);
+    });
+
+    it("accepts the shared run filter and sort order", async () => {
+      expect(ndjsonIds((await exportRuns({ sortOrder: "desc" })).text)).toEqual(
+        ["run-2", "run-1"],
+      );
+      expect(
+        ndjsonIds(
+          (
+            await exportRuns({
+              status: ["Running"],
+              createdAfter: "2024-01-01T12:00:00.000Z",
+            })
+          ).text,
+        ),
+      ).toEqual(["run-2"]);
+      expect(
+        ndjsonIds(
+          (await exportRuns({ input_params: { note: 'say "hi", then leave' } }))
+            .text,
+        ),
+      ).toEqual(["run-1"]);
+    });
+
+    it("rejects an unknown format or an invalid filter", async () => {
+      for (const [body, error] of [
+        [{ format: "xml" }, "format must be one of: ndjson, csv"],
+        [{ createdAfter: "soon" }, "createdAfter must be a valid timestamp"],
+        [{ sortBy: "status" }, expect.stringMatching(/^sortBy must be one of/)],
+      ] as const) {
+        const { response, text } = await exportRuns(body);
+
+        expect(response.status).toBe(400);
+        expect(JSON.parse(text).error).toEqual(error);
+      }
+    });
+  });
+
+  describe("pages", () => {
+    it("reads runs 100 at a time and continues across runs created at the same time", async () => {
+      const count = 2 * EXPORT_PAGE_SIZE + 5;
+      const expected: string[] = [];
+
+      // Runs share creation times in groups of 3, so page boundaries fall
+      // between runs with the same created_at
+      for (let index = 0; index < count; index++) {
+        const id = `run-${String(index).padStart(3, "0")}`;
+        expected.push(id);
+        await insertRun({
+          id,
+          created_at: new Date(
+            Date.UTC(2024, 0, 1) + Math.floor(index / 3) * 1000,
+          ).toISOString(),
+        });
+      }
+
+      const prepare = jest.spyOn(env.DB, "prepare");
+      const { chunks, text } = await exportRuns();
+
+      expect(ndjsonIds(text)).toEqual(expected);
+      expect(chunks.map((chunk) => ndjsonIds(chunk).length)).toEqual([
+        EXPORT_PAGE_SIZE,
+        EXPORT_PAGE_SIZE,
+        5,
+      ]);
+
+      // Each page is read with a query of its own as the stream is pulled
+      const pageQueries = prepare.mock.calls.filter(([sql]) =>
+        sql.includes("FROM workflow_runs r"),
+      );
+      expect(pageQueries).toHaveLength(3);
+    });
+
+    it("ends with an empty page when the last page is full", async () => {
+      for (let index = 0; index < EXPORT_PAGE_SIZE; index++) {
+        await insertRun({
+          id: `run-${String(index).padStart(3, "0")}`,
+          created_at: "2024-01-01T00:00:00.000Z",
+        });
+      }
+
+      const { chunks, text } = await exportRuns({ format: "csv" });
+
+      expect(text.split("\r\n")).toHaveLength(EXPORT_PAGE_SIZE + 2);
+      expect(chunks).toHaveLength(1);
+    });
+  });
+
+  describe("scoping", () => {
+    beforeEach(async () => {
+      const globexId = await insertRow(env, "workflow", {
+        tenant_id: "globex",
+        name: "orders",
+      });
+
+      await insertRun({ id: "run-order", ref_type: "order" });
+      await insertRun({
+        id: "run-refund",
+        workflow_id: refundsId,
+        ref_type: "refund",
+      });
+      await insertRun({
+        id: "run-globex",
+        tenant_id: "globex",
+        workflow_id: globexId,
+      });
+    });
+
+    it("only exports the caller's tenant", async () => {
+      const { key } = await createApiKey(
+        { name: "globex-reader", scopes: ["read"], tenantId: "globex" },
+        env,
+      );
+
+      expect(ndjsonIds((await exportRuns()).text).sort()).toEqual([
+        "run-order",
+        "run-refund",
+      ]);
+      expect(ndjsonIds((await exportRuns({}, key)).text)).toEqual([
+        "run-globex",
+      ]);
+    });
+
+    it("leaves out runs the key may not access", async () => {
+      const { key } = await createApiKey(
+        {
+          name: "orders-reader",
+          scopes: ["read"],
+          tenantId: "acme",
+          workflowTypes: ["orders"],
+        },
+        env,
+      );
+
+      expect(ndjsonIds((await exportRuns({}, key)).text)).toEqual([
+        "run-order",
+      ]);
+
+      // Restrictions in the request body don't widen the key's access
+      expect(
+        ndjsonIds(
+          (
+            await exportRuns(
+              { allowedWorkflowTypes: ["orders", "refunds"] },
+              key,
+            )
+          ).text,
+        ),
+      ).toEqual(["run-order"]);
+    });
+  });
+});
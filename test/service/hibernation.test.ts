@@ -0,0 +1,266 @@
+// test/service/hibernation.test.ts
+import { ServiceError } from "../../src/service/errors";
+import { TRACKER_PRINCIPAL_HEADER } from "../../src/service/tenants";
+import { WorkflowTracker } from "../../src/service/tracker";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { createTestState, TestState, TestWebSocket } from "../helpers/tracker";
+
+describe("tracker hibernation", () => {
+  let env: TestEnv;
+  let state: TestState;
+  let tracker: WorkflowTracker;
+
+  /**
+   * Open a WebSocket to the tracker and return the server side of it
+   */
+  const connect = async (
+    principal?: string,
+    query = "",
+  ): Promise<TestWebSocket> => {
+    const server = new TestWebSocket();
+    (globalThis as any).WebSocketPair = function () {
+      return { 0: new TestWebSocket(), 1: server };
+    };
+
+    // Node can't construct the 101 response the runtime returns
+    const response = jest
+      .spyOn(globalThis, "Response")
+      .mockImplementation(() => ({ status: 101 }) as Response);
+
+    try {
+      await tracker.fetch(
+        new Request(`https://tracker.test/websocket${query}`, {
+          headers: {
+            Upgrade: "websocket",
+            ...(principal ? { [TRACKER_PRINCIPAL_HEADER]: principal } : {}),
+          },
+        }),
+      );
+    } finally {
+      response.mockRestore();
+      delete (globalThis as any).WebSocketPair;
+    }
+
+    return server;
+  };
+
+  const send = (socket: TestWebSocket, message: Record<string, any>) =>
+    tracker.webSocketMessage(
+      socket as unknown as WebSocket,
+      JSON.stringify(message),
+    );
+
+  /**
+   * Evict the tracker from memory: a new instance gets the same state and
+   * hibernated sockets
+   */
+  const wakeUp = () => {
+    tracker = new WorkflowTracker(state, env);
+  };
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    state = createTestState();
+    tracker = new WorkflowTracker(state, env);
+
+    const orders = await insertRow(env, "workflow", { name: "orders" });
+    const refunds = await insertRow(env, "workflow", { name: "refunds" });
+    for (const [id, workflowId] of [
+      ["run-order", orders],
+      ["run-refund", refunds],
+    ] as const) {
+      await insertRow(env, "workflow_runs", {
+        id,
+        workflow_id: workflowId,
+        status: "Running",
+      });
+    }
+  });
+
+  describe("attachments", () => {
+    it("attach the session to the socket when it connects", async () => {
+      const socket = await connect("apiKey key%201", "?initial_data=false");
+
+      expect(state.sockets).toEqual([socket]);
+      expect(socket.sent).toEqual([]);
+      expect(socket.deserializeAttachment()).toEqual({
+        id: expect.any(String),
+        principal: { method: "apiKey", subject: "key 1" },
+        connectedAt: expect.any(String),
+        subscriptions: null,
+      });
+    });
+
+    it("send the latest runs unless asked not to", async () => {
+      const socket = await connect();
+
+      expect(socket.sent).toEqual([
+        { type: "initial_data", data: expect.any(Array) },
+      ]);
+      expect(socket.sent[0].data).toHaveLength(2);
+      expect(
+        (socket.deserializeAttachment() as Record<string, any>).principal,
+      ).toBeNull();
+    });
+
+    it("keep long subjects short enough to leave room for subscriptions", async () => {
+      const socket = await connect(`jwt ${"a".repeat(1000)}`);
+
+      const session = socket.deserializeAttachment() as Record<string, any>;
+      expect(session.principal.subject).toHaveLength(256);
+      expect(JSON.stringify(session).length).toBeLessThan(1024);
+    });
+
+    it("round-trip subscriptions", async () => {
+      const socket = await connect();
+
+      await send(socket, {
+        type: "subscribe",
+        subscription: { workflowType: "orders", status: "Running" },
+      });
+      await send(socket, {
+        type: "subscribe",
+        subscription: { runId: "run-refund" },
+      });
+      await send(socket, {
+        type: "unsubscribe",
+        subscription: { status: "Running", workflowType: "orders" },
+      });
+
+      expect(tracker.getSession(socket as unknown as WebSocket)).toMatchObject({
+        subscriptions: [{ runId: "run-refund" }],
+      });
+    });
+
+    it("refuse sessions larger than 2048 bytes and keep the last one", async () => {
+      const socket = await connect();
+
+      for (let index = 0; index < 3; index++) {
+        await send(socket, {
+          type: "subscribe",
+          subscription: { ref_id: `${index}-${"x".repeat(500)}` },
+        });
+      }
+      const saved = socket.deserializeAttachment();
+
+      await send(socket, {
+        type: "subscribe",
+        subscription: { ref_id: `3-${"x".repeat(500)}` },
+      });
+
+      expect(socket.sent[socket.sent.length - 1]).toEqual({
+        type: "error",
+        error:
+          "The session's subscriptions are too large; unsubscribe from some first",
+      });
+      expect(socket.deserializeAttachment()).toEqual(saved);
+      expect(() =>
+        tracker.saveSession(socket as unknown as WebSocket, {
+          id: "session",
+          principal: { method: "jwt", subject: "x".repeat(2048) },
+          connectedAt: new Date().toISOString(),
+          subscriptions: null,
+        }),
+      ).toThrow(ServiceError);
+    });
+  });
+
+  describe("after waking up", () => {
+    let everything: TestWebSocket;
+    let orders: TestWebSocket;
+    let refund: TestWebSocket;
+    let nothing: TestWebSocket;
+
+    beforeEach(async () => {
+      everything = await connect(undefined, "?initial_data=false");
+      orders = await connect(undefined, "?initial_data=false");
+      refund = await connect(undefined, "?initial_data=false");
+      nothing = await connect(undefined, "?initial_data=false");
+
+      await send(orders, {
+        type: "subscribe",
+        subscription: { workflowType: "orders" },
+      });
+      await send(refund, {
+        type: "subscribe",
+        subscription: { runId: "run-refund" },
+      });
+      await send(nothing, { type: "subscribe", subscription: { runId: "x" } });
+      await send(nothing, { type: "unsubscribe" });
+
+      for (const socket of state.sockets) {
+        socket.sent = [];
+      }
+      wakeUp();
+    });
+
+    const received = () =>
+      [everything, orders, refund, nothing].map((socket) =>
+        socket.sent.map((message) => message.type),
+      );
+
+    it("restores each session from its socket", () => {
+      expect(
+        state.sockets.map(
+          (socket) =>
+            tracker.getSession(socket as unknown as WebSocket)?.subscriptions,
+        ),
+      ).toEqual([
+        null,
+        [{ workflowType: "orders" }],
+        [{ runId: "run-refund" }],
+        [],
+      ]);
+    });
+
+    it("only sends updates to matching sessions", async () => {
+      await tracker.broadcastUpdate({
+        type: "run_update",
+        run_update: { id: "run-order", status: "Completed" },
+      });
+
+      expect(received()).toEqual([["update"], ["update"], [], []]);
+    });
+
+    it("matches step updates by their run", async () => {
+      await tracker.broadcastUpdate({
+        type: "step_update",
+        step_update: { workflow_run_id: "run-refund", step_name: "refund" },
+      });
+
+      expect(received()).toEqual([["update"], [], ["update"], []]);
+    });
+
+    it("matches step updates naming their run workflow_instance_id", async () => {
+      await tracker.broadcastUpdate({
+        type: "step_update",
+        step_update: {
+          workflow_instance_id: "run-order",
+          step_name: "charge",
+        },
+      });
+
+      expect(received()).toEqual([["update"], ["update"], [], []]);
+    });
+
+    it("keeps subscribing after waking up", async () => {
+      await send(refund, {
+        type: "subscribe",
+        subscription: { workflowType: "orders" },
+      });
+      wakeUp();
+
+      await tracker.broadcastUpdate({
+        type: "run_update",
+        run_update: { id: "run-order" },
+      });
+
+      expect(received()).toEqual([
+        ["update"],
+        ["update"],
+        ["subscribed", "update"],
+        [],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+// test/service/idempotency.test.ts
+import { sha256Hex, stableStringify } from "../../src/utils/crypto";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+const START_REQUEST = {
+  workflowType: "orders",
+  params: { orderId: "o-1" },
+  ref_id: "o-1",
+  ref_type: "order",
+};
+
+describe("idempotent starts", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let create: jest.Mock;
+
+  const start = (idempotencyKey = "checkout-o-1") =>
+    callService(service, env, "/service/start-workflow", {
+      ...START_REQUEST,
+      idempotencyKey,
+    });
+
+  const getRun = (id: string) =>
+    env.DB.prepare("SELECT * FROM workflow_runs WHERE id = ?").bind(id).first();
+
+  // Leave a claim behind as if its request had died
+  const insertClaim = async (claimedUntil: string, runId?: string) => {
+    await insertRow(env, "workflow_idempotency_keys", {
+      idempotency_key: "default:checkout-o-1",
+      request_hash: await sha256Hex(stableStringify(START_REQUEST)),
+      run_id: runId ?? null,
+      claimed_until: claimedUntil,
+      expires_at: "2999-01-01 00:00:00",
+    });
+  };
+
+  const insertRun = async (id: string, status: string) => {
+    const workflowId = await insertRow(env, "workflow", { name: "orders" });
+    await insertRow(env, "workflow_runs", { id, workflow_id: workflowId, status });
+  };
+
+  beforeEach(async () => {
+    create = jest.fn().mockResolvedValue(undefined);
+    env = await createTestEnv({ ORDERS: { create } });
+    service = createTestService();
+  });
+
+  it("replays the stored response for a repeated key", async () => {
+    const first = await start();
+    const second = await start();
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(second.body.workflowId).toBe(first.body.workflowId);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a retry while the claim is still held", async () => {
+    await insertClaim("2999-01-01 00:00:00");
+
+    const response = await start();
+
+    expect(response.status).toBe(409);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("takes over a claim that timed out before recording a run", async () => {
+    await insertClaim("2000-01-01 00:00:00", "run-never-recorded");
+
+    const response = await start();
+
+    expect(response.status).toBe(200);
+    expect(response.body.workflowId).not.toBe("run-never-recorded");
+    expect(create).toHaveBeenCalledTimes(1);
+
+    const claim = await env.DB.prepare(
+      "SELECT run_id, response FROM workflow_idempotency_keys",
+    ).first();
+    expect(claim.run_id).toBe(response.body.workflowId);
+    expect(JSON.parse(claim.response as string).workflowId).toBe(
+      response.body.workflowId,
+    );
+  });
+
+  it("returns the dispatched run of a claim that timed out", async () => {
+    await insertRun("run-dispatched", "Running");
+    await insertClaim("2000-01-01 00:00:00", "run-dispatched");
+
+    const response = await start();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(response.body.workflowId).toBe("run-dispatched");
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("fails the undispatched run of a claim that timed out", async () => {
+    await insertRun("run-undispatched", "Pending");
+    await insertClaim("2000-01-01 00:00:00", "run-undispatched");
+
+    const response = await start();
+
+    expect(response.status).toBe(200);
+    expect(response.body.workflowId).not.toBe("run-undispatched");
+    expect((await getRun("run-undispatched")).status).toBe("Errored");
+  });
+
+  it("records a run whose instance could not be created as errored", async () => {
+    create.mockRejectedValueOnce(new Error("Workflows unavailable"));
+
+    const failed = await start();
+    const retried = await start();
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+
+    const runs = await env.DB.prepare(
+      "SELECT id, status, output_result FROM workflow_runs ORDER BY created_at",
+    ).all();
+    const byId = new Map(runs.results.map((run) => [run.id, run]));
+
+    expect(runs.results).toHaveLength(2);
+    expect(byId.get(retried.body.workflowId).status).toBe("Pending");
+
+    const stray = runs.results.find(
+      (run) => run.id !== retried.body.workflowId,
+    );
+    expect(stray.status).toBe("Errored");
+    expect(JSON.parse(stray.output_result as string)).toEqual({
+      success: false,
+      error: "Workflows unavailable",
+    });
+  });
+});
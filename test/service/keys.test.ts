@@ -0,0 +1,268 @@
+// test/service/keys.test.ts
+import {
+  authenticateApiKey,
+  createApiKey,
+  rotateApiKey,
+} from "../../src/service/keys";
+import { createTestEnv, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("API keys", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  const manageKeys = (
+    action: string,
+    body: Record<string, any>,
+    key?: string,
+  ) =>
+    callService(
+      service,
+      env,
+      `/service/api-keys/${action}`,
+      body,
+      key ? { "X-API-Key": key } : {},
+    );
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("creates a key that authenticates until it is revoked", async () => {
+    const created = await manageKeys("create", {
+      apiKey: { name: "billing", scopes: ["start", "read"] },
+    });
+
+    expect(created.status).toBe(200);
+    expect(created.body.key).toMatch(/^ffk_/);
+    expect(created.body.apiKey).toMatchObject({
+      name: "billing",
+      scopes: ["start", "read"],
+    });
+    expect(await authenticateApiKey(created.body.key, env)).toMatchObject({
+      id: created.body.apiKey.id,
+    });
+
+    const revoked = await manageKeys("revoke", { id: created.body.apiKey.id });
+
+    expect(revoked.body).toMatchObject({ success: true, revoked: true });
+    expect(await authenticateApiKey(created.body.key, env)).toBeNull();
+    expect(
+      (await manageKeys("revoke", { id: created.body.apiKey.id })).status,
+    ).toBe(404);
+  });
+
+  it("rejects revoked and expired keys", async () => {
+    const { key: revokedKey, apiKey } = await createApiKey(
+      { name: "revoked", scopes: ["admin"] },
+      env,
+    );
+    await manageKeys("revoke", { id: apiKey.id });
+
+    const { key: expiredKey } = await createApiKey(
+      {
+        name: "expired",
+        scopes: ["admin"],
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      },
+      env,
+    );
+
+    for (const key of [revokedKey, expiredKey]) {
+      expect((await manageKeys("list", {}, key)).status).toBe(401);
+    }
+  });
+
+  it("validates new keys", async () => {
+    const response = await manageKeys("create", {
+      apiKey: { name: "billing", scopes: ["everything"] },
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  describe("rotation", () => {
+    it("revokes the old key without a grace period", async () => {
+      const { key, apiKey } = await createApiKey(
+        { name: "billing", scopes: ["read"], refTypes: ["invoice"] },
+        env,
+      );
+
+      const rotated = await manageKeys("rotate", { id: apiKey.id });
+
+      expect(rotated.status).toBe(200);
+      expect(rotated.body.apiKey).toMatchObject({
+        name: "billing",
+        scopes: ["read"],
+        refTypes: ["invoice"],
+        rotatedFrom: apiKey.id,
+      });
+      expect(await authenticateApiKey(key, env)).toBeNull();
+      expect(await authenticateApiKey(rotated.body.key, env)).not.toBeNull();
+    });
+
+    it("keeps the old key working for the grace period", async () => {
+      const { key, apiKey } = await createApiKey(
+        { name: "billing", scopes: ["read"] },
+        env,
+      );
+
+      const rotated = await rotateApiKey(apiKey.id, 60, env);
+
+      expect(await authenticateApiKey(key, env)).not.toBeNull();
+      expect(await authenticateApiKey(rotated.key, env)).not.toBeNull();
+
+      jest.useFakeTimers({ now: Date.now() + 61 * 1000 });
+
+      expect(await authenticateApiKey(key, env)).toBeNull();
+      expect(await authenticateApiKey(rotated.key, env)).not.toBeNull();
+    });
+
+    it("doesn't extend an expiry that comes before the grace period ends", async () => {
+      const expiresAt = new Date(Date.now() + 30 * 1000).toISOString();
+      const { apiKey } = await createApiKey(
+        { name: "billing", scopes: ["read"], expiresAt },
+        env,
+      );
+
+      await rotateApiKey(apiKey.id, 3600, env);
+
+      const previous = await manageKeys("get", { id: apiKey.id });
+      expect(previous.body.apiKey.expiresAt).toBe(expiresAt);
+    });
+  });
+
+  describe("keys managed by a restricted admin key", () => {
+    let restrictedKey: string;
+
+    beforeEach(async () => {
+      ({ key: restrictedKey } = await createApiKey(
+        {
+          name: "orders-admin",
+          scopes: ["admin"],
+          workflowTypes: ["orders", "refunds"],
+          refTypes: ["order"],
+        },
+        env,
+      ));
+    });
+
+    it("can't create keys with wider restrictions", async () => {
+      for (const apiKey of [
+        { name: "anything", scopes: ["read"] },
+        { name: "no-ref-types", scopes: ["read"], workflowTypes: ["orders"] },
+        {
+          name: "other-type",
+          scopes: ["read"],
+          workflowTypes: ["orders", "exports"],
+          refTypes: ["order"],
+        },
+        {
+          name: "empty-lists",
+          scopes: ["read"],
+          workflowTypes: [],
+          refTypes: [],
+        },
+      ]) {
+        const response = await manageKeys("create", { apiKey }, restrictedKey);
+
+        expect(response.status).toBe(403);
+      }
+
+      const keys = await env.DB.prepare(
+        "SELECT COUNT(*) AS count FROM api_keys",
+      ).first("count");
+      expect(keys).toBe(1);
+    });
+
+    it("creates keys within its restrictions", async () => {
+      const response = await manageKeys(
+        "create",
+        {
+          apiKey: {
+            name: "refunds-reader",
+            scopes: ["read"],
+            workflowTypes: ["refunds"],
+            refTypes: ["order"],
+          },
+        },
+        restrictedKey,
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it("only lists keys within its restrictions", async () => {
+      await createApiKey({ name: "unrestricted", scopes: ["read"] }, env);
+      await createApiKey(
+        {
+          name: "orders-reader",
+          scopes: ["read"],
+          workflowTypes: ["orders"],
+          refTypes: ["order"],
+        },
+        env,
+      );
+
+      const response = await manageKeys("list", {}, restrictedKey);
+
+      expect(
+        response.body.apiKeys.map((apiKey: any) => apiKey.name).sort(),
+      ).toEqual(["orders-admin", "orders-reader"]);
+    });
+
+    it("can't rotate or revoke keys with wider restrictions", async () => {
+      const { key, apiKey } = await createApiKey(
+        { name: "unrestricted", scopes: ["admin"] },
+        env,
+      );
+
+      for (const action of ["get", "rotate", "revoke"]) {
+        const response = await manageKeys(
+          action,
+          { id: apiKey.id },
+          restrictedKey,
+        );
+
+        expect(response.status).toBe(403);
+      }
+
+      expect(await authenticateApiKey(key, env)).not.toBeNull();
+      const keys = await env.DB.prepare(
+        "SELECT COUNT(*) AS count FROM api_keys",
+      ).first("count");
+      expect(keys).toBe(2);
+    });
+
+    it("rotates and revokes keys within its restrictions", async () => {
+      const { apiKey } = await createApiKey(
+        {
+          name: "orders-reader",
+          scopes: ["read"],
+          workflowTypes: ["orders"],
+          refTypes: ["order"],
+        },
+        env,
+      );
+
+      const rotated = await manageKeys(
+        "rotate",
+        { id: apiKey.id },
+        restrictedKey,
+      );
+      expect(rotated.status).toBe(200);
+
+      const revoked = await manageKeys(
+        "revoke",
+        { id: rotated.body.apiKey.id },
+        restrictedKey,
+      );
+      expect(revoked.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+// test/service/metrics.test.ts
+import { createApiKey } from "../../src/service/keys";
+import {
+  createTestEnv,
+  insertRow,
+  TEST_API_KEY,
+  TestEnv,
+} from "../helpers/env";
+import {
+  callService,
+  createTestContext,
+  createTestService,
+} from "../helpers/service";
+
+describe("metrics", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let workflowId: number;
+
+  const scrape = async (headers: Record<string, string> = {}) => {
+    const response: Response = await service.fetch(
+      new Request("https://flowflare.test/metrics", { headers }),
+      env,
+      createTestContext(),
+    );
+
+    return { status: response.status, body: await response.text() };
+  };
+
+  const sendUpdate = (type: string, data: Record<string, any>) =>
+    callService(service, env, "/api/workflows/update", {
+      type,
+      [type]: data,
+    });
+
+  const lines = (body: string, name: string) =>
+    body.split("\n").filter((line) => line.startsWith(`${name}{`));
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService({ metrics: { cacheTtl: 0 } });
+
+    workflowId = await insertRow(env, "workflow", {
+      tenant_id: "default",
+      name: "orders",
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("authentication", () => {
+    it("requires credentials by default", async () => {
+      expect((await scrape()).status).toBe(401);
+      expect((await scrape({ "X-API-Key": "wrong" })).status).toBe(401);
+      expect((await scrape({ "X-API-Key": TEST_API_KEY })).status).toBe(200);
+    });
+
+    it("rejects credentials bound to a tenant", async () => {
+      const { key } = await createApiKey(
+        { name: "acme-dashboard", scopes: ["read"], tenantId: "acme" },
+        env,
+      );
+
+      const response = await scrape({ "X-API-Key": key });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toContain("bound to tenant acme");
+    });
+
+    it("rejects credentials without the read scope", async () => {
+      const { key } = await createApiKey(
+        { name: "starter", scopes: ["start"] },
+        env,
+      );
+
+      expect((await scrape({ "X-API-Key": key })).status).toBe(403);
+    });
+
+    it("serves metrics without credentials when auth is off", async () => {
+      service = createTestService({ metrics: { auth: false, cacheTtl: 0 } });
+
+      expect((await scrape()).status).toBe(200);
+    });
+  });
+
+  describe("counters", () => {
+    const finishRun = (id: string, status: string) =>
+      sendUpdate("run_update", {
+        id,
+        status,
+        created_at: "2024-01-01T00:00:00.000Z",
+        completed_at: "2024-01-01T00:00:10.000Z",
+      });
+
+    beforeEach(async () => {
+      await sendUpdate("run_update", {
+        id: "run-1",
+        workflow_id: workflowId,
+        status: "Running",
+      });
+
+      const step = await sendUpdate("step_update", {
+        workflow_run_id: "run-1",
+        step_name: "charge",
+        status: "Running",
+        step_index: 0,
+        started_at: "2024-01-01T00:00:00.000Z",
+      });
+      const stepId = step.body.result.id;
+
+      await sendUpdate("retry_update", {
+        workflow_step_id: stepId,
+        retry_count: 1,
+        retry_at: "2024-01-01T00:00:01.000Z",
+        last_error: "card declined",
+      });
+      await sendUpdate("step_update", {
+        id: stepId,
+        status: "Failed",
+        completed_at: "2024-01-01T00:00:02.000Z",
+      });
+      await finishRun("run-1", "Errored");
+    });
+
+    it("counts failed steps, retries and durations", async () => {
+      const { body } = await scrape({ "X-API-Key": TEST_API_KEY });
+
+      expect(body).toContain("# TYPE flowflare_failed_steps_total counter");
+      expect(body).toContain("# TYPE flowflare_step_retries_total counter");
+      expect(lines(body, "flowflare_failed_steps_total")).toEqual([
+        'flowflare_failed_steps_total{tenant="default",workflow_type="orders",step="charge"} 1',
+      ]);
+      expect(lines(body, "flowflare_step_retries_total")).toEqual([
+        'flowflare_step_retries_total{tenant="default",workflow_type="orders",step="charge"} 1',
+      ]);
+      expect(lines(body, "flowflare_run_duration_seconds_bucket")).toEqual(
+        expect.arrayContaining([
+          'flowflare_run_duration_seconds_bucket{tenant="default",workflow_type="orders",status="Errored",le="5"} 0',
+          'flowflare_run_duration_seconds_bucket{tenant="default",workflow_type="orders",status="Errored",le="15"} 1',
+          'flowflare_run_duration_seconds_bucket{tenant="default",workflow_type="orders",status="Errored",le="+Inf"} 1',
+        ]),
+      );
+      expect(lines(body, "flowflare_run_duration_seconds_sum")).toEqual([
+        'flowflare_run_duration_seconds_sum{tenant="default",workflow_type="orders",status="Errored"} 10',
+      ]);
+      expect(lines(body, "flowflare_step_duration_seconds_count")).toEqual([
+        'flowflare_step_duration_seconds_count{tenant="default",workflow_type="orders",step="charge",status="Failed"} 1',
+      ]);
+    });
+
+    it("counts a finished run once", async () => {
+      await finishRun("run-1", "Errored");
+      await finishRun("run-1", "Completed");
+
+      const { body } = await scrape({ "X-API-Key": TEST_API_KEY });
+
+      expect(lines(body, "flowflare_run_duration_seconds_count")).toEqual([
+        'flowflare_run_duration_seconds_count{tenant="default",workflow_type="orders",status="Errored"} 1',
+      ]);
+    });
+
+    it("keeps counting after the rows are purged", async () => {
+      const before = await scrape({ "X-API-Key": TEST_API_KEY });
+
+      await env.DB.batch([
+        env.DB.prepare("DELETE FROM workflow_step_retries"),
+        env.DB.prepare("DELETE FROM workflow_steps"),
+        env.DB.prepare("DELETE FROM workflow_runs"),
+      ]);
+
+      const after = await scrape({ "X-API-Key": TEST_API_KEY });
+
+      expect(lines(after.body, "flowflare_runs")).toEqual([]);
+      for (const name of [
+        "flowflare_failed_steps_total",
+        "flowflare_step_retries_total",
+        "flowflare_run_duration_seconds_count",
+        "flowflare_step_duration_seconds_count",
+      ]) {
+        expect(lines(after.body, name)).toEqual(lines(before.body, name));
+        expect(lines(after.body, name)).toHaveLength(1);
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+// test/service/pagination.test.ts
+import { ServiceError } from "../../src/service/errors";
+import {
+  decodeCursor,
+  encodeCursor,
+  PageCursor,
+} from "../../src/service/pagination";
+
+describe("cursors", () => {
+  const position: PageCursor = {
+    sortBy: "created_at",
+    sortOrder: "desc",
+    value: "2024-01-01T00:00:00.000Z",
+    id: "run-1",
+  };
+
+  const expectInvalid = (cursor: string) => {
+    expect(() => decodeCursor(cursor)).toThrow(ServiceError);
+    expect(() => decodeCursor(cursor)).toThrow("cursor is invalid");
+  };
+
+  it("round-trips a position", () => {
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it("round-trips numeric sort keys", () => {
+    const cursor = { ...position, sortBy: "duration", value: 12.5 } as const;
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("round-trips IDs outside Latin-1", () => {
+    const cursor = { ...position, id: "commande-été-✓" };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("is URL-safe and unpadded", () => {
+    // Values that encode to + and / in standard base64
+    for (const id of ["run-?>?>", "run-~~~", "a", "ab", "abc"]) {
+      expect(encodeCursor({ ...position, id })).toMatch(/^[A-Za-z0-9_-]+$/);
+    }
+  });
+
+  it("rejects cursors that aren't base64url JSON", () => {
+    expectInvalid("not a cursor!");
+    expectInvalid(Buffer.from("{").toString("base64url"));
+    expectInvalid(Buffer.from([0xff, 0xfe]).toString("base64url"));
+  });
+
+  it("rejects cursors with unexpected contents", () => {
+    for (const contents of [
+      {},
+      ["created_at", "desc", "2024-01-01", 1],
+      ["created_at", "sideways", "2024-01-01", "run-1"],
+      ["created_at", "desc", null, "run-1"],
+      [1, "desc", "2024-01-01", "run-1"],
+    ]) {
+      expectInvalid(
+        Buffer.from(JSON.stringify(contents)).toString("base64url"),
+      );
+    }
+  });
+});
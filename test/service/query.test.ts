@@ -0,0 +1,475 @@
+// test/service/query.test.ts
+import { ServiceError } from "../../src/service/errors";
+import {
+  buildRunConditions,
+  buildRunCountQuery,
+  buildRunPageQuery,
+  getRunSort,
+  loadRunDetails,
+  normalizeRunInclude,
+  validateRunFilter,
+} from "../../src/service/query";
+import { WorkflowRunQuery } from "../../src/service/types";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+
+describe("run queries", () => {
+  let env: TestEnv;
+
+  const matchingIds = async (filter: WorkflowRunQuery, tenantId = "acme") => {
+    const { sql, bindValues } = buildRunConditions(filter, tenantId);
+    const rows = await env.DB.prepare(
+      `SELECT r.id FROM workflow_runs r WHERE ${sql} ORDER BY r.id`,
+    )
+      .bind(...bindValues)
+      .all();
+
+    return rows.results.map((row) => row.id);
+  };
+
+  const pageIds = async (
+    filter: WorkflowRunQuery,
+    page: Parameters<typeof buildRunPageQuery>[2],
+  ) => {
+    const { sql, bindValues } = buildRunPageQuery(filter, "acme", page);
+    const rows = await env.DB.prepare(sql)
+      .bind(...bindValues)
+      .all();
+
+    return rows.results;
+  };
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+
+    const orders = await insertRow(env, "workflow", {
+      tenant_id: "acme",
+      name: "orders",
+    });
+    const refunds = await insertRow(env, "workflow", {
+      tenant_id: "acme",
+      name: "refunds",
+    });
+    const globex = await insertRow(env, "workflow", {
+      tenant_id: "globex",
+      name: "orders",
+    });
+
+    for (const run of [
+      {
+        id: "run-1",
+        workflow_id: orders,
+        status: "Completed",
+        ref_type: "order",
+        ref_id: "o-1",
+        workflow_version: "v1",
+        created_at: "2024-01-01T00:00:00.000Z",
+        dispatched_at: "2024-01-01T00:00:05.000Z",
+        completed_at: "2024-01-01T00:01:05.000Z",
+        metadata: JSON.stringify({ source: { region: "eu" }, retried: true }),
+        input_params: JSON.stringify({ amount: 10 }),
+      },
+      {
+        id: "run-2",
+        workflow_id: orders,
+        status: "Errored",
+        ref_type: "order",
+        ref_id: "o-2",
+        workflow_version: "v2",
+        created_at: "2024-01-02T00:00:00.000Z",
+        completed_at: "2024-01-02T00:00:10.000Z",
+        metadata: JSON.stringify({ source: { region: "us" }, retried: false }),
+        input_params: JSON.stringify({ amount: 20 }),
+      },
+      {
+        id: "run-3",
+        workflow_id: refunds,
+        status: "Running",
+        ref_type: "refund",
+        ref_id: "r-1",
+        workflow_version: "v1",
+        created_at: "2024-01-03T00:00:00.000Z",
+        metadata: JSON.stringify({ source: null }),
+      },
+    ]) {
+      await insertRow(env, "workflow_runs", { tenant_id: "acme", ...run });
+    }
+
+    await insertRow(env, "workflow_runs", {
+      id: "run-globex",
+      tenant_id: "globex",
+      workflow_id: globex,
+      status: "Completed",
+      created_at: "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  describe("validateRunFilter", () => {
+    it.each([
+      [
+        { workflowType: 1 },
+        "workflowType must be a string or an array of strings",
+      ],
+      [
+        { status: ["Running", 2] },
+        "status must be a string or an array of strings",
+      ],
+      [{ createdAfter: "yesterday" }, "createdAfter must be a valid timestamp"],
+      [
+        { completedBefore: "soon" },
+        "completedBefore must be a valid timestamp",
+      ],
+      [{ minDurationMs: -1 }, "minDurationMs must be a non-negative number"],
+      [{ minDurationMs: "5" }, "minDurationMs must be a non-negative number"],
+      [{ metadata: ["a"] }, "metadata must be an object"],
+      [
+        { metadata: { "a b": 1 } },
+        "metadata keys must be dotted paths of letters, digits, _ and -",
+      ],
+      [
+        { input_params: { "$.amount": 1 } },
+        "input_params keys must be dotted paths of letters, digits, _ and -",
+      ],
+      [
+        { input_params: { amount: { gt: 1 } } },
+        "input_params.amount must be a string, number, boolean or null",
+      ],
+      [
+        { sortBy: "status" },
+        "sortBy must be one of: created_at, updated_at, completed_at, duration",
+      ],
+      [{ sortOrder: "up" }, "sortOrder must be one of: asc, desc"],
+    ])("rejects %j", (filter, message) => {
+      expect(() => validateRunFilter(filter as any)).toThrow(
+        new ServiceError(message),
+      );
+    });
+
+    it("accepts a filter using every field", () => {
+      expect(() =>
+        validateRunFilter({
+          workflowType: ["orders", "refunds"],
+          status: "Completed",
+          ref_id: "o-1",
+          ref_type: "order",
+          version: "v1",
+          createdAfter: new Date(),
+          createdBefore: "2024-01-01",
+          completedAfter: Date.now(),
+          completedBefore: null as any,
+          minDurationMs: 0,
+          metadata: { "source.region": "eu", retried: true, note: null },
+          input_params: { amount: 10 },
+          sortBy: "duration",
+          sortOrder: "asc",
+        }),
+      ).not.toThrow();
+    });
+  });
+
+  describe("getRunSort", () => {
+    it("sorts newest first by default", () => {
+      expect(getRunSort({})).toEqual({
+        sortBy: "created_at",
+        sortOrder: "desc",
+      });
+      expect(getRunSort({ sortBy: "duration" })).toEqual({
+        sortBy: "duration",
+        sortOrder: "desc",
+      });
+    });
+  });
+
+  describe("buildRunConditions", () => {
+    it("only matches runs of the tenant", async () => {
+      expect(await matchingIds({})).toEqual(["run-1", "run-2", "run-3"]);
+      expect(await matchingIds({}, "globex")).toEqual(["run-globex"]);
+    });
+
+    it("matches lists of workflow types and statuses", async () => {
+      expect(await matchingIds({ workflowType: "refunds" })).toEqual(["run-3"]);
+      expect(await matchingIds({ status: ["Completed", "Running"] })).toEqual([
+        "run-1",
+        "run-3",
+      ]);
+      expect(
+        await matchingIds({ workflowType: ["orders"], status: "Running" }),
+      ).toEqual([]);
+    });
+
+    it("ignores empty lists and values", async () => {
+      expect(
+        await matchingIds({ workflowType: [], status: "", ref_id: "" }),
+      ).toEqual(["run-1", "run-2", "run-3"]);
+    });
+
+    it("matches refs and versions", async () => {
+      expect(await matchingIds({ ref_type: "order", version: "v1" })).toEqual([
+        "run-1",
+      ]);
+      expect(await matchingIds({ ref_id: "o-2" })).toEqual(["run-2"]);
+    });
+
+    it("bounds creation and completion times", async () => {
+      expect(
+        await matchingIds({
+          createdAfter: "2024-01-02T00:00:00.000Z",
+          createdBefore: new Date("2024-01-03T00:00:00.000Z"),
+        }),
+      ).toEqual(["run-2"]);
+      expect(
+        await matchingIds({
+          completedAfter: Date.parse("2024-01-01T00:01:05.000Z"),
+        }),
+      ).toEqual(["run-1", "run-2"]);
+      expect(
+        await matchingIds({ completedBefore: "2024-01-02T00:00:00.000Z" }),
+      ).toEqual(["run-1"]);
+    });
+
+    it("matches finished runs by duration from their dispatch", async () => {
+      expect(await matchingIds({ minDurationMs: 30000 })).toEqual(["run-1"]);
+      expect(await matchingIds({ minDurationMs: 0 })).toEqual([
+        "run-1",
+        "run-2",
+      ]);
+    });
+
+    it("matches JSON fields by path, including booleans and null", async () => {
+      expect(
+        await matchingIds({ metadata: { "source.region": "eu" } }),
+      ).toEqual(["run-1"]);
+      expect(await matchingIds({ metadata: { retried: false } })).toEqual([
+        "run-2",
+      ]);
+      expect(await matchingIds({ metadata: { source: null } })).toEqual([
+        "run-3",
+      ]);
+      expect(await matchingIds({ input_params: { amount: 20 } })).toEqual([
+        "run-2",
+      ]);
+    });
+
+    it("applies the API key restrictions", async () => {
+      expect(await matchingIds({ allowedWorkflowTypes: ["refunds"] })).toEqual([
+        "run-3",
+      ]);
+      expect(
+        await matchingIds({
+          workflowType: "refunds",
+          allowedRefTypes: ["order"],
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("buildRunCountQuery", () => {
+    it("counts the matching runs", async () => {
+      const { sql, bindValues } = buildRunCountQuery(
+        { workflowType: "orders" },
+        "acme",
+      );
+
+      expect(
+        await env.DB.prepare(sql)
+          .bind(...bindValues)
+          .first("count"),
+      ).toBe(2);
+    });
+  });
+
+  describe("buildRunPageQuery", () => {
+    it("sorts by the requested field and direction", async () => {
+      const ids = async (filter: WorkflowRunQuery) =>
+        (await pageIds(filter, { limit: 10, offset: 0, after: null })).map(
+          (row) => row.id,
+        );
+
+      expect(await ids({})).toEqual(["run-3", "run-2", "run-1"]);
+      expect(await ids({ sortOrder: "asc" })).toEqual([
+        "run-1",
+        "run-2",
+        "run-3",
+      ]);
+
+      // Unfinished runs sort before all finished runs
+      expect(await ids({ sortBy: "duration", sortOrder: "asc" })).toEqual([
+        "run-3",
+        "run-2",
+        "run-1",
+      ]);
+      expect(await ids({ sortBy: "completed_at" })).toEqual([
+        "run-2",
+        "run-1",
+        "run-3",
+      ]);
+    });
+
+    it("adds the workflow type and sort key to each row", async () => {
+      const [run] = await pageIds(
+        { sortBy: "duration", workflowType: "refunds" },
+        { limit: 1, offset: 0, after: null },
+      );
+
+      expect(run).toMatchObject({
+        id: "run-3",
+        workflow_type: "refunds",
+        sort_key: -1,
+      });
+    });
+
+    it("continues after a cursor and ignores the offset", async () => {
+      const rows = await pageIds(
+        {},
+        {
+          limit: 10,
+          offset: 5,
+          after: {
+            sortBy: "created_at",
+            sortOrder: "desc",
+            value: "2024-01-03T00:00:00.000Z",
+            id: "run-3",
+          },
+        },
+      );
+
+      expect(rows.map((row) => row.id)).toEqual(["run-2", "run-1"]);
+    });
+
+    it("rejects a cursor issued for another sort", () => {
+      expect(() =>
+        buildRunPageQuery({ sortOrder: "asc" }, "acme", {
+          limit: 10,
+          offset: 0,
+          after: {
+            sortBy: "created_at",
+            sortOrder: "desc",
+            value: "2024-01-03T00:00:00.000Z",
+            id: "run-3",
+          },
+        }),
+      ).toThrow("cursor was issued for a different sortBy or sortOrder");
+    });
+  });
+
+  describe("normalizeRunInclude", () => {
+    it("includes steps and retries by default", () => {
+      expect(normalizeRunInclude(undefined)).toBe("steps+retries");
+      expect(normalizeRunInclude(null)).toBe("steps+retries");
+      expect(normalizeRunInclude("none")).toBe("none");
+    });
+
+    it("rejects unknown values", () => {
+      expect(() => normalizeRunInclude("retries")).toThrow(
+        new ServiceError("include must be one of: none, steps, steps+retries"),
+      );
+    });
+  });
+
+  describe("loadRunDetails", () => {
+    const getRuns = async () =>
+      (
+        await env.DB.prepare(
+          "SELECT * FROM workflow_runs WHERE tenant_id = 'acme' ORDER BY id",
+        ).all()
+      ).results as Record<string, any>[];
+
+    beforeEach(async () => {
+      for (const [runId, stepName, stepIndex, retries] of [
+        ["run-1", "ship", 1, []],
+        ["run-1", "charge", 0, ["card declined", "gateway timeout"]],
+        ["run-2", "charge", 0, ["card expired"]],
+      ] as const) {
+        const stepId = await insertRow(env, "workflow_steps", {
+          tenant_id: "acme",
+          workflow_run_id: runId,
+          step_name: stepName,
+          step_index: stepIndex,
+          status: "Completed",
+        });
+
+        // Insert retries out of order to check they're sorted
+        for (const [index, lastError] of [...retries.entries()].reverse()) {
+          await insertRow(env, "workflow_step_retries", {
+            workflow_step_id: stepId,
+            retry_count: index + 1,
+            retry_at: "2024-01-01T00:00:01.000Z",
+            last_error: lastError,
+          });
+        }
+      }
+    });
+
+    const summarize = (runs: Record<string, any>[]) =>
+      runs.map((run) => [
+        run.id,
+        run.steps.map((step: any) =>
+          step.retries
+            ? [
+                step.step_name,
+                step.retries.map((retry: any) => retry.last_error),
+              ]
+            : step.step_name,
+        ),
+      ]);
+
+    it("returns the runs untouched for include=none", async () => {
+      const runs = await getRuns();
+      const prepare = jest.spyOn(env.DB, "prepare");
+
+      expect(await loadRunDetails(runs, "none", env)).toBe(runs);
+      expect(prepare).not.toHaveBeenCalled();
+    });
+
+    it("loads the steps of all runs with a single query for include=steps", async () => {
+      const runs = await getRuns();
+      const prepare = jest.spyOn(env.DB, "prepare");
+
+      const detailed = await loadRunDetails(runs, "steps", env);
+
+      expect(summarize(detailed)).toEqual([
+        ["run-1", ["charge", "ship"]],
+        ["run-2", ["charge"]],
+        ["run-3", []],
+      ]);
+      expect(prepare).toHaveBeenCalledTimes(1);
+    });
+
+    it("loads steps and retries with one query each for include=steps+retries", async () => {
+      const runs = await getRuns();
+      const prepare = jest.spyOn(env.DB, "prepare");
+
+      const detailed = await loadRunDetails(runs, "steps+retries", env);
+
+      expect(summarize(detailed)).toEqual([
+        [
+          "run-1",
+          [
+            ["charge", ["card declined", "gateway timeout"]],
+            ["ship", []],
+          ],
+        ],
+        ["run-2", [["charge", ["card expired"]]]],
+        ["run-3", []],
+      ]);
+      expect(prepare).toHaveBeenCalledTimes(2);
+    });
+
+    it("skips the retry query when the runs have no steps", async () => {
+      const [, , run] = await getRuns();
+      const prepare = jest.spyOn(env.DB, "prepare");
+
+      const [detailed] = await loadRunDetails([run], "steps+retries", env);
+
+      expect(detailed.steps).toEqual([]);
+      expect(prepare).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps the order of the runs", async () => {
+      const runs = (await getRuns()).reverse();
+
+      expect(
+        (await loadRunDetails(runs, "steps", env)).map((run) => run.id),
+      ).toEqual(["run-3", "run-2", "run-1"]);
+    });
+  });
+});
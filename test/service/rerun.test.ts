@@ -0,0 +1,125 @@
+// test/service/rerun.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("reruns", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let create: jest.Mock;
+  let workflowId: number;
+
+  const rerun = (runId: string, overrides?: Record<string, any>) =>
+    callService(service, env, "/service/rerun-workflow", { runId, overrides });
+
+  const getRun = (id: string) =>
+    env.DB.prepare("SELECT * FROM workflow_runs WHERE id = ?").bind(id).first();
+
+  const getWorkflow = () =>
+    env.DB.prepare("SELECT * FROM workflow WHERE id = ?")
+      .bind(workflowId)
+      .first();
+
+  beforeEach(async () => {
+    create = jest.fn().mockResolvedValue(undefined);
+    env = await createTestEnv({ ORDERS: { create } });
+    service = createTestService({ definitions: [{ name: "orders" }] });
+
+    workflowId = await insertRow(env, "workflow", {
+      tenant_id: "default",
+      name: "orders",
+      status: "Errored",
+      ref_id: "o-1",
+      ref_type: "order",
+      last_run_id: "run-1",
+      runs_count: 1,
+    });
+    await insertRow(env, "workflow_runs", {
+      id: "run-1",
+      tenant_id: "default",
+      workflow_id: workflowId,
+      status: "Errored",
+      ref_id: "o-1",
+      ref_type: "order",
+      input_params: JSON.stringify({ amount: 10, currency: "EUR" }),
+      metadata: JSON.stringify({ source: "checkout" }),
+    });
+  });
+
+  it("reruns with the stored input and the overrides merged on top", async () => {
+    const response = await rerun("run-1", { amount: 12 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      success: true,
+      rerunOf: "run-1",
+      ref_id: "o-1",
+      ref_type: "order",
+    });
+
+    const { workflowId: newRunId } = response.body;
+    expect(create).toHaveBeenCalledWith({
+      id: newRunId,
+      payload: {
+        amount: 12,
+        currency: "EUR",
+        ref_id: "o-1",
+        ref_type: "order",
+      },
+    });
+
+    const newRun = await getRun(newRunId);
+    expect(newRun).toMatchObject({
+      status: "Pending",
+      rerun_of: "run-1",
+      workflow_id: workflowId,
+      metadata: JSON.stringify({ source: "checkout" }),
+    });
+    expect(JSON.parse(newRun.input_params as string)).toEqual({
+      amount: 12,
+      currency: "EUR",
+    });
+
+    expect(await getWorkflow()).toMatchObject({
+      status: "Running",
+      last_run_id: newRunId,
+      runs_count: 2,
+    });
+  });
+
+  it("only reruns errored and cancelled runs", async () => {
+    await env.DB.prepare(
+      "UPDATE workflow_runs SET status = 'Completed' WHERE id = 'run-1'",
+    ).run();
+
+    const response = await rerun("run-1");
+
+    expect(response.status).toBe(409);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("reports unknown runs as not found", async () => {
+    expect((await rerun("run-2")).status).toBe(404);
+  });
+
+  it("marks the new run and its workflow errored when dispatch fails", async () => {
+    create.mockRejectedValue(new Error("Workflows is unavailable"));
+
+    const response = await rerun("run-1");
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe("Workflows is unavailable");
+
+    const runs = await env.DB.prepare(
+      "SELECT * FROM workflow_runs WHERE rerun_of = 'run-1'",
+    ).all();
+    expect(runs.results).toHaveLength(1);
+    expect(runs.results[0].status).toBe("Errored");
+    expect(runs.results[0].completed_at).toBeTruthy();
+
+    expect(await getWorkflow()).toMatchObject({
+      status: "Errored",
+      last_run_id: runs.results[0].id,
+      runs_count: 2,
+    });
+  });
+});
@@ -0,0 +1,246 @@
+// test/service/rest.test.ts
+import {
+  createTestEnv,
+  insertRow,
+  TEST_API_KEY,
+  TestEnv,
+} from "../helpers/env";
+import { createTestContext, createTestService } from "../helpers/service";
+
+describe("REST API", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  /**
+   * Call a REST route with the test API key as a bearer token
+   */
+  const callRest = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {
+      Authorization: `Bearer ${TEST_API_KEY}`,
+    },
+  ) => {
+    const response: Response = await service.fetch(
+      new Request(`https://flowflare.test${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body:
+          body === undefined
+            ? undefined
+            : typeof body === "string"
+              ? body
+              : JSON.stringify(body),
+      }),
+      env,
+      createTestContext(),
+    );
+
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: (await response.json()) as any,
+    };
+  };
+
+  /**
+   * Body of the service request a REST request was forwarded as
+   */
+  const forwardedPayload = async (path: string) => {
+    const handleServiceRequest = service.handleServiceRequest;
+    const forwarded: Request[] = [];
+    jest.spyOn(service, "handleServiceRequest").mockImplementation(function (
+      this: any,
+      request: any,
+      ...rest: any[]
+    ) {
+      forwarded.push(request.clone());
+      return handleServiceRequest.call(this, request, ...rest);
+    });
+
+    await callRest("GET", path);
+
+    return {
+      path: new URL(forwarded[0].url).pathname,
+      payload: await forwarded[0].json(),
+    };
+  };
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    const workflowId = await insertRow(env, "workflow", {
+      tenant_id: "default",
+      name: "orders",
+    });
+
+    for (const [id, createdAt] of [
+      ["run-1", "2024-01-01T00:00:00.000Z"],
+      ["run/2", "2024-01-02T00:00:00.000Z"],
+    ]) {
+      await insertRow(env, "workflow_runs", {
+        id,
+        tenant_id: "default",
+        workflow_id: workflowId,
+        status: "Completed",
+        ref_type: "order",
+        created_at: createdAt,
+        metadata: JSON.stringify({ region: "eu", priority: 2 }),
+      });
+    }
+  });
+
+  describe("routes", () => {
+    it("lists runs with the data and meta envelope", async () => {
+      const response = await callRest("GET", "/v1/runs?includeTotal=true");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((run: any) => run.id)).toEqual([
+        "run/2",
+        "run-1",
+      ]);
+      expect(response.body.meta).toEqual({ nextCursor: null, totalCount: 2 });
+    });
+
+    it("decodes path parameters", async () => {
+      const response = await callRest("GET", "/v1/runs/run%2F2");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        id: "run/2",
+        workflow_type: "orders",
+        steps: [],
+      });
+    });
+
+    it("accepts the API key header as well as a bearer token", async () => {
+      const response = await callRest("GET", "/v1/runs/run-1", undefined, {
+        "X-API-Key": TEST_API_KEY,
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("wraps errors in the error envelope", async () => {
+      expect(await callRest("GET", "/v1/runs/run-3")).toMatchObject({
+        status: 404,
+        body: { error: { code: "not_found" } },
+      });
+      expect(await callRest("GET", "/v1/runs", undefined, {})).toMatchObject({
+        status: 401,
+        body: { error: { code: "unauthorized", message: "Unauthorized" } },
+      });
+      expect(
+        await callRest("POST", "/v1/schedules", "{not json"),
+      ).toMatchObject({
+        status: 400,
+        body: {
+          error: {
+            code: "invalid_request",
+            message: "Request body must be valid JSON",
+          },
+        },
+      });
+    });
+
+    it("rejects unknown paths and methods", async () => {
+      expect(await callRest("GET", "/v1/nothing")).toMatchObject({
+        status: 404,
+        body: { error: { message: "Unknown endpoint: /v1/nothing" } },
+      });
+
+      const response = await callRest("PUT", "/v1/runs/run-1");
+      expect(response.status).toBe(405);
+      expect(response.body.error.code).toBe("method_not_allowed");
+
+      const allowed = await callRest("PUT", "/v1/schedules/1");
+      expect(allowed.headers.get("Allow")).toBe("GET, PATCH, DELETE");
+    });
+
+    it("serves the OpenAPI document", async () => {
+      const response = await callRest("GET", "/v1/openapi.json");
+
+      expect(response.status).toBe(200);
+      expect(response.body.paths["/v1/runs"].get.operationId).toBe("listRuns");
+    });
+  });
+
+  describe("query parameters", () => {
+    it("coerces values to their declared types", async () => {
+      expect(
+        await forwardedPayload(
+          "/v1/runs?workflowType=orders,refunds&workflowType=+invoices&status=Completed&limit=5&minDurationMs=1000&includeTotal=false",
+        ),
+      ).toEqual({
+        path: "/service/list-workflows",
+        payload: {
+          workflowType: ["orders", "refunds", "invoices"],
+          status: ["Completed"],
+          limit: 5,
+          minDurationMs: 1000,
+          includeTotal: false,
+        },
+      });
+    });
+
+    it("keeps the last of repeated scalar values", async () => {
+      const { payload } = await forwardedPayload(
+        "/v1/runs?limit=5&limit=10&ref_type=order&ref_type=refund",
+      );
+
+      expect(payload).toEqual({ limit: 10, ref_type: "refund" });
+    });
+
+    it("matches JSON fields of runs by path", async () => {
+      const { payload } = await forwardedPayload(
+        '/v1/runs?metadata.region=eu&metadata.priority=2&input_params.order.id="42"&input_params.note=null',
+      );
+
+      expect(payload).toEqual({
+        metadata: { region: "eu", priority: 2 },
+        input_params: { "order.id": "42", note: null },
+      });
+
+      const response = await callRest(
+        "GET",
+        "/v1/runs?metadata.region=eu&metadata.priority=3",
+      );
+      expect(response.body.data).toEqual([]);
+    });
+
+    it("merges path parameters into the payload", async () => {
+      expect(
+        await forwardedPayload("/v1/workflows/orders/versions?versions=v1,v2"),
+      ).toEqual({
+        path: "/service/compare-versions",
+        payload: { versions: ["v1", "v2"], workflowType: "orders" },
+      });
+    });
+
+    it.each([
+      ["/v1/runs?limt=5", "Unknown query parameter: limt"],
+      ["/v1/runs?metadata=eu", "Unknown query parameter: metadata"],
+      [
+        "/v1/stats?metadata.region=eu",
+        "Unknown query parameter: metadata.region",
+      ],
+      ["/v1/runs/run-1?include=none", "Unknown query parameter: include"],
+      ["/v1/runs?limit=ten", "limit must be a integer"],
+      ["/v1/runs?limit=", "limit must be a integer"],
+      ["/v1/runs?minDurationMs=1.5", "minDurationMs must be a integer"],
+      ["/v1/runs?includeTotal=yes", "includeTotal must be true or false"],
+    ])("rejects %s", async (path, message) => {
+      const handleServiceRequest = jest.spyOn(service, "handleServiceRequest");
+
+      const response = await callRest("GET", path);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: { code: "invalid_request", message },
+      });
+      expect(handleServiceRequest).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// test/service/schedules.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import {
+  callService,
+  createTestContext,
+  createTestService,
+} from "../helpers/service";
+
+describe("schedules", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  const createSchedule = (schedule: Record<string, any>) =>
+    callService(service, env, "/service/schedules/create", {
+      schedule: {
+        workflowType: "reports",
+        ref_id: "daily",
+        ref_type: "report",
+        ...schedule,
+      },
+    });
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService({ maxScheduleCatchUpRuns: 3 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects a cron expression that never fires", async () => {
+    const response = await createSchedule({ cron: "0 0 31 2 *" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      "Cron expression does not fire within the next five years",
+    );
+  });
+
+  it("rejects a never-firing cron expression on update", async () => {
+    const created = await createSchedule({ cron: "@daily" });
+
+    const response = await callService(
+      service,
+      env,
+      "/service/schedules/update",
+      { id: created.body.schedule.id, schedule: { cron: "0 0 30 2 *" } },
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      "Cron expression does not fire within the next five years",
+    );
+  });
+
+  it("starts only the latest missed fire times of a long-overdue schedule", async () => {
+    const created = await createSchedule({ cron: "* * * * *", catchUp: "all" });
+    const id = created.body.schedule.id;
+
+    // Overdue by a year of per-minute fire times
+    await env.DB.prepare(
+      "UPDATE workflow_schedules SET next_run_at = ? WHERE id = ?",
+    )
+      .bind("2023-06-01T12:00:00.000Z", id)
+      .run();
+
+    const summary = await service.runDueSchedules(
+      new Date("2024-06-01T12:00:30Z"),
+      env,
+    );
+
+    expect(summary).toEqual({ schedules: 1, started: 3, failed: 0 });
+
+    const runs = await env.DB.prepare(
+      "SELECT json_extract(metadata, '$.scheduledFor') AS scheduled_for FROM workflow_runs ORDER BY scheduled_for",
+    ).all();
+    expect(runs.results.map((run) => run.scheduled_for)).toEqual([
+      "2024-06-01T11:58:00.000Z",
+      "2024-06-01T11:59:00.000Z",
+      "2024-06-01T12:00:00.000Z",
+    ]);
+
+    const schedule = await env.DB.prepare(
+      "SELECT next_run_at, last_run_at FROM workflow_schedules WHERE id = ?",
+    )
+      .bind(id)
+      .first();
+    expect(schedule).toEqual({
+      next_run_at: "2024-06-01T12:01:00.000Z",
+      last_run_at: "2024-06-01T12:00:00.000Z",
+    });
+  });
+
+  it.each([
+    ["latest", ["2024-06-01T09:00:00.000Z"]],
+    ["skip", []],
+  ])("applies the %s catch-up policy", async (catchUp, scheduledFor) => {
+    const created = await createSchedule({ cron: "0 * * * *", catchUp });
+
+    await env.DB.prepare(
+      "UPDATE workflow_schedules SET next_run_at = ? WHERE id = ?",
+    )
+      .bind("2024-06-01T06:00:00.000Z", created.body.schedule.id)
+      .run();
+
+    await service.runDueSchedules(new Date("2024-06-01T09:30:00Z"), env);
+
+    const runs = await env.DB.prepare(
+      "SELECT json_extract(metadata, '$.scheduledFor') AS scheduled_for FROM workflow_runs",
+    ).all();
+    expect(runs.results.map((run) => run.scheduled_for)).toEqual(scheduledFor);
+  });
+
+  it("purges expired runs when starting schedules fails", async () => {
+    service = createTestService({ retention: { Completed: 30 } });
+    jest
+      .spyOn(service, "runDueSchedules")
+      .mockRejectedValue(new Error("schedules unavailable"));
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const workflowId = await insertRow(env, "workflow", { name: "reports" });
+    await insertRow(env, "workflow_runs", {
+      id: "run-expired",
+      workflow_id: workflowId,
+      status: "Completed",
+      completed_at: new Date(Date.now() - 60 * 86400000).toISOString(),
+    });
+
+    const ctx = createTestContext();
+    await service.scheduled(
+      { scheduledTime: Date.now(), cron: "* * * * *", noRetry: () => {} },
+      env,
+      ctx,
+    );
+    await ctx.settle();
+
+    expect(error).toHaveBeenCalledWith(
+      "Scheduled run error:",
+      expect.objectContaining({ message: "schedules unavailable" }),
+    );
+    expect(
+      await env.DB.prepare("SELECT id FROM workflow_runs").all(),
+    ).toMatchObject({ results: [] });
+
+    // The purge is only logged with debug
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it("only logs routine cron ticks with debug", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const tick = async () => {
+      const ctx = createTestContext();
+      await service.scheduled(
+        { scheduledTime: Date.now(), cron: "* * * * *", noRetry: () => {} },
+        env,
+        ctx,
+      );
+      await ctx.settle();
+    };
+
+    await createSchedule({ cron: "* * * * *" });
+    await tick();
+
+    expect(error).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+
+    service = createTestService({ debug: true });
+    await tick();
+
+    expect(error).not.toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith(
+      "Scheduled run result:",
+      expect.objectContaining({ failed: 0 }),
+    );
+  });
+});
@@ -0,0 +1,274 @@
+// test/service/stats.test.ts
+import { createApiKey } from "../../src/service/keys";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse("2024-01-01T00:00:00.000Z");
+
+const at = (ms: number) => new Date(START + ms).toISOString();
+
+describe("workflow stats", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  const getStats = (
+    filters: Record<string, any> = {},
+    headers: Record<string, string> = {},
+  ) =>
+    callService(
+      service,
+      env,
+      "/service/stats",
+      {
+        since: "2024-01-01T00:00:00.000Z",
+        until: "2024-01-03T00:00:00.000Z",
+        ...filters,
+      },
+      headers,
+    );
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    const orders = await insertRow(env, "workflow", { name: "orders" });
+    const refunds = await insertRow(env, "workflow", { name: "refunds" });
+
+    // Ten finished orders taking 1 to 10 seconds: six on the first day,
+    // then two errored and one cancelled among the four on the second
+    for (let index = 0; index < 10; index++) {
+      const createdAt = (index < 6 ? 0 : DAY) + index * 60 * 1000;
+
+      // The first run waited a minute for its dispatch, which doesn't count
+      const startedAt = index === 0 ? createdAt + 60 * 1000 : createdAt;
+
+      await insertRow(env, "workflow_runs", {
+        id: `order-${index}`,
+        workflow_id: orders,
+        status: index < 7 ? "Completed" : index < 9 ? "Errored" : "Cancelled",
+        ref_type: index === 9 ? "internal" : "order",
+        created_at: at(createdAt),
+        dispatched_at: index === 0 ? at(startedAt) : null,
+        completed_at: at(startedAt + (index + 1) * 1000),
+      });
+    }
+
+    await insertRow(env, "workflow_runs", {
+      id: "order-running",
+      workflow_id: orders,
+      status: "Running",
+      ref_type: "order",
+      created_at: at(DAY + 12 * 60 * 60 * 1000),
+    });
+    await insertRow(env, "workflow_runs", {
+      id: "refund-running",
+      workflow_id: refunds,
+      status: "Running",
+      ref_type: "refund",
+      created_at: at(60 * 60 * 1000),
+    });
+
+    // Runs outside the window and of other tenants aren't counted
+    await insertRow(env, "workflow_runs", {
+      id: "order-old",
+      workflow_id: orders,
+      status: "Errored",
+      created_at: at(-1000),
+      completed_at: at(0),
+    });
+    const globex = await insertRow(env, "workflow", {
+      tenant_id: "globex",
+      name: "orders",
+    });
+    await insertRow(env, "workflow_runs", {
+      id: "order-globex",
+      tenant_id: "globex",
+      workflow_id: globex,
+      status: "Errored",
+      created_at: at(1000),
+      completed_at: at(2000),
+    });
+
+    const steps: [string, string, number, string, number][] = [
+      ["order-0", "charge", 0, "Completed", 1000],
+      ["order-1", "charge", 0, "Failed", 3000],
+      ["order-0", "ship", 1, "Completed", 2000],
+    ];
+    for (const [runId, stepName, stepIndex, status, duration] of steps) {
+      const stepId = await insertRow(env, "workflow_steps", {
+        workflow_run_id: runId,
+        step_name: stepName,
+        step_index: stepIndex,
+        status,
+        started_at: at(0),
+        completed_at: at(duration),
+      });
+
+      if (status === "Failed") {
+        for (const retryCount of [1, 2]) {
+          await insertRow(env, "workflow_step_retries", {
+            workflow_step_id: stepId,
+            retry_count: retryCount,
+            retry_at: at(retryCount * 1000),
+          });
+        }
+      }
+    }
+  });
+
+  it("counts runs per workflow type in the window", async () => {
+    const response = await getStats();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      since: "2024-01-01T00:00:00.000Z",
+      until: "2024-01-03T00:00:00.000Z",
+      bucket: "day",
+    });
+
+    const [orders, refunds] = response.body.workflowTypes;
+    expect(orders).toMatchObject({
+      workflowType: "orders",
+      total: 11,
+      completed: 7,
+      errored: 2,
+      cancelled: 1,
+      active: 1,
+    });
+    expect(refunds).toMatchObject({
+      workflowType: "refunds",
+      total: 1,
+      active: 1,
+    });
+  });
+
+  it("computes failure rates over completed and errored runs", async () => {
+    const [orders, refunds] = (await getStats()).body.workflowTypes;
+
+    expect(orders.success_rate).toBeCloseTo(7 / 9);
+    expect(orders.error_rate).toBeCloseTo(2 / 9);
+
+    // Nothing has finished yet
+    expect(refunds.success_rate).toBeNull();
+    expect(refunds.error_rate).toBeNull();
+  });
+
+  it("picks duration percentiles by nearest rank, timed from dispatch", async () => {
+    const [orders, refunds] = (await getStats()).body.workflowTypes;
+
+    expect(orders).toMatchObject({
+      p50_duration_ms: 5000,
+      p95_duration_ms: 10000,
+      p99_duration_ms: 10000,
+    });
+    expect(refunds).toMatchObject({
+      p50_duration_ms: null,
+      p95_duration_ms: null,
+      p99_duration_ms: null,
+    });
+  });
+
+  it("reports steps in order with their durations and retries", async () => {
+    const [orders] = (await getStats()).body.workflowTypes;
+
+    expect(orders.avg_retries).toBeCloseTo(2 / 11);
+    expect(orders.steps).toEqual([
+      {
+        step_name: "charge",
+        total: 2,
+        completed: 1,
+        failed: 1,
+        p50_duration_ms: 1000,
+        p95_duration_ms: 3000,
+        p99_duration_ms: 3000,
+        avg_retries: 1,
+      },
+      {
+        step_name: "ship",
+        total: 1,
+        completed: 1,
+        failed: 0,
+        p50_duration_ms: 2000,
+        p95_duration_ms: 2000,
+        p99_duration_ms: 2000,
+        avg_retries: 0,
+      },
+    ]);
+  });
+
+  it("counts runs per day or hour", async () => {
+    const [orders] = (await getStats()).body.workflowTypes;
+
+    expect(orders.buckets).toEqual([
+      {
+        start: "2024-01-01T00:00:00Z",
+        total: 6,
+        completed: 6,
+        errored: 0,
+        cancelled: 0,
+      },
+      {
+        start: "2024-01-02T00:00:00Z",
+        total: 5,
+        completed: 1,
+        errored: 2,
+        cancelled: 1,
+      },
+    ]);
+
+    const hourly = await getStats({
+      workflowType: "orders",
+      bucket: "hour",
+    });
+    expect(hourly.body.workflowTypes).toHaveLength(1);
+    expect(
+      hourly.body.workflowTypes[0].buckets.map((bucket: any) => [
+        bucket.start,
+        bucket.total,
+      ]),
+    ).toEqual([
+      ["2024-01-01T00:00:00Z", 6],
+      ["2024-01-02T00:00:00Z", 4],
+      ["2024-01-02T12:00:00Z", 1],
+    ]);
+  });
+
+  it("only counts runs the key may access", async () => {
+    const { key } = await createApiKey(
+      {
+        name: "orders-reader",
+        scopes: ["read"],
+        workflowTypes: ["orders"],
+        refTypes: ["order"],
+      },
+      env,
+    );
+
+    const response = await getStats({}, { "X-API-Key": key });
+
+    expect(response.body.workflowTypes).toHaveLength(1);
+    expect(response.body.workflowTypes[0]).toMatchObject({
+      workflowType: "orders",
+      total: 10,
+      cancelled: 0,
+    });
+    expect(
+      (await getStats({ workflowType: "refunds" }, { "X-API-Key": key }))
+        .status,
+    ).toBe(403);
+  });
+
+  it("rejects invalid filters", async () => {
+    for (const [filters, error] of [
+      [{ bucket: "week" }, "bucket must be one of: hour, day"],
+      [{ since: "last week" }, "since must be a valid timestamp"],
+      [{ since: "2024-01-03T00:00:00.000Z" }, "since must be before until"],
+    ] as const) {
+      const response = await getStats(filters);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(error);
+    }
+  });
+});
@@ -0,0 +1,129 @@
+// test/service/subscriptions.test.ts
+import { ServiceError } from "../../src/service/errors";
+import {
+  matchesSubscriptions,
+  needsRunDetails,
+  normalizeSubscription,
+  subscriptionKey,
+  UpdateRunContext,
+} from "../../src/service/subscriptions";
+
+describe("tracker subscriptions", () => {
+  describe("normalizeSubscription", () => {
+    it("keeps known fields and drops empty ones", () => {
+      expect(
+        normalizeSubscription({
+          workflowType: "orders",
+          ref_id: "o-1",
+          ref_type: null,
+          status: undefined,
+        }),
+      ).toEqual({ workflowType: "orders", ref_id: "o-1" });
+    });
+
+    it("rejects values that aren't objects", () => {
+      for (const subscription of [null, "orders", 1, ["orders"]]) {
+        expect(() => normalizeSubscription(subscription)).toThrow(
+          "subscription must be an object",
+        );
+      }
+    });
+
+    it("rejects unknown fields", () => {
+      expect(() =>
+        normalizeSubscription({ workflowType: "orders", tenant_id: "acme" }),
+      ).toThrow("Unknown subscription field: tenant_id");
+      expect(() =>
+        normalizeSubscription(JSON.parse('{"__proto__": {"runId": "run-1"}}')),
+      ).toThrow(ServiceError);
+    });
+
+    it("rejects values that aren't non-empty strings", () => {
+      for (const runId of ["", 1, true, { id: "run-1" }]) {
+        expect(() => normalizeSubscription({ runId })).toThrow(
+          "runId must be a non-empty string",
+        );
+      }
+    });
+  });
+
+  describe("subscriptionKey", () => {
+    it("doesn't depend on field order", () => {
+      expect(subscriptionKey({ ref_id: "o-1", workflowType: "orders" })).toBe(
+        subscriptionKey({ workflowType: "orders", ref_id: "o-1" }),
+      );
+    });
+
+    it("tells subscriptions with the same values in other fields apart", () => {
+      expect(subscriptionKey({ ref_id: "orders" })).not.toBe(
+        subscriptionKey({ workflowType: "orders" }),
+      );
+      expect(subscriptionKey({})).not.toBe(subscriptionKey({ runId: "run-1" }));
+    });
+  });
+
+  describe("matchesSubscriptions", () => {
+    const context: UpdateRunContext = {
+      runId: "run-1",
+      workflowType: "orders",
+      ref_id: "o-1",
+      ref_type: "order",
+      status: "Running",
+    };
+
+    it("matches when every field of a subscription matches", () => {
+      expect(
+        matchesSubscriptions(
+          [{ workflowType: "orders", ref_id: "o-1", status: "Running" }],
+          context,
+        ),
+      ).toBe(true);
+      expect(
+        matchesSubscriptions(
+          [{ workflowType: "orders", ref_id: "o-2" }],
+          context,
+        ),
+      ).toBe(false);
+    });
+
+    it("matches when any subscription matches", () => {
+      expect(
+        matchesSubscriptions(
+          [{ runId: "run-2" }, { status: "Running" }],
+          context,
+        ),
+      ).toBe(true);
+      expect(
+        matchesSubscriptions(
+          [{ runId: "run-2" }, { status: "Completed" }],
+          context,
+        ),
+      ).toBe(false);
+    });
+
+    it("matches everything with an empty subscription and nothing without subscriptions", () => {
+      expect(matchesSubscriptions([{}], context)).toBe(true);
+      expect(matchesSubscriptions([], context)).toBe(false);
+    });
+
+    it("doesn't match filters on fields the update didn't load", () => {
+      expect(
+        matchesSubscriptions([{ workflowType: "orders" }], { runId: "run-1" }),
+      ).toBe(false);
+      expect(
+        matchesSubscriptions([{ runId: "run-1" }], { runId: "run-1" }),
+      ).toBe(true);
+    });
+  });
+
+  describe("needsRunDetails", () => {
+    it("is only needed for filters other than the run ID", () => {
+      expect(needsRunDetails([])).toBe(false);
+      expect(needsRunDetails([{}, { runId: "run-1" }])).toBe(false);
+      expect(needsRunDetails([{ runId: "run-1" }, { ref_type: "order" }])).toBe(
+        true,
+      );
+      expect(needsRunDetails([{ status: "Completed" }])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// test/service/tracker.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+import { createTestState } from "../helpers/tracker";
+import { WorkflowTracker } from "../../src/service/tracker";
+
+describe("tracker queries", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    const workflowId = await insertRow(env, "workflow", { name: "orders" });
+    await insertRow(env, "workflow_runs", {
+      id: "run-1",
+      workflow_id: workflowId,
+      status: "Running",
+    });
+  });
+
+  const breakDatabase = () => env.DB.sqlite.exec("DROP TABLE workflow_steps");
+
+  it("returns a page of runs", async () => {
+    const tracker = new WorkflowTracker(createTestState(), env);
+
+    const page = await tracker.queryWorkflowsPage({});
+
+    expect(page.data.map((run) => run.id)).toEqual(["run-1"]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("passes D1 errors on instead of returning an empty page", async () => {
+    const tracker = new WorkflowTracker(createTestState(), env);
+    breakDatabase();
+
+    await expect(tracker.queryWorkflowsPage({})).rejects.toThrow(
+      "no such table: workflow_steps",
+    );
+    await expect(
+      tracker.queryWorkflowsPage({ workflowId: "run-1" }),
+    ).rejects.toThrow("no such table: workflow_steps");
+  });
+
+  it.each(["/service/list-workflows", "/service/get-workflow"])(
+    "returns a 500 from %s when D1 fails",
+    async (path) => {
+      breakDatabase();
+
+      const response = await callService(service, env, path, {
+        workflowId: "run-1",
+      });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({
+        success: false,
+        error: "no such table: workflow_steps",
+      });
+    },
+  );
+
+  it("tells a run that doesn't exist from a failed query", async () => {
+    const response = await callService(service, env, "/service/get-workflow", {
+      workflowId: "run-missing",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, workflow: null });
+  });
+});
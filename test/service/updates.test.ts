@@ -0,0 +1,312 @@
+// test/service/updates.test.ts
+import { createApiKey } from "../../src/service/keys";
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signTrackerUpdate,
+} from "../../src/utils/signing";
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("tracker updates", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+  let acmeKey: string;
+  let acmeWorkflowId: number;
+  let globexWorkflowId: number;
+  let acmeStepId: number;
+  let globexStepId: number;
+
+  const sendUpdate = (type: string, data: Record<string, any>) =>
+    callService(
+      service,
+      env,
+      "/api/workflows/update",
+      { type, [type]: data },
+      { "X-API-Key": acmeKey },
+    );
+
+  const getRun = (id: string) =>
+    env.DB.prepare("SELECT * FROM workflow_runs WHERE id = ?").bind(id).first();
+
+  const countRows = (table: string) =>
+    env.DB.prepare(`SELECT COUNT(*) AS count FROM ${table}`).first("count");
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    ({ key: acmeKey } = await createApiKey(
+      { name: "acme-workflows", scopes: ["track"], tenantId: "acme" },
+      env,
+    ));
+
+    acmeWorkflowId = await insertRow(env, "workflow", {
+      tenant_id: "acme",
+      name: "orders",
+    });
+    globexWorkflowId = await insertRow(env, "workflow", {
+      tenant_id: "globex",
+      name: "orders",
+    });
+
+    for (const [id, tenant_id, workflow_id] of [
+      ["run-acme", "acme", acmeWorkflowId],
+      ["run-globex", "globex", globexWorkflowId],
+    ] as const) {
+      await insertRow(env, "workflow_runs", {
+        id,
+        tenant_id,
+        workflow_id,
+        status: "Running",
+      });
+    }
+
+    acmeStepId = await insertRow(env, "workflow_steps", {
+      tenant_id: "acme",
+      workflow_run_id: "run-acme",
+      step_name: "charge",
+      status: "Running",
+      step_index: 0,
+    });
+    globexStepId = await insertRow(env, "workflow_steps", {
+      tenant_id: "globex",
+      workflow_run_id: "run-globex",
+      step_name: "charge",
+      status: "Running",
+      step_index: 0,
+    });
+  });
+
+  describe("run_update", () => {
+    it("doesn't insert runs into another tenant's workflow", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-new",
+        workflow_id: globexWorkflowId,
+        status: "Running",
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Workflow not found");
+      expect(await getRun("run-new")).toBeNull();
+    });
+
+    it("keeps new runs in the caller's tenant", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-new",
+        workflow_id: acmeWorkflowId,
+        status: "Running",
+        tenant_id: "globex",
+        " tenant_id": "globex",
+      });
+
+      expect(response.status).toBe(200);
+      expect((await getRun("run-new")).tenant_id).toBe("acme");
+    });
+
+    it("doesn't update another tenant's run", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-globex",
+        status: "Errored",
+      });
+
+      expect(response.status).toBe(404);
+      expect((await getRun("run-globex")).status).toBe("Running");
+    });
+
+    it("doesn't move a run to another tenant's workflow", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-acme",
+        workflow_id: globexWorkflowId,
+      });
+
+      expect(response.status).toBe(404);
+      expect((await getRun("run-acme")).workflow_id).toBe(acmeWorkflowId);
+    });
+
+    it("only writes the columns workflow code reports", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-acme",
+        status: "Completed",
+        archive_key: "runs/globex/run-globex.json.gz",
+        rerun_of: "run-globex",
+      });
+
+      expect(response.status).toBe(200);
+      expect(await getRun("run-acme")).toMatchObject({
+        status: "Completed",
+        archive_key: null,
+        rerun_of: null,
+      });
+    });
+  });
+
+  describe("step_update", () => {
+    it("doesn't add steps to another tenant's run", async () => {
+      const response = await sendUpdate("step_update", {
+        workflow_run_id: "run-globex",
+        step_name: "ship",
+        status: "Running",
+        step_index: 1,
+      });
+
+      expect(response.status).toBe(404);
+      expect(await countRows("workflow_steps")).toBe(2);
+    });
+
+    it("doesn't update another tenant's step", async () => {
+      const response = await sendUpdate("step_update", {
+        id: globexStepId,
+        status: "Failed",
+      });
+
+      expect(response.status).toBe(404);
+      expect(
+        await env.DB.prepare("SELECT status FROM workflow_steps WHERE id = ?")
+          .bind(globexStepId)
+          .first("status"),
+      ).toBe("Running");
+    });
+
+    it("doesn't move a step to another tenant's run", async () => {
+      const response = await sendUpdate("step_update", {
+        id: acmeStepId,
+        workflow_run_id: "run-globex",
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("records steps of the caller's runs", async () => {
+      const response = await sendUpdate("step_update", {
+        workflow_instance_id: "run-acme",
+        step_name: "ship",
+        status: "Running",
+        step_index: 1,
+        " tenant_id": "globex",
+      });
+
+      expect(response.status).toBe(200);
+      expect(
+        await env.DB.prepare(
+          "SELECT tenant_id, workflow_run_id FROM workflow_steps WHERE id = ?",
+        )
+          .bind(response.body.result.id)
+          .first(),
+      ).toEqual({ tenant_id: "acme", workflow_run_id: "run-acme" });
+    });
+  });
+
+  describe("retry_update", () => {
+    const retry = {
+      retry_count: 1,
+      retry_at: "2024-01-01T00:00:00.000Z",
+      last_error: "card declined",
+    };
+
+    it("requires a workflow_step_id", async () => {
+      const response = await sendUpdate("retry_update", retry);
+
+      expect(response.status).toBe(400);
+      expect(await countRows("workflow_step_retries")).toBe(0);
+    });
+
+    it("doesn't record retries of another tenant's step", async () => {
+      const response = await sendUpdate("retry_update", {
+        ...retry,
+        workflow_step_id: globexStepId,
+      });
+
+      expect(response.status).toBe(404);
+      expect(await countRows("workflow_step_retries")).toBe(0);
+    });
+
+    it("records retries of the caller's steps", async () => {
+      const response = await sendUpdate("retry_update", {
+        ...retry,
+        workflow_step_id: acmeStepId,
+      });
+
+      expect(response.status).toBe(200);
+      expect(await countRows("workflow_step_retries")).toBe(1);
+    });
+  });
+
+  describe("signed updates", () => {
+    const SIGNING_SECRET = "signing-secret";
+    let nonce = 0;
+
+    const sendSignedUpdate = async (
+      data: Record<string, any>,
+      headers: Record<string, string> = { "X-API-Key": acmeKey },
+    ) => {
+      const body = { type: "run_update", run_update: data };
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const updateNonce = `nonce-${++nonce}`;
+
+      return callService(service, env, "/api/workflows/update", body, {
+        [TIMESTAMP_HEADER]: timestamp,
+        [NONCE_HEADER]: updateNonce,
+        [SIGNATURE_HEADER]: await signTrackerUpdate(
+          SIGNING_SECRET,
+          timestamp,
+          updateNonce,
+          JSON.stringify(body),
+        ),
+        ...headers,
+      });
+    };
+
+    beforeEach(() => {
+      env.TRACKER_SIGNING_SECRET = SIGNING_SECRET;
+    });
+
+    it("accepts signed updates from the caller's tenant", async () => {
+      const response = await sendSignedUpdate({
+        id: "run-acme",
+        status: "Completed",
+      });
+
+      expect(response.status).toBe(200);
+      expect((await getRun("run-acme")).status).toBe("Completed");
+    });
+
+    it("still needs credentials with the track scope", async () => {
+      const response = await sendSignedUpdate(
+        { id: "run-acme", status: "Completed" },
+        { "X-API-Key": "" },
+      );
+
+      expect(response.status).toBe(401);
+      expect((await getRun("run-acme")).status).toBe("Running");
+    });
+
+    it("doesn't update another tenant's run", async () => {
+      const response = await sendSignedUpdate({
+        id: "run-globex",
+        status: "Errored",
+      });
+
+      expect(response.status).toBe(404);
+      expect((await getRun("run-globex")).status).toBe("Running");
+    });
+
+    it("rejects unsigned updates", async () => {
+      const response = await sendUpdate("run_update", {
+        id: "run-acme",
+        status: "Completed",
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe("Tracker update is not signed");
+      expect((await getRun("run-acme")).status).toBe("Running");
+    });
+  });
+
+  it("rejects unknown update types", async () => {
+    const response = await sendUpdate("workflow_update", { id: "run-acme" });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,58 @@
+// test/service/versions.test.ts
+import { createTestEnv, insertRow, TestEnv } from "../helpers/env";
+import { callService, createTestService } from "../helpers/service";
+
+describe("compare-versions", () => {
+  let env: TestEnv;
+  let service: Record<string, any>;
+
+  const compare = (body: Record<string, any>) =>
+    callService(service, env, "/service/compare-versions", {
+      workflowType: "orders",
+      ...body,
+    });
+
+  beforeEach(async () => {
+    env = await createTestEnv();
+    service = createTestService();
+
+    const workflowId = await insertRow(env, "workflow", { name: "orders" });
+    for (const [id, version, createdAt] of [
+      ["run-1", "1.0.0", "2024-01-10T00:00:00.000Z"],
+      ["run-2", "2.0.0", "2024-02-10T00:00:00.000Z"],
+    ]) {
+      await insertRow(env, "workflow_runs", {
+        id,
+        workflow_id: workflowId,
+        status: "Completed",
+        workflow_version: version,
+        created_at: createdAt,
+      });
+    }
+  });
+
+  it.each([
+    ["since", "not a date"],
+    ["until", "2024-13-45"],
+  ])("rejects an invalid %s with a 400", async (field, value) => {
+    const response = await compare({ [field]: value });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      success: false,
+      error: `${field} must be a valid timestamp`,
+    });
+  });
+
+  it("limits the comparison to runs created in the window", async () => {
+    const response = await compare({
+      since: "2024-02-01T00:00:00Z",
+      until: "2024-03-01T00:00:00Z",
+    });
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.versions.map((version: any) => version.version),
+    ).toEqual(["2.0.0"]);
+  });
+});
@@ -0,0 +1,130 @@
+// test/utils/cron.test.ts
+import {
+  nextCronTime,
+  parseCron,
+  previousCronTime,
+} from "../../src/utils/cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCron("0,30 9-17/4 1 */3 1-5");
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1]);
+    expect([...schedule.months]).toEqual([1, 4, 7, 10]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  it("starts a single value with a step at that value", () => {
+    expect([...parseCron("45/5 * * * *").minutes]).toEqual([45, 50, 55]);
+  });
+
+  it("expands shortcuts", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(parseCron(" @Hourly ")).toEqual(parseCron("0 * * * *"));
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ["* * * *", "expected 5 fields"],
+    ["60 * * * *", "Invalid value in cron field: 60"],
+    ["* 5-2 * * *", "Invalid value in cron field: 5-2"],
+    ["*/0 * * * *", "Invalid step in cron field: */0"],
+    ["* * 0 * *", "Invalid value in cron field: 0"],
+    ["a * * * *", "Invalid value in cron field: a"],
+  ])("rejects %s", (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe("nextCronTime", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(nextCronTime("*/15 * * * *", at("2024-03-01T10:15:00Z"))).toEqual(
+      at("2024-03-01T10:30:00Z"),
+    );
+    expect(nextCronTime("*/15 * * * *", at("2024-03-01T10:14:59Z"))).toEqual(
+      at("2024-03-01T10:15:00Z"),
+    );
+  });
+
+  it("rolls over days, months and years", () => {
+    expect(nextCronTime("0 0 1 1 *", at("2024-06-15T12:00:00Z"))).toEqual(
+      at("2025-01-01T00:00:00Z"),
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 15th is a Friday; the next Monday is the 18th
+    expect(nextCronTime("0 0 13 * 1", at("2024-03-15T00:00:00Z"))).toEqual(
+      at("2024-03-18T00:00:00Z"),
+    );
+  });
+
+  it("finds leap days", () => {
+    expect(nextCronTime("0 0 29 2 *", at("2024-03-01T00:00:00Z"))).toEqual(
+      at("2028-02-29T00:00:00Z"),
+    );
+  });
+
+  it("throws for expressions that never fire", () => {
+    expect(() =>
+      nextCronTime("0 0 31 2 *", at("2024-01-01T00:00:00Z")),
+    ).toThrow("Cron expression does not fire within the next five years");
+  });
+});
+
+describe("previousCronTime", () => {
+  it("includes the given minute", () => {
+    expect(
+      previousCronTime("*/15 * * * *", at("2024-03-01T10:15:30Z")),
+    ).toEqual(at("2024-03-01T10:15:00Z"));
+  });
+
+  it("rolls back over hours, days and months", () => {
+    expect(previousCronTime("30 23 * * *", at("2024-03-01T10:00:00Z"))).toEqual(
+      at("2024-02-29T23:30:00Z"),
+    );
+    expect(previousCronTime("0 12 31 * *", at("2024-05-01T00:00:00Z"))).toEqual(
+      at("2024-03-31T12:00:00Z"),
+    );
+    expect(previousCronTime("@yearly", at("2024-06-15T12:00:00Z"))).toEqual(
+      at("2024-01-01T00:00:00Z"),
+    );
+  });
+
+  it("steps back through the times nextCronTime steps forward through", () => {
+    const expression = "5,35 */6 * * 1-5";
+    const fireTimes = [nextCronTime(expression, at("2024-03-01T00:00:00Z"))];
+    while (fireTimes.length < 20) {
+      fireTimes.push(nextCronTime(expression, fireTimes[fireTimes.length - 1]));
+    }
+
+    for (let i = 1; i < fireTimes.length; i++) {
+      const justBefore = new Date(fireTimes[i].getTime() - 60 * 1000);
+      expect(previousCronTime(expression, justBefore)).toEqual(
+        fireTimes[i - 1],
+      );
+    }
+  });
+
+  it("returns null when nothing fires in the window", () => {
+    expect(
+      previousCronTime(
+        "0 0 1 1 *",
+        at("2024-06-15T12:00:00Z"),
+        at("2024-02-01T00:00:00Z"),
+      ),
+    ).toBeNull();
+    expect(
+      previousCronTime("0 0 31 2 *", at("2024-06-15T12:00:00Z")),
+    ).toBeNull();
+  });
+});